@@ -4,6 +4,8 @@ import { createServiceRoleClient } from "@/lib/supabase/service-role"
 import { streamText, tool } from "ai"
 import { z } from "zod"
 import { getObjectsToMove } from "@/lib/group-utils"
+import { createStickyNote, DEFAULT_STICKY_COLOR, STICKY_COLORS, STICKY_SIZE } from "@/lib/sticky-utils"
+import { findStyleToken, loadStyleTokens } from "@/lib/style-token-utils"
 import { cookies } from "next/headers"
 
 export const maxDuration = 30
@@ -84,8 +86,19 @@ export async function POST(request: Request) {
       )
     }
 
+    if (typeof canvasId !== "string" || !canvasId) {
+      return NextResponse.json({ error: "canvasId is required" }, { status: 400 })
+    }
+
+    // Roles are checked with the user's own session before anything is written through the service client,
+    // which bypasses RLS; the same rule as the editor policies on canvas_objects
+    const { data: canEdit, error: roleError } = await supabase.rpc("can_edit_canvas", { p_canvas_id: canvasId })
+    if (roleError || !canEdit) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
     let queueItemId: string | null = null
-    if (canvasId && userId && userName) {
+    if (userId && userName) {
       try {
         const supabase = createServiceRoleClient()
         const { data: queueItem, error: queueError } = await supabase
@@ -114,6 +127,15 @@ export async function POST(request: Request) {
 
     // [v0] Calling AI SDK with function calling...")
 
+    // Shared swatches and text styles the AI can apply by name
+    const styleTokens = await loadStyleTokens(supabase, canvasId)
+    const styleNames = new Map(styleTokens.map((token) => [token.id, token.name]))
+    const styleContext = styleTokens.map((token) =>
+      token.kind === "color"
+        ? { name: token.name, kind: token.kind, color: token.color }
+        : { name: token.name, kind: token.kind, fontFamily: token.font_family, fontSize: token.font_size },
+    )
+
     const canvasContext = safeCurrentObjects.map((obj: any, idx: number) => {
       const objectId = (() => {
         if (typeof obj.id === "string" && obj.id.length > 0) {
@@ -158,6 +180,9 @@ export async function POST(request: Request) {
         text: obj.text_content || obj.content || "",
         locked: Boolean(obj.locked),
         visible: obj.visible !== false,
+        fillStyle: styleNames.get(obj.fill_token),
+        strokeStyle: styleNames.get(obj.stroke_token),
+        textStyle: styleNames.get(obj.text_token),
         isSelected: isSelectedFromIds || isSelectedFromPayload,
       }
     })
@@ -297,6 +322,8 @@ export async function POST(request: Request) {
 
     let operations: any[] = []
     const validationErrors: string[] = []
+    // Notes created earlier in this request, so they can be clustered before they reach the canvas
+    const createdStickyIds = new Set<string>()
     const shapeIndexSchema = z.union([z.number(), z.literal("selected")])
 
     const tools = {
@@ -391,6 +418,7 @@ export async function POST(request: Request) {
             canvasContext,
             canvasStats,
             selectedObjects: selectedContext,
+            styles: styleContext,
             availableOperations: Object.keys(tools),
           }
         },
@@ -434,6 +462,90 @@ export async function POST(request: Request) {
           }
         },
       }),
+      createStickyNotes: tool({
+        description:
+          "Create one or more sticky notes (colored squares whose text auto-fits), e.g. for brainstorming or retros. Notes are laid out in a grid.",
+        inputSchema: z.object({
+          notes: z
+            .array(
+              z.object({
+                text: z.string().describe("The note's text; keep it short"),
+                color: z
+                  .string()
+                  .optional()
+                  .describe(`Note color: ${STICKY_COLORS.map((color) => color.name.toLowerCase()).join(", ")} or a hex code`),
+              }),
+            )
+            .min(1)
+            .max(50)
+            .describe("The notes to create"),
+          x: z.number().optional().describe("Center X of the grid of notes"),
+          y: z.number().optional().describe("Center Y of the grid of notes"),
+          columns: z.number().optional().describe("Notes per row (default: about the square root of the count)"),
+        }),
+        execute: async ({ notes, x, y, columns }) => {
+          const gap = 20
+          const perRow = Math.max(1, Math.min(notes.length, Math.round(columns ?? Math.ceil(Math.sqrt(notes.length)))))
+          const rows = Math.ceil(notes.length / perRow)
+          const centerX = x !== undefined ? x : usableArea.centerX
+          const centerY = y !== undefined ? y : usableArea.centerY
+          const left = centerX - (perRow * (STICKY_SIZE + gap) - gap) / 2
+          const top = centerY - (rows * (STICKY_SIZE + gap) - gap) / 2
+
+          const created = notes.map((note, index) => {
+            const preset = STICKY_COLORS.find((color) => color.name.toLowerCase() === note.color?.toLowerCase().trim())
+            const color = preset?.value ?? normalizeColorInput(note.color, DEFAULT_STICKY_COLOR)
+            const sticky = createStickyNote(
+              canvasId,
+              {
+                x: left + (index % perRow) * (STICKY_SIZE + gap) + STICKY_SIZE / 2,
+                y: top + Math.floor(index / perRow) * (STICKY_SIZE + gap) + STICKY_SIZE / 2,
+              },
+              { text: note.text, color, createdBy: userId },
+            )
+            operations.push({ type: "create", object: sticky })
+            createdStickyIds.add(sticky.id)
+            return { id: sticky.id, text: note.text, color }
+          })
+
+          return { success: true, notes: created }
+        },
+      }),
+      clusterStickyNotes: tool({
+        description:
+          "Group existing sticky notes into labelled clusters (e.g. by theme) and arrange each cluster as a grid, clusters side by side. Use the ids from the canvas context or from createStickyNotes.",
+        inputSchema: z.object({
+          clusters: z
+            .array(
+              z.object({
+                label: z.string().optional().describe("Heading shown above the cluster"),
+                stickyIds: z.array(z.string()).min(1).describe("Ids of the sticky notes in this cluster"),
+              }),
+            )
+            .min(1)
+            .describe("The clusters, in left-to-right order"),
+          x: z.number().optional().describe("Left edge of the first cluster"),
+          y: z.number().optional().describe("Top edge of the clusters"),
+        }),
+        execute: async ({ clusters, x, y }) => {
+          const knownIds = new Set([
+            ...canvasContext.filter((obj: any) => obj.type === "sticky").map((obj: any) => obj.id),
+            ...createdStickyIds,
+          ])
+          const unknown = clusters.flatMap((cluster) => cluster.stickyIds).filter((id) => !knownIds.has(id))
+          if (unknown.length > 0) {
+            const error = `Unknown sticky note id(s): ${unknown.join(", ")}`
+            validationErrors.push(`clusterStickyNotes: ${error}`)
+            return { error }
+          }
+
+          const finalX = x !== undefined ? x : usableArea.left + 40
+          const finalY = y !== undefined ? y : usableArea.top + 40
+          operations.push({ type: "clusterStickies", clusters, x: finalX, y: finalY })
+
+          return { success: true, clusters: clusters.length, x: finalX, y: finalY }
+        },
+      }),
       createShape: tool({
         description: "Create a new shape on the canvas",
         inputSchema: z.object({
@@ -1614,6 +1726,45 @@ export async function POST(request: Request) {
         }),
         execute: async ({ shapeIdentifier, newColor, applyToAll }) => {},
       }),
+      applyStyle: tool({
+        description:
+          "Apply one of the canvas's shared named styles (colour swatches like 'Primary/500' or text styles like 'Heading text') to existing objects. Styled objects follow later edits to the style. Text styles only affect text and sticky notes.",
+        inputSchema: z.object({
+          styleName: z.string().describe("Name of the style, as listed under DOCUMENT STYLES"),
+          objectIds: z
+            .array(z.string())
+            .optional()
+            .describe("Ids of the objects to style; defaults to the selected objects"),
+          target: z
+            .enum(["fill", "stroke"])
+            .optional()
+            .describe("For colour swatches, whether to set the fill (default) or the stroke colour"),
+        }),
+        execute: async ({ styleName, objectIds, target }) => {
+          const token = findStyleToken(styleTokens, styleName)
+          if (!token) {
+            const available = styleTokens.map((candidate) => candidate.name).join(", ") || "none"
+            const error = `No style named "${styleName}". Available styles: ${available}`
+            validationErrors.push(`applyStyle: ${error}`)
+            return { error }
+          }
+
+          const ids = objectIds ?? selectedContext.map((obj: any) => obj.id)
+          const knownIds = new Set(canvasContext.map((obj: any) => obj.id))
+          const unknown = ids.filter((id) => !knownIds.has(id))
+          if (ids.length === 0 || unknown.length > 0) {
+            const error =
+              ids.length === 0
+                ? "No objects to style; select some or pass their ids"
+                : `Unknown object id(s): ${unknown.join(", ")}`
+            validationErrors.push(`applyStyle: ${error}`)
+            return { error }
+          }
+
+          operations.push({ type: "applyStyle", token, objectIds: ids, slot: target ?? "fill" })
+          return { success: true, style: token.name, objects: ids.length }
+        },
+      }),
     }
 
     const spatialReasoningPrompt = `⭐⭐⭐ SPATIAL REASONING & RELATIVE POSITIONING ⭐⭐⭐
@@ -1828,6 +1979,7 @@ CURRENT CANVAS STATE:
 Total shapes: ${canvasStats.totalShapes}
 ${canvasStats.totalShapes > 0 ? `Shape types: ${JSON.stringify(canvasStats.shapeTypes)}` : ""}
 ${canvasStats.totalShapes > 0 ? `Colors used: ${JSON.stringify(canvasStats.colorGroups)}` : ""}
+${styleContext.length > 0 ? `DOCUMENT STYLES (apply by name with applyStyle): ${JSON.stringify(styleContext)}` : ""}
 
 ${
   selectedContext.length > 0
@@ -1915,6 +2067,15 @@ AVAILABLE FUNCTIONS:
 13. createCardLayout - Create a card with media area, text, and button
 14. fetchAndAnalyzeWebsite - Fetch and analyze a website for design inspiration.
 15. createDashboard - Create a complete professional dashboard with metrics, charts, and data sections.
+16. createStickyNotes - Create sticky notes (brainstorming, retros); their text auto-fits the note
+17. clusterStickyNotes - Group sticky notes into labelled clusters by id, e.g. by theme
+18. applyStyle - Apply a named document style (e.g. "Primary/500", "Heading text") to objects by id or the selection
+
+STICKY NOTE RULES:
+- Use createStickyNotes for ideas, feedback, retro items or anything the user calls a "sticky" or "note"
+- To organise notes, read their text from the canvas context (type "sticky"), decide the themes, then call
+  clusterStickyNotes with every note's id in exactly one cluster
+- Note colors: ${STICKY_COLORS.map((color) => color.name.toLowerCase()).join(", ")}
 
 TEXT LAYER RULES:
 - Use createText to add text layers
@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server"
+import type { NextRequest } from "next/server"
+import { readFile } from "node:fs/promises"
+import path from "node:path"
+import { IMAGE_EXTENSIONS } from "@/lib/image-utils"
+import { isLocalImageStoreEnabled, LOCAL_IMAGE_DIR } from "@/lib/local-image-store"
+
+const CONTENT_TYPES = Object.fromEntries(
+  Object.entries(IMAGE_EXTENSIONS).map(([contentType, extension]) => [extension, contentType]),
+)
+
+const SEGMENT_PATTERN = /^[\w-]+(\.\w+)?$/
+
+// Serves images stored by the local-disk stand-in. Like the public bucket it
+// replaces, reads need no session, so share links can show images too.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  if (!isLocalImageStoreEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const { path: segments } = await params
+  const contentType = CONTENT_TYPES[path.extname(segments[segments.length - 1] ?? "").slice(1)]
+  if (segments.length !== 2 || !segments.every((segment) => SEGMENT_PATTERN.test(segment)) || !contentType) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  try {
+    const file = await readFile(path.join(LOCAL_IMAGE_DIR, ...segments))
+    return new NextResponse(new Uint8Array(file), {
+      headers: { "Content-Type": contentType, "Cache-Control": "public, max-age=31536000, immutable" },
+    })
+  } catch {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server"
+import { mkdir, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { createClient } from "@supabase/supabase-js"
+import { IMAGE_EXTENSIONS, MAX_IMAGE_BYTES } from "@/lib/image-utils"
+import { isLocalImageStoreEnabled, LOCAL_IMAGE_DIR } from "@/lib/local-image-store"
+
+// Local-disk stand-in for the canvas-images bucket, for development without
+// Supabase Storage. Files are served back by ./[...path]/route.ts.
+
+const CANVAS_ID_PATTERN = /^[\w-]+$/
+
+export async function POST(request: Request) {
+  if (!isLocalImageStoreEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  try {
+    const token = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "")
+    if (!token) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!, {
+      global: { headers: { Authorization: `Bearer ${token}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser(token)
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const form = await request.formData()
+    const canvasId = form.get("canvasId")
+    const file = form.get("file")
+
+    if (typeof canvasId !== "string" || !CANVAS_ID_PATTERN.test(canvasId) || !(file instanceof File)) {
+      return NextResponse.json({ error: "Invalid upload" }, { status: 400 })
+    }
+
+    const extension = IMAGE_EXTENSIONS[file.type]
+    if (!extension || file.size > MAX_IMAGE_BYTES) {
+      return NextResponse.json({ error: "Unsupported or oversized image" }, { status: 400 })
+    }
+
+    // Same rule as the storage policy on the real bucket
+    const { data: canEdit } = await supabase.rpc("can_edit_canvas", { p_canvas_id: canvasId })
+    if (!canEdit) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+    }
+
+    const fileName = `${crypto.randomUUID()}.${extension}`
+    const directory = path.join(LOCAL_IMAGE_DIR, canvasId)
+    await mkdir(directory, { recursive: true })
+    await writeFile(path.join(directory, fileName), Buffer.from(await file.arrayBuffer()))
+
+    console.log("[v0] [IMAGES] Stored local upload", `${canvasId}/${fileName}`)
+    return NextResponse.json({ url: `/api/images/${canvasId}/${fileName}` })
+  } catch (error) {
+    console.error("[v0] [IMAGES] Local upload error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import type { NextRequest } from "next/server"
+import { createServiceRoleClient } from "@/lib/supabase/service-role"
+import { resolveShareToken } from "@/lib/share-link-utils"
+
+// Public, read-only view of a canvas for holders of an active share token.
+// Middleware lets /api/share/* through without a session.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params
+
+  try {
+    const supabase = createServiceRoleClient()
+    const shared = await resolveShareToken(supabase, token)
+
+    if (!shared) {
+      console.warn("[v0] [SHARE] Invalid, expired or revoked token requested")
+      return NextResponse.json({ error: "This link is invalid, expired, or has been revoked" }, { status: 404 })
+    }
+
+    return NextResponse.json(shared, {
+      headers: { "Cache-Control": "no-store" },
+    })
+  } catch (error) {
+    console.error("[v0] [SHARE] Share API error:", error)
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 })
+  }
+}
@@ -0,0 +1,92 @@
+"use client"
+
+import { useCallback, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Canvas } from "@/components/canvas"
+import type { CanvasObject } from "@/lib/types"
+import {
+  generateBenchmarkObjects,
+  runSpatialBenchmark,
+  BENCHMARK_SIZES,
+  type BenchmarkResult,
+} from "@/lib/spatial-benchmark"
+
+const BENCHMARK_CANVAS_ID = "benchmark"
+
+function formatMs(value: number | null): string {
+  return value === null ? "–" : `${value.toFixed(value < 1 ? 3 : 1)} ms`
+}
+
+/**
+ * Benchmark harness for large boards. Runs the spatial index benchmark on a
+ * generated board, then renders the same board in a local (unsynced) canvas so
+ * pan, zoom and selection can be tried; render times are logged with `[v0] [PERF]`.
+ */
+export default function BenchmarkPage() {
+  const [objects, setObjects] = useState<CanvasObject[]>([])
+  const [results, setResults] = useState<{ count: number; results: BenchmarkResult[] } | null>(null)
+  const [running, setRunning] = useState(false)
+
+  const runBenchmark = useCallback((count: number) => {
+    setRunning(true)
+    // Let the button state paint before the main thread is busy
+    setTimeout(() => {
+      const board = generateBenchmarkObjects(count, BENCHMARK_CANVAS_ID)
+      setResults({ count, results: runSpatialBenchmark(board) })
+      setObjects(board)
+      setRunning(false)
+    }, 50)
+  }, [])
+
+  return (
+    <div className="flex h-screen flex-col gap-4 p-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Large board benchmark</CardTitle>
+          <CardDescription>
+            Times the spatial index against full scans, then loads the board below. Nothing is saved.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            {BENCHMARK_SIZES.map((count) => (
+              <Button key={count} disabled={running} onClick={() => runBenchmark(count)}>
+                {running ? "Running..." : `Run with ${count.toLocaleString()} objects`}
+              </Button>
+            ))}
+          </div>
+
+          {results && (
+            <table className="w-full max-w-2xl text-sm">
+              <thead className="text-left text-muted-foreground">
+                <tr>
+                  <th className="py-1 font-medium">{results.count.toLocaleString()} objects</th>
+                  <th className="py-1 font-medium">Indexed</th>
+                  <th className="py-1 font-medium">Full scan</th>
+                  <th className="py-1 font-medium">Matches</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.results.map((result) => (
+                  <tr key={result.name} className="border-t border-border/50">
+                    <td className="py-1">{result.name}</td>
+                    <td className="py-1 tabular-nums">{formatMs(result.indexedMs)}</td>
+                    <td className="py-1 tabular-nums">{formatMs(result.linearMs)}</td>
+                    <td className="py-1 tabular-nums">{result.matches.toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {objects.length > 0 && (
+        <div className="relative min-h-0 flex-1 overflow-hidden rounded-xl border">
+          <Canvas canvasId={BENCHMARK_CANVAS_ID} objects={objects} onObjectsChange={setObjects} />
+        </div>
+      )}
+    </div>
+  )
+}
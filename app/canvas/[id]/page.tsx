@@ -0,0 +1,648 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { createClient } from "@/lib/supabase/client"
+import { CollaborativeCanvas } from "@/components/collaborative-canvas"
+import { Toolbar } from "@/components/toolbar"
+import { AiChat } from "@/components/ai-chat"
+import { HistoryPanel } from "@/components/history-panel"
+import { PlaybackPanel } from "@/components/playback-panel"
+import { CommentsPanel } from "@/components/comments-panel"
+import type { CanvasObject } from "@/lib/types"
+import type { AlignmentType, DistributeType } from "@/lib/alignment-utils"
+import { exportCanvas } from "@/lib/export-utils"
+import { getFrameName } from "@/lib/frame-utils"
+import { AUTO_SNAPSHOT_INTERVAL_MS, saveAutoSnapshot } from "@/lib/history-utils"
+import {
+  loadComments,
+  createComment,
+  subscribeToCommentBroadcasts,
+  type Comment,
+  type CommentBroadcast,
+} from "@/lib/comments-utils"
+import { useToast } from "@/hooks/use-toast"
+import { deleteSession } from "@/lib/session-utils"
+import { useAIQueue, type AIQueueItem } from "@/hooks/use-ai-queue"
+import { SharePanel } from "@/components/share-panel"
+import {
+  loadCanvas,
+  loadCanvasRole,
+  canEditCanvas,
+  canCommentOnCanvas,
+  type CanvasRecord,
+  type CanvasRole,
+} from "@/lib/canvas-utils"
+import { loadCachedCanvas, saveCachedCanvas } from "@/lib/offline-store"
+
+export default function CanvasPage() {
+  const { id: canvasId } = useParams<{ id: string }>()
+  const [canvas, setCanvas] = useState<CanvasRecord | null>(null)
+  const [role, setRole] = useState<CanvasRole | null>(null)
+  const [showShare, setShowShare] = useState(false)
+  const [user, setUser] = useState<{ id: string; name: string } | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [aiOperations, setAiOperations] = useState<any[]>([])
+  const [lastQueueItemId, setLastQueueItemId] = useState<string | null>(null)
+  const [currentObjects, setCurrentObjects] = useState<CanvasObject[]>([])
+  const [selectedObjectIds, setSelectedObjectIds] = useState<string[]>([])
+  const [canUndo, setCanUndo] = useState(false)
+  const [canRedo, setCanRedo] = useState(false)
+  const [onUndo, setOnUndo] = useState<(() => void) | undefined>()
+  const [onRedo, setOnRedo] = useState<(() => void) | undefined>()
+  const [onAlign, setOnAlign] = useState<((type: AlignmentType) => void) | undefined>()
+  const [onDistribute, setOnDistribute] = useState<((type: DistributeType) => void) | undefined>()
+  const [onBringToFront, setOnBringToFront] = useState<(() => void) | undefined>()
+  const [onSendToBack, setOnSendToBack] = useState<(() => void) | undefined>()
+  const [onBringForward, setOnBringForward] = useState<(() => void) | undefined>()
+  const [onSendBackward, setOnSendBackward] = useState<(() => void) | undefined>()
+  const [gridEnabled, setGridEnabled] = useState(false)
+  const [snapEnabled, setSnapEnabled] = useState(false)
+  const [gridSize, setGridSize] = useState(20)
+  const [viewport, setViewport] = useState({ x: 0, y: 0, zoom: 1 })
+  const [showHistory, setShowHistory] = useState(false)
+  const [showPlayback, setShowPlayback] = useState(false)
+  const [pendingHistoryRestore, setPendingHistoryRestore] = useState<CanvasObject[] | null>(null)
+  const [lastSnapshotTime, setLastSnapshotTime] = useState(Date.now())
+  const [commentMode, setCommentMode] = useState(false)
+  const [comments, setComments] = useState<Comment[]>([])
+  const [lassoMode, setLassoMode] = useState(false)
+  const [onSelectAllOfType, setOnSelectAllOfType] = useState<(() => void) | undefined>()
+
+  const [presencePanelCollapsed, setPresencePanelCollapsed] = useState(false)
+  const [layersPanelCollapsed, setLayersPanelCollapsed] = useState(false)
+  const [stylePanelCollapsed, setStylePanelCollapsed] = useState(false)
+
+  const PANEL_SPACING = 16 // Gap between panels
+  const COLLAPSED_HEIGHT = 48 // Height of collapsed panel button
+  const PRESENCE_EXPANDED_HEIGHT = 260
+  const LAYERS_EXPANDED_HEIGHT = 280
+
+  const presenceTop = 80 // Below toolbar
+  const layersTop = presenceTop + (presencePanelCollapsed ? COLLAPSED_HEIGHT : PRESENCE_EXPANDED_HEIGHT) + PANEL_SPACING
+  const styleTop = layersTop + (layersPanelCollapsed ? COLLAPSED_HEIGHT : LAYERS_EXPANDED_HEIGHT) + PANEL_SPACING
+
+  const router = useRouter()
+  const supabase = createClient()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    // Check authentication. getUser() needs the network, so when offline fall
+    // back to the session stored locally to open the cached canvas.
+    const resolveUser = async () => {
+      const {
+        data: { user: authUser },
+        error,
+      } = await supabase.auth.getUser()
+      if (authUser || navigator.onLine) {
+        if (error) console.warn("[v0] Auth error or no user:", error)
+        return authUser
+      }
+
+      const {
+        data: { session },
+      } = await supabase.auth.getSession()
+      console.log("[v0] [OFFLINE] Using cached session")
+      return session?.user ?? null
+    }
+
+    resolveUser()
+      .then((authUser) => {
+        if (!authUser) {
+          router.push("/")
+        } else {
+          setUser({
+            id: authUser.id,
+            name: authUser.user_metadata?.name || authUser.email?.split("@")[0] || "Anonymous",
+          })
+          setIsLoading(false)
+        }
+      })
+      .catch((error) => {
+        console.error("[v0] Error checking auth:", error)
+        router.push("/")
+      })
+  }, [router, supabase])
+
+  useEffect(() => {
+    if (!user) return
+
+    const openCanvas = async () => {
+      const [record, canvasRole] = await Promise.all([loadCanvas(supabase, canvasId), loadCanvasRole(supabase, canvasId)])
+      if (record && canvasRole) {
+        saveCachedCanvas(canvasId, record, canvasRole)
+        return { record, canvasRole }
+      }
+
+      if (navigator.onLine) {
+        return { record, canvasRole }
+      }
+
+      const cached = await loadCachedCanvas(canvasId)
+      if (cached) {
+        console.log("[v0] [OFFLINE] Opening cached canvas", canvasId)
+        toast({
+          title: "You're offline",
+          description: "Showing the last synced version. Your edits will sync when you reconnect.",
+        })
+      }
+      return { record: cached?.canvas ?? null, canvasRole: cached?.role ?? null }
+    }
+
+    openCanvas().then(({ record, canvasRole }) => {
+      if (!record || !canvasRole) {
+        console.warn("[v0] [CANVASES] Canvas not found:", canvasId)
+        toast({
+          title: "Canvas not found",
+          description: "It may have been deleted or you may not have access to it.",
+          variant: "destructive",
+        })
+        router.push("/canvas")
+        return
+      }
+      console.log("[v0] [CANVASES] Opened canvas", canvasId, "as", canvasRole)
+      setCanvas(record)
+      setRole(canvasRole)
+    })
+  }, [user, supabase, canvasId, router, toast])
+
+  useEffect(() => {
+    if (!user) return
+
+    const handleBeforeUnload = () => {
+      console.log("[v0] Window closing, logging out user:", user.id)
+
+      // Use sendBeacon for reliable logout during page unload
+      // This ensures the request completes even as the page is closing
+      const logoutData = JSON.stringify({ userId: user.id })
+      const blob = new Blob([logoutData], { type: "application/json" })
+
+      // Try to send logout request via beacon (most reliable)
+      if (navigator.sendBeacon) {
+        navigator.sendBeacon("/api/logout", blob)
+      }
+
+      // Clear Supabase auth locally to ensure session removal even if the network call fails
+      void supabase.auth.signOut({ scope: "local" }).catch((error) => {
+        console.error("[v0] Local sign out failed during unload:", error)
+      })
+
+      try {
+        const storageKey = (supabase.auth as unknown as { storageKey?: string }).storageKey
+
+        if (storageKey && typeof window !== "undefined") {
+          window.localStorage.removeItem(storageKey)
+          window.sessionStorage.removeItem(storageKey)
+        }
+      } catch (storageError) {
+        console.error("[v0] Failed to clear Supabase storage key:", storageError)
+      }
+
+      // Also delete session synchronously as backup
+      void deleteSession(supabase, user.id)
+    }
+
+    // Listen for multiple unload events to catch all cases
+    window.addEventListener("beforeunload", handleBeforeUnload)
+    window.addEventListener("pagehide", handleBeforeUnload)
+
+    // Cleanup listeners on component unmount
+    return () => {
+      window.removeEventListener("beforeunload", handleBeforeUnload)
+      window.removeEventListener("pagehide", handleBeforeUnload)
+    }
+  }, [user, supabase])
+
+  useEffect(() => {
+    if (!user) return
+
+    console.log("[v0] [COMMENTS] Setting up broadcast subscription for canvas:", canvasId)
+
+    const loadInitialComments = async () => {
+      console.log("[v0] [COMMENTS] Loading initial comments...")
+      const loadedComments = await loadComments(supabase, canvasId)
+      console.log("[v0] [COMMENTS] Loaded", loadedComments.length, "initial comments")
+      setComments(loadedComments)
+    }
+
+    loadInitialComments()
+
+    const unsubscribe = subscribeToCommentBroadcasts(supabase, canvasId, (broadcast: CommentBroadcast) => {
+      console.log("[v0] [COMMENTS] Broadcast received:", broadcast.type)
+
+      setComments((prev) => {
+        switch (broadcast.type) {
+          case "comment_added": {
+            const newComment = broadcast.comment
+            console.log("[v0] [COMMENTS] Adding comment:", newComment.id)
+
+            // Check if comment already exists to avoid duplicates
+            const existingIndex = prev.findIndex((comment) => comment.id === newComment.id)
+            if (existingIndex !== -1) {
+              console.log("[v0] [COMMENTS] Comment already exists, skipping")
+              return prev
+            }
+
+            console.log("[v0] [COMMENTS] Adding new comment to list")
+            return [newComment, ...prev]
+          }
+          case "comment_updated": {
+            const updatedComment = broadcast.comment
+            console.log("[v0] [COMMENTS] Updating comment:", updatedComment.id)
+
+            const existingIndex = prev.findIndex((comment) => comment.id === updatedComment.id)
+            if (existingIndex === -1) {
+              console.warn("[v0] [COMMENTS] Comment not found for update, adding it")
+              return [updatedComment, ...prev]
+            }
+
+            const updatedComments = [...prev]
+            updatedComments[existingIndex] = updatedComment
+            console.log("[v0] [COMMENTS] Comment updated successfully")
+            return updatedComments
+          }
+          case "comment_deleted": {
+            const commentId = broadcast.commentId
+            console.log("[v0] [COMMENTS] Deleting comment:", commentId)
+
+            const filtered = prev.filter((comment) => comment.id !== commentId)
+            console.log("[v0] [COMMENTS] Removed comment, new count:", filtered.length)
+            return filtered
+          }
+          default:
+            console.warn("[v0] [COMMENTS] Unknown broadcast type:", broadcast)
+            return prev
+        }
+      })
+    })
+
+    console.log("[v0] [COMMENTS] Broadcast subscription established")
+
+    return () => {
+      console.log("[v0] [COMMENTS] Cleaning up broadcast subscription")
+      unsubscribe()
+    }
+  }, [user, supabase, canvasId])
+
+  const canEdit = canEditCanvas(role)
+  const canComment = canCommentOnCanvas(role)
+
+  useEffect(() => {
+    if (!user || !canEdit || currentObjects.length === 0) return
+
+    const now = Date.now()
+    const timeSinceLastSnapshot = now - lastSnapshotTime
+
+    // Snapshot while the canvas is changing, at most once per interval across all editors
+    if (timeSinceLastSnapshot > AUTO_SNAPSHOT_INTERVAL_MS) {
+      void saveAutoSnapshot(canvasId, currentObjects, user.id, user.name, "interval")
+      setLastSnapshotTime(now)
+    }
+  }, [currentObjects, user, canEdit, lastSnapshotTime, canvasId])
+
+  const handleSignOut = async () => {
+    console.log("[v0] Sign out initiated for user:", user?.id)
+
+    if (user) {
+      const sessionDeleted = await deleteSession(supabase, user.id)
+      console.log("[v0] Session deletion result:", sessionDeleted)
+    }
+
+    await supabase.auth.signOut()
+    console.log("[v0] Supabase auth sign out complete")
+    router.push("/")
+  }
+
+  const handleCopy = () => {
+    if (selectedObjectIds.length === 0) return
+    const selectedObjs = currentObjects.filter((obj) => selectedObjectIds.includes(obj.id))
+    console.log("[v0] Copy triggered from toolbar for", selectedObjectIds.length, "objects")
+  }
+
+  const handlePaste = () => {
+    console.log("[v0] Paste triggered from toolbar")
+  }
+
+  const handleQueueOperations = useCallback((operations: any[], queueItem: AIQueueItem) => {
+    console.log(
+      "[v0] Remote AI operations received:",
+      operations.length,
+      "from queue item",
+      queueItem.id,
+      "by",
+      queueItem.user_name,
+    )
+    setLastQueueItemId(queueItem.id)
+    setAiOperations(operations)
+  }, [])
+
+  const { markOperationsProcessed } = useAIQueue({
+    canvasId,
+    userId: user?.id ?? "",
+    onOperations: handleQueueOperations,
+  })
+
+  const handleOperations = useCallback(
+    (operations: any[], queueItemId: string) => {
+      console.log("[v0] AI operations received:", operations, "Queue ID:", queueItemId)
+      // Only the requester snapshots; teammates receive the same operations from the queue
+      if (user && operations.length > 0) {
+        void saveAutoSnapshot(canvasId, currentObjects, user.id, user.name, "ai")
+      }
+      setAiOperations(operations)
+      if (queueItemId) {
+        setLastQueueItemId(queueItemId)
+        markOperationsProcessed(queueItemId)
+      }
+    },
+    [markOperationsProcessed, user, canvasId, currentObjects],
+  )
+
+  const handleExportPNG = () => {
+    const objectsToExport =
+      selectedObjectIds.length > 0 ? currentObjects.filter((obj) => selectedObjectIds.includes(obj.id)) : currentObjects
+
+    if (objectsToExport.length === 0) {
+      console.warn("[v0] No objects to export")
+      return
+    }
+
+    exportCanvas({
+      format: "png",
+      objects: objectsToExport,
+      backgroundColor: "#ffffff",
+      scale: 2,
+      viewport: viewport,
+      canvasWidth: typeof window !== "undefined" ? window.innerWidth : 1920,
+      canvasHeight: typeof window !== "undefined" ? window.innerHeight : 1080,
+    })
+  }
+
+  const handleExportSVG = () => {
+    const objectsToExport =
+      selectedObjectIds.length > 0 ? currentObjects.filter((obj) => selectedObjectIds.includes(obj.id)) : currentObjects
+
+    if (objectsToExport.length === 0) {
+      console.warn("[v0] No objects to export")
+      return
+    }
+
+    exportCanvas({
+      format: "svg",
+      objects: objectsToExport,
+      backgroundColor: "#ffffff",
+      viewport: viewport,
+      canvasWidth: typeof window !== "undefined" ? window.innerWidth : 1920,
+      canvasHeight: typeof window !== "undefined" ? window.innerHeight : 1080,
+    })
+  }
+
+  const selectedFrame =
+    selectedObjectIds.length === 1
+      ? currentObjects.find((obj) => obj.id === selectedObjectIds[0] && obj.type === "frame")
+      : undefined
+
+  const handleExportFrame = (format: "png" | "svg", width?: number) => {
+    if (!selectedFrame) return
+
+    exportCanvas({
+      format,
+      objects: currentObjects,
+      backgroundColor: "#ffffff",
+      scale: 2,
+      frameId: selectedFrame.id,
+      frameWidth: width,
+    })
+  }
+
+  const handleGridChange = (enabled: boolean, snap: boolean, size: number) => {
+    setGridEnabled(enabled)
+    setSnapEnabled(snap)
+    setGridSize(size)
+    console.log("[v0] Grid settings changed:", { enabled, snap, size })
+  }
+
+  const handleRestoreHistory = (objects: CanvasObject[]) => {
+    if (!canEdit) {
+      toast({
+        title: "Read-only access",
+        description: "Only editors can restore snapshots.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (user) {
+      void saveAutoSnapshot(canvasId, currentObjects, user.id, user.name, "restore")
+    }
+    setCurrentObjects(objects)
+    setPendingHistoryRestore(objects)
+    setLastSnapshotTime(Date.now())
+    console.log("[v0] Restoring history snapshot with", objects.length, "objects")
+  }
+
+  const handleHistoryRestoreComplete = useCallback(
+    (result: "success" | "error") => {
+      setPendingHistoryRestore(null)
+
+      if (result === "success") {
+        toast({
+          title: "Version restored",
+          description: "The canvas has been updated to the selected snapshot.",
+        })
+      } else {
+        toast({
+          title: "Restore failed",
+          description: "We couldn't apply that snapshot. Please try again.",
+          variant: "destructive",
+        })
+      }
+    },
+    [toast],
+  )
+
+  const handleCommentCreate = async (x: number, y: number, content: string) => {
+    if (!user || !canComment) return
+
+    const comment = await createComment(supabase, canvasId, x, y, content, user.id, user.name)
+    if (comment) {
+      setComments((prev) => [comment, ...prev])
+      toast({
+        title: "Comment added",
+        description: "Your comment has been added to the canvas",
+      })
+    }
+  }
+
+  const handleCommentClick = (x: number, y: number) => {
+    const canvasWidth = typeof window !== "undefined" ? window.innerWidth : 1920
+    const canvasHeight = typeof window !== "undefined" ? window.innerHeight : 1080
+
+    setViewport({
+      x: canvasWidth / 2 - x * viewport.zoom,
+      y: canvasHeight / 2 - y * viewport.zoom,
+      zoom: viewport.zoom,
+    })
+  }
+
+  const handleCommentsChange = async () => {
+    console.log("[v0] [COMMENTS] Manual refresh requested")
+    const loadedComments = await loadComments(supabase, canvasId)
+    console.log("[v0] [COMMENTS] Manually loaded", loadedComments.length, "comments")
+    setComments(loadedComments)
+  }
+
+  const handleCommentModeChange = useCallback((enabled: boolean) => {
+    setCommentMode(enabled)
+    console.log("[v0] Comment mode changed to:", enabled)
+  }, [])
+
+  const usableCanvasDimensions = {
+    leftOffset: 300,
+    rightOffset: 400,
+    topOffset: 80,
+    bottomOffset: 200,
+  }
+
+  if (isLoading || !user || !canvas || !role) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative h-screen w-screen overflow-hidden">
+      <div className="absolute left-0 right-0 top-0 z-10">
+        <Toolbar
+          userName={user.name}
+          canvasName={canvas.name}
+          onBackToDashboard={() => router.push("/canvas")}
+          accessLabel={canEdit ? undefined : canComment ? "Can comment" : "View only"}
+          onShare={role === "owner" ? () => setShowShare(!showShare) : undefined}
+          isShareOpen={showShare}
+          onSignOut={handleSignOut}
+          onUndo={onUndo}
+          onRedo={onRedo}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          selectedCount={selectedObjectIds.length}
+          onAlign={onAlign}
+          onDistribute={onDistribute}
+          onExportPNG={handleExportPNG}
+          onExportSVG={handleExportSVG}
+          exportFrameName={selectedFrame ? getFrameName(selectedFrame) : undefined}
+          onExportFrame={handleExportFrame}
+          gridEnabled={gridEnabled}
+          snapEnabled={snapEnabled}
+          gridSize={gridSize}
+          onGridChange={handleGridChange}
+          onShowHistory={() => setShowHistory(!showHistory)}
+          isHistoryOpen={showHistory}
+          commentMode={commentMode}
+          onToggleCommentMode={canComment ? () => setCommentMode(!commentMode) : undefined}
+          onCopy={handleCopy}
+          onPaste={handlePaste}
+          onBringToFront={onBringToFront}
+          onSendToBack={onSendToBack}
+          onBringForward={onBringForward}
+          onSendBackward={onSendBackward}
+          lassoMode={lassoMode}
+          onToggleLassoMode={() => setLassoMode(!lassoMode)}
+          onSelectAllOfType={onSelectAllOfType}
+        />
+      </div>
+      <div className="h-full w-full">
+        <CollaborativeCanvas
+          canvasId={canvasId}
+          userId={user.id}
+          userName={user.name}
+          role={role}
+          aiOperations={aiOperations}
+          onAiOperationsProcessed={() => {
+            if (lastQueueItemId) {
+              markOperationsProcessed(lastQueueItemId)
+              setLastQueueItemId(null)
+            }
+            setAiOperations([])
+          }}
+          onObjectsChange={setCurrentObjects}
+          onSelectionChange={setSelectedObjectIds}
+          viewport={viewport}
+          onViewportChange={setViewport}
+          onUndo={setOnUndo}
+          onRedo={setOnRedo}
+          canUndo={setCanUndo}
+          canRedo={setCanRedo}
+          onAlign={setOnAlign}
+          onDistribute={setOnDistribute}
+          gridEnabled={gridEnabled}
+          snapEnabled={snapEnabled}
+          gridSize={gridSize}
+          onGridChange={handleGridChange}
+          commentMode={commentMode}
+          onCommentCreate={handleCommentCreate}
+          comments={comments}
+          onBringToFront={setOnBringToFront}
+          onSendToBack={setOnSendToBack}
+          onBringForward={setOnBringForward}
+          onSendBackward={setOnSendBackward}
+          lassoMode={lassoMode}
+          onSelectAllOfType={setOnSelectAllOfType}
+          historyRestore={pendingHistoryRestore}
+          onHistoryRestoreComplete={handleHistoryRestoreComplete}
+          onCommentModeChange={handleCommentModeChange}
+        />
+      </div>
+      {canEdit && (
+        <AiChat
+          currentObjects={currentObjects}
+          selectedObjectIds={selectedObjectIds}
+          onOperations={handleOperations}
+          userId={user.id}
+          userName={user.name}
+          canvasId={canvasId}
+          viewport={viewport}
+          usableCanvasDimensions={usableCanvasDimensions}
+        />
+      )}
+      {showHistory && (
+        <HistoryPanel
+          canvasId={canvasId}
+          currentObjects={currentObjects}
+          userId={user.id}
+          userName={user.name}
+          onRestore={handleRestoreHistory}
+          onOpenPlayback={() => {
+            setShowHistory(false)
+            setShowPlayback(true)
+          }}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+      {showPlayback && (
+        <PlaybackPanel
+          canvasId={canvasId}
+          canvasName={canvas.name}
+          userId={user.id}
+          userName={user.name}
+          supabase={supabase}
+          onClose={() => setShowPlayback(false)}
+        />
+      )}
+      {showShare && role === "owner" && (
+        <SharePanel canvasId={canvasId} userId={user.id} supabase={supabase} onClose={() => setShowShare(false)} />
+      )}
+      <CommentsPanel
+        canvasId={canvasId}
+        userId={user.id}
+        onCommentClick={handleCommentClick}
+        comments={comments}
+        onCommentsChange={handleCommentsChange}
+        supabase={supabase}
+        readOnly={!canComment}
+      />
+    </div>
+  )
+}
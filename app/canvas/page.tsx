@@ -1,70 +1,26 @@
 "use client"
 
-import { useCallback, useEffect, useState } from "react"
+import type React from "react"
+
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { createClient } from "@/lib/supabase/client"
-import { CollaborativeCanvas } from "@/components/collaborative-canvas"
-import { Toolbar } from "@/components/toolbar"
-import { AiChat } from "@/components/ai-chat"
-import { HistoryPanel } from "@/components/history-panel"
-import { CommentsPanel } from "@/components/comments-panel"
-import type { CanvasObject } from "@/lib/types"
-import type { AlignmentType, DistributeType } from "@/lib/alignment-utils"
-import { exportCanvas } from "@/lib/export-utils"
-import { saveHistorySnapshot } from "@/lib/history-utils"
-import {
-  loadComments,
-  createComment,
-  subscribeToCommentBroadcasts,
-  type Comment,
-  type CommentBroadcast,
-} from "@/lib/comments-utils"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { LogOut, Pencil, Plus, Trash2 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { deleteSession } from "@/lib/session-utils"
-import { useAIQueue, type AIQueueItem } from "@/hooks/use-ai-queue"
+import { formatTimeAgo } from "@/lib/history-utils"
+import { createCanvas, deleteCanvas, loadCanvases, renameCanvas, type CanvasRecord } from "@/lib/canvas-utils"
+import { clearOfflineCanvas } from "@/lib/offline-store"
 
-export default function CanvasPage() {
+export default function CanvasDashboardPage() {
   const [user, setUser] = useState<{ id: string; name: string } | null>(null)
+  const [canvases, setCanvases] = useState<CanvasRecord[]>([])
   const [isLoading, setIsLoading] = useState(true)
-  const [aiOperations, setAiOperations] = useState<any[]>([])
-  const [lastQueueItemId, setLastQueueItemId] = useState<string | null>(null)
-  const [currentObjects, setCurrentObjects] = useState<CanvasObject[]>([])
-  const [selectedObjectIds, setSelectedObjectIds] = useState<string[]>([])
-  const [canUndo, setCanUndo] = useState(false)
-  const [canRedo, setCanRedo] = useState(false)
-  const [onUndo, setOnUndo] = useState<(() => void) | undefined>()
-  const [onRedo, setOnRedo] = useState<(() => void) | undefined>()
-  const [onAlign, setOnAlign] = useState<((type: AlignmentType) => void) | undefined>()
-  const [onDistribute, setOnDistribute] = useState<((type: DistributeType) => void) | undefined>()
-  const [onBringToFront, setOnBringToFront] = useState<(() => void) | undefined>()
-  const [onSendToBack, setOnSendToBack] = useState<(() => void) | undefined>()
-  const [onBringForward, setOnBringForward] = useState<(() => void) | undefined>()
-  const [onSendBackward, setOnSendBackward] = useState<(() => void) | undefined>()
-  const [gridEnabled, setGridEnabled] = useState(false)
-  const [snapEnabled, setSnapEnabled] = useState(false)
-  const [gridSize, setGridSize] = useState(20)
-  const [viewport, setViewport] = useState({ x: 0, y: 0, zoom: 1 })
-  const [showHistory, setShowHistory] = useState(false)
-  const [pendingHistoryRestore, setPendingHistoryRestore] = useState<CanvasObject[] | null>(null)
-  const [lastSnapshotTime, setLastSnapshotTime] = useState(Date.now())
-  const [commentMode, setCommentMode] = useState(false)
-  const [comments, setComments] = useState<Comment[]>([])
-  const [lassoMode, setLassoMode] = useState(false)
-  const [onSelectAllOfType, setOnSelectAllOfType] = useState<(() => void) | undefined>()
-
-  const [presencePanelCollapsed, setPresencePanelCollapsed] = useState(false)
-  const [layersPanelCollapsed, setLayersPanelCollapsed] = useState(false)
-  const [stylePanelCollapsed, setStylePanelCollapsed] = useState(false)
-
-  const PANEL_SPACING = 16 // Gap between panels
-  const COLLAPSED_HEIGHT = 48 // Height of collapsed panel button
-  const PRESENCE_EXPANDED_HEIGHT = 260
-  const LAYERS_EXPANDED_HEIGHT = 280
-
-  const presenceTop = 80 // Below toolbar
-  const layersTop = presenceTop + (presencePanelCollapsed ? COLLAPSED_HEIGHT : PRESENCE_EXPANDED_HEIGHT) + PANEL_SPACING
-  const styleTop = layersTop + (layersPanelCollapsed ? COLLAPSED_HEIGHT : LAYERS_EXPANDED_HEIGHT) + PANEL_SPACING
-
+  const [newCanvasName, setNewCanvasName] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
   const router = useRouter()
   const supabase = createClient()
   const { toast } = useToast()
@@ -82,7 +38,6 @@ export default function CanvasPage() {
             id: authUser.id,
             name: authUser.user_metadata?.name || authUser.email?.split("@")[0] || "Anonymous",
           })
-          setIsLoading(false)
         }
       })
       .catch((error) => {
@@ -94,304 +49,81 @@ export default function CanvasPage() {
   useEffect(() => {
     if (!user) return
 
-    const handleBeforeUnload = () => {
-      console.log("[v0] Window closing, logging out user:", user.id)
-
-      // Use sendBeacon for reliable logout during page unload
-      // This ensures the request completes even as the page is closing
-      const logoutData = JSON.stringify({ userId: user.id })
-      const blob = new Blob([logoutData], { type: "application/json" })
-
-      // Try to send logout request via beacon (most reliable)
-      if (navigator.sendBeacon) {
-        navigator.sendBeacon("/api/logout", blob)
-      }
-
-      // Clear Supabase auth locally to ensure session removal even if the network call fails
-      void supabase.auth.signOut({ scope: "local" }).catch((error) => {
-        console.error("[v0] Local sign out failed during unload:", error)
-      })
-
-      try {
-        const storageKey = (supabase.auth as unknown as { storageKey?: string }).storageKey
-
-        if (storageKey && typeof window !== "undefined") {
-          window.localStorage.removeItem(storageKey)
-          window.sessionStorage.removeItem(storageKey)
-        }
-      } catch (storageError) {
-        console.error("[v0] Failed to clear Supabase storage key:", storageError)
-      }
-
-      // Also delete session synchronously as backup
-      void deleteSession(supabase, user.id)
-    }
-
-    // Listen for multiple unload events to catch all cases
-    window.addEventListener("beforeunload", handleBeforeUnload)
-    window.addEventListener("pagehide", handleBeforeUnload)
-
-    // Cleanup listeners on component unmount
-    return () => {
-      window.removeEventListener("beforeunload", handleBeforeUnload)
-      window.removeEventListener("pagehide", handleBeforeUnload)
-    }
-  }, [user, supabase])
-
-  useEffect(() => {
-    if (!user) return
-
-    console.log("[v0] [COMMENTS] Setting up broadcast subscription for canvas: default")
-
-    const loadInitialComments = async () => {
-      console.log("[v0] [COMMENTS] Loading initial comments...")
-      const loadedComments = await loadComments(supabase, "default")
-      console.log("[v0] [COMMENTS] Loaded", loadedComments.length, "initial comments")
-      setComments(loadedComments)
-    }
-
-    loadInitialComments()
-
-    const unsubscribe = subscribeToCommentBroadcasts(supabase, "default", (broadcast: CommentBroadcast) => {
-      console.log("[v0] [COMMENTS] Broadcast received:", broadcast.type)
-
-      setComments((prev) => {
-        switch (broadcast.type) {
-          case "comment_added": {
-            const newComment = broadcast.comment
-            console.log("[v0] [COMMENTS] Adding comment:", newComment.id)
-
-            // Check if comment already exists to avoid duplicates
-            const existingIndex = prev.findIndex((comment) => comment.id === newComment.id)
-            if (existingIndex !== -1) {
-              console.log("[v0] [COMMENTS] Comment already exists, skipping")
-              return prev
-            }
-
-            console.log("[v0] [COMMENTS] Adding new comment to list")
-            return [newComment, ...prev]
-          }
-          case "comment_updated": {
-            const updatedComment = broadcast.comment
-            console.log("[v0] [COMMENTS] Updating comment:", updatedComment.id)
-
-            const existingIndex = prev.findIndex((comment) => comment.id === updatedComment.id)
-            if (existingIndex === -1) {
-              console.warn("[v0] [COMMENTS] Comment not found for update, adding it")
-              return [updatedComment, ...prev]
-            }
-
-            const updatedComments = [...prev]
-            updatedComments[existingIndex] = updatedComment
-            console.log("[v0] [COMMENTS] Comment updated successfully")
-            return updatedComments
-          }
-          case "comment_deleted": {
-            const commentId = broadcast.commentId
-            console.log("[v0] [COMMENTS] Deleting comment:", commentId)
-
-            const filtered = prev.filter((comment) => comment.id !== commentId)
-            console.log("[v0] [COMMENTS] Removed comment, new count:", filtered.length)
-            return filtered
-          }
-          default:
-            console.warn("[v0] [COMMENTS] Unknown broadcast type:", broadcast)
-            return prev
-        }
-      })
+    loadCanvases(supabase).then((records) => {
+      console.log("[v0] [CANVASES] Loaded", records.length, "canvases")
+      setCanvases(records)
+      setIsLoading(false)
     })
-
-    console.log("[v0] [COMMENTS] Broadcast subscription established")
-
-    return () => {
-      console.log("[v0] [COMMENTS] Cleaning up broadcast subscription")
-      unsubscribe()
-    }
   }, [user, supabase])
 
-  useEffect(() => {
-    if (!user || currentObjects.length === 0) return
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user || isCreating) return
 
-    const now = Date.now()
-    const timeSinceLastSnapshot = now - lastSnapshotTime
+    setIsCreating(true)
+    const record = await createCanvas(supabase, newCanvasName, user.id)
+    setIsCreating(false)
 
-    // Save snapshot if 2 minutes have passed and there are objects
-    if (timeSinceLastSnapshot > 120000) {
-      saveHistorySnapshot("default", currentObjects, user.id, user.name, "Auto-save").catch((error) => {
-        console.error("[v0] Failed to auto-save history:", error)
+    if (!record) {
+      toast({
+        title: "Could not create canvas",
+        description: "Please try again.",
+        variant: "destructive",
       })
-      setLastSnapshotTime(now)
-    }
-  }, [currentObjects, user, lastSnapshotTime])
-
-  const handleSignOut = async () => {
-    console.log("[v0] Sign out initiated for user:", user?.id)
-
-    if (user) {
-      const sessionDeleted = await deleteSession(supabase, user.id)
-      console.log("[v0] Session deletion result:", sessionDeleted)
+      return
     }
 
-    await supabase.auth.signOut()
-    console.log("[v0] Supabase auth sign out complete")
-    router.push("/")
-  }
-
-  const handleCopy = () => {
-    if (selectedObjectIds.length === 0) return
-    const selectedObjs = currentObjects.filter((obj) => selectedObjectIds.includes(obj.id))
-    console.log("[v0] Copy triggered from toolbar for", selectedObjectIds.length, "objects")
-  }
-
-  const handlePaste = () => {
-    console.log("[v0] Paste triggered from toolbar")
+    router.push(`/canvas/${record.id}`)
   }
 
-  const handleQueueOperations = useCallback((operations: any[], queueItem: AIQueueItem) => {
-    console.log(
-      "[v0] Remote AI operations received:",
-      operations.length,
-      "from queue item",
-      queueItem.id,
-      "by",
-      queueItem.user_name,
-    )
-    setLastQueueItemId(queueItem.id)
-    setAiOperations(operations)
-  }, [])
-
-  const { markOperationsProcessed } = useAIQueue({
-    canvasId: "default",
-    userId: user?.id ?? "",
-    onOperations: handleQueueOperations,
-  })
+  const handleRename = async (canvas: CanvasRecord) => {
+    const name = window.prompt("Rename canvas", canvas.name)
+    if (name === null || name.trim() === canvas.name) return
 
-  const handleOperations = useCallback(
-    (operations: any[], queueItemId: string) => {
-      console.log("[v0] AI operations received:", operations, "Queue ID:", queueItemId)
-      setAiOperations(operations)
-      if (queueItemId) {
-        setLastQueueItemId(queueItemId)
-        markOperationsProcessed(queueItemId)
-      }
-    },
-    [markOperationsProcessed],
-  )
-
-  const handleExportPNG = () => {
-    const objectsToExport =
-      selectedObjectIds.length > 0 ? currentObjects.filter((obj) => selectedObjectIds.includes(obj.id)) : currentObjects
-
-    if (objectsToExport.length === 0) {
-      console.warn("[v0] No objects to export")
+    const renamed = await renameCanvas(supabase, canvas.id, name)
+    if (!renamed) {
+      toast({
+        title: "Could not rename canvas",
+        description: "Only the owner can rename a canvas.",
+        variant: "destructive",
+      })
       return
     }
 
-    exportCanvas({
-      format: "png",
-      objects: objectsToExport,
-      backgroundColor: "#ffffff",
-      scale: 2,
-      viewport: viewport,
-      canvasWidth: typeof window !== "undefined" ? window.innerWidth : 1920,
-      canvasHeight: typeof window !== "undefined" ? window.innerHeight : 1080,
-    })
+    setCanvases((prev) => prev.map((c) => (c.id === renamed.id ? renamed : c)))
   }
 
-  const handleExportSVG = () => {
-    const objectsToExport =
-      selectedObjectIds.length > 0 ? currentObjects.filter((obj) => selectedObjectIds.includes(obj.id)) : currentObjects
-
-    if (objectsToExport.length === 0) {
-      console.warn("[v0] No objects to export")
+  const handleDelete = async (canvas: CanvasRecord) => {
+    if (!window.confirm(`Delete "${canvas.name}"? All of its objects, comments and history will be removed.`)) {
       return
     }
 
-    exportCanvas({
-      format: "svg",
-      objects: objectsToExport,
-      backgroundColor: "#ffffff",
-      viewport: viewport,
-      canvasWidth: typeof window !== "undefined" ? window.innerWidth : 1920,
-      canvasHeight: typeof window !== "undefined" ? window.innerHeight : 1080,
-    })
-  }
-
-  const handleGridChange = (enabled: boolean, snap: boolean, size: number) => {
-    setGridEnabled(enabled)
-    setSnapEnabled(snap)
-    setGridSize(size)
-    console.log("[v0] Grid settings changed:", { enabled, snap, size })
-  }
-
-  const handleRestoreHistory = (objects: CanvasObject[]) => {
-    setCurrentObjects(objects)
-    setPendingHistoryRestore(objects)
-    setLastSnapshotTime(Date.now())
-    console.log("[v0] Restoring history snapshot with", objects.length, "objects")
-  }
-
-  const handleHistoryRestoreComplete = useCallback(
-    (result: "success" | "error") => {
-      setPendingHistoryRestore(null)
-
-      if (result === "success") {
-        toast({
-          title: "Version restored",
-          description: "The canvas has been updated to the selected snapshot.",
-        })
-      } else {
-        toast({
-          title: "Restore failed",
-          description: "We couldn't apply that snapshot. Please try again.",
-          variant: "destructive",
-        })
-      }
-    },
-    [toast],
-  )
-
-  const handleCommentCreate = async (x: number, y: number, content: string) => {
-    if (!user) return
-
-    const comment = await createComment(supabase, "default", x, y, content, user.id, user.name)
-    if (comment) {
-      setComments((prev) => [comment, ...prev])
+    const deleted = await deleteCanvas(supabase, canvas.id)
+    if (!deleted) {
       toast({
-        title: "Comment added",
-        description: "Your comment has been added to the canvas",
+        title: "Could not delete canvas",
+        description: "Only the owner can delete a canvas.",
+        variant: "destructive",
       })
+      return
     }
-  }
 
-  const handleCommentClick = (x: number, y: number) => {
-    const canvasWidth = typeof window !== "undefined" ? window.innerWidth : 1920
-    const canvasHeight = typeof window !== "undefined" ? window.innerHeight : 1080
-
-    setViewport({
-      x: canvasWidth / 2 - x * viewport.zoom,
-      y: canvasHeight / 2 - y * viewport.zoom,
-      zoom: viewport.zoom,
-    })
+    clearOfflineCanvas(canvas.id)
+    setCanvases((prev) => prev.filter((c) => c.id !== canvas.id))
+    toast({ title: "Canvas deleted", description: canvas.name })
   }
 
-  const handleCommentsChange = async () => {
-    console.log("[v0] [COMMENTS] Manual refresh requested")
-    const loadedComments = await loadComments(supabase, "default")
-    console.log("[v0] [COMMENTS] Manually loaded", loadedComments.length, "comments")
-    setComments(loadedComments)
-  }
+  const handleSignOut = async () => {
+    console.log("[v0] Sign out initiated for user:", user?.id)
 
-  const handleCommentModeChange = useCallback((enabled: boolean) => {
-    setCommentMode(enabled)
-    console.log("[v0] Comment mode changed to:", enabled)
-  }, [])
+    if (user) {
+      const sessionDeleted = await deleteSession(supabase, user.id)
+      console.log("[v0] Session deletion result:", sessionDeleted)
+    }
 
-  const usableCanvasDimensions = {
-    leftOffset: 300,
-    rightOffset: 400,
-    topOffset: 80,
-    bottomOffset: 200,
+    await supabase.auth.signOut()
+    console.log("[v0] Supabase auth sign out complete")
+    router.push("/")
   }
 
   if (isLoading || !user) {
@@ -403,108 +135,82 @@ export default function CanvasPage() {
   }
 
   return (
-    <div className="relative h-screen w-screen overflow-hidden">
-      <div className="absolute left-0 right-0 top-0 z-10">
-        <Toolbar
-          userName={user.name}
-          onSignOut={handleSignOut}
-          onUndo={onUndo}
-          onRedo={onRedo}
-          canUndo={canUndo}
-          canRedo={canRedo}
-          selectedCount={selectedObjectIds.length}
-          onAlign={onAlign}
-          onDistribute={onDistribute}
-          onExportPNG={handleExportPNG}
-          onExportSVG={handleExportSVG}
-          gridEnabled={gridEnabled}
-          snapEnabled={snapEnabled}
-          gridSize={gridSize}
-          onGridChange={handleGridChange}
-          onShowHistory={() => setShowHistory(!showHistory)}
-          isHistoryOpen={showHistory}
-          commentMode={commentMode}
-          onToggleCommentMode={() => setCommentMode(!commentMode)}
-          onCopy={handleCopy}
-          onPaste={handlePaste}
-          onBringToFront={onBringToFront}
-          onSendToBack={onSendToBack}
-          onBringForward={onBringForward}
-          onSendBackward={onSendBackward}
-          lassoMode={lassoMode}
-          onToggleLassoMode={() => setLassoMode(!lassoMode)}
-          onSelectAllOfType={onSelectAllOfType}
-        />
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/20">
+      <div className="flex h-14 items-center justify-between border-b border-border/50 bg-background/95 px-4 shadow-sm backdrop-blur-md">
+        <h1 className="text-lg font-semibold">CollabCanvas</h1>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">{user.name}</span>
+          <Button variant="ghost" size="icon" onClick={handleSignOut} title="Sign out">
+            <LogOut className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
-      <div className="h-full w-full">
-        <CollaborativeCanvas
-          canvasId="default"
-          userId={user.id}
-          userName={user.name}
-          aiOperations={aiOperations}
-          onAiOperationsProcessed={() => {
-            if (lastQueueItemId) {
-              markOperationsProcessed(lastQueueItemId)
-              setLastQueueItemId(null)
-            }
-            setAiOperations([])
-          }}
-          onObjectsChange={setCurrentObjects}
-          onSelectionChange={setSelectedObjectIds}
-          viewport={viewport}
-          onViewportChange={setViewport}
-          onUndo={setOnUndo}
-          onRedo={setOnRedo}
-          canUndo={setCanUndo}
-          canRedo={setCanRedo}
-          onAlign={setOnAlign}
-          onDistribute={setOnDistribute}
-          gridEnabled={gridEnabled}
-          snapEnabled={snapEnabled}
-          gridSize={gridSize}
-          onGridChange={handleGridChange}
-          commentMode={commentMode}
-          onCommentCreate={handleCommentCreate}
-          comments={comments}
-          onBringToFront={setOnBringToFront}
-          onSendToBack={setOnSendToBack}
-          onBringForward={setOnBringForward}
-          onSendBackward={setOnSendBackward}
-          lassoMode={lassoMode}
-          onSelectAllOfType={setOnSelectAllOfType}
-          historyRestore={pendingHistoryRestore}
-          onHistoryRestoreComplete={handleHistoryRestoreComplete}
-          onCommentModeChange={handleCommentModeChange}
-        />
+
+      <div className="mx-auto max-w-5xl space-y-6 p-6">
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            value={newCanvasName}
+            onChange={(e) => setNewCanvasName(e.target.value)}
+            placeholder="New canvas name"
+            className="max-w-sm"
+          />
+          <Button type="submit" disabled={isCreating}>
+            <Plus className="mr-2 h-4 w-4" />
+            {isCreating ? "Creating..." : "New canvas"}
+          </Button>
+        </form>
+
+        {canvases.length === 0 ? (
+          <div className="text-sm text-muted-foreground">No canvases yet. Create one to get started.</div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {canvases.map((canvas) => (
+              <Card
+                key={canvas.id}
+                className="cursor-pointer gap-2 py-4"
+                onClick={() => router.push(`/canvas/${canvas.id}`)}
+              >
+                <CardHeader className="flex flex-row items-start justify-between gap-2 px-4">
+                  <div className="min-w-0 space-y-1">
+                    <CardTitle className="truncate text-base">{canvas.name}</CardTitle>
+                    <CardDescription>
+                      {canvas.owner_id === user.id ? "Owned by you" : "Shared"} ·{" "}
+                      {formatTimeAgo(canvas.updated_at || canvas.created_at)}
+                    </CardDescription>
+                  </div>
+                  {canvas.owner_id === user.id && (
+                    <div className="flex shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Rename canvas"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleRename(canvas)
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete canvas"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          handleDelete(canvas)
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent className="px-4 text-xs text-muted-foreground">{canvas.id}</CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
       </div>
-      <AiChat
-        currentObjects={currentObjects}
-        selectedObjectIds={selectedObjectIds}
-        onOperations={handleOperations}
-        userId={user.id}
-        userName={user.name}
-        canvasId="default"
-        viewport={viewport}
-        usableCanvasDimensions={usableCanvasDimensions}
-      />
-      {showHistory && (
-        <HistoryPanel
-          canvasId="default"
-          currentObjects={currentObjects}
-          userId={user.id}
-          userName={user.name}
-          onRestore={handleRestoreHistory}
-          onClose={() => setShowHistory(false)}
-        />
-      )}
-      <CommentsPanel
-        canvasId="default"
-        userId={user.id}
-        onCommentClick={handleCommentClick}
-        comments={comments}
-        onCommentsChange={handleCommentsChange}
-        supabase={supabase}
-      />
     </div>
   )
 }
@@ -0,0 +1,98 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { useParams } from "next/navigation"
+import { Canvas } from "@/components/canvas"
+import { Button } from "@/components/ui/button"
+import { RefreshCw } from "lucide-react"
+import type { SharedCanvas } from "@/lib/share-link-utils"
+
+// Shared views are not subscribed to realtime channels (anonymous visitors
+// have no channel access), so they poll the share API instead.
+const SHARE_REFRESH_INTERVAL_MS = 15000
+
+export default function SharedCanvasPage() {
+  const { token } = useParams<{ token: string }>()
+  const [shared, setShared] = useState<SharedCanvas | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+
+  const loadSharedCanvas = useCallback(async () => {
+    setIsRefreshing(true)
+    try {
+      const response = await fetch(`/api/share/${token}`, { cache: "no-store" })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError(data.error || "This link is no longer available")
+        setShared(null)
+        return
+      }
+
+      setShared(data)
+      setError(null)
+    } catch (fetchError) {
+      console.error("[v0] [SHARE] Error loading shared canvas:", fetchError)
+      setError("Could not load this canvas. Please try again.")
+    } finally {
+      setIsRefreshing(false)
+    }
+  }, [token])
+
+  useEffect(() => {
+    loadSharedCanvas()
+
+    const interval = setInterval(loadSharedCanvas, SHARE_REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [loadSharedCanvas])
+
+  const ignoreObjectChanges = useCallback(() => {
+    console.warn("[v0] [SHARE] Ignoring edit on shared view")
+  }, [])
+
+  if (error) {
+    return (
+      <div className="flex h-screen flex-col items-center justify-center gap-2">
+        <div className="text-lg font-semibold">Link unavailable</div>
+        <div className="text-sm text-muted-foreground">{error}</div>
+      </div>
+    )
+  }
+
+  if (!shared) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="text-muted-foreground">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="relative h-screen w-screen overflow-hidden">
+      <div className="absolute left-0 right-0 top-0 z-10 flex h-14 items-center justify-between border-b border-border/50 bg-background/95 px-4 shadow-sm backdrop-blur-md">
+        <div className="flex items-center gap-4">
+          <h1 className="text-lg font-semibold">CollabCanvas</h1>
+          <span className="max-w-[240px] truncate text-sm text-muted-foreground" title={shared.canvas.name}>
+            {shared.canvas.name}
+          </span>
+          <span className="rounded-md border border-border/50 bg-muted/40 px-2 py-0.5 text-xs text-muted-foreground">
+            View only
+          </span>
+        </div>
+        <div className="flex items-center gap-4">
+          {shared.expiresAt && (
+            <span className="text-xs text-muted-foreground">
+              Link expires {new Date(shared.expiresAt).toLocaleString()}
+            </span>
+          )}
+          <Button variant="ghost" size="icon" onClick={loadSharedCanvas} disabled={isRefreshing} title="Refresh">
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="h-full w-full">
+        <Canvas canvasId={shared.canvas.id} objects={shared.objects} onObjectsChange={ignoreObjectChanges} readOnly />
+      </div>
+    </div>
+  )
+}
@@ -175,6 +175,9 @@ export function AiChat({
         text_content: obj.text_content,
         font_size: obj.font_size,
         font_family: obj.font_family,
+        fill_token: obj.fill_token,
+        stroke_token: obj.stroke_token,
+        text_token: obj.text_token,
         locked: obj.locked ?? false,
         visible: obj.visible ?? true,
       }))
@@ -0,0 +1,93 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { drawRuler, RULER_SIZE } from "@/lib/guide-utils"
+import type { SnapAxis } from "@/lib/snap-utils"
+import type { SpatialRect } from "@/lib/spatial-index"
+
+interface CanvasRulersProps {
+  viewport: { x: number; y: number; zoom: number }
+  // Bounds of the selection, marked on both rulers
+  selection: SpatialRect | null
+  // Pressing on a ruler starts dragging out a guide across it; rulers are display-only without this
+  onGuideDragStart?: (axis: SnapAxis) => void
+}
+
+interface RulerProps {
+  axis: SnapAxis
+  origin: number
+  zoom: number
+  highlight: { from: number; to: number } | null
+  className: string
+  onMouseDown?: (e: React.MouseEvent<HTMLCanvasElement>) => void
+}
+
+function Ruler({ axis, origin, zoom, highlight, className, onMouseDown }: RulerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [length, setLength] = useState(0)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setLength(Math.round(axis === "x" ? entry.contentRect.width : entry.contentRect.height))
+    })
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [axis])
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d")
+    if (!ctx || length === 0) return
+    drawRuler(ctx, axis, length, origin, zoom, highlight)
+  }, [axis, length, origin, zoom, highlight])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={axis === "x" ? length : RULER_SIZE}
+      height={axis === "x" ? RULER_SIZE : length}
+      className={className}
+      onMouseDown={onMouseDown}
+    />
+  )
+}
+
+/**
+ * Rulers along the top and left edges of the canvas, in canvas units, that
+ * follow pan and zoom. Dragging from the top ruler places a horizontal guide
+ * and from the left ruler a vertical one.
+ */
+export function CanvasRulers({ viewport, selection, onGuideDragStart }: CanvasRulersProps) {
+  const startDrag = (axis: SnapAxis) =>
+    onGuideDragStart &&
+    ((e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (e.button !== 0) return
+      e.preventDefault()
+      onGuideDragStart(axis)
+    })
+
+  return (
+    <>
+      <Ruler
+        axis="x"
+        origin={viewport.x - RULER_SIZE}
+        zoom={viewport.zoom}
+        highlight={selection && { from: selection.x, to: selection.x + selection.width }}
+        className={`absolute left-5 right-0 top-0 z-[5] h-5 ${onGuideDragStart ? "cursor-row-resize" : ""}`}
+        onMouseDown={startDrag("y")}
+      />
+      <Ruler
+        axis="y"
+        origin={viewport.y - RULER_SIZE}
+        zoom={viewport.zoom}
+        highlight={selection && { from: selection.y, to: selection.y + selection.height }}
+        className={`absolute bottom-0 left-0 top-5 z-[5] w-5 ${onGuideDragStart ? "cursor-col-resize" : ""}`}
+        onMouseDown={startDrag("x")}
+      />
+      <div className="absolute left-0 top-0 z-[5] h-5 w-5 border-b border-r border-slate-400 bg-slate-50" />
+    </>
+  )
+}
@@ -6,6 +6,21 @@ import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties }
 import { useCanvas } from "@/hooks/use-canvas"
 import type { CanvasObject } from "@/lib/types"
 import { Button } from "@/components/ui/button"
+import { RichTextEditor } from "@/components/rich-text-editor"
+import { getStickyTextBox } from "@/lib/sticky-utils"
+import { FRAME_PRESETS } from "@/lib/frame-utils"
+import { createGroup, ungroupObjects } from "@/lib/group-utils"
+import { BOOLEAN_OPERATIONS, canCombine, combineShapes, type BooleanOperation } from "@/lib/vector-utils"
+import { getSelectionBox, type SnapAxis } from "@/lib/snap-utils"
+import type { CanvasGuide } from "@/lib/guide-utils"
+import { CanvasRulers } from "@/components/canvas-rulers"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import {
   Square,
   MousePointer2,
@@ -14,6 +29,12 @@ import {
   Trash2,
   Minus,
   Type,
+  StickyNote,
+  Frame,
+  PenLine,
+  PenTool,
+  Combine,
+  MoveUpRight,
   Send,
   X,
   Hand,
@@ -30,6 +51,7 @@ interface CanvasProps {
   canvasId: string
   objects: CanvasObject[]
   onObjectsChange: (objects: CanvasObject[]) => void
+  readOnly?: boolean
   onCursorMove?: (x: number, y: number) => void
   onSelectionChange?: (selectedIds: string[]) => void
   children?: any
@@ -43,12 +65,20 @@ interface CanvasProps {
   selectedIds?: string[]
   lassoMode?: boolean
   onCommentModeChange?: (enabled: boolean) => void
+  userId?: string
+  authorNames?: Map<string, string>
+  showRulers?: boolean
+  guides?: CanvasGuide[]
+  onGuideCreate?: (axis: SnapAxis, position: number) => void
+  onGuideMove?: (guideId: string, position: number) => void
+  onGuideDelete?: (guideId: string) => void
 }
 
 export function Canvas({
   canvasId,
   objects,
   onObjectsChange,
+  readOnly = false,
   onCursorMove,
   onSelectionChange,
   children,
@@ -62,12 +92,21 @@ export function Canvas({
   selectedIds: externalSelectedIds,
   lassoMode = false,
   onCommentModeChange,
+  userId,
+  authorNames,
+  showRulers = false,
+  guides,
+  onGuideCreate,
+  onGuideMove,
+  onGuideDelete,
 }: CanvasProps) {
   const syncingExternalSelection = useRef(false)
   const {
     canvasRef,
     tool,
     setTool,
+    framePreset,
+    setFramePreset,
     handleMouseDown,
     handleMouseMove,
     handleMouseUp,
@@ -79,25 +118,28 @@ export function Canvas({
     editingTextId,
     saveTextEdit,
     cancelTextEdit,
-    measureText,
     isNewTextObject, // Get the new text object flag
+    startGuideDrag,
+    guideCursorAxis,
   } = useCanvas({
     canvasId,
     objects,
     onObjectsChange,
+    readOnly,
     onCursorMove,
     gridEnabled,
     snapEnabled,
     gridSize,
     lassoMode,
+    userId,
+    authorNames,
+    guides,
+    onGuideCreate,
+    onGuideMove,
+    onGuideDelete,
   })
 
-  const textInputRef = useRef<HTMLTextAreaElement>(null)
   const commentInputRef = useRef<HTMLTextAreaElement>(null)
-  const [textValue, setTextValue] = useState("")
-  const [textareaDimensions, setTextareaDimensions] = useState({ width: 200, height: 50 })
-  const resizeTimerRef = useRef<NodeJS.Timeout>()
-  const [showPlaceholder, setShowPlaceholder] = useState(false)
   const [canvasMetrics, setCanvasMetrics] = useState({
     offsetX: 0,
     offsetY: 0,
@@ -155,45 +197,9 @@ export function Canvas({
 
   useEffect(() => {
     if (editingTextId) {
-      const obj = objects.find((o) => o.id === editingTextId)
-      if (obj && obj.type === "text") {
-        setTextValue(obj.text_content || "")
-        setShowPlaceholder(!obj.text_content)
-        setTextareaDimensions({ width: obj.width, height: obj.height })
-        setTimeout(() => {
-          textInputRef.current?.focus()
-          textInputRef.current?.select()
-        }, 0)
-        updateCanvasMetrics()
-      }
-    } else {
-      setShowPlaceholder(false)
+      updateCanvasMetrics()
     }
-  }, [editingTextId, objects, updateCanvasMetrics])
-
-  useEffect(() => {
-    if (editingTextId && textValue && measureText) {
-      // Clear any pending resize
-      if (resizeTimerRef.current) {
-        clearTimeout(resizeTimerRef.current)
-      }
-
-      // Debounce the resize calculation
-      resizeTimerRef.current = setTimeout(() => {
-        const obj = objects.find((o) => o.id === editingTextId)
-        if (obj && obj.type === "text") {
-          const { width, height } = measureText(textValue, obj.font_size || 16, obj.font_family || "Arial")
-          setTextareaDimensions({ width, height })
-        }
-      }, 150) // Wait 150ms after user stops typing before resizing
-
-      return () => {
-        if (resizeTimerRef.current) {
-          clearTimeout(resizeTimerRef.current)
-        }
-      }
-    }
-  }, [textValue, editingTextId, objects, measureText])
+  }, [editingTextId, updateCanvasMetrics])
 
   useEffect(() => {
     updateCanvasMetrics()
@@ -224,36 +230,11 @@ export function Canvas({
     }
   }, [viewport, onViewportChange])
 
-  const editingTextObject = editingTextId ? objects.find((o) => o.id === editingTextId) : null
+  const editingObject = editingTextId ? objects.find((o) => o.id === editingTextId) : null
+  // Sticky notes are edited in the inner frame their text is laid out in
+  const editingTextObject = editingObject?.type === "sticky" ? getStickyTextBox(editingObject).box : editingObject
   const { x: viewportX, y: viewportY, zoom: viewportZoom } = viewport // Always use internal viewport, not external
 
-  const textAreaStyle: CSSProperties | undefined = useMemo(() => {
-    if (!editingTextObject) return undefined
-
-    const scaledZoomX = viewportZoom * canvasMetrics.scaleX
-    const scaledZoomY = viewportZoom * canvasMetrics.scaleY
-    const scaledFontSize = (editingTextObject.font_size || 16) * scaledZoomY
-    const horizontalPadding = scaledFontSize * 0.5 // 50% of font size for comfortable padding
-    const paddingTop = Math.max(0, (textareaDimensions.height * scaledZoomY - scaledFontSize * 1.2) / 2)
-
-    return {
-      left: `${canvasMetrics.offsetX + (viewportX + editingTextObject.x * viewportZoom) * canvasMetrics.scaleX}px`,
-      top: `${canvasMetrics.offsetY + (viewportY + editingTextObject.y * viewportZoom) * canvasMetrics.scaleY}px`,
-      width: `${textareaDimensions.width * scaledZoomX}px`,
-      height: `${textareaDimensions.height * scaledZoomY}px`,
-      fontSize: `${scaledFontSize}px`,
-      fontFamily: editingTextObject.font_family || "Arial",
-      paddingTop: `${paddingTop}px`,
-      lineHeight: "1.2",
-      color: editingTextObject.fill_color,
-      caretColor: editingTextObject.fill_color,
-      paddingLeft: `${horizontalPadding}px`,
-      paddingRight: `${horizontalPadding}px`,
-      margin: 0,
-      boxSizing: "border-box",
-    }
-  }, [canvasMetrics, editingTextObject, viewportX, viewportY, viewportZoom, textareaDimensions])
-
   const handleCanvasClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
       if (commentMode && onCommentCreate) {
@@ -300,74 +281,53 @@ export function Canvas({
   }, [canvasMetrics, commentDraft, viewportX, viewportY, viewportZoom])
 
   const handleGroup = useCallback(() => {
-    if (selectedIds.length < 2) return
-
-    const groupId = crypto.randomUUID()
-    const childObjects = objects.filter((obj) => selectedIds.includes(obj.id))
-
-    // Calculate group bounds
-    let minX = Number.POSITIVE_INFINITY
-    let minY = Number.POSITIVE_INFINITY
-    let maxX = Number.NEGATIVE_INFINITY
-    let maxY = Number.NEGATIVE_INFINITY
-
-    childObjects.forEach((obj) => {
-      minX = Math.min(minX, obj.x)
-      minY = Math.min(minY, obj.y)
-      maxX = Math.max(maxX, obj.x + obj.width)
-      maxY = Math.max(maxY, obj.y + obj.height)
-    })
-
-    const groupObject: CanvasObject = {
-      id: groupId,
-      canvas_id: canvasId,
-      type: "group",
-      x: minX,
-      y: minY,
-      width: maxX - minX,
-      height: maxY - minY,
-      rotation: 0,
-      fill_color: "transparent",
-      stroke_color: "#9ca3af",
-      stroke_width: 2,
-      children_ids: selectedIds,
-    }
-
-    // Update child objects to reference parent group
-    const updatedObjects = objects.map((obj) =>
-      selectedIds.includes(obj.id) ? { ...obj, parent_group: groupId } : obj,
-    )
+    const result = createGroup(selectedIds, objects, canvasId)
+    if (!result) return
 
-    onObjectsChange([...updatedObjects, groupObject])
-    setInternalSelectedIds([groupId])
+    onObjectsChange(result.objects)
+    setInternalSelectedIds([result.group.id])
   }, [selectedIds, objects, onObjectsChange, canvasId])
 
   const handleUngroup = useCallback(() => {
     console.log("[v0] handleUngroup called with selectedIds:", selectedIds)
 
-    const selectedObjects = objects.filter((obj) => selectedIds.includes(obj.id))
-    const groupObj = selectedObjects.find((obj) => obj.type === "group")
-
-    console.log("[v0] Found group object:", groupObj)
-
-    if (!groupObj || !groupObj.children_ids) {
-      console.log("[v0] No valid group object found or no children")
+    const groupIds = objects.filter((obj) => selectedIds.includes(obj.id) && obj.type === "group").map((obj) => obj.id)
+    if (groupIds.length === 0) {
+      console.log("[v0] No valid group object found")
       return
     }
 
-    console.log("[v0] Ungrouping with children:", groupObj.children_ids)
-
-    // Remove parent_group reference from children
-    const updatedObjects = objects
-      .filter((obj) => obj.id !== groupObj.id)
-      .map((obj) => (groupObj.children_ids?.includes(obj.id) ? { ...obj, parent_group: undefined } : obj))
-
+    const { objects: updatedObjects, releasedIds } = ungroupObjects(groupIds, objects)
     onObjectsChange(updatedObjects)
-    setInternalSelectedIds(groupObj.children_ids)
+    setInternalSelectedIds(releasedIds)
 
     console.log("[v0] Ungroup complete")
   }, [selectedIds, objects, onObjectsChange, setInternalSelectedIds])
 
+  const combinableCount = useMemo(
+    () => objects.filter((obj) => selectedIds.includes(obj.id) && canCombine(obj)).length,
+    [objects, selectedIds],
+  )
+
+  const rulerSelection = useMemo(
+    () => (showRulers ? getSelectionBox(objects.filter((obj) => selectedIds.includes(obj.id))) : null),
+    [showRulers, objects, selectedIds],
+  )
+
+  const handleBooleanOperation = useCallback(
+    (operation: BooleanOperation) => {
+      const combined = combineShapes(objects, selectedIds, operation)
+      if (!combined) {
+        console.log(`[v0] ${operation} of the selected shapes is empty`)
+        return
+      }
+
+      onObjectsChange(combined.objects)
+      setInternalSelectedIds([combined.result.id])
+    },
+    [objects, selectedIds, onObjectsChange, setInternalSelectedIds],
+  )
+
   const shouldShowUngroupButton = useMemo(() => {
     console.log("[v0] shouldShowUngroupButton calculation - selectedIds:", selectedIds)
 
@@ -427,51 +387,115 @@ export function Canvas({
         >
           <Hand className="h-4 w-4" />
         </Button>
-        <Button
-          variant={tool === "rectangle" ? "default" : "ghost"}
-          size="icon"
-          onClick={() => setTool(tool === "rectangle" ? "select" : "rectangle")}
-          title="Rectangle (R) - Blue"
-        >
-          <Square className="h-4 w-4" />
-        </Button>
-        <Button
-          variant={tool === "circle" ? "default" : "ghost"}
-          size="icon"
-          onClick={() => setTool(tool === "circle" ? "select" : "circle")}
-          title="Circle (C) - Green"
-        >
-          <Circle className="h-4 w-4" />
-        </Button>
-        <Button
-          variant={tool === "triangle" ? "default" : "ghost"}
-          size="icon"
-          onClick={() => setTool(tool === "triangle" ? "select" : "triangle")}
-          title="Triangle (T) - Orange"
-        >
-          <Triangle className="h-4 w-4" />
-        </Button>
-        <Button
-          variant={tool === "line" ? "default" : "ghost"}
-          size="icon"
-          onClick={() => {
-            console.log("[v0] Line button clicked")
-            setTool(tool === "line" ? "select" : "line")
-          }}
-          title="Line (L) - Purple"
-        >
-          <Minus className="h-4 w-4" />
-        </Button>
-        <Button
-          variant={tool === "text" ? "default" : "ghost"}
-          size="icon"
-          onClick={() => setTool(tool === "text" ? "select" : "text")}
-          title="Text (T) - Black"
-        >
-          <Type className="h-4 w-4" />
-        </Button>
+        {!readOnly && (
+          <>
+            <Button
+              variant={tool === "rectangle" ? "default" : "ghost"}
+              size="icon"
+              onClick={() => setTool(tool === "rectangle" ? "select" : "rectangle")}
+              title="Rectangle (R) - Blue"
+            >
+              <Square className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={tool === "circle" ? "default" : "ghost"}
+              size="icon"
+              onClick={() => setTool(tool === "circle" ? "select" : "circle")}
+              title="Circle (C) - Green"
+            >
+              <Circle className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={tool === "triangle" ? "default" : "ghost"}
+              size="icon"
+              onClick={() => setTool(tool === "triangle" ? "select" : "triangle")}
+              title="Triangle (T) - Orange"
+            >
+              <Triangle className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={tool === "line" ? "default" : "ghost"}
+              size="icon"
+              onClick={() => {
+                console.log("[v0] Line button clicked")
+                setTool(tool === "line" ? "select" : "line")
+              }}
+              title="Line (L) - Purple"
+            >
+              <Minus className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={tool === "pen" ? "default" : "ghost"}
+              size="icon"
+              onClick={() => setTool(tool === "pen" ? "select" : "pen")}
+              title="Pen (P) - Freehand"
+            >
+              <PenLine className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={tool === "vector" ? "default" : "ghost"}
+              size="icon"
+              onClick={() => setTool(tool === "vector" ? "select" : "vector")}
+              title="Vector pen - Click for corners, drag for curves, click the first node to close"
+            >
+              <PenTool className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={tool === "connector" ? "default" : "ghost"}
+              size="icon"
+              onClick={() => setTool(tool === "connector" ? "select" : "connector")}
+              title="Connector - Click two shapes to connect them"
+            >
+              <MoveUpRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={tool === "text" ? "default" : "ghost"}
+              size="icon"
+              onClick={() => setTool(tool === "text" ? "select" : "text")}
+              title="Text (T) - Black"
+            >
+              <Type className="h-4 w-4" />
+            </Button>
+            <Button
+              variant={tool === "sticky" ? "default" : "ghost"}
+              size="icon"
+              onClick={() => setTool(tool === "sticky" ? "select" : "sticky")}
+              title="Sticky note - Click to place, or double-click empty canvas"
+            >
+              <StickyNote className="h-4 w-4" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant={tool === "frame" ? "default" : "ghost"}
+                  size="icon"
+                  title={`Frame - Click to place a ${framePreset.name} frame`}
+                >
+                  <Frame className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuLabel>Frame size</DropdownMenuLabel>
+                {FRAME_PRESETS.map((preset) => (
+                  <DropdownMenuItem
+                    key={preset.name}
+                    onClick={() => {
+                      setFramePreset(preset)
+                      setTool("frame")
+                    }}
+                  >
+                    {preset.name}
+                    <span className="ml-auto pl-4 text-xs text-muted-foreground">
+                      {preset.width} × {preset.height}
+                    </span>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </>
+        )}
 
-        {selectedIds.length > 0 && (
+        {!readOnly && selectedIds.length > 0 && (
           <>
             <div className="w-px bg-border" />
             {shouldShowUngroupButton ? (
@@ -488,6 +512,23 @@ export function Canvas({
                 <Group className="h-4 w-4" />
               </Button>
             ) : null}
+            {combinableCount >= 2 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" title="Combine shapes">
+                    <Combine className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuLabel>Combine {combinableCount} shapes</DropdownMenuLabel>
+                  {BOOLEAN_OPERATIONS.map((operation) => (
+                    <DropdownMenuItem key={operation.value} onClick={() => handleBooleanOperation(operation.value)}>
+                      {operation.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -507,12 +548,20 @@ export function Canvas({
         <span className="font-medium">{Math.round(viewportZoom * 100)}%</span>
       </div>
 
+      {showRulers && (
+        <CanvasRulers
+          viewport={viewport}
+          selection={rulerSelection}
+          onGuideDragStart={onGuideCreate ? startGuideDrag : undefined}
+        />
+      )}
+
       {/* Canvas */}
       <canvas
         ref={canvasRef}
         width={typeof window !== "undefined" ? window.innerWidth : 1920}
         height={typeof window !== "undefined" ? window.innerHeight : 1080}
-        className={`h-full w-full ${tool === "pan" ? "cursor-grab active:cursor-grabbing" : commentMode ? "cursor-crosshair" : "cursor-crosshair"}`}
+        className={`h-full w-full ${guideCursorAxis === "x" ? "cursor-col-resize" : guideCursorAxis === "y" ? "cursor-row-resize" : tool === "pan" ? "cursor-grab active:cursor-grabbing" : commentMode ? "cursor-crosshair" : "cursor-crosshair"}`}
         onMouseDown={commentMode ? undefined : handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
@@ -522,49 +571,15 @@ export function Canvas({
       />
 
       {editingTextId && editingTextObject && (
-        <div
-          className="absolute z-20"
-          style={{
-            left: textAreaStyle?.left,
-            top: textAreaStyle?.top,
-            width: textAreaStyle?.width,
-            height: textAreaStyle?.height,
-          }}
-        >
-          <textarea
-            ref={textInputRef}
-            value={textValue}
-            onChange={(e) => {
-              setTextValue(e.target.value)
-              setShowPlaceholder(e.target.value.length === 0)
-            }}
-            onKeyDown={(e) => {
-              if (e.key === "Enter" && !e.shiftKey) {
-                e.preventDefault()
-                saveTextEdit(editingTextId, textValue)
-              } else if (e.key === "Escape") {
-                e.preventDefault()
-                cancelTextEdit()
-              }
-            }}
-            onBlur={() => {
-              saveTextEdit(editingTextId, textValue)
-            }}
-            placeholder={showPlaceholder ? "Type here..." : ""}
-            className="h-full w-full resize-none border-none bg-transparent text-black outline-none overflow-hidden placeholder:text-gray-400 placeholder:opacity-50"
-            style={{
-              fontSize: textAreaStyle?.fontSize,
-              fontFamily: textAreaStyle?.fontFamily,
-              paddingTop: textAreaStyle?.paddingTop,
-              paddingLeft: textAreaStyle?.paddingLeft,
-              paddingRight: textAreaStyle?.paddingRight,
-              lineHeight: textAreaStyle?.lineHeight,
-              color: textAreaStyle?.color,
-              caretColor: textAreaStyle?.caretColor,
-              boxSizing: "border-box",
-            }}
-          />
-        </div>
+        <RichTextEditor
+          key={editingTextId}
+          object={editingTextObject}
+          left={canvasMetrics.offsetX + (viewportX + editingTextObject.x * viewportZoom) * canvasMetrics.scaleX}
+          top={canvasMetrics.offsetY + (viewportY + editingTextObject.y * viewportZoom) * canvasMetrics.scaleY}
+          scale={viewportZoom * canvasMetrics.scaleX}
+          onSave={(runs) => saveTextEdit(editingTextId, runs)}
+          onCancel={cancelTextEdit}
+        />
       )}
 
       {commentDraft && (
@@ -5,18 +5,58 @@ import { MultiplayerCursors } from "@/components/multiplayer-cursors"
 import { PresencePanel } from "@/components/presence-panel"
 import { useRealtimeCanvas } from "@/hooks/use-realtime-canvas"
 import { usePresence } from "@/hooks/use-presence"
-import { useMemo, useEffect, useState, useCallback, useRef, type Dispatch, type SetStateAction } from "react"
-import type { CanvasObject } from "@/lib/types"
+import { useCanvasGuides } from "@/hooks/use-canvas-guides"
+import { useCanvasStyles } from "@/hooks/use-canvas-styles"
+import {
+  useMemo,
+  useEffect,
+  useState,
+  useCallback,
+  useRef,
+  type Dispatch,
+  type DragEvent,
+  type SetStateAction,
+} from "react"
+import type { CanvasObject, HistoryCommand } from "@/lib/types"
 import { ConnectionStatus } from "@/components/connection-status"
-import { useHistory } from "@/hooks/use-history"
+import { useHistory, type HistoryStepResult } from "@/hooks/use-history"
+import { getHistoryKey } from "@/lib/offline-store"
+import { BULK_DELETE_SNAPSHOT_THRESHOLD, saveAutoSnapshot } from "@/lib/history-utils"
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts"
 import { StylePanel } from "@/components/style-panel"
+import { transformObjects, type TransformField } from "@/lib/transform-utils"
+import { PAINT_STYLE_FIELDS, supportsPaintField } from "@/lib/paint-utils"
+import {
+  applyStyleToken,
+  detachStyleTokens,
+  restyleBoundObjects,
+  unbindStyleToken,
+  type ColorTokenSlot,
+  type StyleToken,
+  type StyleTokenKind,
+  type StyleTokenUpdates,
+} from "@/lib/style-token-utils"
 import { LayersPanel } from "@/components/layers-panel"
 import { alignObjects, distributeObjects } from "@/lib/alignment-utils"
 import type { AlignmentType, DistributeType } from "@/lib/alignment-utils"
+import { CONNECTOR_STYLE_FIELDS, resolveConnectors } from "@/lib/connector-utils"
+import { fitTextBox, TEXT_STYLE_FIELDS } from "@/lib/text-layout"
+import { clusterStickyNotes } from "@/lib/sticky-utils"
+import { resolveFrames } from "@/lib/frame-utils"
+import { createGroup, resolveGroups, ungroupObjects } from "@/lib/group-utils"
+import {
+  cacheImageBitmap,
+  decodeImageFile,
+  getImagePlacementSize,
+  isSupportedImage,
+  uploadCanvasImage,
+  MAX_IMAGE_BYTES,
+} from "@/lib/image-utils"
+import { createClient } from "@/lib/supabase/client"
 import { useToast } from "@/hooks/use-toast"
 import { CommentMarker } from "@/components/comment-marker"
 import type { Comment } from "@/lib/comments-utils"
+import { canEditCanvas, loadCanvasMembers, type CanvasRole } from "@/lib/canvas-utils"
 
 // Generate a random color for each user
 function generateUserColor() {
@@ -32,10 +72,17 @@ function generateUserColor() {
   return colors[Math.floor(Math.random() * colors.length)]
 }
 
+interface SyncOptions {
+  // Undo/redo steps apply history themselves and must not be recorded again
+  recordHistory?: boolean
+  historyType?: HistoryCommand["type"]
+}
+
 interface CollaborativeCanvasProps {
   canvasId: string
   userId: string
   userName: string
+  role?: CanvasRole
   aiOperations?: any[]
   onAiOperationsProcessed?: () => void
   onObjectsChange?: (objects: CanvasObject[]) => void
@@ -70,6 +117,7 @@ export function CollaborativeCanvas({
   canvasId,
   userId,
   userName,
+  role = "editor",
   aiOperations = [],
   onAiOperationsProcessed,
   onObjectsChange,
@@ -101,141 +149,117 @@ export function CollaborativeCanvas({
 }: CollaborativeCanvasProps) {
   const userColor = useMemo(() => generateUserColor(), [])
   const [selectedObjectIds, setSelectedObjectIds] = useState<string[]>([])
-  const [isUndoRedoOperation, setIsUndoRedoOperation] = useState(false)
   const [connectionState, setConnectionState] = useState({ isConnected: true, queuedOps: 0 })
   const [clipboard, setClipboard] = useState<CanvasObject[]>([]) // Added clipboard state
   const { toast } = useToast()
 
-  const { objects, isLoading, syncObjects, isConnected, queuedOperations } = useRealtimeCanvas({
+  const canEdit = canEditCanvas(role)
+
+  const {
+    objects,
+    isLoading,
+    syncObjects: syncRealtimeObjects,
+    isConnected,
+    queuedOperations,
+  } = useRealtimeCanvas({
     canvasId,
     userId,
     onConnectionChange: (connected, queued) => {
       setConnectionState({ isConnected: connected, queuedOps: queued })
     },
-  })
+    onReconcile: ({ replayed, conflicts, dropped }) => {
+      const details = [
+        conflicts > 0 && `${conflicts} overrode teammates' edits made while you were offline`,
+        dropped > 0 && `${dropped} skipped because the object was deleted`,
+      ].filter(Boolean)
 
-  const { otherUsers, updateCursor } = usePresence({
-    canvasId,
-    userId,
-    userName,
-    userColor,
+      toast({
+        title: `Synced ${replayed} offline change${replayed === 1 ? "" : "s"}`,
+        description: details.length > 0 ? `${details.join("; ")}.` : "Your canvas is up to date.",
+      })
+    },
   })
 
-  const { addCommand, undo, redo, canUndo: historyCanUndo, canRedo: historyCanRedo } = useHistory()
-  const [previousObjects, setPreviousObjects] = useState<CanvasObject[]>([])
-  const [newTextObjectIds, setNewTextObjectIds] = useState<Set<string>>(new Set()) // Track new text objects
+  const {
+    recordChange,
+    undo,
+    redo,
+    canUndo: historyCanUndo,
+    canRedo: historyCanRedo,
+  } = useHistory({ storageKey: getHistoryKey(canvasId, userId) })
   const objectsRef = useRef<CanvasObject[]>(objects)
+  const containerRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
     objectsRef.current = objects
   }, [objects])
 
-  useEffect(() => {
-    if (isUndoRedoOperation) {
-      setPreviousObjects(objects)
-      setIsUndoRedoOperation(false)
-      return
-    }
-
-    if (objects.length !== previousObjects.length) {
-      // Objects were added or removed
-      if (objects.length > previousObjects.length) {
-        // Objects added
-        const newObjects = objects.filter((obj) => !previousObjects.find((prev) => prev.id === obj.id))
-        if (newObjects.length > 0) {
-          const newTextIds = newObjects
-            .filter((obj) => obj.type === "text" && !obj.text_content?.trim())
-            .map((obj) => obj.id)
-          if (newTextIds.length > 0) {
-            setNewTextObjectIds((prev) => new Set([...prev, ...newTextIds]))
-          } else {
-            // Non-text objects or text with content - add to history immediately
-            addCommand({
-              type: "create",
-              objectIds: newObjects.map((obj) => obj.id),
-              beforeState: previousObjects,
-              afterState: objects,
-              timestamp: Date.now(),
-            })
-          }
-        }
-      } else {
-        // Objects deleted
-        const deletedObjects = previousObjects.filter((prev) => !objects.find((obj) => obj.id === prev.id))
-        if (deletedObjects.length > 0) {
-          const deletedIds = deletedObjects.map((obj) => obj.id)
-          setNewTextObjectIds((prev) => {
-            const newSet = new Set(prev)
-            deletedIds.forEach((id) => newSet.delete(id))
-            return newSet
-          })
-
-          addCommand({
-            type: "delete",
-            objectIds: deletedIds,
-            beforeState: previousObjects,
-            afterState: objects,
-            timestamp: Date.now(),
-          })
-        }
+  // Every local mutation funnels through here, so viewers and commenters can
+  // never broadcast or persist object changes even if a UI path slips through.
+  // RLS on canvas_objects rejects the writes server-side as well.
+  // It is also the only place undo history is recorded: remote changes arrive
+  // through useRealtimeCanvas directly and never become this user's undo steps.
+  // Connectors are rerouted (or dropped, if a bound shape was deleted) here too,
+  // so the follow-up lands in the same undo step as the change that caused it.
+  const syncObjects = useCallback(
+    async (changedObjects: CanvasObject[], options: SyncOptions = {}) => {
+      if (!canEdit) {
+        console.warn("[v0] Ignoring object change on read-only canvas, role:", role)
+        return
       }
-    } else if (objects.length > 0 && previousObjects.length > 0) {
-      // Check for updates
-      const updatedObjects = objects.filter((obj, idx) => {
-        const prev = previousObjects.find((p) => p.id === obj.id)
-        if (!prev) return false
-
-        return (
-          obj.x !== prev.x ||
-          obj.y !== prev.y ||
-          obj.width !== prev.width ||
-          obj.height !== prev.height ||
-          obj.rotation !== prev.rotation ||
-          obj.text_content !== prev.text_content
-        )
-      })
-
-      if (updatedObjects.length > 0) {
-        const firstEditTextObjects = updatedObjects.filter(
-          (obj) => obj.type === "text" && newTextObjectIds.has(obj.id) && obj.text_content?.trim(),
-        )
 
-        if (firstEditTextObjects.length > 0) {
-          // This is the first edit - combine creation + edit into one history entry
-          const textIds = firstEditTextObjects.map((obj) => obj.id)
+      const previousObjects = objectsRef.current
+      const updatedObjects = resolveConnectors(
+        resolveGroups(previousObjects, resolveFrames(previousObjects, changedObjects)),
+      )
+      objectsRef.current = updatedObjects
+      if (options.recordHistory !== false) {
+        recordChange(previousObjects, updatedObjects, options.historyType)
+      }
+      await syncRealtimeObjects(updatedObjects)
+    },
+    [canEdit, role, syncRealtimeObjects, recordChange],
+  )
 
-          // Find the state before the text object was created
-          const beforeCreation = previousObjects.filter((obj) => !textIds.includes(obj.id))
+  const { otherUsers, updateCursor } = usePresence({
+    canvasId,
+    userId,
+    userName,
+    userColor,
+  })
 
-          addCommand({
-            type: "create", // Treat as creation, not update
-            objectIds: textIds,
-            beforeState: beforeCreation,
-            afterState: objects,
-            timestamp: Date.now(),
-          })
+  const { guides, addGuide, updateGuide, removeGuide } = useCanvasGuides({ canvasId, userId })
+  const { styleTokens, addStyleToken, editStyleToken, removeStyleToken } = useCanvasStyles({ canvasId, userId })
 
-          // Remove from tracking
-          setNewTextObjectIds((prev) => {
-            const newSet = new Set(prev)
-            textIds.forEach((id) => newSet.delete(id))
-            return newSet
-          })
-        } else {
-          // Regular update
-          addCommand({
-            type: "update",
-            objectIds: updatedObjects.map((obj) => obj.id),
-            beforeState: previousObjects,
-            afterState: objects,
-            timestamp: Date.now(),
-          })
-        }
-      }
+  // Sticky note authors: member emails, overridden by the names of people online now
+  const [memberEmails, setMemberEmails] = useState<Map<string, string>>(new Map())
+  useEffect(() => {
+    let cancelled = false
+    loadCanvasMembers(createClient(), canvasId).then((members) => {
+      if (cancelled) return
+      setMemberEmails(
+        new Map(members.flatMap((member) => (member.user_email ? [[member.user_id, member.user_email]] : []))),
+      )
+    })
+    return () => {
+      cancelled = true
     }
-
-    setPreviousObjects(objects)
-  }, [objects, isUndoRedoOperation, newTextObjectIds])
+  }, [canvasId])
+
+  // Presence hands back a new array on every cursor move; only rebuild the names when they change
+  const onlineNames = otherUsers.map((user) => `${user.user_id}\t${user.user_name}`).join("\n")
+  const authorNames = useMemo(() => {
+    const names = new Map(memberEmails)
+    onlineNames
+      .split("\n")
+      .filter(Boolean)
+      .forEach((entry) => {
+        const [id, name] = entry.split("\t")
+        names.set(id, name)
+      })
+    names.set(userId, userName)
+    return names
+  }, [memberEmails, onlineNames, userId, userName])
 
   useEffect(() => {
     if (!historyRestore) return
@@ -251,25 +275,9 @@ export function CollaborativeCanvas({
         "object(s)",
       )
 
-      const uniqueIds = Array.from(
-        new Set([...previousState.map((obj) => obj.id), ...historyRestore.map((obj) => obj.id)]),
-      )
-
-      setIsUndoRedoOperation(true)
-
       try {
-        await syncObjects(historyRestore)
-
-        addCommand({
-          type: "restore",
-          objectIds: uniqueIds,
-          beforeState: previousState,
-          afterState: historyRestore,
-          timestamp: Date.now(),
-        })
+        await syncObjects(historyRestore, { historyType: "restore" })
 
-        setNewTextObjectIds(new Set())
-        setPreviousObjects(historyRestore)
         setSelectedObjectIds([])
         onSelectionChange?.([])
 
@@ -278,34 +286,46 @@ export function CollaborativeCanvas({
         onHistoryRestoreComplete?.("success")
       } catch (error) {
         console.error("[v0] Failed to apply history restore:", error)
-        setIsUndoRedoOperation(false)
         onHistoryRestoreComplete?.("error")
       }
     }
 
     void applyRestore()
-  }, [historyRestore, addCommand, syncObjects, onSelectionChange, onHistoryRestoreComplete])
+  }, [historyRestore, syncObjects, onSelectionChange, onHistoryRestoreComplete])
+
+  const applyHistoryStep = useCallback(
+    (step: HistoryStepResult | null, action: "Undo" | "Redo") => {
+      if (!step) return
+
+      if (step.applied > 0) {
+        syncObjects(step.objects, { recordHistory: false })
+      }
+
+      if (step.skipped > 0) {
+        toast({
+          title: step.applied > 0 ? `${action} partially applied` : `Nothing to ${action.toLowerCase()} here`,
+          description: `${step.skipped} change${step.skipped === 1 ? " was" : "s were"} kept because a teammate edited ${step.skipped === 1 ? "it" : "them"} since.`,
+        })
+      }
+    },
+    [syncObjects, toast],
+  )
 
   const handleUndo = useCallback(() => {
-    const newObjects = undo(objects)
-    if (newObjects) {
-      setIsUndoRedoOperation(true)
-      syncObjects(newObjects)
-    }
-  }, [undo, objects, syncObjects])
+    applyHistoryStep(undo(objectsRef.current), "Undo")
+  }, [undo, applyHistoryStep])
 
   const handleRedo = useCallback(() => {
-    const newObjects = redo(objects)
-    if (newObjects) {
-      setIsUndoRedoOperation(true)
-      syncObjects(newObjects)
-    }
-  }, [redo, objects, syncObjects])
+    applyHistoryStep(redo(objectsRef.current), "Redo")
+  }, [redo, applyHistoryStep])
 
   const handleDelete = useCallback(() => {
     if (selectedObjectIds.length > 0) {
       const count = selectedObjectIds.length
       const updatedObjects = objects.filter((obj) => !selectedObjectIds.includes(obj.id))
+      if (objects.length - updatedObjects.length >= BULK_DELETE_SNAPSHOT_THRESHOLD) {
+        void saveAutoSnapshot(canvasId, objects, userId, userName, "bulk_delete")
+      }
       syncObjects(updatedObjects)
       setSelectedObjectIds([])
       console.log("[v0] Deleted selected objects via keyboard shortcut")
@@ -316,7 +336,7 @@ export function CollaborativeCanvas({
         variant: "destructive",
       })
     }
-  }, [selectedObjectIds, objects, syncObjects, toast])
+  }, [selectedObjectIds, objects, syncObjects, toast, canvasId, userId, userName])
 
   const handleDuplicate = useCallback(() => {
     if (selectedObjectIds.length === 0) return
@@ -354,35 +374,157 @@ export function CollaborativeCanvas({
     })
   }, [selectedObjectIds, objects, toast])
 
-  const handlePaste = useCallback(() => {
-    if (clipboard.length === 0) return
+  // Centre of the visible canvas area, in canvas coordinates
+  const getViewportCenter = useCallback(() => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    const { x, y, zoom } = viewport ?? { x: 0, y: 0, zoom: 1 }
+    return {
+      x: ((rect?.width ?? 0) / 2 - x) / zoom,
+      y: ((rect?.height ?? 0) / 2 - y) / zoom,
+    }
+  }, [viewport])
+
+  /**
+   * Upload image files and place them centred on `position`, cascading when
+   * several arrive at once. Files are decoded locally first, which sizes the
+   * object and seeds the bitmap cache so it shows without a second download.
+   */
+  const insertImages = useCallback(
+    async (files: File[], position: { x: number; y: number }) => {
+      const images = files.filter(isSupportedImage)
+      if (!canEdit || images.length === 0) return
+
+      const oversized = images.filter((file) => file.size > MAX_IMAGE_BYTES)
+      if (oversized.length > 0) {
+        toast({
+          title: "Image too large",
+          description: `Images must be under ${MAX_IMAGE_BYTES / 1024 / 1024} MB.`,
+          variant: "destructive",
+        })
+      }
+
+      const supabase = createClient()
+      const created: CanvasObject[] = []
+      for (const file of images.filter((image) => image.size <= MAX_IMAGE_BYTES)) {
+        const bitmap = await decodeImageFile(file)
+        const url = bitmap ? await uploadCanvasImage(supabase, canvasId, file) : null
+        if (!bitmap || !url) {
+          bitmap?.close()
+          continue
+        }
 
-    const pastedObjects = clipboard.map((obj) => ({
-      ...obj,
-      id: crypto.randomUUID(),
-      x: obj.x + 20, // Offset by 20px
-      y: obj.y + 20, // Offset by 20px
-    }))
+        cacheImageBitmap(url, bitmap)
+        const { width, height } = getImagePlacementSize(bitmap.width, bitmap.height)
+        const offset = created.length * 20
+        created.push({
+          id: crypto.randomUUID(),
+          canvas_id: canvasId,
+          type: "image",
+          x: position.x - width / 2 + offset,
+          y: position.y - height / 2 + offset,
+          width,
+          height,
+          rotation: 0,
+          fill_color: "transparent",
+          stroke_color: "transparent",
+          stroke_width: 0,
+          image_url: url,
+        })
+      }
 
-    const updatedObjects = [...objects, ...pastedObjects]
-    syncObjects(updatedObjects)
+      const failed = images.length - oversized.length - created.length
+      if (failed > 0) {
+        toast({
+          title: "Couldn't add image",
+          description: `${failed} image${failed > 1 ? "s" : ""} could not be uploaded. Check your connection.`,
+          variant: "destructive",
+        })
+      }
+      if (created.length === 0) return
 
-    setSelectedObjectIds(pastedObjects.map((obj) => obj.id))
-    console.log("[v0] Pasted", clipboard.length, "object(s) from clipboard")
+      syncObjects([...objectsRef.current, ...created])
+      setSelectedObjectIds(created.map((obj) => obj.id))
+      console.log("[v0] Added", created.length, "image(s)")
+    },
+    [canEdit, canvasId, syncObjects, toast],
+  )
 
-    toast({
-      title: "Pasted",
-      description: `${clipboard.length} object${clipboard.length > 1 ? "s" : ""} pasted`,
-    })
-  }, [clipboard, objects, syncObjects, toast])
+  const handleDragOver = useCallback(
+    (e: DragEvent<HTMLDivElement>) => {
+      if (!canEdit || !e.dataTransfer.types.includes("Files")) return
+      e.preventDefault()
+      e.dataTransfer.dropEffect = "copy"
+    },
+    [canEdit],
+  )
+
+  const handleDrop = useCallback(
+    (e: DragEvent<HTMLDivElement>) => {
+      if (!canEdit || e.dataTransfer.files.length === 0) return
+      e.preventDefault()
+
+      const rect = e.currentTarget.getBoundingClientRect()
+      const { x, y, zoom } = viewport ?? { x: 0, y: 0, zoom: 1 }
+      void insertImages(Array.from(e.dataTransfer.files), {
+        x: (e.clientX - rect.left - x) / zoom,
+        y: (e.clientY - rect.top - y) / zoom,
+      })
+    },
+    [canEdit, viewport, insertImages],
+  )
+
+  const handlePaste = useCallback(
+    (files: File[] = []) => {
+      // An image on the system clipboard means it was copied after any canvas objects
+      if (files.some(isSupportedImage)) {
+        void insertImages(files, getViewportCenter())
+        return
+      }
+
+      if (clipboard.length === 0) return
+
+      const pastedObjects = clipboard.map((obj) => ({
+        ...obj,
+        id: crypto.randomUUID(),
+        x: obj.x + 20, // Offset by 20px
+        y: obj.y + 20, // Offset by 20px
+      }))
+
+      const updatedObjects = [...objects, ...pastedObjects]
+      syncObjects(updatedObjects)
+
+      setSelectedObjectIds(pastedObjects.map((obj) => obj.id))
+      console.log("[v0] Pasted", clipboard.length, "object(s) from clipboard")
+
+      toast({
+        title: "Pasted",
+        description: `${clipboard.length} object${clipboard.length > 1 ? "s" : ""} pasted`,
+      })
+    },
+    [clipboard, objects, syncObjects, toast, insertImages, getViewportCenter],
+  )
 
   const handleStyleChange = useCallback(
-    (updates: Partial<CanvasObject>) => {
+    (styleUpdates: Partial<CanvasObject>) => {
       if (selectedObjectIds.length === 0) return
+      // Setting a colour or font by hand stops the object following the shared style it was bound to
+      const updates = detachStyleTokens(styleUpdates)
+
+      // Route and arrowhead settings only make sense on connectors, alignment and line height on text;
+      // gradients, dashes, corner radius and shadows on the shapes that can show them
+      const connectorOnly = CONNECTOR_STYLE_FIELDS.some((field) => field in updates)
+      const textOnly = TEXT_STYLE_FIELDS.some((field) => field in updates)
+      const paintFields = PAINT_STYLE_FIELDS.filter((field) => field in updates)
 
       const updatedObjects = objects.map((obj) => {
-        if (selectedObjectIds.includes(obj.id)) {
-          return { ...obj, ...updates }
+        if (
+          selectedObjectIds.includes(obj.id) &&
+          (!connectorOnly || obj.type === "connector") &&
+          (!textOnly || obj.type === "text" || obj.type === "sticky") &&
+          paintFields.every((field) => supportsPaintField(obj, field))
+        ) {
+          const updated = { ...obj, ...updates }
+          return textOnly ? fitTextBox(updated) : updated
         }
         return obj
       })
@@ -393,6 +535,77 @@ export function CollaborativeCanvas({
     [selectedObjectIds, objects, syncObjects],
   )
 
+  // Inspector edits go through syncObjects like a drag, so they are undoable and broadcast
+  const handleApplyStyleToken = useCallback(
+    (token: StyleToken, slot: ColorTokenSlot) => {
+      if (selectedObjectIds.length === 0) return
+
+      const updatedObjects = objects.map((obj) =>
+        selectedObjectIds.includes(obj.id) ? applyStyleToken(obj, token, slot) : obj,
+      )
+      syncObjects(updatedObjects)
+      console.log("[v0] Applied style", token.name, "to", selectedObjectIds.length, "object(s)")
+    },
+    [selectedObjectIds, objects, syncObjects],
+  )
+
+  // New styles take their values from the first selected object that can use them, which is then bound to it
+  const handleCreateStyleToken = useCallback(
+    (name: string, kind: StyleTokenKind, slot: ColorTokenSlot) => {
+      const isText = (obj: CanvasObject) => obj.type === "text" || obj.type === "sticky"
+      const source = objects.find((obj) => selectedObjectIds.includes(obj.id) && (kind === "color" || isText(obj)))
+      if (!source) return
+
+      const token = addStyleToken(
+        name,
+        kind,
+        kind === "text"
+          ? { font_family: source.font_family, font_size: source.font_size, line_height: source.line_height }
+          : { color: slot === "stroke" ? source.stroke_color : source.fill_color },
+      )
+      handleApplyStyleToken(token, slot)
+    },
+    [selectedObjectIds, objects, addStyleToken, handleApplyStyleToken],
+  )
+
+  const handleEditStyleToken = useCallback(
+    (tokenId: string, updates: StyleTokenUpdates) => {
+      const token = editStyleToken(tokenId, updates)
+      if (!token) return
+
+      const updatedObjects = restyleBoundObjects(objects, token)
+      if (updatedObjects === objects) return
+      syncObjects(updatedObjects)
+      console.log("[v0] Restyled objects bound to", token.name)
+    },
+    [objects, editStyleToken, syncObjects],
+  )
+
+  const handleDeleteStyleToken = useCallback(
+    (tokenId: string) => {
+      removeStyleToken(tokenId)
+      const updatedObjects = unbindStyleToken(objects, tokenId)
+      if (updatedObjects !== objects) syncObjects(updatedObjects)
+    },
+    [objects, removeStyleToken, syncObjects],
+  )
+
+  const handleTransform = useCallback(
+    (field: TransformField, input: string, lockAspectRatio: boolean) => {
+      if (selectedObjectIds.length === 0) return
+
+      const updatedObjects = transformObjects(objects, selectedObjectIds, field, input, lockAspectRatio)
+      if (!updatedObjects) {
+        console.log("[v0] Ignoring invalid", field, "entry:", input)
+        return
+      }
+
+      syncObjects(updatedObjects)
+      console.log("[v0] Set", field, "of", selectedObjectIds.length, "object(s) from", input)
+    },
+    [selectedObjectIds, objects, syncObjects],
+  )
+
   const handleSelectAll = useCallback(() => {
     const allIds = objects.map((obj) => obj.id)
     setSelectedObjectIds(allIds)
@@ -437,41 +650,10 @@ export function CollaborativeCanvas({
       return
     }
 
-    const selectedObjs = objects.filter((obj) => selectedObjectIds.includes(obj.id))
-
-    // Calculate bounding box for the group
-    const minX = Math.min(...selectedObjs.map((obj) => obj.x))
-    const minY = Math.min(...selectedObjs.map((obj) => obj.y))
-    const maxX = Math.max(...selectedObjs.map((obj) => obj.x + obj.width))
-    const maxY = Math.max(...selectedObjs.map((obj) => obj.y + obj.height))
-
-    const groupId = crypto.randomUUID()
-    const groupObject: CanvasObject = {
-      id: groupId,
-      canvas_id: canvasId,
-      type: "group",
-      x: minX,
-      y: minY,
-      width: maxX - minX,
-      height: maxY - minY,
-      rotation: 0,
-      fill_color: "transparent",
-      stroke_color: "#3b82f6",
-      stroke_width: 2,
-      children: selectedObjectIds,
-    }
-
-    // Update child objects to reference the parent group
-    const updatedObjects = objects.map((obj) => {
-      if (selectedObjectIds.includes(obj.id)) {
-        return { ...obj, parent_group: groupId }
-      }
-      return obj
-    })
-
-    // Add the group object
-    updatedObjects.push(groupObject)
-    syncObjects(updatedObjects)
+    const result = createGroup(selectedObjectIds, objects, canvasId)
+    if (!result) return
+    const groupId = result.group.id
+    syncObjects(result.objects)
 
     // Select the new group
     setSelectedObjectIds([groupId])
@@ -497,27 +679,13 @@ export function CollaborativeCanvas({
       return
     }
 
-    let updatedObjects = [...objects]
-    const newSelectedIds: string[] = []
-
-    selectedGroups.forEach((group) => {
-      if (group.children) {
-        // Remove parent_group reference from children
-        updatedObjects = updatedObjects.map((obj) => {
-          if (group.children?.includes(obj.id)) {
-            newSelectedIds.push(obj.id)
-            return { ...obj, parent_group: undefined }
-          }
-          return obj
-        })
-
-        // Remove the group object
-        updatedObjects = updatedObjects.filter((obj) => obj.id !== group.id)
-      }
-    })
+    const { objects: updatedObjects, releasedIds } = ungroupObjects(
+      selectedGroups.map((group) => group.id),
+      objects,
+    )
 
     syncObjects(updatedObjects)
-    setSelectedObjectIds(newSelectedIds)
+    setSelectedObjectIds(releasedIds)
     console.log("[v0] Ungrouped", selectedGroups.length, "group(s)")
 
     toast({
@@ -531,18 +699,18 @@ export function CollaborativeCanvas({
   }, [objects, selectedObjectIds])
 
   useKeyboardShortcuts({
-    onUndo: handleUndo,
-    onRedo: handleRedo,
-    onDelete: handleDelete,
-    onDuplicate: handleDuplicate,
+    onUndo: canEdit ? handleUndo : undefined,
+    onRedo: canEdit ? handleRedo : undefined,
+    onDelete: canEdit ? handleDelete : undefined,
+    onDuplicate: canEdit ? handleDuplicate : undefined,
     onSelectAll: handleSelectAll,
     onSelectAllOfType: handleSelectAllOfType, // Added select all of type to keyboard shortcuts
     onCopy: handleCopy,
-    onPaste: handlePaste,
-    onGroup: handleGroup,
-    onUngroup: handleUngroup,
-    canUndo: historyCanUndo,
-    canRedo: historyCanRedo,
+    onPaste: canEdit ? handlePaste : undefined,
+    onGroup: canEdit ? handleGroup : undefined,
+    onUngroup: canEdit ? handleUngroup : undefined,
+    canUndo: canEdit && historyCanUndo,
+    canRedo: canEdit && historyCanRedo,
     hasSelection: selectedObjectIds.length > 0,
   })
 
@@ -556,11 +724,17 @@ export function CollaborativeCanvas({
   }, [handleUndo, handleRedo, onUndo, onRedo])
 
   useEffect(() => {
-    canUndo?.(historyCanUndo)
-    canRedo?.(historyCanRedo)
-  }, [historyCanUndo, historyCanRedo, canUndo, canRedo])
+    canUndo?.(canEdit && historyCanUndo)
+    canRedo?.(canEdit && historyCanRedo)
+  }, [canEdit, historyCanUndo, historyCanRedo, canUndo, canRedo])
 
   useEffect(() => {
+    if (aiOperations.length > 0 && !canEdit) {
+      // Editors apply and broadcast AI results; read-only members just see the broadcasts
+      onAiOperationsProcessed?.()
+      return
+    }
+
     if (aiOperations.length > 0) {
       console.log("[v0] Processing AI operations:", aiOperations)
 
@@ -666,6 +840,14 @@ export function CollaborativeCanvas({
     [objects, syncObjects],
   )
 
+  const handleRenameObject = useCallback(
+    (id: string, name: string) => {
+      syncObjects(objects.map((obj) => (obj.id === id ? { ...obj, name } : obj)))
+      console.log("[v0] Renamed object:", id, name)
+    },
+    [objects, syncObjects],
+  )
+
   const handleAlign = useCallback(
     (alignType: AlignmentType) => {
       if (selectedObjectIds.length < 2) return
@@ -840,10 +1022,21 @@ export function CollaborativeCanvas({
   }
 
   return (
-    <div className="relative h-full w-full">
+    <div ref={containerRef} className="relative h-full w-full" onDragOver={handleDragOver} onDrop={handleDrop}>
       <ConnectionStatus isConnected={connectionState.isConnected} queuedOps={connectionState.queuedOps} />
       <PresencePanel currentUser={{ userId, userName, userColor }} otherUsers={otherUsers} />
-      <StylePanel selectedObjects={selectedObjects} onStyleChange={handleStyleChange} />
+      {canEdit && (
+        <StylePanel
+          selectedObjects={selectedObjects}
+          onStyleChange={handleStyleChange}
+          onTransform={handleTransform}
+          styleTokens={styleTokens}
+          onApplyStyleToken={handleApplyStyleToken}
+          onCreateStyleToken={handleCreateStyleToken}
+          onEditStyleToken={handleEditStyleToken}
+          onDeleteStyleToken={handleDeleteStyleToken}
+        />
+      )}
       <LayersPanel
         objects={objects}
         selectedIds={selectedObjectIds}
@@ -851,11 +1044,13 @@ export function CollaborativeCanvas({
         onDeleteObject={handleLayerDelete}
         onToggleVisibility={handleToggleVisibility}
         onToggleLock={handleToggleLock}
+        onRenameObject={canEdit ? handleRenameObject : undefined}
       />
       <Canvas
         canvasId={canvasId}
         objects={objects}
         onObjectsChange={syncObjects}
+        readOnly={!canEdit}
         onCursorMove={updateCursor}
         onSelectionChange={handleSelectionChange}
         selectedIds={selectedObjectIds}
@@ -875,6 +1070,13 @@ export function CollaborativeCanvas({
         onSendBackward={handleSendBackward}
         lassoMode={lassoMode} // Pass lassoMode to Canvas
         onCommentModeChange={onCommentModeChange} // Added onCommentModeChange prop
+        userId={userId}
+        authorNames={authorNames}
+        showRulers
+        guides={guides}
+        onGuideCreate={canEdit ? addGuide : undefined}
+        onGuideMove={canEdit ? updateGuide : undefined}
+        onGuideDelete={canEdit ? removeGuide : undefined}
       >
         <MultiplayerCursors users={otherUsers} />
         {comments.map((comment) => (
@@ -931,6 +1133,22 @@ function applyOperation(
         break
       }
 
+      case "clusterStickies": {
+        const clusters = Array.isArray(operation.clusters) ? operation.clusters : []
+        updatedObjects = clusterStickyNotes(updatedObjects, clusters, { x: operation.x, y: operation.y }, canvasId)
+        console.log("[v0] Clustered sticky notes into", clusters.length, "group(s)")
+        break
+      }
+
+      case "applyStyle": {
+        const objectIds: string[] = Array.isArray(operation.objectIds) ? operation.objectIds : []
+        updatedObjects = updatedObjects.map((obj) =>
+          objectIds.includes(obj.id) ? applyStyleToken(obj, operation.token, operation.slot) : obj,
+        )
+        console.log("[v0] Applied style", operation.token?.name, "to", objectIds.length, "object(s)")
+        break
+      }
+
       case "move": {
         const moveIndex = operation.shapeIndex === -1 ? updatedObjects.length - 1 : operation.shapeIndex
         if (moveIndex < 0 || moveIndex >= updatedObjects.length) {
@@ -1151,26 +1369,7 @@ function applyOperation(
       }
 
       case "ungroup": {
-        const groupIdsToUngroup = operation.groupIds || []
-        const childrenToRemoveGroupRef: string[] = []
-
-        updatedObjects = updatedObjects.filter((obj) => {
-          if (obj.type === "group" && groupIdsToUngroup.includes(obj.id)) {
-            if (obj.children) {
-              childrenToRemoveGroupRef.push(...obj.children)
-            }
-            return false // Remove the group object
-          }
-          return true
-        })
-
-        // Remove parent_group reference from children
-        updatedObjects = updatedObjects.map((obj) => {
-          if (childrenToRemoveGroupRef.includes(obj.id)) {
-            return { ...obj, parent_group: undefined }
-          }
-          return obj
-        })
+        updatedObjects = ungroupObjects(operation.groupIds || [], updatedObjects).objects
         break
       }
 
@@ -5,14 +5,31 @@ import { Button } from "@/components/ui/button"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { GradientEditor } from "@/components/gradient-editor"
+import type { Gradient } from "@/lib/types"
+import { createGradient, getGradientCSS } from "@/lib/paint-utils"
+import { NewStyleTokenInput } from "@/components/style-tokens-panel"
+import type { StyleToken } from "@/lib/style-token-utils"
 
 interface ColorPickerProps {
   color: string
   onChange: (color: string) => void
   label?: string
   recentColors?: string[]
+  // Fills that can be gradients pass these; choosing a solid colour again clears the gradient
+  gradient?: Gradient | null
+  onGradientChange?: (gradient: Gradient | null) => void
+  // The canvas's shared colour swatches; picking one binds it, so the colour follows later edits to the swatch
+  swatches?: StyleToken[]
+  swatchId?: string | null
+  onSwatchSelect?: (swatch: StyleToken) => void
+  // Saves the current colour as a new swatch with the given name
+  onSwatchCreate?: (name: string) => void
 }
 
+type FillMode = "solid" | Gradient["type"]
+
 const PRESET_COLORS = [
   "#ef4444", // red
   "#f97316", // orange
@@ -36,8 +53,28 @@ const PRESET_COLORS = [
   "#9ca3af", // light gray
 ]
 
-export function ColorPicker({ color, onChange, label, recentColors = [] }: ColorPickerProps) {
+export function ColorPicker({
+  color,
+  onChange,
+  label,
+  recentColors = [],
+  gradient = null,
+  onGradientChange,
+  swatches = [],
+  swatchId = null,
+  onSwatchSelect,
+  onSwatchCreate,
+}: ColorPickerProps) {
   const [hexInput, setHexInput] = useState(color)
+  const mode: FillMode = gradient?.type ?? "solid"
+
+  // Switching between linear and radial keeps the stops
+  const handleModeChange = (value: string) => {
+    if (!onGradientChange || value === mode) return
+    if (value === "solid") onGradientChange(null)
+    else if (gradient) onGradientChange({ ...gradient, type: value as Gradient["type"] })
+    else onGradientChange(createGradient(value as Gradient["type"], color))
+  }
 
   const handleHexChange = (value: string) => {
     setHexInput(value)
@@ -47,71 +84,120 @@ export function ColorPicker({ color, onChange, label, recentColors = [] }: Color
     }
   }
 
-  return (
-    <Popover>
-      <PopoverTrigger asChild>
-        <Button variant="outline" className="w-full justify-start gap-2 bg-transparent">
-          <div className="h-5 w-5 rounded border" style={{ backgroundColor: color }} />
-          <span className="text-sm">{label || "Color"}</span>
-        </Button>
-      </PopoverTrigger>
-      <PopoverContent className="w-64">
-        <div className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="hex-input">Hex Color</Label>
-            <Input
-              id="hex-input"
-              value={hexInput}
-              onChange={(e) => handleHexChange(e.target.value)}
-              placeholder="#000000"
-              maxLength={7}
-            />
-          </div>
-
-          {recentColors.length > 0 && (
-            <div className="space-y-2">
-              <Label>Recent</Label>
-              <div className="grid grid-cols-6 gap-2">
-                {recentColors.map((recentColor, index) => (
-                  <button
-                    key={`${recentColor}-${index}`}
-                    className="h-8 w-8 rounded border-2 transition-all hover:scale-110"
-                    style={{
-                      backgroundColor: recentColor,
-                      borderColor: color === recentColor ? "#000" : "transparent",
-                    }}
-                    onClick={() => {
-                      onChange(recentColor)
-                      setHexInput(recentColor)
-                    }}
-                    title={recentColor}
-                  />
-                ))}
-              </div>
-            </div>
-          )}
+  const solidContent = (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="hex-input">Hex Color</Label>
+        <Input
+          id="hex-input"
+          value={hexInput}
+          onChange={(e) => handleHexChange(e.target.value)}
+          placeholder="#000000"
+          maxLength={7}
+        />
+      </div>
 
-          <div className="space-y-2">
-            <Label>Presets</Label>
-            <div className="grid grid-cols-5 gap-2">
-              {PRESET_COLORS.map((presetColor) => (
+      {(swatches.length > 0 || onSwatchCreate) && (
+        <div className="space-y-2">
+          <Label>Document</Label>
+          {swatches.length > 0 && (
+            <div className="grid grid-cols-6 gap-2">
+              {swatches.map((swatch) => (
                 <button
-                  key={presetColor}
+                  key={swatch.id}
                   className="h-8 w-8 rounded border-2 transition-all hover:scale-110"
                   style={{
-                    backgroundColor: presetColor,
-                    borderColor: color === presetColor ? "#000" : "transparent",
+                    backgroundColor: swatch.color ?? undefined,
+                    borderColor: swatchId === swatch.id ? "#000" : "transparent",
                   }}
                   onClick={() => {
-                    onChange(presetColor)
-                    setHexInput(presetColor)
+                    onSwatchSelect?.(swatch)
+                    if (swatch.color) setHexInput(swatch.color)
                   }}
-                  title={presetColor}
+                  title={swatch.name}
                 />
               ))}
             </div>
+          )}
+          {onSwatchCreate && <NewStyleTokenInput placeholder="New swatch name" onCreate={onSwatchCreate} />}
+        </div>
+      )}
+
+      {recentColors.length > 0 && (
+        <div className="space-y-2">
+          <Label>Recent</Label>
+          <div className="grid grid-cols-6 gap-2">
+            {recentColors.map((recentColor, index) => (
+              <button
+                key={`${recentColor}-${index}`}
+                className="h-8 w-8 rounded border-2 transition-all hover:scale-110"
+                style={{
+                  backgroundColor: recentColor,
+                  borderColor: color === recentColor ? "#000" : "transparent",
+                }}
+                onClick={() => {
+                  onChange(recentColor)
+                  setHexInput(recentColor)
+                }}
+                title={recentColor}
+              />
+            ))}
           </div>
         </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Presets</Label>
+        <div className="grid grid-cols-5 gap-2">
+          {PRESET_COLORS.map((presetColor) => (
+            <button
+              key={presetColor}
+              className="h-8 w-8 rounded border-2 transition-all hover:scale-110"
+              style={{
+                backgroundColor: presetColor,
+                borderColor: color === presetColor ? "#000" : "transparent",
+              }}
+              onClick={() => {
+                onChange(presetColor)
+                setHexInput(presetColor)
+              }}
+              title={presetColor}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-full justify-start gap-2 bg-transparent">
+          <div
+            className="h-5 w-5 rounded border"
+            style={{ background: gradient ? getGradientCSS(gradient) : color }}
+          />
+          <span className="text-sm">{label || "Color"}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64">
+        {onGradientChange ? (
+          <Tabs value={mode} onValueChange={handleModeChange}>
+            <TabsList className="w-full">
+              <TabsTrigger value="solid">Solid</TabsTrigger>
+              <TabsTrigger value="linear">Linear</TabsTrigger>
+              <TabsTrigger value="radial">Radial</TabsTrigger>
+            </TabsList>
+            <TabsContent value="solid">{solidContent}</TabsContent>
+            {gradient && (
+              <TabsContent value={gradient.type}>
+                <GradientEditor gradient={gradient} onChange={onGradientChange} />
+              </TabsContent>
+            )}
+          </Tabs>
+        ) : (
+          solidContent
+        )}
       </PopoverContent>
     </Popover>
   )
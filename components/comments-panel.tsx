@@ -21,6 +21,7 @@ interface CommentsPanelProps {
   comments: Comment[]
   onCommentsChange: () => void
   supabase: SupabaseClient
+  readOnly?: boolean
 }
 
 export function CommentsPanel({
@@ -30,6 +31,7 @@ export function CommentsPanel({
   comments,
   onCommentsChange,
   supabase,
+  readOnly = false,
 }: CommentsPanelProps) {
   const [showResolved, setShowResolved] = useState(false)
   const [isCollapsed, setIsCollapsed] = useState(false)
@@ -178,7 +180,7 @@ export function CommentsPanel({
                         {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
                       </p>
                     </div>
-                    {!comment.resolved && (
+                    {!comment.resolved && !readOnly && (
                       <div className="flex items-center gap-0.5 my-0 mx-0">
                         <Button
                           variant="ghost"
@@ -232,7 +234,7 @@ export function CommentsPanel({
 
       {/* Footer */}
       <div className="flex-shrink-0 px-4 py-3 border-t border-border/50 bg-gradient-to-t from-muted/20 to-transparent space-y-2">
-        {comments.length > 0 && (
+        {comments.length > 0 && !readOnly && (
           <div className="flex items-center justify-center gap-2">
             <Button
               variant="ghost"
@@ -259,7 +261,9 @@ export function CommentsPanel({
             </Button>
           </div>
         )}
-        <p className="text-xs text-center text-muted-foreground">Click canvas to add comment (C key)</p>
+        <p className="text-xs text-center text-muted-foreground">
+          {readOnly ? "You have view-only access to comments" : "Click canvas to add comment (C key)"}
+        </p>
       </div>
     </div>
   )
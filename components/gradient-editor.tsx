@@ -0,0 +1,101 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Plus, X } from "lucide-react"
+import type { Gradient, GradientStop } from "@/lib/types"
+import { getGradientCSS } from "@/lib/paint-utils"
+
+interface GradientEditorProps {
+  gradient: Gradient
+  onChange: (gradient: Gradient) => void
+}
+
+// A gradient always keeps at least its two end stops
+const MIN_STOPS = 2
+
+function clampPercent(value: string): number {
+  const percent = Number(value)
+  return Number.isFinite(percent) ? Math.min(100, Math.max(0, percent)) / 100 : 0
+}
+
+/**
+ * Stops of a linear or radial gradient, each a colour at an offset along it,
+ * plus the direction of linear ones. Stops may be listed in any order; they are
+ * sorted by offset when painted.
+ */
+export function GradientEditor({ gradient, onChange }: GradientEditorProps) {
+  const updateStop = (index: number, updates: Partial<GradientStop>) => {
+    onChange({ ...gradient, stops: gradient.stops.map((stop, i) => (i === index ? { ...stop, ...updates } : stop)) })
+  }
+
+  // New stops go halfway between the last two, taking the colour of the last
+  const addStop = () => {
+    const [before, last] = gradient.stops.slice(-2)
+    const stop = { offset: (before.offset + last.offset) / 2, color: last.color }
+    onChange({ ...gradient, stops: [...gradient.stops.slice(0, -1), stop, last] })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="h-6 rounded border" style={{ background: getGradientCSS(gradient) }} />
+
+      {gradient.type === "linear" && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor="gradient-angle" className="w-12 text-xs">
+            Angle
+          </Label>
+          <Input
+            id="gradient-angle"
+            type="number"
+            min={0}
+            max={360}
+            value={gradient.angle}
+            onChange={(e) => onChange({ ...gradient, angle: (((Number(e.target.value) || 0) % 360) + 360) % 360 })}
+            className="h-7 px-2 text-xs md:text-xs"
+          />
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Stops</Label>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" title="Add stop" onClick={addStop}>
+            <Plus className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+        {gradient.stops.map((stop, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="color"
+              value={stop.color}
+              onChange={(e) => updateStop(index, { color: e.target.value })}
+              className="h-7 w-9 shrink-0 cursor-pointer rounded border bg-transparent p-0.5"
+              title={stop.color}
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={Math.round(stop.offset * 100)}
+              onChange={(e) => updateStop(index, { offset: clampPercent(e.target.value) })}
+              className="h-7 px-2 text-xs md:text-xs"
+            />
+            <span className="text-xs text-muted-foreground">%</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 shrink-0 p-0"
+              title="Remove stop"
+              disabled={gradient.stops.length <= MIN_STOPS}
+              onClick={() => onChange({ ...gradient, stops: gradient.stops.filter((_, i) => i !== index) })}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
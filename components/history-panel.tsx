@@ -4,15 +4,17 @@ import { useCallback, useEffect, useMemo, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Input } from "@/components/ui/input"
-import { History, RefreshCw, RotateCcw, Save, X } from "lucide-react"
+import { GitCompare, History, PlayCircle, RefreshCw, RotateCcw, Save, X } from "lucide-react"
 import { cn } from "@/lib/utils"
 import {
   loadHistorySnapshots,
   restoreHistorySnapshot,
   formatTimeAgo,
   saveHistorySnapshot,
+  SNAPSHOT_REASON_LABELS,
   type HistorySnapshot,
 } from "@/lib/history-utils"
+import { SnapshotDiffView } from "@/components/snapshot-diff"
 import type { CanvasObject } from "@/lib/types"
 import { useToast } from "@/hooks/use-toast"
 
@@ -22,10 +24,19 @@ interface HistoryPanelProps {
   userId: string
   userName: string
   onRestore: (objects: CanvasObject[]) => void
+  onOpenPlayback?: () => void
   onClose: () => void
 }
 
-export function HistoryPanel({ canvasId, currentObjects, userId, userName, onRestore, onClose }: HistoryPanelProps) {
+export function HistoryPanel({
+  canvasId,
+  currentObjects,
+  userId,
+  userName,
+  onRestore,
+  onOpenPlayback,
+  onClose,
+}: HistoryPanelProps) {
   const [snapshots, setSnapshots] = useState<HistorySnapshot[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isRestoring, setIsRestoring] = useState<string | null>(null)
@@ -33,6 +44,7 @@ export function HistoryPanel({ canvasId, currentObjects, userId, userName, onRes
   const [description, setDescription] = useState("")
   const [error, setError] = useState<string | null>(null)
   const [lastUpdated, setLastUpdated] = useState<string | null>(null)
+  const [comparingId, setComparingId] = useState<string | null>(null)
   const { toast } = useToast()
 
   const lastUpdatedLabel = useMemo(() => {
@@ -117,6 +129,7 @@ export function HistoryPanel({ canvasId, currentObjects, userId, userName, onRes
   }
 
   const canSaveSnapshot = currentObjects.length > 0 && !isSaving
+  const comparing = snapshots.find((snapshot) => snapshot.id === comparingId)
 
   return (
     <div className="fixed right-4 top-20 z-40 w-80 h-[600px] rounded-xl border border-border/50 bg-background/95 backdrop-blur-md shadow-xl overflow-hidden flex flex-col transition-all duration-200 hover:shadow-2xl">
@@ -128,6 +141,17 @@ export function HistoryPanel({ canvasId, currentObjects, userId, userName, onRes
             <h3 className="text-sm font-semibold tracking-tight">Version History</h3>
           </div>
           <div className="flex items-center gap-1">
+            {onOpenPlayback && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onOpenPlayback}
+                className="h-6 w-6"
+                title="Replay edit history"
+              >
+                <PlayCircle className="h-3 w-3" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="icon"
@@ -145,88 +169,112 @@ export function HistoryPanel({ canvasId, currentObjects, userId, userName, onRes
         </div>
       </div>
 
-      {/* Save snapshot */}
-      <div className="px-4 py-3 flex-shrink-0 border-b border-border/50 bg-muted/10 space-y-2">
-        <div className="flex items-center gap-2">
-          <Input
-            value={description}
-            onChange={(event) => setDescription(event.target.value)}
-            placeholder="Add a note (optional)"
-            className="h-8 text-xs"
-          />
-          <Button onClick={handleSaveSnapshot} size="sm" className="h-8 px-3 gap-1" disabled={!canSaveSnapshot}>
-            <Save className="h-3 w-3" />
-            {isSaving ? "Saving..." : "Save"}
-          </Button>
-        </div>
-        <p className="text-[11px] text-muted-foreground">
-          Capture the current state to revisit it later. Snapshots include all objects on the canvas.
-        </p>
-        {error && <p className="text-[11px] text-destructive">{error}</p>}
-      </div>
-
-      {/* Content */}
-      <ScrollArea className="flex-1 min-h-0">
-        <div className="p-4 space-y-2">
-          {isLoading ? (
-            <div className="text-center py-8 text-sm text-muted-foreground">Loading history...</div>
-          ) : error ? (
-            <div className="flex flex-col items-center justify-center gap-3 py-8 text-center text-sm">
-              <p className="max-w-[220px] text-destructive">{error}</p>
-              <Button variant="outline" size="sm" onClick={() => void loadSnapshots()} disabled={isLoading}>
-                Try again
+      {comparing ? (
+        <SnapshotDiffView
+          snapshot={comparing}
+          snapshots={snapshots}
+          currentObjects={currentObjects}
+          isRestoring={isRestoring === comparing.id}
+          onRestore={() => handleRestore(comparing.id)}
+          onBack={() => setComparingId(null)}
+        />
+      ) : (
+        <>
+          {/* Save snapshot */}
+          <div className="px-4 py-3 flex-shrink-0 border-b border-border/50 bg-muted/10 space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                value={description}
+                onChange={(event) => setDescription(event.target.value)}
+                placeholder="Add a note (optional)"
+                className="h-8 text-xs"
+              />
+              <Button onClick={handleSaveSnapshot} size="sm" className="h-8 px-3 gap-1" disabled={!canSaveSnapshot}>
+                <Save className="h-3 w-3" />
+                {isSaving ? "Saving..." : "Save"}
               </Button>
             </div>
-          ) : snapshots.length === 0 ? (
-            <div className="text-center py-8 text-sm text-muted-foreground">No history available yet</div>
-          ) : (
-            snapshots.map((snapshot) => (
-              <div
-                key={snapshot.id}
-                className="group rounded-lg border border-border/50 bg-card/50 p-3 hover:bg-card/80 transition-colors"
-              >
-                <div className="flex items-start justify-between gap-2 mb-2">
-                  <div className="flex-1 min-w-0">
-                    <div className="text-xs font-medium truncate">{snapshot.created_by_name}</div>
-                    <div
-                      className="text-xs text-muted-foreground"
-                      title={new Date(snapshot.created_at).toLocaleString()}
-                    >
-                      {formatTimeAgo(snapshot.created_at)}
-                    </div>
-                  </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => handleRestore(snapshot.id)}
-                    disabled={Boolean(isRestoring)}
-                    className="h-7 px-2 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity"
-                  >
-                    <RotateCcw className={cn("h-3 w-3 mr-1", isRestoring === snapshot.id && "animate-spin")} />
-                    {isRestoring === snapshot.id ? "Restoring..." : "Restore"}
+            <p className="text-[11px] text-muted-foreground">
+              Capture the current state to revisit it later. Snapshots include all objects on the canvas.
+            </p>
+            {error && <p className="text-[11px] text-destructive">{error}</p>}
+          </div>
+
+          {/* Content */}
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="p-4 space-y-2">
+              {isLoading ? (
+                <div className="text-center py-8 text-sm text-muted-foreground">Loading history...</div>
+              ) : error ? (
+                <div className="flex flex-col items-center justify-center gap-3 py-8 text-center text-sm">
+                  <p className="max-w-[220px] text-destructive">{error}</p>
+                  <Button variant="outline" size="sm" onClick={() => void loadSnapshots()} disabled={isLoading}>
+                    Try again
                   </Button>
                 </div>
-                <div className="text-xs text-muted-foreground">
-                  {snapshot.object_count} object{snapshot.object_count !== 1 ? "s" : ""}
-                  {snapshot.description && ` • ${snapshot.description}`}
-                </div>
-              </div>
-            ))
-          )}
-        </div>
-      </ScrollArea>
+              ) : snapshots.length === 0 ? (
+                <div className="text-center py-8 text-sm text-muted-foreground">No history available yet</div>
+              ) : (
+                snapshots.map((snapshot) => (
+                  <div
+                    key={snapshot.id}
+                    className="group rounded-lg border border-border/50 bg-card/50 p-3 hover:bg-card/80 transition-colors"
+                  >
+                    <div className="flex items-start justify-between gap-2 mb-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="text-xs font-medium truncate">{snapshot.created_by_name}</div>
+                        <div
+                          className="text-xs text-muted-foreground"
+                          title={new Date(snapshot.created_at).toLocaleString()}
+                        >
+                          {formatTimeAgo(snapshot.created_at)}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setComparingId(snapshot.id)}
+                        className="h-7 px-2 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity"
+                        title="Compare with the current canvas before restoring"
+                      >
+                        <GitCompare className="h-3 w-3 mr-1" />
+                        Compare
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRestore(snapshot.id)}
+                        disabled={Boolean(isRestoring)}
+                        className="h-7 px-2 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity"
+                      >
+                        <RotateCcw className={cn("h-3 w-3 mr-1", isRestoring === snapshot.id && "animate-spin")} />
+                        {isRestoring === snapshot.id ? "Restoring..." : "Restore"}
+                      </Button>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {snapshot.object_count} object{snapshot.object_count !== 1 ? "s" : ""}
+                      {snapshot.reason && snapshot.reason !== "manual" && ` • ${SNAPSHOT_REASON_LABELS[snapshot.reason]}`}
+                      {snapshot.description && ` • ${snapshot.description}`}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          </ScrollArea>
 
-      {/* Footer */}
-      <div className="flex-shrink-0 px-4 py-3 border-t border-border/50 bg-gradient-to-t from-muted/20 to-transparent">
-        <div className="text-xs text-muted-foreground text-center space-y-1">
-          <p>
-            Showing last {snapshots.length} version{snapshots.length !== 1 ? "s" : ""}
-          </p>
-          {lastUpdatedLabel && (
-            <p className="text-[10px] text-muted-foreground/80">Last refreshed {lastUpdatedLabel}</p>
-          )}
-        </div>
-      </div>
+          {/* Footer */}
+          <div className="flex-shrink-0 px-4 py-3 border-t border-border/50 bg-gradient-to-t from-muted/20 to-transparent">
+            <div className="text-xs text-muted-foreground text-center space-y-1">
+              <p>
+                Showing last {snapshots.length} version{snapshots.length !== 1 ? "s" : ""}
+              </p>
+              {lastUpdatedLabel && (
+                <p className="text-[10px] text-muted-foreground/80">Last refreshed {lastUpdatedLabel}</p>
+              )}
+            </div>
+          </div>
+        </>
+      )}
     </div>
   )
 }
@@ -4,6 +4,7 @@ import { useState } from "react"
 import type { CanvasObject } from "@/lib/types"
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { getFrameName } from "@/lib/frame-utils"
 import {
   Trash2,
   ChevronDown,
@@ -13,6 +14,12 @@ import {
   Triangle,
   Minus,
   Type,
+  PenLine,
+  PenTool,
+  MoveUpRight,
+  ImageIcon,
+  StickyNote,
+  Frame,
   Folder,
   FolderOpen,
 } from "lucide-react"
@@ -23,6 +30,7 @@ interface LayersPanelProps {
   onSelectObject: (id: string, addToSelection: boolean) => void
   onDeleteObject: (id: string) => void
   onReorder?: (id: string, newIndex: number) => void
+  onRenameObject?: (id: string, name: string) => void
   topPosition?: number
   onCollapseChange?: (collapsed: boolean) => void
 }
@@ -33,11 +41,14 @@ export function LayersPanel({
   onSelectObject,
   onDeleteObject,
   onReorder,
+  onRenameObject,
   topPosition = 360,
   onCollapseChange,
 }: LayersPanelProps) {
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set())
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
 
   const handleCollapseToggle = (collapsed: boolean) => {
     setIsCollapsed(collapsed)
@@ -62,6 +73,12 @@ export function LayersPanel({
       return isExpanded ? <FolderOpen className="h-4 w-4" /> : <Folder className="h-4 w-4" />
     }
     if (obj.type === "text") return <Type className="h-4 w-4" />
+    if (obj.type === "path") return <PenLine className="h-4 w-4" />
+    if (obj.type === "vector") return <PenTool className="h-4 w-4" />
+    if (obj.type === "connector") return <MoveUpRight className="h-4 w-4" />
+    if (obj.type === "image") return <ImageIcon className="h-4 w-4" />
+    if (obj.type === "sticky") return <StickyNote className="h-4 w-4" />
+    if (obj.type === "frame") return <Frame className="h-4 w-4" />
     switch (obj.shape) {
       case "rectangle":
         return <Square className="h-4 w-4" />
@@ -78,12 +95,15 @@ export function LayersPanel({
 
   const getObjectLabel = (obj: CanvasObject) => {
     if (obj.type === "group") {
-      const childCount = obj.children_ids?.length || 0
+      const childCount = obj.children?.length || 0
       return `Group (${childCount})`
     }
     if (obj.type === "text") {
       return "Text"
     }
+    if (obj.type === "frame") {
+      return getFrameName(obj)
+    }
 
     return obj.type.charAt(0).toUpperCase() + obj.type.slice(1)
   }
@@ -91,14 +111,30 @@ export function LayersPanel({
   // Sort objects by z-index (reverse so highest z-index is at top)
   const sortedObjects = [...objects].sort((a, b) => (b.z || 0) - (a.z || 0))
 
+  const frameIds = new Set(objects.filter((obj) => obj.type === "frame").map((obj) => obj.id))
+
   const topLevelObjects = sortedObjects.filter((obj) => {
-    return !objects.some((other) => other.type === "group" && other.children_ids?.includes(obj.id))
+    if (obj.frame_id && frameIds.has(obj.frame_id)) return false
+    return !objects.some((other) => other.type === "group" && other.children?.includes(obj.id))
   })
 
+  const startRename = (obj: CanvasObject) => {
+    setRenamingId(obj.id)
+    setRenameValue(getFrameName(obj))
+  }
+
+  const finishRename = (id: string) => {
+    const name = renameValue.trim()
+    setRenamingId(null)
+    if (name) onRenameObject?.(id, name)
+  }
+
   const renderObject = (obj: CanvasObject, depth = 0) => {
     const isSelected = selectedIds.includes(obj.id)
     const isGroup = obj.type === "group"
+    const isFrame = obj.type === "frame"
     const isExpanded = expandedGroups.has(obj.id)
+    const frameChildren = isFrame ? sortedObjects.filter((child) => child.frame_id === obj.id) : []
 
     return (
       <div key={obj.id}>
@@ -115,7 +151,7 @@ export function LayersPanel({
           style={{ marginLeft: `${depth * 16}px` }}
           onClick={(e) => onSelectObject(obj.id, e.shiftKey)}
         >
-          {isGroup && (
+          {(isGroup || frameChildren.length > 0) && (
             <Button
               variant="ghost"
               size="sm"
@@ -140,14 +176,35 @@ export function LayersPanel({
           </div>
 
           {/* Label */}
-          <div
-            className={`
-              flex-1 text-sm truncate transition-colors
-              ${isSelected ? "font-medium text-foreground" : "text-foreground/80"}
-            `}
-          >
-            {getObjectLabel(obj)}
-          </div>
+          {renamingId === obj.id ? (
+            <input
+              autoFocus
+              className="flex-1 min-w-0 rounded border border-border bg-background px-1 text-sm outline-none"
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onClick={(e) => e.stopPropagation()}
+              onBlur={() => finishRename(obj.id)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") finishRename(obj.id)
+                if (e.key === "Escape") setRenamingId(null)
+              }}
+            />
+          ) : (
+            <div
+              className={`
+                flex-1 text-sm truncate transition-colors
+                ${isSelected ? "font-medium text-foreground" : "text-foreground/80"}
+              `}
+              title={isFrame && onRenameObject ? "Double-click to rename" : undefined}
+              onDoubleClick={(e) => {
+                if (!isFrame || !onRenameObject) return
+                e.stopPropagation()
+                startRename(obj)
+              }}
+            >
+              {getObjectLabel(obj)}
+            </div>
+          )}
 
           {/* Actions */}
           <div className="flex items-center gap-0.5 flex-shrink-0">
@@ -165,14 +222,18 @@ export function LayersPanel({
           </div>
         </div>
 
-        {isGroup && isExpanded && obj.children_ids && obj.children_ids.length > 0 && (
+        {isGroup && isExpanded && obj.children && obj.children.length > 0 && (
           <div className="mt-1">
-            {obj.children_ids.map((childId) => {
+            {obj.children.map((childId) => {
               const child = objects.find((o) => o.id === childId)
               return child ? renderObject(child, depth + 1) : null
             })}
           </div>
         )}
+
+        {isExpanded && frameChildren.length > 0 && (
+          <div className="mt-1">{frameChildren.map((child) => renderObject(child, depth + 1))}</div>
+        )}
       </div>
     )
   }
@@ -0,0 +1,304 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useRouter } from "next/navigation"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { Canvas } from "@/components/canvas"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ChevronDown, GitFork, Pause, Play, SkipBack, SkipForward, Users, X } from "lucide-react"
+import { forkCanvas, loadCanvasMembers } from "@/lib/canvas-utils"
+import { formatTimeAgo } from "@/lib/history-utils"
+import { loadOperationHistory } from "@/lib/operation-log"
+import {
+  createPlaybackTimeline,
+  getObjectsAtStep,
+  getStepObjectIds,
+  getTimelineAuthors,
+  getVisibleSteps,
+  PLAYBACK_SPEEDS,
+  PLAYBACK_STEPS_PER_SECOND,
+  type PlaybackTimeline,
+} from "@/lib/playback-utils"
+import type { CanvasObject } from "@/lib/types"
+import { useToast } from "@/hooks/use-toast"
+
+interface PlaybackPanelProps {
+  canvasId: string
+  canvasName: string
+  userId: string
+  userName: string
+  supabase: SupabaseClient
+  onClose: () => void
+}
+
+function ignoreObjectChanges(_objects: CanvasObject[]) {}
+
+/**
+ * Replays the canvas from its operation log on a read-only board. The
+ * scrubber moves through the recorded steps; the objects each step touched are
+ * shown selected. Any step can be forked into a new canvas.
+ */
+export function PlaybackPanel({ canvasId, canvasName, userId, userName, supabase, onClose }: PlaybackPanelProps) {
+  const [timeline, setTimeline] = useState<PlaybackTimeline | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [position, setPosition] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState<number>(PLAYBACK_SPEEDS[0])
+  const [authorFilter, setAuthorFilter] = useState<Set<string> | null>(null)
+  const [memberEmails, setMemberEmails] = useState<Map<string, string>>(new Map())
+  const [isForking, setIsForking] = useState(false)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    let cancelled = false
+    Promise.all([loadOperationHistory(supabase, canvasId), loadCanvasMembers(supabase, canvasId)]).then(
+      ([history, members]) => {
+        if (cancelled) return
+        setMemberEmails(
+          new Map(members.flatMap((member) => (member.user_email ? [[member.user_id, member.user_email]] : []))),
+        )
+        if (!history) {
+          setError("Failed to load the edit history. Please try again.")
+          return
+        }
+
+        const loaded = createPlaybackTimeline(history.snapshots, history.operations)
+        console.log(`[v0] [PLAYBACK] Loaded ${loaded.steps.length} step(s) for canvas`, canvasId)
+        setTimeline(loaded)
+        // Open at the present, so pressing play starts from the beginning
+        setPosition(Math.max(0, loaded.steps.length - 1))
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [supabase, canvasId])
+
+  const visibleSteps = useMemo(
+    () => (timeline ? getVisibleSteps(timeline, authorFilter) : []),
+    [timeline, authorFilter],
+  )
+  const stepIndex = visibleSteps[position] ?? 0
+  const step = timeline?.steps[stepIndex]
+
+  const objects = useMemo(() => (timeline ? getObjectsAtStep(timeline, stepIndex) : []), [timeline, stepIndex])
+  const touchedIds = useMemo(() => {
+    if (!step) return []
+    const present = new Set(objects.map((object) => object.id))
+    return getStepObjectIds(step).filter((id) => present.has(id))
+  }, [step, objects])
+
+  const authors = useMemo(() => (timeline ? getTimelineAuthors(timeline) : []), [timeline])
+  const getAuthorName = useCallback(
+    (id: string | null) => (id === userId ? userName : (id && memberEmails.get(id)) || "Unknown user"),
+    [userId, userName, memberEmails],
+  )
+
+  const lastPosition = visibleSteps.length - 1
+
+  useEffect(() => {
+    if (!isPlaying) return
+    if (position >= lastPosition) {
+      setIsPlaying(false)
+      return
+    }
+
+    const timeout = setTimeout(() => setPosition((current) => current + 1), 1000 / (PLAYBACK_STEPS_PER_SECOND * speed))
+    return () => clearTimeout(timeout)
+  }, [isPlaying, position, lastPosition, speed])
+
+  const togglePlaying = () => {
+    if (!isPlaying && position >= lastPosition) {
+      setPosition(0)
+    }
+    setIsPlaying(!isPlaying)
+  }
+
+  const toggleAuthor = (id: string) => {
+    const next = new Set(authorFilter ?? authors)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    // Keep the scrubber on the same point in time where possible
+    const nextVisible = timeline ? getVisibleSteps(timeline, next.size === authors.length ? null : next) : []
+    const nextPosition = nextVisible.findLastIndex((index) => index <= stepIndex)
+    setAuthorFilter(next.size === authors.length ? null : next)
+    setPosition(Math.max(0, nextPosition))
+  }
+
+  const handleFork = async () => {
+    if (!step) return
+
+    setIsPlaying(false)
+    setIsForking(true)
+    const label = new Date(step.created_at).toLocaleString()
+    const canvas = await forkCanvas(supabase, `${canvasName} (${label})`, userId, objects)
+    setIsForking(false)
+
+    if (!canvas) {
+      toast({
+        title: "Fork failed",
+        description: "We couldn't create a canvas from this version. Please try again.",
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({ title: "Canvas forked", description: `Opened "${canvas.name}".` })
+    router.push(`/canvas/${canvas.id}`)
+  }
+
+  const stepLabel = !step
+    ? null
+    : step.kind === "snapshot"
+      ? step.seq === 0
+        ? "Canvas created"
+        : `Snapshot at edit ${step.seq.toLocaleString()}`
+      : `Edit ${step.seq.toLocaleString()} by ${getAuthorName(step.created_by)}`
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-background">
+      <div className="relative min-h-0 flex-1">
+        <Canvas
+          canvasId={canvasId}
+          objects={objects}
+          onObjectsChange={ignoreObjectChanges}
+          selectedIds={touchedIds}
+          readOnly
+        />
+      </div>
+
+      <div className="flex-shrink-0 space-y-3 border-t border-border/50 bg-background/95 px-4 py-3 shadow-xl backdrop-blur-md">
+        <div className="flex items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h3 className="text-sm font-semibold tracking-tight">Playback</h3>
+            {step && (
+              <p className="truncate text-xs text-muted-foreground" title={new Date(step.created_at).toLocaleString()}>
+                {stepLabel} • {formatTimeAgo(step.created_at)} • {objects.length} object
+                {objects.length !== 1 ? "s" : ""}
+              </p>
+            )}
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose} className="h-7 w-7" title="Close playback">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {error ? (
+          <p className="text-xs text-destructive">{error}</p>
+        ) : !timeline ? (
+          <p className="text-xs text-muted-foreground">Loading edit history...</p>
+        ) : timeline.steps.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No recorded edits yet</p>
+        ) : (
+          <>
+            <input
+              type="range"
+              min={0}
+              max={Math.max(0, lastPosition)}
+              value={position}
+              onChange={(event) => {
+                setIsPlaying(false)
+                setPosition(Number(event.target.value))
+              }}
+              className="w-full accent-primary"
+              aria-label="Playback position"
+            />
+
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setPosition(Math.max(0, position - 1))}
+                disabled={position === 0}
+                title="Previous step"
+              >
+                <SkipBack className="h-4 w-4" />
+              </Button>
+              <Button size="icon" className="h-8 w-8" onClick={togglePlaying} title={isPlaying ? "Pause" : "Play"}>
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={() => setPosition(Math.min(lastPosition, position + 1))}
+                disabled={position >= lastPosition}
+                title="Next step"
+              >
+                <SkipForward className="h-4 w-4" />
+              </Button>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 gap-1 px-2 text-xs">
+                    {speed}x
+                    <ChevronDown className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {PLAYBACK_SPEEDS.map((value) => (
+                    <DropdownMenuItem key={value} onClick={() => setSpeed(value)}>
+                      {value}x
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 gap-1 px-2 text-xs" disabled={authors.length === 0}>
+                    <Users className="h-3 w-3" />
+                    {authorFilter ? `${authorFilter.size} of ${authors.length} people` : "Everyone"}
+                    <ChevronDown className="h-3 w-3" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuLabel className="text-xs">Step through edits by</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  {authors.map((id) => (
+                    <DropdownMenuCheckboxItem
+                      key={id}
+                      checked={!authorFilter || authorFilter.has(id)}
+                      onCheckedChange={() => toggleAuthor(id)}
+                      onSelect={(event) => event.preventDefault()}
+                    >
+                      {getAuthorName(id)}
+                    </DropdownMenuCheckboxItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+
+              <span className="ml-auto text-xs tabular-nums text-muted-foreground">
+                {(position + 1).toLocaleString()} / {visibleSteps.length.toLocaleString()}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 gap-1 px-3"
+                onClick={handleFork}
+                disabled={isForking || !step}
+              >
+                <GitFork className="h-3 w-3" />
+                {isForking ? "Forking..." : "Fork from here"}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,299 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useRef, useState, type CSSProperties } from "react"
+import { Button } from "@/components/ui/button"
+import { Bold, Italic, Underline } from "lucide-react"
+import type { CanvasObject, TextRun } from "@/lib/types"
+import {
+  getTextRuns,
+  insertText,
+  isStyleActive,
+  normalizeRuns,
+  toggleRunStyle,
+  DEFAULT_LINE_HEIGHT,
+  DEFAULT_TEXT_ALIGN,
+  TEXT_BOX_PADDING,
+  type TextStyleKey,
+} from "@/lib/text-layout"
+
+interface RichTextEditorProps {
+  object: CanvasObject
+  // Screen position of the object's top-left corner, relative to the canvas container
+  left: number
+  top: number
+  // Canvas units to screen pixels
+  scale: number
+  onSave: (runs: TextRun[]) => void
+  onCancel: () => void
+}
+
+const STYLE_BUTTONS: { key: TextStyleKey; label: string; shortcut: string; icon: typeof Bold }[] = [
+  { key: "bold", label: "Bold", shortcut: "b", icon: Bold },
+  { key: "italic", label: "Italic", shortcut: "i", icon: Italic },
+  { key: "underline", label: "Underline", shortcut: "u", icon: Underline },
+]
+
+/**
+ * The editor keeps the runs as its model and renders them into a
+ * contentEditable element. Typing is left to the browser and read back from the
+ * DOM; formatting, line breaks and paste are applied to the runs and re-rendered,
+ * so the DOM never accumulates markup the canvas cannot draw.
+ */
+
+function renderRuns(root: HTMLElement, runs: TextRun[]) {
+  root.replaceChildren()
+  runs.forEach((run) => {
+    const span = document.createElement("span")
+    span.textContent = run.text
+    if (run.bold) span.style.fontWeight = "bold"
+    if (run.italic) span.style.fontStyle = "italic"
+    if (run.underline) span.style.textDecoration = "underline"
+    root.appendChild(span)
+  })
+
+  // A trailing line break only shows once something follows it
+  if (runs.length > 0 && runs[runs.length - 1].text.endsWith("\n")) {
+    const sentinel = document.createElement("br")
+    sentinel.dataset.sentinel = "true"
+    root.appendChild(sentinel)
+  }
+}
+
+function readRuns(root: HTMLElement): TextRun[] {
+  const runs: TextRun[] = []
+
+  const visit = (node: Node, style: Omit<TextRun, "text">) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      runs.push({ ...style, text: node.textContent ?? "" })
+      return
+    }
+    if (!(node instanceof HTMLElement)) return
+
+    if (node.tagName === "BR") {
+      if (!node.dataset.sentinel) runs.push({ ...style, text: "\n" })
+      return
+    }
+
+    // Browsers may still wrap new lines in blocks, e.g. after an undo
+    if ((node.tagName === "DIV" || node.tagName === "P") && runs.length > 0) {
+      runs.push({ ...style, text: "\n" })
+    }
+
+    const next = {
+      bold: style.bold || node.style.fontWeight === "bold" || node.tagName === "B" || node.tagName === "STRONG",
+      italic: style.italic || node.style.fontStyle === "italic" || node.tagName === "I" || node.tagName === "EM",
+      underline: style.underline || node.style.textDecoration.includes("underline") || node.tagName === "U",
+    }
+    node.childNodes.forEach((child) => visit(child, next))
+  }
+
+  root.childNodes.forEach((child) => visit(child, {}))
+  return normalizeRuns(runs)
+}
+
+function getSelectionOffsets(root: HTMLElement): { start: number; end: number } | null {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0) return null
+
+  const range = selection.getRangeAt(0)
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null
+
+  const measure = (container: Node, offset: number) => {
+    const before = document.createRange()
+    before.selectNodeContents(root)
+    before.setEnd(container, offset)
+    return before.toString().length
+  }
+
+  return { start: measure(range.startContainer, range.startOffset), end: measure(range.endContainer, range.endOffset) }
+}
+
+function setSelectionOffsets(root: HTMLElement, start: number, end: number) {
+  const selection = window.getSelection()
+  if (!selection) return
+
+  const locate = (offset: number): [Node, number] => {
+    const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+    let remaining = offset
+    let last: Text | null = null
+    while (walker.nextNode()) {
+      const text = walker.currentNode as Text
+      if (remaining <= text.length) return [text, remaining]
+      remaining -= text.length
+      last = text
+    }
+    return last ? [last, last.length] : [root, 0]
+  }
+
+  const range = document.createRange()
+  range.setStart(...locate(start))
+  range.setEnd(...locate(end))
+  selection.removeAllRanges()
+  selection.addRange(range)
+}
+
+export function RichTextEditor({ object, left, top, scale, onSave, onCancel }: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null)
+  const runsRef = useRef<TextRun[]>(normalizeRuns(getTextRuns(object)))
+  const savedRef = useRef(false)
+  const [isEmpty, setIsEmpty] = useState(runsRef.current.length === 0)
+  const [activeStyles, setActiveStyles] = useState<Record<TextStyleKey, boolean>>({
+    bold: false,
+    italic: false,
+    underline: false,
+  })
+
+  const refreshActiveStyles = useCallback(() => {
+    const editor = editorRef.current
+    if (!editor) return
+    const offsets = getSelectionOffsets(editor)
+    if (!offsets) return
+    setActiveStyles({
+      bold: isStyleActive(runsRef.current, offsets.start, offsets.end, "bold"),
+      italic: isStyleActive(runsRef.current, offsets.start, offsets.end, "italic"),
+      underline: isStyleActive(runsRef.current, offsets.start, offsets.end, "underline"),
+    })
+  }, [])
+
+  // Render the initial text once and select it all; the parent remounts the editor per object
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!editor) return
+    renderRuns(editor, runsRef.current)
+    editor.focus()
+    const length = runsRef.current.reduce((total, run) => total + run.text.length, 0)
+    setSelectionOffsets(editor, 0, length)
+  }, [])
+
+  useEffect(() => {
+    document.addEventListener("selectionchange", refreshActiveStyles)
+    return () => document.removeEventListener("selectionchange", refreshActiveStyles)
+  }, [refreshActiveStyles])
+
+  const updateRuns = useCallback((runs: TextRun[], selection?: { start: number; end: number }) => {
+    const editor = editorRef.current
+    runsRef.current = runs
+    setIsEmpty(runs.length === 0)
+    if (!editor || !selection) return
+    renderRuns(editor, runs)
+    setSelectionOffsets(editor, selection.start, selection.end)
+  }, [])
+
+  const save = useCallback(() => {
+    if (savedRef.current) return
+    savedRef.current = true
+    onSave(runsRef.current)
+  }, [onSave])
+
+  const toggleStyle = useCallback(
+    (key: TextStyleKey) => {
+      const editor = editorRef.current
+      const offsets = editor ? getSelectionOffsets(editor) : null
+      if (!offsets || offsets.start === offsets.end) return
+      updateRuns(toggleRunStyle(runsRef.current, offsets.start, offsets.end, key), offsets)
+      refreshActiveStyles()
+    },
+    [updateRuns, refreshActiveStyles],
+  )
+
+  const replaceSelection = useCallback(
+    (text: string) => {
+      const editor = editorRef.current
+      const offsets = editor ? getSelectionOffsets(editor) : null
+      if (!offsets) return
+      const caret = offsets.start + text.length
+      updateRuns(insertText(runsRef.current, offsets.start, offsets.end, text), { start: caret, end: caret })
+    },
+    [updateRuns],
+  )
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const modifier = e.metaKey || e.ctrlKey
+    const styleButton = modifier && STYLE_BUTTONS.find((button) => button.shortcut === e.key.toLowerCase())
+    if (styleButton) {
+      e.preventDefault()
+      toggleStyle(styleButton.key)
+    } else if (e.key === "Enter" && e.shiftKey) {
+      e.preventDefault()
+      replaceSelection("\n")
+    } else if (e.key === "Enter") {
+      e.preventDefault()
+      save()
+    } else if (e.key === "Escape") {
+      e.preventDefault()
+      savedRef.current = true
+      onCancel()
+    }
+  }
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    replaceSelection(e.clipboardData.getData("text/plain").replace(/\r\n?/g, "\n"))
+  }
+
+  const handleInput = () => {
+    const editor = editorRef.current
+    if (!editor) return
+    updateRuns(readRuns(editor))
+  }
+
+  const fontSize = (object.font_size || 16) * scale
+  const editorStyle: CSSProperties = {
+    width: `${object.width * scale}px`,
+    minHeight: `${object.height * scale}px`,
+    padding: `${TEXT_BOX_PADDING * scale}px`,
+    fontSize: `${fontSize}px`,
+    fontFamily: object.font_family || "Arial",
+    lineHeight: object.line_height || DEFAULT_LINE_HEIGHT,
+    textAlign: object.text_align ?? DEFAULT_TEXT_ALIGN,
+    color: object.fill_color,
+    caretColor: object.fill_color,
+    whiteSpace: "pre-wrap",
+    overflowWrap: "anywhere",
+    boxSizing: "border-box",
+  }
+
+  return (
+    <div className="absolute z-20" style={{ left: `${left}px`, top: `${top}px` }}>
+      <div className="absolute bottom-full left-0 mb-2 flex gap-1 rounded-lg border border-border/50 bg-background/95 p-1 shadow-lg backdrop-blur-md">
+        {STYLE_BUTTONS.map(({ key, label, shortcut, icon: Icon }) => (
+          <Button
+            key={key}
+            variant={activeStyles[key] ? "default" : "ghost"}
+            size="sm"
+            className="h-7 w-7 p-0"
+            title={`${label} (Ctrl/Cmd+${shortcut.toUpperCase()})`}
+            // Keep focus and selection in the editor
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => toggleStyle(key)}
+          >
+            <Icon className="h-3.5 w-3.5" />
+          </Button>
+        ))}
+      </div>
+
+      <div className="relative">
+        {isEmpty && (
+          <div className="pointer-events-none absolute inset-0 text-gray-400 opacity-50" style={editorStyle}>
+            Type here...
+          </div>
+        )}
+        <div
+          ref={editorRef}
+          contentEditable
+          suppressContentEditableWarning
+          role="textbox"
+          aria-multiline="true"
+          className="outline-none"
+          style={editorStyle}
+          onInput={handleInput}
+          onKeyDown={handleKeyDown}
+          onPaste={handlePaste}
+          onBlur={save}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { X } from "lucide-react"
+import type { Shadow } from "@/lib/types"
+
+interface ShadowEditorProps {
+  shadows: Shadow[]
+  onChange: (shadows: Shadow[]) => void
+}
+
+const NEW_SHADOWS: Record<Shadow["type"], Shadow> = {
+  drop: { type: "drop", x: 4, y: 4, blur: 8, color: "#000000", opacity: 0.25 },
+  inner: { type: "inner", x: 0, y: 2, blur: 6, color: "#000000", opacity: 0.3 },
+}
+
+const SHADOW_FIELDS: { field: "x" | "y" | "blur"; label: string }[] = [
+  { field: "x", label: "X" },
+  { field: "y", label: "Y" },
+  { field: "blur", label: "B" },
+]
+
+/**
+ * Drop and inner shadows of the selection, painted in list order. Offsets and
+ * blur are in canvas units, so shadows scale with the board.
+ */
+export function ShadowEditor({ shadows, onChange }: ShadowEditorProps) {
+  const updateShadow = (index: number, updates: Partial<Shadow>) => {
+    onChange(shadows.map((shadow, i) => (i === index ? { ...shadow, ...updates } : shadow)))
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Shadows</Label>
+        <div className="flex gap-1">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => onChange([...shadows, NEW_SHADOWS.drop])}
+          >
+            + Drop
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => onChange([...shadows, NEW_SHADOWS.inner])}
+          >
+            + Inner
+          </Button>
+        </div>
+      </div>
+
+      {shadows.map((shadow, index) => (
+        <div key={index} className="space-y-1.5 rounded-md border border-border/50 p-2">
+          <div className="flex items-center gap-2">
+            <span className="flex-1 text-xs font-medium">
+              {shadow.type === "drop" ? "Drop shadow" : "Inner shadow"}
+            </span>
+            <input
+              type="color"
+              value={shadow.color}
+              onChange={(e) => updateShadow(index, { color: e.target.value })}
+              className="h-6 w-8 cursor-pointer rounded border bg-transparent p-0.5"
+              title={shadow.color}
+            />
+            <Input
+              type="number"
+              min={0}
+              max={100}
+              value={Math.round(shadow.opacity * 100)}
+              onChange={(e) => {
+                const percent = Math.min(100, Math.max(0, Number(e.target.value) || 0))
+                updateShadow(index, { opacity: percent / 100 })
+              }}
+              className="h-6 w-14 px-1.5 text-xs md:text-xs"
+              title="Opacity (%)"
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              title="Remove shadow"
+              onClick={() => onChange(shadows.filter((_, i) => i !== index))}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-3 gap-1.5">
+            {SHADOW_FIELDS.map(({ field, label }) => (
+              <label key={field} className="flex items-center gap-1">
+                <span className="w-3 text-xs text-muted-foreground">{label}</span>
+                <Input
+                  type="number"
+                  min={field === "blur" ? 0 : undefined}
+                  value={shadow[field]}
+                  onChange={(e) => {
+                    const value = Number(e.target.value) || 0
+                    updateShadow(index, { [field]: field === "blur" ? Math.max(0, value) : value })
+                  }}
+                  className="h-6 px-1.5 text-xs md:text-xs"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,283 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useState } from "react"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { ChevronDown, Copy, Link2, Trash2, Users, X } from "lucide-react"
+import {
+  loadCanvasMembers,
+  removeCanvasMember,
+  shareCanvas,
+  updateCanvasMemberRole,
+  SHAREABLE_ROLES,
+  type CanvasMember,
+  type CanvasRole,
+} from "@/lib/canvas-utils"
+import {
+  createShareLink,
+  getShareLinkUrl,
+  loadShareLinks,
+  revokeShareLink,
+  SHARE_LINK_EXPIRY_OPTIONS,
+  type ShareLink,
+} from "@/lib/share-link-utils"
+import { useToast } from "@/hooks/use-toast"
+
+interface SharePanelProps {
+  canvasId: string
+  userId: string
+  supabase: SupabaseClient
+  onClose: () => void
+}
+
+const ROLE_LABELS: Record<CanvasRole, string> = {
+  owner: "Owner",
+  editor: "Can edit",
+  commenter: "Can comment",
+  viewer: "Can view",
+}
+
+function RolePicker({ value, onChange }: { value: CanvasRole; onChange: (role: CanvasRole) => void }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 gap-1 px-2 text-xs">
+          {ROLE_LABELS[value]}
+          <ChevronDown className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {SHAREABLE_ROLES.map((role) => (
+          <DropdownMenuItem key={role} onClick={() => onChange(role)}>
+            {ROLE_LABELS[role]}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+export function SharePanel({ canvasId, userId, supabase, onClose }: SharePanelProps) {
+  const [members, setMembers] = useState<CanvasMember[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [email, setEmail] = useState("")
+  const [inviteRole, setInviteRole] = useState<CanvasRole>("editor")
+  const [isSharing, setIsSharing] = useState(false)
+  const [links, setLinks] = useState<ShareLink[]>([])
+  const [linkExpiryHours, setLinkExpiryHours] = useState<number | null>(null)
+  const [isCreatingLink, setIsCreatingLink] = useState(false)
+  const { toast } = useToast()
+
+  const refreshMembers = useCallback(async () => {
+    setIsLoading(true)
+    const loaded = await loadCanvasMembers(supabase, canvasId)
+    setMembers(loaded)
+    setIsLoading(false)
+  }, [supabase, canvasId])
+
+  useEffect(() => {
+    refreshMembers()
+  }, [refreshMembers])
+
+  useEffect(() => {
+    loadShareLinks(supabase, canvasId).then(setLinks)
+  }, [supabase, canvasId])
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(link.token))
+      toast({ title: "Link copied", description: "Anyone with the link can view this canvas." })
+    } catch (error) {
+      console.error("[v0] [SHARE] Failed to copy link:", error)
+    }
+  }
+
+  const handleCreateLink = async () => {
+    if (isCreatingLink) return
+
+    setIsCreatingLink(true)
+    const link = await createShareLink(supabase, canvasId, userId, linkExpiryHours)
+    setIsCreatingLink(false)
+
+    if (!link) {
+      toast({ title: "Could not create link", variant: "destructive" })
+      return
+    }
+
+    setLinks((prev) => [link, ...prev])
+    copyLink(link)
+  }
+
+  const handleRevokeLink = async (link: ShareLink) => {
+    const revoked = await revokeShareLink(supabase, link.id)
+    if (!revoked) {
+      toast({ title: "Could not revoke link", variant: "destructive" })
+      return
+    }
+
+    setLinks((prev) => prev.filter((l) => l.id !== link.id))
+    toast({ title: "Link revoked" })
+  }
+
+  const handleShare = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim() || isSharing) return
+
+    setIsSharing(true)
+    const { member, error } = await shareCanvas(supabase, canvasId, email, inviteRole)
+    setIsSharing(false)
+
+    if (!member) {
+      toast({ title: "Could not share canvas", description: error, variant: "destructive" })
+      return
+    }
+
+    setEmail("")
+    toast({ title: "Canvas shared", description: `${member.user_email} ${ROLE_LABELS[member.role].toLowerCase()}` })
+    refreshMembers()
+  }
+
+  const handleRoleChange = async (member: CanvasMember, role: CanvasRole) => {
+    if (role === member.role) return
+
+    const updated = await updateCanvasMemberRole(supabase, canvasId, member.user_id, role)
+    if (!updated) {
+      toast({ title: "Could not change role", variant: "destructive" })
+      return
+    }
+
+    setMembers((prev) => prev.map((m) => (m.user_id === member.user_id ? { ...m, role } : m)))
+  }
+
+  const handleRemove = async (member: CanvasMember) => {
+    const removed = await removeCanvasMember(supabase, canvasId, member.user_id)
+    if (!removed) {
+      toast({ title: "Could not remove member", variant: "destructive" })
+      return
+    }
+
+    setMembers((prev) => prev.filter((m) => m.user_id !== member.user_id))
+  }
+
+  return (
+    <div className="fixed right-4 top-20 z-40 w-80 max-h-[600px] rounded-xl border border-border/50 bg-background/95 backdrop-blur-md shadow-xl overflow-hidden flex flex-col transition-all duration-200 hover:shadow-2xl">
+      {/* Header */}
+      <div className="p-4 flex-shrink-0 bg-gradient-to-b from-muted/30 to-transparent border-b border-border/50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Users className="h-4 w-4 text-primary" />
+            <h3 className="text-sm font-semibold tracking-tight">Share canvas</h3>
+          </div>
+          <Button variant="ghost" size="icon" onClick={onClose} className="h-6 w-6" title="Close">
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Invite */}
+      <form onSubmit={handleShare} className="px-4 py-3 flex-shrink-0 border-b border-border/50 bg-muted/10 space-y-2">
+        <div className="flex items-center gap-1">
+          <Input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            placeholder="teammate@example.com"
+            className="h-8 text-xs"
+          />
+          <RolePicker value={inviteRole} onChange={setInviteRole} />
+        </div>
+        <Button type="submit" size="sm" className="h-8 w-full" disabled={!email.trim() || isSharing}>
+          {isSharing ? "Sharing..." : "Invite"}
+        </Button>
+      </form>
+
+      {/* Public view-only links */}
+      <div className="px-4 py-3 flex-shrink-0 border-b border-border/50 space-y-2">
+        <div className="flex items-center justify-between gap-1">
+          <span className="flex items-center gap-1 text-xs font-medium">
+            <Link2 className="h-3 w-3" />
+            View-only link
+          </span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 gap-1 px-2 text-xs">
+                {SHARE_LINK_EXPIRY_OPTIONS.find((option) => option.hours === linkExpiryHours)?.label}
+                <ChevronDown className="h-3 w-3" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {SHARE_LINK_EXPIRY_OPTIONS.map((option) => (
+                <DropdownMenuItem key={option.label} onClick={() => setLinkExpiryHours(option.hours)}>
+                  {option.label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+        <Button variant="outline" size="sm" className="h-8 w-full" onClick={handleCreateLink} disabled={isCreatingLink}>
+          {isCreatingLink ? "Creating..." : "Create and copy link"}
+        </Button>
+        {links.map((link) => (
+          <div key={link.id} className="flex items-center justify-between gap-2 rounded-lg bg-muted/20 px-2 py-1">
+            <span className="min-w-0 truncate text-xs text-muted-foreground">
+              {link.expires_at ? `Expires ${new Date(link.expires_at).toLocaleDateString()}` : "No expiry"}
+            </span>
+            <div className="flex items-center">
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => copyLink(link)} title="Copy link">
+                <Copy className="h-3 w-3" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive hover:text-destructive"
+                onClick={() => handleRevokeLink(link)}
+                title="Revoke link"
+              >
+                <Trash2 className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Members */}
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {isLoading ? (
+            <div className="p-4 text-center text-xs text-muted-foreground">Loading members...</div>
+          ) : (
+            members.map((member) => (
+              <div key={member.user_id} className="flex items-center justify-between gap-2 rounded-lg px-2 py-1.5">
+                <span className="min-w-0 truncate text-xs" title={member.user_email || member.user_id}>
+                  {member.user_email || member.user_id}
+                  {member.user_id === userId && <span className="text-muted-foreground"> (you)</span>}
+                </span>
+                {member.role === "owner" ? (
+                  <span className="px-2 text-xs text-muted-foreground">{ROLE_LABELS.owner}</span>
+                ) : (
+                  <div className="flex items-center">
+                    <RolePicker value={member.role} onChange={(role) => handleRoleChange(member, role)} />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      onClick={() => handleRemove(member)}
+                      title="Remove access"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { ArrowLeft, ChevronDown, RotateCcw } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { getFrameName } from "@/lib/frame-utils"
+import {
+  diffSnapshots,
+  formatTimeAgo,
+  SNAPSHOT_REASON_LABELS,
+  type HistorySnapshot,
+  type SnapshotDiff,
+} from "@/lib/history-utils"
+import { getObjectBounds } from "@/lib/spatial-index"
+import type { CanvasObject } from "@/lib/types"
+
+interface SnapshotDiffViewProps {
+  snapshot: HistorySnapshot
+  snapshots: HistorySnapshot[]
+  currentObjects: CanvasObject[]
+  isRestoring: boolean
+  onRestore: () => void
+  onBack: () => void
+}
+
+type DiffStatus = "added" | "removed" | "changed" | "unchanged"
+
+const CURRENT_TARGET = "current"
+
+const STATUS_STYLES: Record<DiffStatus, { stroke: string; fill: string; label: string; className: string }> = {
+  added: { stroke: "#16a34a", fill: "#16a34a33", label: "Added", className: "text-green-600" },
+  removed: { stroke: "#dc2626", fill: "#dc262622", label: "Removed", className: "text-red-600" },
+  changed: { stroke: "#d97706", fill: "#d9770633", label: "Changed", className: "text-amber-600" },
+  unchanged: { stroke: "#94a3b8", fill: "transparent", label: "Unchanged", className: "text-muted-foreground" },
+}
+
+function getObjectLabel(obj: CanvasObject): string {
+  if (obj.type === "frame") return getFrameName(obj)
+  if ((obj.type === "text" || obj.type === "sticky") && obj.text_content) {
+    return obj.text_content.length > 24 ? `${obj.text_content.slice(0, 24)}…` : obj.text_content
+  }
+  return obj.type.charAt(0).toUpperCase() + obj.type.slice(1)
+}
+
+function getSnapshotLabel(snapshot: HistorySnapshot): string {
+  const reason = snapshot.reason && snapshot.reason !== "manual" ? SNAPSHOT_REASON_LABELS[snapshot.reason] : null
+  return `${snapshot.description || reason || snapshot.created_by_name} • ${formatTimeAgo(snapshot.created_at)}`
+}
+
+// Outlines of both versions, coloured by what happened to each object
+function DiffPreview({ diff }: { diff: SnapshotDiff }) {
+  const shapes = [
+    ...diff.unchanged.map((obj) => ({ obj, status: "unchanged" as DiffStatus, ghost: false })),
+    ...diff.removed.map((obj) => ({ obj, status: "removed" as DiffStatus, ghost: false })),
+    // Where a changed object used to be, outlined without a fill
+    ...diff.changed.map(({ before }) => ({ obj: before, status: "removed" as DiffStatus, ghost: true })),
+    ...diff.changed.map(({ after }) => ({ obj: after, status: "changed" as DiffStatus, ghost: false })),
+    ...diff.added.map((obj) => ({ obj, status: "added" as DiffStatus, ghost: false })),
+  ]
+  if (shapes.length === 0) return null
+
+  const rects = shapes.map((shape) => ({ ...shape, bounds: getObjectBounds(shape.obj) }))
+  const minX = Math.min(...rects.map(({ bounds }) => bounds.x))
+  const minY = Math.min(...rects.map(({ bounds }) => bounds.y))
+  const maxX = Math.max(...rects.map(({ bounds }) => bounds.x + bounds.width))
+  const maxY = Math.max(...rects.map(({ bounds }) => bounds.y + bounds.height))
+  const padding = Math.max(maxX - minX, maxY - minY, 1) * 0.05
+  const strokeWidth = Math.max(maxX - minX, maxY - minY, 1) / 200
+
+  return (
+    <svg
+      viewBox={`${minX - padding} ${minY - padding} ${maxX - minX + padding * 2} ${maxY - minY + padding * 2}`}
+      className="h-36 w-full rounded-md border border-border/50 bg-white"
+      preserveAspectRatio="xMidYMid meet"
+    >
+      {rects.map(({ obj, status, bounds, ghost }, index) => (
+        <rect
+          key={`${obj.id}-${index}`}
+          x={bounds.x}
+          y={bounds.y}
+          width={Math.max(bounds.width, strokeWidth)}
+          height={Math.max(bounds.height, strokeWidth)}
+          fill={ghost ? "transparent" : STATUS_STYLES[status].fill}
+          stroke={STATUS_STYLES[status].stroke}
+          strokeWidth={strokeWidth}
+          strokeDasharray={status === "removed" ? `${strokeWidth * 4} ${strokeWidth * 3}` : undefined}
+        />
+      ))}
+    </svg>
+  )
+}
+
+/**
+ * What changed between a history snapshot and the current canvas (or another
+ * snapshot), shown before restoring it. The diff reads forward from the
+ * snapshot: restoring it brings back what was removed and drops what was added.
+ */
+export function SnapshotDiffView({
+  snapshot,
+  snapshots,
+  currentObjects,
+  isRestoring,
+  onRestore,
+  onBack,
+}: SnapshotDiffViewProps) {
+  const [targetId, setTargetId] = useState(CURRENT_TARGET)
+
+  const target = snapshots.find((candidate) => candidate.id === targetId)
+  const targetObjects = target ? target.snapshot : currentObjects
+  const diff = useMemo(() => diffSnapshots(snapshot.snapshot || [], targetObjects), [snapshot, targetObjects])
+
+  const entries = [
+    ...diff.added.map((obj) => ({ obj, status: "added" as const, fields: [] as string[] })),
+    ...diff.removed.map((obj) => ({ obj, status: "removed" as const, fields: [] as string[] })),
+    ...diff.changed.map(({ after, fields }) => ({ obj: after, status: "changed" as const, fields })),
+  ]
+
+  return (
+    <div className="flex min-h-0 flex-1 flex-col">
+      <div className="flex-shrink-0 space-y-3 border-b border-border/50 px-4 py-3">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={onBack} className="h-6 w-6" title="Back to history">
+            <ArrowLeft className="h-3 w-3" />
+          </Button>
+          <div className="min-w-0 flex-1">
+            <div className="truncate text-xs font-medium">{getSnapshotLabel(snapshot)}</div>
+            <div className="text-[11px] text-muted-foreground">compared with</div>
+          </div>
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-8 w-full justify-between gap-1 px-2 text-xs">
+              <span className="truncate">{target ? getSnapshotLabel(target) : "Current canvas"}</span>
+              <ChevronDown className="h-3 w-3 flex-shrink-0" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" className="max-h-72 overflow-y-auto">
+            <DropdownMenuItem onClick={() => setTargetId(CURRENT_TARGET)} className="text-xs">
+              Current canvas
+            </DropdownMenuItem>
+            {snapshots
+              .filter((candidate) => candidate.id !== snapshot.id)
+              .map((candidate) => (
+                <DropdownMenuItem key={candidate.id} onClick={() => setTargetId(candidate.id)} className="text-xs">
+                  {getSnapshotLabel(candidate)}
+                </DropdownMenuItem>
+              ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DiffPreview diff={diff} />
+
+        <div className="flex justify-between text-[11px]">
+          {(["added", "removed", "changed", "unchanged"] as const).map((status) => (
+            <span key={status} className={STATUS_STYLES[status].className}>
+              {diff[status].length} {STATUS_STYLES[status].label.toLowerCase()}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="space-y-1 p-4">
+          {entries.length === 0 ? (
+            <div className="py-6 text-center text-sm text-muted-foreground">No differences</div>
+          ) : (
+            entries.map(({ obj, status, fields }) => (
+              <div key={obj.id} className="rounded-md border border-border/50 bg-card/50 px-3 py-2">
+                <div className="flex items-center justify-between gap-2 text-xs">
+                  <span className="truncate font-medium">{getObjectLabel(obj)}</span>
+                  <span className={cn("flex-shrink-0", STATUS_STYLES[status].className)}>
+                    {STATUS_STYLES[status].label}
+                  </span>
+                </div>
+                {fields.length > 0 && (
+                  <div className="truncate text-[11px] text-muted-foreground" title={fields.join(", ")}>
+                    {fields.join(", ")}
+                  </div>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+
+      <div className="flex-shrink-0 border-t border-border/50 px-4 py-3">
+        <Button size="sm" className="h-8 w-full gap-1" onClick={onRestore} disabled={isRestoring}>
+          <RotateCcw className={cn("h-3 w-3", isRestoring && "animate-spin")} />
+          {isRestoring ? "Restoring..." : "Restore this version"}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -2,21 +2,77 @@
 
 import { ColorPicker } from "@/components/color-picker"
 import { Label } from "@/components/ui/label"
-import type { CanvasObject } from "@/lib/types"
+import { Input } from "@/components/ui/input"
+import type { ArrowheadStyle, CanvasObject, ConnectorRoute, StrokeDash, TextAlign } from "@/lib/types"
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
-import { ChevronDown, ChevronRight, Palette } from "lucide-react"
+import { AlignCenter, AlignLeft, AlignRight, ChevronDown, ChevronRight, Palette } from "lucide-react"
 import { useRecentColors } from "@/hooks/use-recent-colors"
+import { DEFAULT_LINE_HEIGHT, DEFAULT_TEXT_ALIGN } from "@/lib/text-layout"
+import { STICKY_COLORS } from "@/lib/sticky-utils"
+import { TransformInspector } from "@/components/transform-inspector"
+import type { TransformField } from "@/lib/transform-utils"
+import { ShadowEditor } from "@/components/shadow-editor"
+import { getOpacity, supportsPaintField } from "@/lib/paint-utils"
+import { NewStyleTokenInput, StyleTokensPanel } from "@/components/style-tokens-panel"
+import type { ColorTokenSlot, StyleToken, StyleTokenKind, StyleTokenUpdates } from "@/lib/style-token-utils"
+
+const CONNECTOR_ROUTES: { value: ConnectorRoute; label: string }[] = [
+  { value: "straight", label: "Straight" },
+  { value: "elbow", label: "Elbow" },
+]
+
+const ARROWHEAD_STYLES: { value: ArrowheadStyle; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "arrow", label: "Arrow" },
+  { value: "triangle", label: "Filled" },
+  { value: "circle", label: "Dot" },
+]
+
+const TEXT_ALIGNMENTS: { value: TextAlign; label: string; icon: typeof AlignLeft }[] = [
+  { value: "left", label: "Align left", icon: AlignLeft },
+  { value: "center", label: "Align center", icon: AlignCenter },
+  { value: "right", label: "Align right", icon: AlignRight },
+]
+
+const LINE_HEIGHTS = [1, 1.2, 1.5, 2]
+
+const STROKE_DASHES: { value: StrokeDash; label: string }[] = [
+  { value: "solid", label: "Solid" },
+  { value: "dashed", label: "Dashed" },
+  { value: "dotted", label: "Dotted" },
+]
 
 interface StylePanelProps {
   selectedObjects: CanvasObject[]
   onStyleChange: (updates: Partial<CanvasObject>) => void
+  // Numeric position, size and rotation edits; the transform fields are hidden without it
+  onTransform?: (field: TransformField, input: string, lockAspectRatio: boolean) => void
+  // Shared swatches and text styles of the canvas; they are hidden without the callbacks
+  styleTokens?: StyleToken[]
+  onApplyStyleToken?: (token: StyleToken, slot: ColorTokenSlot) => void
+  onCreateStyleToken?: (name: string, kind: StyleTokenKind, slot: ColorTokenSlot) => void
+  onEditStyleToken?: (tokenId: string, updates: StyleTokenUpdates) => void
+  onDeleteStyleToken?: (tokenId: string) => void
   topPosition?: number
   onCollapseChange?: (collapsed: boolean) => void
 }
 
-export function StylePanel({ selectedObjects, onStyleChange, topPosition = 640, onCollapseChange }: StylePanelProps) {
+export function StylePanel({
+  selectedObjects,
+  onStyleChange,
+  onTransform,
+  styleTokens = [],
+  onApplyStyleToken,
+  onCreateStyleToken,
+  onEditStyleToken,
+  onDeleteStyleToken,
+  topPosition = 640,
+  onCollapseChange,
+}: StylePanelProps) {
   const [isCollapsed, setIsCollapsed] = useState(false)
+  // Opacity while its slider is dragged, applied on release so the drag is a single undo step
+  const [opacityDraft, setOpacityDraft] = useState<number | null>(null)
   const { recentColors, addRecentColor } = useRecentColors()
 
   const handleCollapseToggle = (collapsed: boolean) => {
@@ -56,6 +112,47 @@ export function StylePanel({ selectedObjects, onStyleChange, topPosition = 640,
   const firstObject = selectedObjects[0]
   const fillColor = firstObject.fill_color || "#3b82f6"
   const strokeColor = firstObject.stroke_color || "#1e40af"
+  const firstConnector = selectedObjects.find((obj) => obj.type === "connector")
+  const firstText = selectedObjects.find((obj) => obj.type === "text" || obj.type === "sticky")
+  const hasSticky = selectedObjects.some((obj) => obj.type === "sticky")
+  const firstGradientFill = selectedObjects.find((obj) => supportsPaintField(obj, "fill_gradient"))
+  const firstDashed = selectedObjects.find((obj) => supportsPaintField(obj, "stroke_dash"))
+  const firstRectangle = selectedObjects.find((obj) => obj.type === "rectangle")
+  const firstShadowed = selectedObjects.find((obj) => supportsPaintField(obj, "shadows"))
+  const opacity = Math.round((opacityDraft ?? getOpacity(firstObject)) * 100)
+  const swatches = styleTokens.filter((token) => token.kind === "color")
+  const textStyles = styleTokens.filter((token) => token.kind === "text")
+
+  // Swatch props for the fill or stroke picker
+  const getSwatchProps = (slot: ColorTokenSlot) =>
+    onApplyStyleToken && {
+      swatches,
+      swatchId: slot === "fill" ? firstObject.fill_token : firstObject.stroke_token,
+      onSwatchSelect: (token: StyleToken) => onApplyStyleToken(token, slot),
+      onSwatchCreate: onCreateStyleToken && ((name: string) => onCreateStyleToken(name, "color", slot)),
+    }
+
+  const commitOpacity = () => {
+    if (opacityDraft === null) return
+    handleStyleChange({ opacity: opacityDraft })
+    setOpacityDraft(null)
+  }
+
+  const renderArrowheadOptions = (field: "start_arrowhead" | "end_arrowhead", current: ArrowheadStyle) => (
+    <div className="grid grid-cols-4 gap-1">
+      {ARROWHEAD_STYLES.map(({ value, label }) => (
+        <Button
+          key={value}
+          variant={current === value ? "default" : "outline"}
+          size="sm"
+          className="h-7 px-1 text-xs"
+          onClick={() => handleStyleChange({ [field]: value })}
+        >
+          {label}
+        </Button>
+      ))}
+    </div>
+  )
 
   return (
     <div
@@ -79,6 +176,29 @@ export function StylePanel({ selectedObjects, onStyleChange, topPosition = 640,
 
       {/* Content */}
       <div className="p-4 space-y-4">
+        {onTransform && <TransformInspector selectedObjects={selectedObjects} onTransform={onTransform} />}
+
+        {hasSticky && (
+          <div className="space-y-2">
+            <Label>Note Color</Label>
+            <div className="grid grid-cols-6 gap-1">
+              {STICKY_COLORS.map(({ name, value }) => (
+                <button
+                  key={value}
+                  type="button"
+                  title={name}
+                  aria-label={name}
+                  className={`h-7 rounded-md border transition-transform hover:scale-110 ${
+                    fillColor.toLowerCase() === value ? "border-primary ring-2 ring-primary/40" : "border-border/50"
+                  }`}
+                  style={{ backgroundColor: value }}
+                  onClick={() => handleStyleChange({ fill_color: value })}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="space-y-2">
           <Label>Fill Color</Label>
           <ColorPicker
@@ -86,6 +206,9 @@ export function StylePanel({ selectedObjects, onStyleChange, topPosition = 640,
             onChange={(color) => handleStyleChange({ fill_color: color })}
             label="Fill"
             recentColors={recentColors}
+            gradient={firstGradientFill?.fill_gradient}
+            onGradientChange={firstGradientFill && ((gradient) => handleStyleChange({ fill_gradient: gradient }))}
+            {...getSwatchProps("fill")}
           />
         </div>
 
@@ -96,9 +219,171 @@ export function StylePanel({ selectedObjects, onStyleChange, topPosition = 640,
             onChange={(color) => handleStyleChange({ stroke_color: color })}
             label="Stroke"
             recentColors={recentColors}
+            {...getSwatchProps("stroke")}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="object-opacity">Opacity</Label>
+            <span className="text-xs text-muted-foreground">{opacity}%</span>
+          </div>
+          <input
+            id="object-opacity"
+            type="range"
+            min={0}
+            max={100}
+            value={opacity}
+            onChange={(e) => setOpacityDraft(Number(e.target.value) / 100)}
+            onPointerUp={commitOpacity}
+            onKeyUp={commitOpacity}
+            onBlur={commitOpacity}
+            className="w-full accent-primary"
           />
         </div>
 
+        {firstDashed && (
+          <div className="space-y-2">
+            <Label>Stroke Style</Label>
+            <div className="grid grid-cols-3 gap-1">
+              {STROKE_DASHES.map(({ value, label }) => (
+                <Button
+                  key={value}
+                  variant={(firstDashed.stroke_dash ?? "solid") === value ? "default" : "outline"}
+                  size="sm"
+                  className="h-7 px-1 text-xs"
+                  onClick={() => handleStyleChange({ stroke_dash: value })}
+                >
+                  {label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {firstRectangle && (
+          <div className="flex items-center justify-between gap-2">
+            <Label htmlFor="corner-radius">Corner Radius</Label>
+            <Input
+              id="corner-radius"
+              type="number"
+              min={0}
+              value={firstRectangle.corner_radius ?? 0}
+              onChange={(e) => handleStyleChange({ corner_radius: Math.max(0, Number(e.target.value) || 0) })}
+              className="h-7 w-20 px-2 text-xs md:text-xs"
+            />
+          </div>
+        )}
+
+        {firstShadowed && (
+          <ShadowEditor
+            shadows={firstShadowed.shadows ?? []}
+            onChange={(shadows) => handleStyleChange({ shadows })}
+          />
+        )}
+
+        {firstConnector && (
+          <div className="space-y-3 pt-2 border-t border-border/50">
+            <div className="space-y-2">
+              <Label>Connector Route</Label>
+              <div className="grid grid-cols-2 gap-1">
+                {CONNECTOR_ROUTES.map(({ value, label }) => (
+                  <Button
+                    key={value}
+                    variant={(firstConnector.route ?? "straight") === value ? "default" : "outline"}
+                    size="sm"
+                    className="h-7 text-xs"
+                    onClick={() => handleStyleChange({ route: value })}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Start Arrowhead</Label>
+              {renderArrowheadOptions("start_arrowhead", firstConnector.start_arrowhead ?? "none")}
+            </div>
+
+            <div className="space-y-2">
+              <Label>End Arrowhead</Label>
+              {renderArrowheadOptions("end_arrowhead", firstConnector.end_arrowhead ?? "none")}
+            </div>
+          </div>
+        )}
+
+        {firstText && (
+          <div className="space-y-3 pt-2 border-t border-border/50">
+            {onApplyStyleToken && (
+              <div className="space-y-2">
+                <Label>Text Style</Label>
+                {textStyles.length > 0 && (
+                  <div className="grid grid-cols-2 gap-1">
+                    {textStyles.map((token) => (
+                      <Button
+                        key={token.id}
+                        variant={firstText.text_token === token.id ? "default" : "outline"}
+                        size="sm"
+                        className="h-7 px-2 text-xs justify-start truncate"
+                        title={token.name}
+                        onClick={() => onApplyStyleToken(token, "fill")}
+                      >
+                        {token.name}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+                {onCreateStyleToken && (
+                  <NewStyleTokenInput
+                    placeholder="New text style name"
+                    onCreate={(name) => onCreateStyleToken(name, "text", "fill")}
+                  />
+                )}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>Text Alignment</Label>
+              <div className="grid grid-cols-3 gap-1">
+                {TEXT_ALIGNMENTS.map(({ value, label, icon: Icon }) => (
+                  <Button
+                    key={value}
+                    variant={(firstText.text_align ?? DEFAULT_TEXT_ALIGN) === value ? "default" : "outline"}
+                    size="sm"
+                    className="h-7"
+                    title={label}
+                    onClick={() => handleStyleChange({ text_align: value })}
+                  >
+                    <Icon className="h-3.5 w-3.5" />
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Line Height</Label>
+              <div className="grid grid-cols-4 gap-1">
+                {LINE_HEIGHTS.map((value) => (
+                  <Button
+                    key={value}
+                    variant={(firstText.line_height ?? DEFAULT_LINE_HEIGHT) === value ? "default" : "outline"}
+                    size="sm"
+                    className="h-7 px-1 text-xs"
+                    onClick={() => handleStyleChange({ line_height: value })}
+                  >
+                    {value}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {onEditStyleToken && onDeleteStyleToken && (
+          <StyleTokensPanel styleTokens={styleTokens} onEdit={onEditStyleToken} onDelete={onDeleteStyleToken} />
+        )}
+
         {selectedObjects.length > 1 && (
           <div className="pt-2 border-t border-border/50">
             <p className="text-xs text-center text-muted-foreground">Editing {selectedObjects.length} objects</p>
@@ -0,0 +1,154 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ChevronDown, ChevronRight, Plus, Trash2 } from "lucide-react"
+import type { StyleToken, StyleTokenUpdates } from "@/lib/style-token-utils"
+
+interface NewStyleTokenInputProps {
+  placeholder: string
+  onCreate: (name: string) => void
+}
+
+// A name field that saves the current value as a new shared style
+export function NewStyleTokenInput({ placeholder, onCreate }: NewStyleTokenInputProps) {
+  const [name, setName] = useState("")
+
+  const create = () => {
+    if (!name.trim()) return
+    onCreate(name.trim())
+    setName("")
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <Input
+        value={name}
+        placeholder={placeholder}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault()
+            create()
+          }
+        }}
+        className="h-7 px-2 text-xs md:text-xs"
+      />
+      <Button variant="outline" size="sm" className="h-7 w-7 shrink-0 p-0" title="Save style" onClick={create}>
+        <Plus className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  )
+}
+
+interface StyleTokenRowProps {
+  token: StyleToken
+  onEdit: (updates: StyleTokenUpdates) => void
+  onDelete: () => void
+}
+
+function StyleTokenRow({ token, onEdit, onDelete }: StyleTokenRowProps) {
+  const [nameDraft, setNameDraft] = useState<string | null>(null)
+
+  const commitName = () => {
+    if (nameDraft !== null && nameDraft.trim() && nameDraft.trim() !== token.name) onEdit({ name: nameDraft.trim() })
+    setNameDraft(null)
+  }
+
+  return (
+    <div className="space-y-1.5 rounded-md border border-border/50 p-2">
+      <div className="flex items-center gap-1.5">
+        {token.kind === "color" && (
+          <input
+            type="color"
+            value={token.color ?? "#000000"}
+            onChange={(e) => onEdit({ color: e.target.value })}
+            className="h-6 w-8 shrink-0 cursor-pointer rounded border bg-transparent p-0.5"
+            title={token.color ?? undefined}
+          />
+        )}
+        <Input
+          value={nameDraft ?? token.name}
+          onChange={(e) => setNameDraft(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault()
+              commitName()
+            } else if (e.key === "Escape") {
+              e.preventDefault()
+              setNameDraft(null)
+            }
+          }}
+          className="h-6 px-1.5 text-xs md:text-xs"
+        />
+        <Button variant="ghost" size="sm" className="h-6 w-6 shrink-0 p-0" title="Delete style" onClick={onDelete}>
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      {token.kind === "text" && (
+        <div className="grid grid-cols-3 gap-1.5">
+          <Input
+            value={token.font_family ?? ""}
+            placeholder="Font"
+            onChange={(e) => onEdit({ font_family: e.target.value || null })}
+            className="col-span-3 h-6 px-1.5 text-xs md:text-xs"
+          />
+          <Input
+            type="number"
+            min={1}
+            value={token.font_size ?? ""}
+            title="Font size"
+            onChange={(e) => onEdit({ font_size: Math.max(1, Number(e.target.value) || 1) })}
+            className="col-span-2 h-6 px-1.5 text-xs md:text-xs"
+          />
+          <Input
+            type="number"
+            min={0.5}
+            step={0.1}
+            value={token.line_height ?? ""}
+            title="Line height"
+            onChange={(e) => onEdit({ line_height: Math.max(0.5, Number(e.target.value) || 1) })}
+            className="h-6 px-1.5 text-xs md:text-xs"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface StyleTokensPanelProps {
+  styleTokens: StyleToken[]
+  onEdit: (tokenId: string, updates: StyleTokenUpdates) => void
+  onDelete: (tokenId: string) => void
+}
+
+/**
+ * The canvas's shared swatches and text styles. Editing one restyles every
+ * object that uses it, for everyone on the canvas; deleting one leaves those
+ * objects as they are.
+ */
+export function StyleTokensPanel({ styleTokens, onEdit, onDelete }: StyleTokensPanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  if (styleTokens.length === 0) return null
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border/50">
+      <button type="button" className="flex w-full items-center justify-between" onClick={() => setIsOpen(!isOpen)}>
+        <Label className="cursor-pointer">Document Styles</Label>
+        {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+      </button>
+      {isOpen &&
+        styleTokens.map((token) => (
+          <StyleTokenRow
+            key={token.id}
+            token={token}
+            onEdit={(updates) => onEdit(token.id, updates)}
+            onDelete={() => onDelete(token.id)}
+          />
+        ))}
+    </div>
+  )
+}
@@ -2,6 +2,8 @@
 
 import { Button } from "@/components/ui/button"
 import {
+  ArrowLeft,
+  Share2,
   LogOut,
   Undo,
   Redo,
@@ -16,10 +18,26 @@ import {
 import { AlignmentToolbar } from "./alignment-toolbar"
 import { GridControls } from "./grid-controls"
 import type { AlignmentType, DistributeType } from "@/lib/alignment-utils"
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { FRAME_PRESETS } from "@/lib/frame-utils"
 
 interface ToolbarProps {
   userName: string
+  canvasName?: string
+  onBackToDashboard?: () => void
+  accessLabel?: string
+  onShare?: () => void
+  isShareOpen?: boolean
   onSignOut: () => void
   onUndo?: () => void
   onRedo?: () => void
@@ -30,6 +48,10 @@ interface ToolbarProps {
   onDistribute?: (type: DistributeType) => void
   onExportPNG?: () => void
   onExportSVG?: () => void
+  // Name of the selected frame, offered for export on its own
+  exportFrameName?: string
+  // Export the selected frame; `width` is the output width of a device preset, omitted for the frame's own size
+  onExportFrame?: (format: "png" | "svg", width?: number) => void
   gridEnabled?: boolean
   snapEnabled?: boolean
   gridSize?: number
@@ -53,6 +75,11 @@ interface ToolbarProps {
 
 export function Toolbar({
   userName,
+  canvasName,
+  onBackToDashboard,
+  accessLabel,
+  onShare,
+  isShareOpen = false,
   onSignOut,
   onUndo,
   onRedo,
@@ -63,6 +90,8 @@ export function Toolbar({
   onDistribute,
   onExportPNG,
   onExportSVG,
+  exportFrameName,
+  onExportFrame,
   gridEnabled = false,
   snapEnabled = false,
   gridSize = 20,
@@ -86,7 +115,22 @@ export function Toolbar({
   return (
     <div className="absolute left-0 right-0 top-0 z-10 flex h-14 items-center justify-between border-b border-border/50 bg-background/95 backdrop-blur-md shadow-sm transition-all duration-200 px-4">
       <div className="flex items-center gap-4">
+        {onBackToDashboard && (
+          <Button variant="ghost" size="icon" onClick={onBackToDashboard} title="All canvases">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        )}
         <h1 className="text-lg font-semibold">CollabCanvas</h1>
+        {canvasName && (
+          <span className="max-w-[180px] truncate text-sm text-muted-foreground" title={canvasName}>
+            {canvasName}
+          </span>
+        )}
+        {accessLabel && (
+          <span className="rounded-md border border-border/50 bg-muted/40 px-2 py-0.5 text-xs text-muted-foreground">
+            {accessLabel}
+          </span>
+        )}
 
         <div className="flex items-center gap-1 border-l pl-4">
           <Button variant="ghost" size="icon" onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)">
@@ -203,6 +247,26 @@ export function Toolbar({
               <DropdownMenuContent align="start">
                 {onExportPNG && <DropdownMenuItem onClick={onExportPNG}>Export as PNG</DropdownMenuItem>}
                 {onExportSVG && <DropdownMenuItem onClick={onExportSVG}>Export as SVG</DropdownMenuItem>}
+                {exportFrameName && onExportFrame && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel className="max-w-[220px] truncate">Frame: {exportFrameName}</DropdownMenuLabel>
+                    {(["png", "svg"] as const).map((format) => (
+                      <DropdownMenuSub key={format}>
+                        <DropdownMenuSubTrigger>Export frame as {format.toUpperCase()}</DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent>
+                          <DropdownMenuItem onClick={() => onExportFrame(format)}>Frame size</DropdownMenuItem>
+                          {FRAME_PRESETS.map((preset) => (
+                            <DropdownMenuItem key={preset.name} onClick={() => onExportFrame(format, preset.width)}>
+                              {preset.name}
+                              <span className="ml-auto pl-4 text-xs text-muted-foreground">{preset.width}px wide</span>
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                    ))}
+                  </>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
           </div>
@@ -210,6 +274,12 @@ export function Toolbar({
       </div>
 
       <div className="flex items-center gap-4">
+        {onShare && (
+          <Button variant={isShareOpen ? "default" : "ghost"} size="sm" className="gap-2" onClick={onShare}>
+            <Share2 className="h-4 w-4" />
+            Share
+          </Button>
+        )}
         <span className="text-sm text-muted-foreground">{userName}</span>
         <Button variant="ghost" size="icon" onClick={onSignOut} title="Sign Out">
           <LogOut className="h-4 w-4" />
@@ -0,0 +1,99 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Link2, Link2Off } from "lucide-react"
+import type { CanvasObject } from "@/lib/types"
+import {
+  canTransform,
+  formatTransformValue,
+  getTransformValue,
+  TRANSFORM_FIELDS,
+  type TransformField,
+} from "@/lib/transform-utils"
+
+interface TransformInspectorProps {
+  selectedObjects: CanvasObject[]
+  onTransform: (field: TransformField, input: string, lockAspectRatio: boolean) => void
+}
+
+interface TransformInputProps {
+  label: string
+  value: number | "mixed" | null
+  onCommit: (input: string) => void
+}
+
+// Shows the shared value until edited; the entry is applied on Enter or when the field loses focus
+function TransformInput({ label, value, onCommit }: TransformInputProps) {
+  const [draft, setDraft] = useState<string | null>(null)
+  const display = typeof value === "number" ? formatTransformValue(value) : ""
+
+  const commit = () => {
+    if (draft !== null && draft.trim() !== "" && draft !== display) onCommit(draft)
+    setDraft(null)
+  }
+
+  return (
+    <label className="flex items-center gap-1.5">
+      <span className="w-3 text-xs text-muted-foreground">{label}</span>
+      <Input
+        value={draft ?? display}
+        placeholder={value === "mixed" ? "Mixed" : undefined}
+        onChange={(e) => setDraft(e.target.value)}
+        onFocus={(e) => e.target.select()}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") {
+            e.preventDefault()
+            commit()
+          } else if (e.key === "Escape") {
+            e.preventDefault()
+            setDraft(null)
+          }
+        }}
+        className="h-7 px-2 text-xs md:text-xs"
+      />
+    </label>
+  )
+}
+
+/**
+ * Position, size and rotation of the selection. With several objects selected,
+ * fields they disagree on read "Mixed", and an entry like "+20" or "*2" is
+ * applied to each object's own value.
+ */
+export function TransformInspector({ selectedObjects, onTransform }: TransformInspectorProps) {
+  const [lockAspectRatio, setLockAspectRatio] = useState(false)
+
+  const transformable = selectedObjects.filter(canTransform)
+  if (transformable.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Transform</Label>
+        <Button
+          variant={lockAspectRatio ? "default" : "ghost"}
+          size="sm"
+          className="h-6 w-6 p-0"
+          title={lockAspectRatio ? "Unlock aspect ratio" : "Lock aspect ratio"}
+          onClick={() => setLockAspectRatio(!lockAspectRatio)}
+        >
+          {lockAspectRatio ? <Link2 className="h-3.5 w-3.5" /> : <Link2Off className="h-3.5 w-3.5" />}
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {TRANSFORM_FIELDS.map(({ field, label }) => (
+          <TransformInput
+            key={field}
+            label={label}
+            value={getTransformValue(transformable, field)}
+            onCommit={(input) => onTransform(field, input, lockAspectRatio)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
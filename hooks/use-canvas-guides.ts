@@ -0,0 +1,111 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/client"
+import {
+  applyGuideBroadcast,
+  createGuide,
+  deleteGuide,
+  loadGuides,
+  moveGuide,
+  type CanvasGuide,
+  type GuideBroadcast,
+} from "@/lib/guide-utils"
+import type { SnapAxis } from "@/lib/snap-utils"
+
+interface UseCanvasGuidesProps {
+  canvasId: string
+  userId: string
+}
+
+/**
+ * Ruler guides of a canvas, kept in sync with collaborators. Changes show
+ * locally straight away and are broadcast once saved; if a save fails the
+ * guides are reloaded so the board matches the database again.
+ */
+export function useCanvasGuides({ canvasId, userId }: UseCanvasGuidesProps) {
+  const [guides, setGuides] = useState<CanvasGuide[]>([])
+  const supabase = createClient()
+  const channelRef = useRef<RealtimeChannel | null>(null)
+
+  const reloadGuides = useCallback(async () => {
+    setGuides(await loadGuides(supabase, canvasId))
+  }, [supabase, canvasId])
+
+  useEffect(() => {
+    let cancelled = false
+    loadGuides(supabase, canvasId).then((loaded) => {
+      if (cancelled) return
+      console.log("[v0] [GUIDES] Loaded", loaded.length, "guides")
+      setGuides(loaded)
+    })
+
+    const channel = supabase
+      .channel(`canvas:${canvasId}:guides`, {
+        config: {
+          broadcast: { self: false },
+        },
+      })
+      .on("broadcast", { event: "guide_change" }, ({ payload }: { payload: GuideBroadcast }) => {
+        setGuides((prev) => applyGuideBroadcast(prev, payload))
+      })
+      .subscribe((status) => {
+        console.log("[v0] [GUIDES] Broadcast subscription status:", status)
+      })
+    channelRef.current = channel
+
+    return () => {
+      cancelled = true
+      supabase.removeChannel(channel)
+      channelRef.current = null
+    }
+  }, [supabase, canvasId])
+
+  const applyChange = useCallback(
+    async (change: GuideBroadcast, save: () => Promise<boolean>) => {
+      setGuides((prev) => applyGuideBroadcast(prev, change))
+      if (!(await save())) {
+        await reloadGuides()
+        return
+      }
+      channelRef.current?.send({ type: "broadcast", event: "guide_change", payload: change })
+    },
+    [reloadGuides],
+  )
+
+  const addGuide = useCallback(
+    (axis: SnapAxis, position: number) => {
+      const guide: CanvasGuide = {
+        id: crypto.randomUUID(),
+        canvas_id: canvasId,
+        axis,
+        position,
+        created_by: userId,
+        created_at: new Date().toISOString(),
+      }
+      void applyChange({ type: "guide_upserted", guide }, () => createGuide(supabase, guide))
+    },
+    [supabase, canvasId, userId, applyChange],
+  )
+
+  const updateGuide = useCallback(
+    (guideId: string, position: number) => {
+      const guide = guides.find((candidate) => candidate.id === guideId)
+      if (!guide) return
+      void applyChange({ type: "guide_upserted", guide: { ...guide, position } }, () =>
+        moveGuide(supabase, guideId, position),
+      )
+    },
+    [supabase, guides, applyChange],
+  )
+
+  const removeGuide = useCallback(
+    (guideId: string) => {
+      void applyChange({ type: "guide_deleted", guideId }, () => deleteGuide(supabase, guideId))
+    },
+    [supabase, applyChange],
+  )
+
+  return { guides, addGuide, updateGuide, removeGuide }
+}
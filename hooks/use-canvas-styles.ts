@@ -0,0 +1,119 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { RealtimeChannel } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/client"
+import {
+  applyStyleTokenBroadcast,
+  createStyleToken,
+  deleteStyleToken,
+  loadStyleTokens,
+  updateStyleToken,
+  type StyleToken,
+  type StyleTokenBroadcast,
+  type StyleTokenKind,
+  type StyleTokenUpdates,
+} from "@/lib/style-token-utils"
+
+interface UseCanvasStylesProps {
+  canvasId: string
+  userId: string
+}
+
+/**
+ * Shared swatches and text styles of a canvas, kept in sync with
+ * collaborators. Like guides, changes show locally straight away and are
+ * broadcast once saved; a failed save reloads the styles. Restyling the
+ * objects bound to a style is left to the caller, which owns the objects.
+ */
+export function useCanvasStyles({ canvasId, userId }: UseCanvasStylesProps) {
+  const [styleTokens, setStyleTokens] = useState<StyleToken[]>([])
+  const supabase = createClient()
+  const channelRef = useRef<RealtimeChannel | null>(null)
+
+  const reloadStyleTokens = useCallback(async () => {
+    setStyleTokens(await loadStyleTokens(supabase, canvasId))
+  }, [supabase, canvasId])
+
+  useEffect(() => {
+    let cancelled = false
+    loadStyleTokens(supabase, canvasId).then((loaded) => {
+      if (cancelled) return
+      console.log("[v0] [STYLES] Loaded", loaded.length, "styles")
+      setStyleTokens(loaded)
+    })
+
+    const channel = supabase
+      .channel(`canvas:${canvasId}:styles`, {
+        config: {
+          broadcast: { self: false },
+        },
+      })
+      .on("broadcast", { event: "style_change" }, ({ payload }: { payload: StyleTokenBroadcast }) => {
+        setStyleTokens((prev) => applyStyleTokenBroadcast(prev, payload))
+      })
+      .subscribe((status) => {
+        console.log("[v0] [STYLES] Broadcast subscription status:", status)
+      })
+    channelRef.current = channel
+
+    return () => {
+      cancelled = true
+      supabase.removeChannel(channel)
+      channelRef.current = null
+    }
+  }, [supabase, canvasId])
+
+  const applyChange = useCallback(
+    async (change: StyleTokenBroadcast, save: () => Promise<boolean>) => {
+      setStyleTokens((prev) => applyStyleTokenBroadcast(prev, change))
+      if (!(await save())) {
+        await reloadStyleTokens()
+        return
+      }
+      channelRef.current?.send({ type: "broadcast", event: "style_change", payload: change })
+    },
+    [reloadStyleTokens],
+  )
+
+  const addStyleToken = useCallback(
+    (name: string, kind: StyleTokenKind, values: StyleTokenUpdates): StyleToken => {
+      const token: StyleToken = {
+        id: crypto.randomUUID(),
+        canvas_id: canvasId,
+        name,
+        kind,
+        color: values.color ?? null,
+        font_family: values.font_family ?? null,
+        font_size: values.font_size ?? null,
+        line_height: values.line_height ?? null,
+        created_by: userId,
+        created_at: new Date().toISOString(),
+      }
+      void applyChange({ type: "style_upserted", token }, () => createStyleToken(supabase, token))
+      return token
+    },
+    [supabase, canvasId, userId, applyChange],
+  )
+
+  // Returns the edited style, or null if it no longer exists
+  const editStyleToken = useCallback(
+    (tokenId: string, updates: StyleTokenUpdates): StyleToken | null => {
+      const token = styleTokens.find((candidate) => candidate.id === tokenId)
+      if (!token) return null
+      const updated = { ...token, ...updates }
+      void applyChange({ type: "style_upserted", token: updated }, () => updateStyleToken(supabase, tokenId, updates))
+      return updated
+    },
+    [supabase, styleTokens, applyChange],
+  )
+
+  const removeStyleToken = useCallback(
+    (tokenId: string) => {
+      void applyChange({ type: "style_deleted", tokenId }, () => deleteStyleToken(supabase, tokenId))
+    },
+    [supabase, applyChange],
+  )
+
+  return { styleTokens, addStyleToken, editStyleToken, removeStyleToken }
+}
@@ -1,21 +1,156 @@
 "use client"
 
 import type React from "react"
-import { snapPointToGrid, isObjectInLasso } from "@/lib/grid-utils"
-import { getGroupBounds } from "@/lib/group-utils"
-
-import { useCallback, useEffect, useRef, useState } from "react"
-import type { CanvasObject } from "@/lib/types"
+import { snapPointToGrid, snapToGrid, isObjectInLasso } from "@/lib/grid-utils"
+import {
+  getAllChildrenIds,
+  getGroupBounds,
+  getSelectableObject,
+  isDescendantOf,
+  transformGroup,
+} from "@/lib/group-utils"
+import {
+  createPathGeometry,
+  getPathPoints,
+  isPointOnPath,
+  simplifyPath,
+  traceSmoothPath,
+  PATH_MIN_SAMPLE_DISTANCE,
+  PATH_SIMPLIFY_TOLERANCE,
+} from "@/lib/path-utils"
+import {
+  detachConnector,
+  drawArrowhead,
+  findBindingTarget,
+  getAnchorPoint,
+  getConnectorRoute,
+  isPointOnConnector,
+  CONNECTOR_BIND_DISTANCE,
+} from "@/lib/connector-utils"
+import { getImageBitmap, hasImageFailed, lockAspectRatio, subscribeToImageLoads } from "@/lib/image-utils"
+import { drawTextLayout, getPlainText, getTextBoxHeight, hasFormatting, layoutText } from "@/lib/text-layout"
+import { createStickyNote, drawStickyNote, formatStickyAuthor } from "@/lib/sticky-utils"
+import {
+  adoptObjects,
+  clipToFrame,
+  createFrame,
+  drawFrame,
+  drawFrameLabel,
+  getClipFrame,
+  getRenderOrder,
+  isPointOnFrameLabel,
+  FRAME_PRESETS,
+  type FramePreset,
+} from "@/lib/frame-utils"
+import {
+  createVector,
+  drawVectorNodes,
+  findVectorHandle,
+  findVectorSegment,
+  getVectorContours,
+  insertVectorNode,
+  isPointOnVector,
+  moveVectorHandle,
+  refitVector,
+  removeVectorNode,
+  toggleVectorNodeSmooth,
+  toVectorLocal,
+  traceVector,
+  VECTOR_HANDLE_SIZE,
+  VECTOR_STROKE_COLOR,
+  VECTOR_STROKE_WIDTH,
+  type VectorHandleRef,
+  type VectorNodeRef,
+} from "@/lib/vector-utils"
+import {
+  createSnapTargets,
+  drawSnapGuides,
+  getSelectionBox,
+  measureBoxes,
+  snapBox,
+  SNAP_DISTANCE,
+  type SnapAxis,
+  type SnapGuide,
+  type SnapTargets,
+} from "@/lib/snap-utils"
+import { drawDropShadows, drawInnerShadows, getDashArray, getOpacity, isShape, paintShape } from "@/lib/paint-utils"
+import { drawGuides, findGuideAt, GUIDE_GRAB_DISTANCE, RULER_SIZE, type CanvasGuide } from "@/lib/guide-utils"
+import {
+  createSpatialIndex,
+  getObjectBox,
+  getPathBounds,
+  searchSpatialIndex,
+  searchSpatialIndexAt,
+  syncSpatialIndex,
+  type SpatialIndex,
+  type SpatialRect,
+} from "@/lib/spatial-index"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { CanvasObject, ConnectorBinding, PathPoint, TextRun, VectorContour, VectorNode } from "@/lib/types"
 
 interface UseCanvasProps {
   canvasId: string
   objects: CanvasObject[]
   onObjectsChange: (objects: CanvasObject[]) => void
+  readOnly?: boolean
   onCursorMove?: (x: number, y: number) => void
   gridEnabled?: boolean
   snapEnabled?: boolean
   gridSize?: number
   lassoMode?: boolean
+  // Current user, recorded as the author of sticky notes they create
+  userId?: string
+  // Display names by user id, for sticky note attribution
+  authorNames?: Map<string, string>
+  // Ruler guides, which dragged objects snap to. Without the callbacks they are shown but cannot be moved
+  guides?: CanvasGuide[]
+  onGuideCreate?: (axis: SnapAxis, position: number) => void
+  onGuideMove?: (guideId: string, position: number) => void
+  onGuideDelete?: (guideId: string) => void
+}
+
+const PEN_STROKE_COLOR = "#111827"
+const PEN_STROKE_WIDTH = 3
+const CONNECTOR_STROKE_COLOR = "#475569"
+
+// Screen pixels beyond the viewport that are still drawn, so handles and outlines of objects just outside show
+const CULL_MARGIN = 40
+
+// Canvas holding the grid and all non-live objects, with the inputs it was drawn from
+interface StaticLayer {
+  canvas: HTMLCanvasElement
+  objects: CanvasObject[]
+  liveIds: Set<string>
+  inputs: unknown[]
+}
+
+// Shared empty set, so the static layer is not invalidated when no gesture is in progress
+const NO_LIVE_OBJECTS = new Set<string>()
+
+// Shared empty list, so clearing guides that are already clear does not re-render
+const NO_SNAP_GUIDES: SnapGuide[] = []
+
+const NO_GUIDES: CanvasGuide[] = []
+
+// The part of the canvas on screen, plus `margin` screen pixels on every side
+function getVisibleArea(
+  canvas: HTMLCanvasElement,
+  viewport: { x: number; y: number; zoom: number },
+  margin: number,
+): SpatialRect {
+  return {
+    x: (-viewport.x - margin) / viewport.zoom,
+    y: (-viewport.y - margin) / viewport.zoom,
+    width: (canvas.width + margin * 2) / viewport.zoom,
+    height: (canvas.height + margin * 2) / viewport.zoom,
+  }
+}
+
+// Whether every object outside `liveIds` is unchanged, so the static layer can be reused mid-gesture
+function haveOnlyLiveObjectsChanged(previous: CanvasObject[], objects: CanvasObject[], liveIds: Set<string>) {
+  if (liveIds.size === 0 || previous.length !== objects.length) return false
+  return objects.every((obj, i) => obj === previous[i] || liveIds.has(obj.id))
 }
 
 type ResizeHandle =
@@ -33,11 +168,18 @@ export function useCanvas({
   canvasId,
   objects,
   onObjectsChange,
+  readOnly = false,
   onCursorMove,
   gridEnabled = false,
   snapEnabled = false,
   gridSize = 20,
   lassoMode = false,
+  userId,
+  authorNames,
+  guides = NO_GUIDES,
+  onGuideCreate,
+  onGuideMove,
+  onGuideDelete,
 }: UseCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [viewport, setViewport] = useState({ x: 0, y: 0, zoom: 1 })
@@ -53,42 +195,197 @@ export function useCanvas({
   const [rotateStart, setRotateStart] = useState({ angle: 0, objRotation: 0, centerX: 0, centerY: 0 })
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
   const [dragOffsets, setDragOffsets] = useState<Map<string, { x: number; y: number }>>(new Map())
-  const [tool, setTool] = useState<"select" | "rectangle" | "circle" | "triangle" | "line" | "text" | "pan">("select")
+  // Smart guides shown while dragging, and the objects the drag can snap to, collected when it starts
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>(NO_SNAP_GUIDES)
+  const snapTargetsRef = useRef<SnapTargets | null>(null)
+  // Ruler guide being dragged (a new one has no id yet). Its position is null while it is over a ruler or off the
+  // canvas, where letting go removes it
+  const [guideDrag, setGuideDrag] = useState<{ id: string | null; axis: SnapAxis; position: number | null } | null>(
+    null,
+  )
+  const [hoveredGuideAxis, setHoveredGuideAxis] = useState<SnapAxis | null>(null)
+  // Distances from the selection to the hovered object, shown while Alt is held
+  const [measureGuides, setMeasureGuides] = useState<SnapGuide[]>(NO_SNAP_GUIDES)
+  const canEditGuides = !readOnly && !!onGuideCreate
+  const [tool, setTool] = useState<
+    | "select"
+    | "rectangle"
+    | "circle"
+    | "triangle"
+    | "line"
+    | "text"
+    | "sticky"
+    | "frame"
+    | "pen"
+    | "vector"
+    | "connector"
+    | "pan"
+  >("select")
+  // Size of the frame the frame tool places
+  const [framePreset, setFramePreset] = useState<FramePreset>(FRAME_PRESETS[0])
   const [lineStart, setLineStart] = useState<{ x: number; y: number } | null>(null)
+  // First end of the connector being drawn; the second click places the other end
+  const [connectorStart, setConnectorStart] = useState<{ point: PathPoint; binding: ConnectorBinding | null } | null>(
+    null,
+  )
   const [linePreview, setLinePreview] = useState<{ x: number; y: number } | null>(null)
+  // Canvas-space samples of the stroke being drawn with the pen tool
+  const [penPoints, setPenPoints] = useState<PathPoint[] | null>(null)
+  // Canvas-space nodes of the path being placed with the bezier pen; `dragging` while a handle is pulled out
+  const [vectorDraft, setVectorDraft] = useState<{ nodes: VectorNode[]; dragging: boolean } | null>(null)
+  // Vector opened by double-click for node editing, with its selected node and the node or handle being dragged
+  const [editingVectorId, setEditingVectorId] = useState<string | null>(null)
+  const [selectedNode, setSelectedNode] = useState<VectorNodeRef | null>(null)
+  const [nodeDrag, setNodeDrag] = useState<VectorHandleRef | null>(null)
   const [editingTextId, setEditingTextId] = useState<string | null>(null)
+  // Group opened by double-click: clicks then select its children instead of the whole group
+  const [enteredGroupId, setEnteredGroupId] = useState<string | null>(null)
   const [isNewTextObject, setIsNewTextObject] = useState(false)
+  // Bumped when an image bitmap finishes loading so the canvas redraws
+  const [imageLoadCount, setImageLoadCount] = useState(0)
   const lastClickTime = useRef<number>(0)
   const lastClickedId = useRef<string | null>(null)
+  // Last click on empty canvas, so a double-click there can create a sticky note
+  const lastEmptyClick = useRef<{ time: number; x: number; y: number } | null>(null)
+  // Last click while editing a vector's nodes, to tell double-clicks on nodes and segments
+  const lastNodeClick = useRef<{ time: number; x: number; y: number } | null>(null)
   const lastCursorUpdate = useRef<number>(0)
   const CURSOR_THROTTLE_MS = 16
   const animationFrameRef = useRef<number>()
 
-  const fpsRef = useRef<number[]>([])
-  const lastFrameTimeRef = useRef<number>(performance.now())
+  // Cached static layer, and render timings for the performance log
+  const staticLayerRef = useRef<StaticLayer | null>(null)
+  const renderTimesRef = useRef<number[]>([])
+  const staticRedrawsRef = useRef(0)
+
+  useEffect(() => subscribeToImageLoads(() => setImageLoadCount((count) => count + 1)), [])
+
+  // Updated incrementally as `objects` changes, so only edited objects are re-indexed
+  const spatialIndexRef = useRef<SpatialIndex | null>(null)
+  const spatialIndex = useMemo(() => {
+    spatialIndexRef.current ??= createSpatialIndex()
+    syncSpatialIndex(spatialIndexRef.current, getRenderOrder(objects))
+    return spatialIndexRef.current
+  }, [objects])
+  const objectsById = useMemo(() => new Map(objects.map((obj) => [obj.id, obj])), [objects])
+
+  // Leave a group that was deleted or dissolved
+  useEffect(() => {
+    if (enteredGroupId && !objects.some((obj) => obj.id === enteredGroupId)) {
+      setEnteredGroupId(null)
+    }
+  }, [objects, enteredGroupId])
+
+  // Switching tools abandons a half-drawn connector or vector path
+  useEffect(() => {
+    if (tool !== "connector") {
+      setConnectorStart(null)
+    }
+    if (tool !== "vector") {
+      setVectorDraft(null)
+    }
+  }, [tool])
+
+  // Node editing ends when its vector is deselected or deleted
+  useEffect(() => {
+    if (editingVectorId && (!selectedIds.includes(editingVectorId) || !objects.some((o) => o.id === editingVectorId))) {
+      setEditingVectorId(null)
+      setSelectedNode(null)
+      setNodeDrag(null)
+    }
+  }, [objects, selectedIds, editingVectorId])
+
+  const finishVectorDraft = useCallback(
+    (nodes: VectorNode[], closed: boolean) => {
+      setVectorDraft(null)
+      setLinePreview(null)
+      if (nodes.length < 2) return
+
+      const newObj = createVector(canvasId, [{ nodes, closed }], { createdBy: userId })
+      console.log(`[v0] Finished vector path with ${nodes.length} nodes${closed ? " (closed)" : ""}`)
+      onObjectsChange([...objects, newObj])
+      setSelectedIds([newObj.id])
+      setTool("select")
+    },
+    [canvasId, objects, onObjectsChange, userId],
+  )
+
+  const updateEditingVector = useCallback(
+    (update: (contours: VectorContour[]) => VectorContour[]) => {
+      const vector = objects.find((o) => o.id === editingVectorId)
+      if (!vector) return
+
+      const contours = update(getVectorContours(vector))
+      if (contours.length === 0) {
+        onObjectsChange(objects.filter((o) => o.id !== vector.id))
+        setSelectedIds([])
+        return
+      }
+      onObjectsChange(objects.map((o) => (o.id === vector.id ? refitVector(o, contours) : o)))
+    },
+    [objects, editingVectorId, onObjectsChange],
+  )
 
   const deleteSelectedObjects = useCallback(() => {
-    if (selectedIds.length === 0) return
+    if (readOnly || selectedIds.length === 0) return
 
     console.log("[v0] Deleting objects:", selectedIds)
     const updatedObjects = objects.filter((obj) => !selectedIds.includes(obj.id))
     onObjectsChange(updatedObjects)
     setSelectedIds([])
-  }, [selectedIds, objects, onObjectsChange])
+  }, [readOnly, selectedIds, objects, onObjectsChange])
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave editing keys to text fields, e.g. renaming a layer
+      const target = e.target as HTMLElement
+      if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) return
+
+      // Enter or Escape ends a bezier path where it is, leaving it open
+      if ((e.key === "Enter" || e.key === "Escape") && vectorDraft) {
+        finishVectorDraft(vectorDraft.nodes, false)
+        return
+      }
+
       if (e.key === "Delete" || e.key === "Backspace") {
         if (e.key === "Backspace") {
           e.preventDefault()
         }
+        // While editing nodes, delete removes the selected node rather than the whole path
+        if (editingVectorId && selectedNode && !readOnly) {
+          updateEditingVector((contours) => removeVectorNode(contours, selectedNode))
+          setSelectedNode(null)
+          return
+        }
         deleteSelectedObjects()
       }
+
+      if (e.key === "Escape" && editingVectorId) {
+        setEditingVectorId(null)
+        setSelectedNode(null)
+        return
+      }
+
+      // Escape steps out of an entered group, selecting it
+      if (e.key === "Escape" && enteredGroupId) {
+        setSelectedIds([enteredGroupId])
+        setEnteredGroupId(objects.find((obj) => obj.id === enteredGroupId)?.parent_group ?? null)
+      }
     }
 
     window.addEventListener("keydown", handleKeyDown)
     return () => window.removeEventListener("keydown", handleKeyDown)
-  }, [deleteSelectedObjects])
+  }, [
+    deleteSelectedObjects,
+    enteredGroupId,
+    objects,
+    vectorDraft,
+    finishVectorDraft,
+    editingVectorId,
+    selectedNode,
+    readOnly,
+    updateEditingVector,
+  ])
 
   const screenToCanvas = useCallback(
     (screenX: number, screenY: number) => {
@@ -104,9 +401,70 @@ export function useCanvas({
     [viewport],
   )
 
+  // Letting go of Alt hides the measurement without waiting for the pointer to move
+  useEffect(() => {
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === "Alt") setMeasureGuides(NO_SNAP_GUIDES)
+    }
+
+    window.addEventListener("keyup", handleKeyUp)
+    return () => window.removeEventListener("keyup", handleKeyUp)
+  }, [])
+
+  // Starts placing a new guide, e.g. from a ruler, or moving an existing one
+  const startGuideDrag = useCallback(
+    (axis: SnapAxis, guideId: string | null = null) => {
+      if (!canEditGuides) return
+      const guide = guides.find((candidate) => candidate.id === guideId)
+      setGuideDrag({ id: guide?.id ?? null, axis, position: guide?.position ?? null })
+    },
+    [canEditGuides, guides],
+  )
+
+  // Guide drags are followed on the window, since they usually start on a ruler outside the canvas element
+  useEffect(() => {
+    if (!guideDrag) return
+
+    const getPosition = (e: MouseEvent) => {
+      const rect = canvasRef.current?.getBoundingClientRect()
+      if (!rect) return null
+      const offset = guideDrag.axis === "x" ? e.clientX - rect.left : e.clientY - rect.top
+      const extent = guideDrag.axis === "x" ? rect.width : rect.height
+      if (offset < RULER_SIZE || offset > extent) return null
+
+      const pos = screenToCanvas(e.clientX, e.clientY)
+      const position = guideDrag.axis === "x" ? pos.x : pos.y
+      return snapEnabled ? snapToGrid(position, gridSize) : Math.round(position)
+    }
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const position = getPosition(e)
+      setGuideDrag((prev) => prev && { ...prev, position })
+    }
+
+    const handleMouseUp = (e: MouseEvent) => {
+      const position = getPosition(e)
+      if (guideDrag.id === null) {
+        if (position !== null) onGuideCreate?.(guideDrag.axis, position)
+      } else if (position === null) {
+        onGuideDelete?.(guideDrag.id)
+      } else if (position !== guides.find((guide) => guide.id === guideDrag.id)?.position) {
+        onGuideMove?.(guideDrag.id, position)
+      }
+      setGuideDrag(null)
+    }
+
+    window.addEventListener("mousemove", handleMouseMove)
+    window.addEventListener("mouseup", handleMouseUp)
+    return () => {
+      window.removeEventListener("mousemove", handleMouseMove)
+      window.removeEventListener("mouseup", handleMouseUp)
+    }
+  }, [guideDrag, guides, screenToCanvas, snapEnabled, gridSize, onGuideCreate, onGuideMove, onGuideDelete])
+
   const getResizeHandleAtPosition = useCallback(
     (pos: { x: number; y: number }, obj: CanvasObject): ResizeHandle => {
-      if (obj.type === "line" || obj.type === "text") return null
+      if (obj.type === "line" || obj.type === "connector") return null
 
       const handleSize = 8 / viewport.zoom
       const x1 = obj.x
@@ -116,6 +474,13 @@ export function useCanvas({
       const centerX = obj.x + obj.width / 2
       const centerY = obj.y + obj.height / 2
 
+      // Text boxes only change width; their height follows the wrapped text
+      if (obj.type === "text") {
+        if (Math.abs(pos.x - x2) < handleSize && Math.abs(pos.y - centerY) < handleSize) return "right"
+        if (Math.abs(pos.x - x1) < handleSize && Math.abs(pos.y - centerY) < handleSize) return "left"
+        return null
+      }
+
       if (Math.abs(pos.x - x1) < handleSize && Math.abs(pos.y - y1) < handleSize) return "top-left"
       if (Math.abs(pos.x - x2) < handleSize && Math.abs(pos.y - y1) < handleSize) return "top-right"
       if (Math.abs(pos.x - x1) < handleSize && Math.abs(pos.y - y2) < handleSize) return "bottom-left"
@@ -133,6 +498,9 @@ export function useCanvas({
 
   const getRotationHandleAtPosition = useCallback(
     (pos: { x: number; y: number }, obj: CanvasObject): boolean => {
+      // Connectors follow their endpoints and frames stay axis-aligned
+      if (obj.type === "connector" || obj.type === "frame") return false
+
       const handleSize = 8 / viewport.zoom
       const centerX = obj.x + obj.width / 2
       const centerY = obj.y + obj.height / 2
@@ -172,29 +540,6 @@ export function useCanvas({
     [],
   )
 
-  const measureText = useCallback((text: string, fontSize: number, fontFamily: string) => {
-    const canvas = canvasRef.current
-    if (!canvas) return { width: 200, height: 50 }
-
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return { width: 200, height: 50 }
-
-    ctx.font = `${fontSize}px ${fontFamily}`
-    const lines = text.split("\n")
-    const lineHeight = fontSize * 1.2
-
-    let maxWidth = 0
-    lines.forEach((line) => {
-      const metrics = ctx.measureText(line)
-      maxWidth = Math.max(maxWidth, metrics.width)
-    })
-
-    const width = Math.max(150, maxWidth + 40)
-    const height = Math.max(fontSize * 1.5 + 20, lines.length * lineHeight + 20)
-
-    return { width, height }
-  }, [])
-
   const [lassoPath, setLassoPath] = useState<{ x: number; y: number }[]>([])
   const [isLassoSelecting, setIsLassoSelecting] = useState(false)
 
@@ -205,6 +550,33 @@ export function useCanvas({
     }
   }, [lassoMode])
 
+  // Objects being moved, resized or rotated are drawn on the dynamic layer, so the cached static layer stays valid
+  // for the whole gesture. Membership is taken when the gesture starts and held until it ends.
+  const liveIds = useMemo(() => {
+    if (!isDragging && !isResizing && !isRotating && !nodeDrag) return NO_LIVE_OBJECTS
+
+    const live = new Set<string>()
+    selectedIds.forEach((id) => {
+      live.add(id)
+      getAllChildrenIds(id, objects).forEach((childId) => live.add(childId))
+    })
+    if (editingVectorId) live.add(editingVectorId)
+    objects.forEach((obj) => {
+      if (obj.frame_id && live.has(obj.frame_id)) live.add(obj.id)
+    })
+    // Connectors are routed from the live positions of the shapes they are bound to
+    objects.forEach((obj) => {
+      if (obj.type !== "connector") return
+      if (
+        (obj.start_binding && live.has(obj.start_binding.object_id)) ||
+        (obj.end_binding && live.has(obj.end_binding.object_id))
+      ) {
+        live.add(obj.id)
+      }
+    })
+    return live
+  }, [isDragging, isResizing, isRotating, nodeDrag, selectedIds, editingVectorId])
+
   useEffect(() => {
     const canvas = canvasRef.current
     if (!canvas) return
@@ -216,61 +588,217 @@ export function useCanvas({
     if (!ctx) return
 
     const render = () => {
-      const now = performance.now()
-      const frameDelta = now - lastFrameTimeRef.current
-      lastFrameTimeRef.current = now
+      const start = performance.now()
+
+      // Only objects near the viewport are drawn
+      const visibleArea = getVisibleArea(canvas, viewport, CULL_MARGIN)
+      const nonGroups = searchSpatialIndex(spatialIndex, visibleArea).filter((obj) => obj.type !== "group")
+      const selected = new Set(selectedIds)
 
-      if (frameDelta > 0) {
-        const fps = 1000 / frameDelta
-        fpsRef.current.push(fps)
+      // Content only: selection outlines and handles belong to the dynamic layer
+      const drawObject = (target: CanvasRenderingContext2D, obj: CanvasObject) => {
+        target.save()
 
-        if (fpsRef.current.length > 60) {
-          fpsRef.current.shift()
+        // Frame children are clipped to the frame
+        const clipFrame = getClipFrame(obj, objectsById)
+        if (clipFrame) clipToFrame(target, clipFrame)
+
+        if (obj.rotation !== 0) {
+          const centerX = obj.x + obj.width / 2
+          const centerY = obj.y + obj.height / 2
+          target.translate(centerX, centerY)
+          target.rotate((obj.rotation * Math.PI) / 180)
+          target.translate(-centerX, -centerY)
+        }
+
+        target.globalAlpha = getOpacity(obj)
+        target.setLineDash(getDashArray(obj))
+
+        if (isShape(obj)) {
+          paintShape(target, obj)
+        } else if (obj.type === "line") {
+          target.strokeStyle = obj.stroke_color
+          target.lineWidth = obj.stroke_width
+          target.beginPath()
+          target.moveTo(obj.x, obj.y)
+          target.lineTo(obj.x + obj.width, obj.y + obj.height)
+          target.stroke()
+        } else if (obj.type === "path") {
+          target.strokeStyle = obj.stroke_color
+          target.lineWidth = obj.stroke_width
+          target.lineCap = "round"
+          target.lineJoin = "round"
+          target.beginPath()
+          traceSmoothPath(target, getPathPoints(obj))
+          target.stroke()
+        } else if (obj.type === "connector") {
+          // Drawn from the live positions of bound shapes, so it follows them mid-drag
+          const route = getConnectorRoute(obj, objectsById)
+          target.strokeStyle = obj.stroke_color
+          target.lineWidth = obj.stroke_width
+          target.lineJoin = "round"
+          target.beginPath()
+          target.moveTo(route[0].x, route[0].y)
+          route.slice(1).forEach((point) => target.lineTo(point.x, point.y))
+          target.stroke()
+          target.setLineDash([])
+
+          const last = route.length - 1
+          drawArrowhead(target, route[1], route[0], obj.start_arrowhead, obj.stroke_color, obj.stroke_width)
+          drawArrowhead(target, route[last - 1], route[last], obj.end_arrowhead, obj.stroke_color, obj.stroke_width)
+        } else if (obj.type === "frame") {
+          drawFrame(target, obj, viewport.zoom, false)
+        } else if (obj.type === "sticky") {
+          const author = obj.created_by ? formatStickyAuthor(authorNames?.get(obj.created_by)) : null
+          drawStickyNote(target, obj, { author, hideText: obj.id === editingTextId })
+        } else if (obj.type === "image") {
+          const bitmap = obj.image_url ? getImageBitmap(obj.image_url) : null
+          if (bitmap) {
+            drawDropShadows(target, obj)
+            target.drawImage(bitmap, obj.x, obj.y, obj.width, obj.height)
+            drawInnerShadows(target, obj)
+          } else {
+            // Placeholder while the bitmap loads, or if it could not be fetched
+            target.fillStyle = "#f3f4f6"
+            target.fillRect(obj.x, obj.y, obj.width, obj.height)
+            target.strokeStyle = "#d1d5db"
+            target.lineWidth = 1 / viewport.zoom
+            target.strokeRect(obj.x, obj.y, obj.width, obj.height)
+            target.fillStyle = "#9ca3af"
+            target.font = `${12 / viewport.zoom}px Arial`
+            target.textAlign = "center"
+            target.textBaseline = "middle"
+            const label = !obj.image_url || hasImageFailed(obj.image_url) ? "Image unavailable" : "Loading image..."
+            target.fillText(label, obj.x + obj.width / 2, obj.y + obj.height / 2)
+          }
+        } else if (obj.type === "text") {
+          if (obj.id !== editingTextId) drawTextLayout(target, obj)
         }
 
-        if (fpsRef.current.length === 60) {
-          const avgFps = fpsRef.current.reduce((a, b) => a + b, 0) / fpsRef.current.length
-          console.log(`[v0] [PERF] Average FPS: ${avgFps.toFixed(1)} (${objects.length} objects)`)
-          fpsRef.current = []
+        target.restore()
+      }
+
+      // Static layer: background, grid and every object that is not live. Redrawn only when one of those changes;
+      // selection, previews and gestures just composite it again
+      const staticInputs = [
+        viewport,
+        canvas.width,
+        canvas.height,
+        gridEnabled,
+        gridSize,
+        editingTextId,
+        authorNames,
+        imageLoadCount,
+      ]
+      const cached = staticLayerRef.current
+      const isStale =
+        !cached ||
+        liveIds !== cached.liveIds ||
+        staticInputs.some((input, i) => input !== cached.inputs[i]) ||
+        (objects !== cached.objects && !haveOnlyLiveObjectsChanged(cached.objects, objects, liveIds))
+
+      if (isStale) {
+        const layer = cached?.canvas ?? document.createElement("canvas")
+        if (layer.width !== canvas.width) layer.width = canvas.width
+        if (layer.height !== canvas.height) layer.height = canvas.height
+        const layerCtx = layer.getContext("2d")
+        if (!layerCtx) return
+
+        layerCtx.setTransform(1, 0, 0, 1, 0, 0)
+        layerCtx.fillStyle = "#ffffff"
+        layerCtx.fillRect(0, 0, layer.width, layer.height)
+        layerCtx.translate(viewport.x, viewport.y)
+        layerCtx.scale(viewport.zoom, viewport.zoom)
+
+        if (gridEnabled) {
+          layerCtx.strokeStyle = "#e5e7eb"
+          layerCtx.lineWidth = 1 / viewport.zoom
+          const startX = Math.floor(-viewport.x / viewport.zoom / gridSize) * gridSize
+          const startY = Math.floor(-viewport.y / viewport.zoom / gridSize) * gridSize
+          const endX = startX + canvas.width / viewport.zoom + gridSize
+          const endY = startY + canvas.height / viewport.zoom + gridSize
+
+          layerCtx.beginPath()
+          for (let x = startX; x < endX; x += gridSize) {
+            layerCtx.moveTo(x, startY)
+            layerCtx.lineTo(x, endY)
+          }
+          for (let y = startY; y < endY; y += gridSize) {
+            layerCtx.moveTo(startX, y)
+            layerCtx.lineTo(endX, y)
+          }
+          layerCtx.stroke()
         }
+
+        nonGroups.forEach((obj) => {
+          if (!liveIds.has(obj.id)) drawObject(layerCtx, obj)
+        })
+
+        staticLayerRef.current = { canvas: layer, objects, liveIds, inputs: staticInputs }
+        staticRedrawsRef.current++
       }
 
-      ctx.clearRect(0, 0, canvas.width, canvas.height)
-      ctx.fillStyle = "#ffffff"
-      ctx.fillRect(0, 0, canvas.width, canvas.height)
+      // Dynamic layer: live objects, selection, group outlines and tool previews, drawn over the static layer
+      ctx.setTransform(1, 0, 0, 1, 0, 0)
+      ctx.drawImage(staticLayerRef.current!.canvas, 0, 0)
 
       ctx.save()
       ctx.translate(viewport.x, viewport.y)
       ctx.scale(viewport.zoom, viewport.zoom)
 
-      if (gridEnabled) {
-        ctx.strokeStyle = "#e5e7eb"
-        ctx.lineWidth = 1 / viewport.zoom
-        const startX = Math.floor(-viewport.x / viewport.zoom / gridSize) * gridSize
-        const startY = Math.floor(-viewport.y / viewport.zoom / gridSize) * gridSize
-        const endX = startX + canvas.width / viewport.zoom + gridSize
-        const endY = startY + canvas.height / viewport.zoom + gridSize
+      const drawResizeHandles = (obj: CanvasObject) => {
+        const handleSize = 8 / viewport.zoom
+        const offset = handleSize / 2 + 3 / viewport.zoom
+        const x1 = obj.x
+        const y1 = obj.y
+        const x2 = obj.x + obj.width
+        const y2 = obj.y + obj.height
+        const centerX = obj.x + obj.width / 2
+        const centerY = obj.y + obj.height / 2
+
+        const drawHandle = (x: number, y: number) => {
+          ctx.fillStyle = "#ffffff"
+          ctx.strokeStyle = "#3b82f6"
+          ctx.lineWidth = 2 / viewport.zoom
+          ctx.fillRect(x - handleSize / 2, y - handleSize / 2, handleSize, handleSize)
+          ctx.strokeRect(x - handleSize / 2, y - handleSize / 2, handleSize, handleSize)
+        }
+
+        drawHandle(x1 - offset, y1 - offset)
+        drawHandle(x2 + offset, y1 - offset)
+        drawHandle(x1 - offset, y2 + offset)
+        drawHandle(x2 + offset, y2 + offset)
+
+        drawHandle(centerX, y1 - offset)
+        drawHandle(x2 + offset, centerY)
+        drawHandle(centerX, y2 + offset)
+        drawHandle(x1 - offset, centerY)
+      }
+
+      const drawRotationHandle = (obj: CanvasObject) => {
+        const centerX = obj.x + obj.width / 2
+        const rotateHandleY = obj.y - 30 / viewport.zoom
 
+        ctx.strokeStyle = "#3b82f6"
+        ctx.lineWidth = 2 / viewport.zoom
         ctx.beginPath()
-        for (let x = startX; x < endX; x += gridSize) {
-          ctx.moveTo(x, startY)
-          ctx.lineTo(x, endY)
-        }
-        for (let y = startY; y < endY; y += gridSize) {
-          ctx.moveTo(startX, y)
-          ctx.lineTo(endX, y)
-        }
+        ctx.moveTo(centerX, obj.y)
+        ctx.lineTo(centerX, rotateHandleY)
         ctx.stroke()
-      }
 
-      const groups = objects.filter((obj) => obj.type === "group")
-      const nonGroups = objects.filter((obj) => obj.type !== "group")
+        ctx.fillStyle = "#ffffff"
+        ctx.strokeStyle = "#3b82f6"
+        ctx.lineWidth = 2 / viewport.zoom
+        ctx.beginPath()
+        ctx.arc(centerX, rotateHandleY, 6 / viewport.zoom, 0, Math.PI * 2)
+        ctx.fill()
+        ctx.stroke()
+      }
 
-      nonGroups.forEach((obj) => {
+      // Selection outlines are not clipped to frames
+      const drawSelection = (obj: CanvasObject) => {
         ctx.save()
 
-        const isSelected = selectedIds.includes(obj.id)
-
         if (obj.rotation !== 0) {
           const centerX = obj.x + obj.width / 2
           const centerY = obj.y + obj.height / 2
@@ -279,152 +807,128 @@ export function useCanvas({
           ctx.translate(-centerX, -centerY)
         }
 
+        if (obj.id === editingVectorId) {
+          // Node editing replaces the transform handles
+          drawVectorNodes(ctx, getVectorContours(obj), viewport.zoom, selectedNode)
+          ctx.restore()
+          return
+        }
+
         if (obj.type === "line") {
-          ctx.strokeStyle = obj.stroke_color
-          ctx.lineWidth = obj.stroke_width
+          ctx.strokeStyle = "#3b82f6"
+          ctx.lineWidth = 4 / viewport.zoom
+          ctx.setLineDash([5 / viewport.zoom, 5 / viewport.zoom])
           ctx.beginPath()
           ctx.moveTo(obj.x, obj.y)
           ctx.lineTo(obj.x + obj.width, obj.y + obj.height)
           ctx.stroke()
+          ctx.setLineDash([])
+        } else if (obj.type === "connector") {
+          const route = getConnectorRoute(obj, objectsById)
+          const last = route.length - 1
+          ctx.strokeStyle = "#3b82f6"
+          ctx.lineWidth = 2 / viewport.zoom
+          ctx.setLineDash([5 / viewport.zoom, 5 / viewport.zoom])
+          ctx.beginPath()
+          ctx.moveTo(route[0].x, route[0].y)
+          route.slice(1).forEach((point) => ctx.lineTo(point.x, point.y))
+          ctx.stroke()
+          ctx.setLineDash([])
 
-          if (isSelected) {
-            ctx.strokeStyle = "#3b82f6"
-            ctx.lineWidth = 4 / viewport.zoom
-            ctx.setLineDash([5 / viewport.zoom, 5 / viewport.zoom])
+          // Filled ends are attached to a shape, hollow ones are free
+          ;[
+            { point: route[0], bound: !!obj.start_binding },
+            { point: route[last], bound: !!obj.end_binding },
+          ].forEach(({ point, bound }) => {
+            ctx.fillStyle = bound ? "#3b82f6" : "#ffffff"
             ctx.beginPath()
-            ctx.moveTo(obj.x, obj.y)
-            ctx.lineTo(obj.x + obj.width, obj.y + obj.height)
+            ctx.arc(point.x, point.y, 5 / viewport.zoom, 0, Math.PI * 2)
+            ctx.fill()
             ctx.stroke()
-            ctx.setLineDash([])
-          }
-        } else if (obj.type === "rectangle") {
-          ctx.fillStyle = obj.fill_color
-          ctx.strokeStyle = obj.stroke_color
-          ctx.lineWidth = obj.stroke_width
-          ctx.fillRect(obj.x, obj.y, obj.width, obj.height)
-          ctx.strokeRect(obj.x, obj.y, obj.width, obj.height)
-        } else if (obj.type === "circle") {
-          ctx.fillStyle = obj.fill_color
-          ctx.strokeStyle = obj.stroke_color
-          ctx.lineWidth = obj.stroke_width
-          const radius = Math.min(obj.width, obj.height) / 2
-          ctx.beginPath()
-          ctx.arc(obj.x + obj.width / 2, obj.y + obj.height / 2, radius, 0, Math.PI * 2)
-          ctx.fill()
-          ctx.stroke()
-        } else if (obj.type === "triangle") {
-          ctx.fillStyle = obj.fill_color
-          ctx.strokeStyle = obj.stroke_color
-          ctx.lineWidth = obj.stroke_width
-          ctx.beginPath()
-          ctx.moveTo(obj.x + obj.width / 2, obj.y)
-          ctx.lineTo(obj.x, obj.y + obj.height)
-          ctx.lineTo(obj.x + obj.width, obj.y + obj.height)
-          ctx.closePath()
-          ctx.fill()
-          ctx.stroke()
+          })
+          ctx.restore()
+          return
+        } else if (obj.type === "frame") {
+          drawFrameLabel(ctx, obj, viewport.zoom, true)
         } else if (obj.type === "text") {
-          if (obj.id === editingTextId) {
-            if (isSelected) {
-              ctx.strokeStyle = "#3b82f6"
-              ctx.lineWidth = 2 / viewport.zoom
-              ctx.setLineDash([5 / viewport.zoom, 5 / viewport.zoom])
-              ctx.strokeRect(obj.x, obj.y, obj.width, obj.height)
-              ctx.setLineDash([])
-            }
-          } else {
-            if (isSelected) {
-              ctx.strokeStyle = "#3b82f6"
-              ctx.lineWidth = 2 / viewport.zoom
-              ctx.setLineDash([5 / viewport.zoom, 5 / viewport.zoom])
-              ctx.strokeRect(obj.x, obj.y, obj.width, obj.height)
-              ctx.setLineDash([])
-            }
-
-            ctx.font = `${obj.font_size || 16}px ${obj.font_family || "Arial"}`
-            ctx.fillStyle = obj.fill_color
-            ctx.textBaseline = "middle"
-            ctx.textAlign = "center"
-            ctx.fillText(obj.text_content || "", obj.x + obj.width / 2, obj.y + obj.height / 2)
-          }
-        }
-
-        if (isSelected) {
           ctx.strokeStyle = "#3b82f6"
           ctx.lineWidth = 2 / viewport.zoom
           ctx.setLineDash([5 / viewport.zoom, 5 / viewport.zoom])
-          ctx.strokeRect(obj.x - 5, obj.y - 5, obj.width + 10, obj.height + 10)
+          ctx.strokeRect(obj.x, obj.y, obj.width, obj.height)
           ctx.setLineDash([])
+        }
 
-          if (obj.type !== "line" && obj.type !== "text") {
-            const handleSize = 8 / viewport.zoom
-            const offset = handleSize / 2 + 3 / viewport.zoom
-            const x1 = obj.x
-            const y1 = obj.y
-            const x2 = obj.x + obj.width
-            const y2 = obj.y + obj.height
-            const centerX = obj.x + obj.width / 2
-            const centerY = obj.y + obj.height / 2
-
-            const drawHandle = (x: number, y: number) => {
-              ctx.fillStyle = "#ffffff"
-              ctx.strokeStyle = "#3b82f6"
-              ctx.lineWidth = 2 / viewport.zoom
-              ctx.fillRect(x - handleSize / 2, y - handleSize / 2, handleSize, handleSize)
-              ctx.strokeRect(x - handleSize / 2, y - handleSize / 2, handleSize, handleSize)
-            }
-
-            drawHandle(x1 - offset, y1 - offset)
-            drawHandle(x2 + offset, y1 - offset)
-            drawHandle(x1 - offset, y2 + offset)
-            drawHandle(x2 + offset, y2 + offset)
-
-            drawHandle(centerX, y1 - offset)
-            drawHandle(x2 + offset, centerY)
-            drawHandle(centerX, y2 + offset)
-            drawHandle(x1 - offset, centerY)
-          }
+        ctx.strokeStyle = "#3b82f6"
+        ctx.lineWidth = 2 / viewport.zoom
+        ctx.setLineDash([5 / viewport.zoom, 5 / viewport.zoom])
+        ctx.strokeRect(obj.x - 5, obj.y - 5, obj.width + 10, obj.height + 10)
+        ctx.setLineDash([])
 
-          if (selectedIds.length === 1) {
-            const centerX = obj.x + obj.width / 2
-            const rotateHandleY = obj.y - 30 / viewport.zoom
+        if (obj.type === "text") {
+          const handleSize = 8 / viewport.zoom
+          const offset = handleSize / 2 + 3 / viewport.zoom
+          const centerY = obj.y + obj.height / 2
 
-            ctx.strokeStyle = "#3b82f6"
-            ctx.lineWidth = 2 / viewport.zoom
-            ctx.beginPath()
-            ctx.moveTo(centerX, obj.y)
-            ctx.lineTo(centerX, rotateHandleY)
-            ctx.stroke()
+          ctx.fillStyle = "#ffffff"
+          ctx.strokeStyle = "#3b82f6"
+          ctx.lineWidth = 2 / viewport.zoom
+          ;[obj.x - offset, obj.x + obj.width + offset].forEach((x) => {
+            ctx.fillRect(x - handleSize / 2, centerY - handleSize / 2, handleSize, handleSize)
+            ctx.strokeRect(x - handleSize / 2, centerY - handleSize / 2, handleSize, handleSize)
+          })
+        } else if (obj.type !== "line") {
+          drawResizeHandles(obj)
+        }
 
-            ctx.fillStyle = "#ffffff"
-            ctx.strokeStyle = "#3b82f6"
-            ctx.lineWidth = 2 / viewport.zoom
-            ctx.beginPath()
-            ctx.arc(centerX, rotateHandleY, 6 / viewport.zoom, 0, Math.PI * 2)
-            ctx.fill()
-            ctx.stroke()
-          }
+        if (selectedIds.length === 1 && obj.type !== "frame") {
+          drawRotationHandle(obj)
         }
 
         ctx.restore()
+      }
+
+      if (liveIds.size > 0) {
+        nonGroups.forEach((obj) => {
+          if (liveIds.has(obj.id)) drawObject(ctx, obj)
+        })
+      }
+
+      nonGroups.forEach((obj) => {
+        if (selected.has(obj.id) || obj.id === editingVectorId) drawSelection(obj)
       })
 
+      const groups = objects.filter((obj) => obj.type === "group")
       groups.forEach((group) => {
-        const bounds = getGroupBounds(group, objects)
-        const isSelected = selectedIds.includes(group.id)
+        const bounds = { ...group, ...getGroupBounds(group, objects) }
+        const isSelected = selected.has(group.id)
+        const isEntered = group.id === enteredGroupId
 
         ctx.save()
 
-        ctx.strokeStyle = isSelected ? "#3b82f6" : "#9ca3af"
-        ctx.lineWidth = 2 / viewport.zoom
-        ctx.setLineDash([10 / viewport.zoom, 5 / viewport.zoom])
+        // Groups are drawn in their own rotated frame, like any other object
+        if (group.rotation !== 0) {
+          const centerX = bounds.x + bounds.width / 2
+          const centerY = bounds.y + bounds.height / 2
+          ctx.translate(centerX, centerY)
+          ctx.rotate((group.rotation * Math.PI) / 180)
+          ctx.translate(-centerX, -centerY)
+        }
+
+        ctx.strokeStyle = isSelected || isEntered ? "#3b82f6" : "#9ca3af"
+        ctx.lineWidth = (isEntered ? 1 : 2) / viewport.zoom
+        ctx.setLineDash(isEntered ? [4 / viewport.zoom, 4 / viewport.zoom] : [10 / viewport.zoom, 5 / viewport.zoom])
         ctx.strokeRect(bounds.x - 5, bounds.y - 5, bounds.width + 10, bounds.height + 10)
         ctx.setLineDash([])
 
-        if (isSelected) {
+        if (isSelected || isEntered) {
           ctx.fillStyle = "#3b82f6"
           ctx.font = `${12 / viewport.zoom}px Arial`
-          ctx.fillText("Group", bounds.x, bounds.y - 10 / viewport.zoom)
+          ctx.fillText(isEntered ? "Editing group" : "Group", bounds.x, bounds.y - 10 / viewport.zoom)
+        }
+
+        if (isSelected && !readOnly) {
+          drawResizeHandles(bounds)
+          if (selectedIds.length === 1) drawRotationHandle(bounds)
         }
 
         ctx.restore()
@@ -440,6 +944,52 @@ export function useCanvas({
         ctx.setLineDash([])
       }
 
+      if (connectorStart && linePreview) {
+        ctx.strokeStyle = CONNECTOR_STROKE_COLOR
+        ctx.lineWidth = 2
+        ctx.setLineDash([5 / viewport.zoom, 5 / viewport.zoom])
+        ctx.beginPath()
+        ctx.moveTo(connectorStart.point.x, connectorStart.point.y)
+        ctx.lineTo(linePreview.x, linePreview.y)
+        ctx.stroke()
+        ctx.setLineDash([])
+      }
+
+      if (penPoints && penPoints.length > 0) {
+        ctx.strokeStyle = PEN_STROKE_COLOR
+        ctx.lineWidth = PEN_STROKE_WIDTH
+        ctx.lineCap = "round"
+        ctx.lineJoin = "round"
+        ctx.beginPath()
+        traceSmoothPath(ctx, penPoints)
+        ctx.stroke()
+      }
+
+      if (vectorDraft) {
+        const { nodes } = vectorDraft
+        const last = nodes[nodes.length - 1]
+        ctx.strokeStyle = VECTOR_STROKE_COLOR
+        ctx.lineWidth = VECTOR_STROKE_WIDTH
+        ctx.lineCap = "round"
+        ctx.lineJoin = "round"
+        ctx.beginPath()
+        traceVector(ctx, [{ nodes, closed: false }])
+        ctx.stroke()
+
+        // The segment the next click would add
+        if (linePreview && !vectorDraft.dragging) {
+          ctx.strokeStyle = "#3b82f6"
+          ctx.lineWidth = 1 / viewport.zoom
+          ctx.beginPath()
+          ctx.moveTo(last.x, last.y)
+          const control = last.out ?? last
+          ctx.quadraticCurveTo(control.x, control.y, linePreview.x, linePreview.y)
+          ctx.stroke()
+        }
+
+        drawVectorNodes(ctx, [{ nodes, closed: false }], viewport.zoom, { contour: 0, node: nodes.length - 1 })
+      }
+
       if (isLassoSelecting && lassoPath.length > 1) {
         ctx.strokeStyle = "#3b82f6"
         ctx.lineWidth = 2 / viewport.zoom
@@ -457,7 +1007,33 @@ export function useCanvas({
         ctx.setLineDash([])
       }
 
+      if (guides.length > 0 || guideDrag) {
+        const placedGuides = guideDrag?.id ? guides.filter((guide) => guide.id !== guideDrag.id) : guides
+        const draft =
+          guideDrag && guideDrag.position !== null ? { axis: guideDrag.axis, position: guideDrag.position } : null
+        drawGuides(ctx, placedGuides, visibleArea, viewport.zoom, draft)
+      }
+
+      if (snapGuides.length > 0) {
+        drawSnapGuides(ctx, snapGuides, viewport.zoom)
+      }
+
+      if (measureGuides.length > 0) {
+        drawSnapGuides(ctx, measureGuides, viewport.zoom)
+      }
+
       ctx.restore()
+
+      renderTimesRef.current.push(performance.now() - start)
+      if (renderTimesRef.current.length === 60) {
+        const avgMs = renderTimesRef.current.reduce((a, b) => a + b, 0) / renderTimesRef.current.length
+        console.log(
+          `[v0] [PERF] Average render: ${avgMs.toFixed(1)}ms, static layer redrawn ` +
+            `${staticRedrawsRef.current}/60 (${objects.length} objects)`,
+        )
+        renderTimesRef.current = []
+        staticRedrawsRef.current = 0
+      }
     }
 
     const scheduleRender = () => {
@@ -480,12 +1056,28 @@ export function useCanvas({
     selectedIds,
     lineStart,
     linePreview,
+    connectorStart,
     selectionBox,
     editingTextId,
     gridEnabled,
     gridSize,
     isLassoSelecting,
     lassoPath,
+    penPoints,
+    imageLoadCount,
+    authorNames,
+    enteredGroupId,
+    readOnly,
+    vectorDraft,
+    editingVectorId,
+    selectedNode,
+    spatialIndex,
+    objectsById,
+    liveIds,
+    snapGuides,
+    guides,
+    guideDrag,
+    measureGuides,
   ])
 
   const handleTextEdit = useCallback((objectId: string) => {
@@ -493,22 +1085,29 @@ export function useCanvas({
   }, [])
 
   const saveTextEdit = useCallback(
-    (objectId: string, newText: string) => {
-      if (!newText.trim()) {
+    (objectId: string, runs: TextRun[]) => {
+      const newText = getPlainText(runs)
+      const textObj = objects.find((o) => o.id === objectId)
+      if (textObj?.type === "sticky") {
+        // Empty notes are kept; their text auto-fits, so the size never changes
+        const updatedObjects = objects.map((o) =>
+          o.id === objectId ? { ...o, text_content: newText, text_runs: hasFormatting(runs) ? runs : null } : o,
+        )
+        onObjectsChange(updatedObjects)
+      } else if (!newText.trim()) {
         const updatedObjects = objects.filter((o) => o.id !== objectId)
         onObjectsChange(updatedObjects)
         setSelectedIds([])
       } else {
-        const textObj = objects.find((o) => o.id === objectId)
         if (textObj && textObj.type === "text") {
-          const { width, height } = measureText(newText, textObj.font_size || 16, textObj.font_family || "Arial")
+          const height = getTextBoxHeight(layoutText(textObj, runs))
 
           const updatedObjects = objects.map((o) =>
             o.id === objectId
               ? {
                   ...o,
                   text_content: newText,
-                  width,
+                  text_runs: hasFormatting(runs) ? runs : null,
                   height,
                   _hasBeenEdited: true,
                 }
@@ -520,7 +1119,7 @@ export function useCanvas({
       setEditingTextId(null)
       setIsNewTextObject(false)
     },
-    [objects, onObjectsChange, measureText],
+    [objects, onObjectsChange],
   )
 
   const cancelTextEdit = useCallback(() => {
@@ -561,6 +1160,62 @@ export function useCanvas({
         return
       }
 
+      // Guides on the canvas can be picked up again, and dropped on a ruler to remove them
+      if (canEditGuides && tool === "select" && e.button === 0) {
+        const guide = findGuideAt(guides, pos, GUIDE_GRAB_DISTANCE / viewport.zoom)
+        if (guide) {
+          setGuideDrag({ id: guide.id, axis: guide.axis, position: guide.position })
+          return
+        }
+      }
+
+      // Viewers and commenters can select and pan, but never create or transform
+      if (readOnly && tool !== "select") {
+        return
+      }
+
+      if (tool === "pen") {
+        setPenPoints([pos])
+        return
+      }
+
+      if (tool === "vector") {
+        const nodes = vectorDraft?.nodes ?? []
+        const reach = VECTOR_HANDLE_SIZE / viewport.zoom
+        const isNear = (node: VectorNode | undefined) => !!node && Math.hypot(pos.x - node.x, pos.y - node.y) <= reach
+
+        // Clicking the first node closes the path; clicking the last one again (a double-click) ends it open
+        if (nodes.length > 2 && isNear(nodes[0])) {
+          finishVectorDraft(nodes, true)
+          return
+        }
+        if (isNear(nodes[nodes.length - 1])) {
+          finishVectorDraft(nodes, false)
+          return
+        }
+
+        const node: VectorNode = { x: pos.x, y: pos.y, in: null, out: null, smooth: false }
+        setVectorDraft({ nodes: [...nodes, node], dragging: true })
+        return
+      }
+
+      if (tool === "sticky") {
+        const newObj = createStickyNote(canvasId, pos, { createdBy: userId })
+        onObjectsChange([...objects, newObj])
+        setSelectedIds([newObj.id])
+        setEditingTextId(newObj.id)
+        setTool("select")
+        return
+      }
+
+      if (tool === "frame") {
+        const frame = createFrame(canvasId, pos, framePreset, { createdBy: userId })
+        onObjectsChange([...adoptObjects(frame, objects), frame])
+        setSelectedIds([frame.id])
+        setTool("select")
+        return
+      }
+
       if (tool === "line") {
         if (!lineStart) {
           setLineStart(pos)
@@ -587,6 +1242,47 @@ export function useCanvas({
         return
       }
 
+      if (tool === "connector") {
+        const binding = findBindingTarget(
+          objects,
+          pos,
+          CONNECTOR_BIND_DISTANCE / viewport.zoom,
+          connectorStart?.binding ? [connectorStart.binding.object_id] : [],
+        )
+        const target = binding ? objects.find((obj) => obj.id === binding.object_id) : undefined
+        const point = target && binding ? getAnchorPoint(target, binding.anchor) : pos
+
+        if (!connectorStart) {
+          setConnectorStart({ point, binding })
+          return
+        }
+
+        const newObj: CanvasObject = {
+          id: crypto.randomUUID(),
+          canvas_id: canvasId,
+          type: "connector",
+          x: connectorStart.point.x,
+          y: connectorStart.point.y,
+          width: point.x - connectorStart.point.x,
+          height: point.y - connectorStart.point.y,
+          rotation: 0,
+          fill_color: "transparent",
+          stroke_color: CONNECTOR_STROKE_COLOR,
+          stroke_width: 2,
+          start_binding: connectorStart.binding,
+          end_binding: binding,
+          route: "straight",
+          start_arrowhead: "none",
+          end_arrowhead: "arrow",
+        }
+        onObjectsChange([...objects, newObj])
+        setSelectedIds([newObj.id])
+        setConnectorStart(null)
+        setLinePreview(null)
+        setTool("select")
+        return
+      }
+
       if (tool === "rectangle") {
         const newObj: CanvasObject = {
           id: crypto.randomUUID(),
@@ -663,6 +1359,7 @@ export function useCanvas({
           font_size: 24,
           font_family: "Arial",
           text_content: "",
+          text_align: "left",
         }
         onObjectsChange([...objects, newObj])
         setSelectedIds([newObj.id])
@@ -672,7 +1369,47 @@ export function useCanvas({
         return
       }
 
-      if (selectedIds.length === 1 && tool === "select") {
+      // While a vector's nodes are open, clicks go to its nodes, handles and segments
+      const editingVector = editingVectorId ? objects.find((o) => o.id === editingVectorId) : undefined
+      if (editingVector && !readOnly && tool === "select") {
+        const local = toVectorLocal(editingVector, pos)
+        const threshold = VECTOR_HANDLE_SIZE / viewport.zoom
+        const contours = getVectorContours(editingVector)
+        const now = Date.now()
+        const lastClick = lastNodeClick.current
+        const isDoubleClick =
+          !!lastClick && now - lastClick.time < 300 && Math.hypot(e.clientX - lastClick.x, e.clientY - lastClick.y) < 5
+        lastNodeClick.current = isDoubleClick ? null : { time: now, x: e.clientX, y: e.clientY }
+
+        const handle = findVectorHandle(contours, local, threshold)
+        if (handle) {
+          // Double-clicking a node converts it between corner and smooth
+          if (isDoubleClick && handle.kind === "anchor") {
+            updateEditingVector((current) => toggleVectorNodeSmooth(current, handle))
+          } else {
+            setNodeDrag(handle)
+          }
+          setSelectedNode(handle)
+          return
+        }
+
+        const segment = findVectorSegment(contours, local, threshold / 2 + editingVector.stroke_width / 2)
+        if (segment) {
+          // Double-clicking a segment adds a node there
+          if (isDoubleClick) {
+            const inserted = insertVectorNode(contours, segment)
+            updateEditingVector(() => inserted.contours)
+            setSelectedNode(inserted.node)
+          }
+          return
+        }
+
+        // Anywhere else leaves node editing and is handled as a normal click
+        setEditingVectorId(null)
+        setSelectedNode(null)
+      }
+
+      if (!readOnly && selectedIds.length === 1 && tool === "select") {
         const selectedObj = objects.find((o) => o.id === selectedIds[0])
         if (selectedObj) {
           const isRotateHandle = getRotationHandleAtPosition(pos, selectedObj)
@@ -708,7 +1445,27 @@ export function useCanvas({
         }
       }
 
-      const clickedObj = [...objects].reverse().find((obj) => {
+      const hitTolerance = 5 / viewport.zoom
+      const clickedLeaf = searchSpatialIndexAt(spatialIndex, pos, hitTolerance).reverse().find((obj) => {
+        // Groups are hit through their children
+        if (obj.type === "group") return false
+
+        // Clipped-away parts of frame children cannot be clicked
+        const clipFrame = getClipFrame(obj, objectsById)
+        if (
+          clipFrame &&
+          (pos.x < clipFrame.x ||
+            pos.x > clipFrame.x + clipFrame.width ||
+            pos.y < clipFrame.y ||
+            pos.y > clipFrame.y + clipFrame.height)
+        ) {
+          return false
+        }
+
+        if (obj.type === "frame" && isPointOnFrameLabel(obj, pos, viewport.zoom)) {
+          return true
+        }
+
         if (obj.type === "line") {
           const x1 = obj.x
           const y1 = obj.y
@@ -719,7 +1476,7 @@ export function useCanvas({
           if (lineLength === 0) return false
 
           const distance = Math.abs((y2 - y1) * pos.x - (x2 - x1) * pos.y + x2 * y1 - y2 * x1) / lineLength
-          const threshold = 5 / viewport.zoom
+          const threshold = hitTolerance
 
           const minX = Math.min(x1, x2) - threshold
           const maxX = Math.max(x1, x2) + threshold
@@ -727,6 +1484,13 @@ export function useCanvas({
           const maxY = Math.max(y1, y2) + threshold
 
           return distance < threshold && pos.x >= minX && pos.x <= maxX && pos.y >= minY && pos.y <= maxY
+        } else if (obj.type === "path") {
+          return isPointOnPath(obj, pos, hitTolerance)
+        } else if (obj.type === "vector") {
+          return isPointOnVector(obj, pos, hitTolerance)
+        } else if (obj.type === "connector") {
+          const route = getConnectorRoute(obj, objectsById)
+          return isPointOnConnector(route, pos, hitTolerance + obj.stroke_width / 2)
         } else {
           const dx = pos.x - (obj.x + obj.width / 2)
           const dy = pos.y - (obj.y + obj.height / 2)
@@ -739,33 +1503,46 @@ export function useCanvas({
         }
       })
 
-      if (clickedObj) {
+      // A click selects the clicked object's outermost group, or its ancestor inside the entered group
+      const insideEnteredGroup =
+        !!clickedLeaf && !!enteredGroupId && isDescendantOf(clickedLeaf, enteredGroupId, objectsById)
+      const clickedObj = clickedLeaf
+        ? getSelectableObject(clickedLeaf, objectsById, insideEnteredGroup ? enteredGroupId : null)
+        : undefined
+      if (enteredGroupId && !insideEnteredGroup && !e.shiftKey) {
+        setEnteredGroupId(null)
+      }
+
+      if (clickedLeaf && clickedObj) {
         const now = Date.now()
         const isDoubleClick = now - lastClickTime.current < 300 && lastClickedId.current === clickedObj.id
         lastClickTime.current = now
         lastClickedId.current = clickedObj.id
 
-        if (isDoubleClick && clickedObj.type === "text") {
-          handleTextEdit(clickedObj.id)
+        // Double-clicking a group enters it and selects the child under the pointer
+        if (isDoubleClick && clickedObj.type === "group") {
+          const child = getSelectableObject(clickedLeaf, objectsById, clickedObj.id)
+          setEnteredGroupId(clickedObj.id)
+          setSelectedIds([child.id])
+          lastClickTime.current = 0
           return
         }
 
-        let objectsToSelect: string[]
-
-        // If clicked object is a group, only select the group itself
-        if (clickedObj.type === "group") {
-          objectsToSelect = [clickedObj.id]
-        }
-        // If clicked object belongs to a group, select the parent group only
-        else if (clickedObj.parent_group) {
-          objectsToSelect = [clickedObj.parent_group]
+        // Double-clicking a vector opens its nodes for editing
+        if (isDoubleClick && clickedObj.type === "vector" && !readOnly) {
+          setEditingVectorId(clickedObj.id)
+          setSelectedNode(null)
+          lastClickTime.current = 0
+          return
         }
-        // Otherwise, select just the clicked object
-        else {
-          objectsToSelect = [clickedObj.id]
+
+        if (isDoubleClick && (clickedObj.type === "text" || clickedObj.type === "sticky") && !readOnly) {
+          handleTextEdit(clickedObj.id)
+          return
         }
 
-        const primaryObjectId = clickedObj.parent_group || clickedObj.id
+        const objectsToSelect = [clickedObj.id]
+        const primaryObjectId = clickedObj.id
 
         if (e.shiftKey) {
           if (selectedIds.includes(primaryObjectId)) {
@@ -775,7 +1552,7 @@ export function useCanvas({
           }
         } else {
           if (selectedIds.includes(primaryObjectId)) {
-            setIsDragging(true)
+            setIsDragging(!readOnly)
             const offsets = new Map<string, { x: number; y: number }>()
             selectedIds.forEach((id) => {
               const obj = objects.find((o) => o.id === id)
@@ -786,7 +1563,7 @@ export function useCanvas({
             setDragOffsets(offsets)
           } else {
             setSelectedIds(objectsToSelect)
-            setIsDragging(true)
+            setIsDragging(!readOnly)
             const offsets = new Map<string, { x: number; y: number }>()
             objectsToSelect.forEach((id) => {
               const obj = objects.find((o) => o.id === id)
@@ -798,8 +1575,28 @@ export function useCanvas({
           }
         }
       } else {
+        // Double-clicking empty canvas drops a sticky note there
+        const now = Date.now()
+        const lastEmpty = lastEmptyClick.current
+        lastEmptyClick.current = { time: now, x: e.clientX, y: e.clientY }
+        if (
+          !readOnly &&
+          tool === "select" &&
+          lastEmpty &&
+          now - lastEmpty.time < 300 &&
+          Math.hypot(e.clientX - lastEmpty.x, e.clientY - lastEmpty.y) < 5
+        ) {
+          lastEmptyClick.current = null
+          const newObj = createStickyNote(canvasId, pos, { createdBy: userId })
+          onObjectsChange([...objects, newObj])
+          setSelectedIds([newObj.id])
+          setEditingTextId(newObj.id)
+          return
+        }
+
         if (!e.shiftKey) {
           setSelectedIds([])
+          setEnteredGroupId(null)
         }
         setIsSelecting(true)
         setSelectionBox({ x: pos.x, y: pos.y, width: 0, height: 0 })
@@ -812,6 +1609,7 @@ export function useCanvas({
       onObjectsChange,
       canvasId,
       lineStart,
+      connectorStart,
       viewport.zoom,
       selectedIds,
       getResizeHandleAtPosition,
@@ -819,6 +1617,18 @@ export function useCanvas({
       handleTextEdit,
       editingTextId,
       lassoMode,
+      readOnly,
+      userId,
+      framePreset,
+      enteredGroupId,
+      vectorDraft,
+      finishVectorDraft,
+      editingVectorId,
+      updateEditingVector,
+      spatialIndex,
+      objectsById,
+      canEditGuides,
+      guides,
     ],
   )
 
@@ -828,7 +1638,8 @@ export function useCanvas({
 
       let pos = screenToCanvas(e.clientX, e.clientY)
 
-      if (snapEnabled && (isDragging || tool !== "select")) {
+      // Freehand strokes are never snapped to the grid
+      if (snapEnabled && (isDragging || (tool !== "select" && tool !== "pen"))) {
         pos = snapPointToGrid(pos.x, pos.y, gridSize)
       }
 
@@ -837,16 +1648,68 @@ export function useCanvas({
         return
       }
 
-      if (tool === "line" && lineStart) {
+      if ((tool === "line" && lineStart) || (tool === "connector" && connectorStart)) {
         setLinePreview(pos)
       }
 
+      if (vectorDraft) {
+        setLinePreview(pos)
+        const last = vectorDraft.nodes[vectorDraft.nodes.length - 1]
+        // Dragging after placing a node pulls out mirrored handles, making it smooth
+        const pulled = Math.hypot(pos.x - last.x, pos.y - last.y) * viewport.zoom >= PATH_MIN_SAMPLE_DISTANCE
+        if (vectorDraft.dragging && pulled) {
+          const nodes = [...vectorDraft.nodes]
+          nodes[nodes.length - 1] = {
+            ...last,
+            in: { x: last.x * 2 - pos.x, y: last.y * 2 - pos.y },
+            out: pos,
+            smooth: true,
+          }
+          setVectorDraft({ ...vectorDraft, nodes })
+        }
+      }
+
+      if (penPoints) {
+        const last = penPoints[penPoints.length - 1]
+        if (Math.hypot(pos.x - last.x, pos.y - last.y) * viewport.zoom >= PATH_MIN_SAMPLE_DISTANCE) {
+          setPenPoints([...penPoints, pos])
+        }
+      }
+
       const now = Date.now()
       if (onCursorMove && now - lastCursorUpdate.current >= CURSOR_THROTTLE_MS) {
         onCursorMove(pos.x, pos.y)
         lastCursorUpdate.current = now
       }
 
+      // With nothing in progress, hovering a guide changes the cursor, and holding Alt measures from the selection
+      // to the object under the pointer
+      const isIdle = !isPanning && !isDragging && !isResizing && !isRotating && !isSelecting && !nodeDrag && !guideDrag
+      if (isIdle && tool === "select") {
+        const hoveredGuide = canEditGuides ? findGuideAt(guides, pos, GUIDE_GRAB_DISTANCE / viewport.zoom) : null
+        setHoveredGuideAxis(hoveredGuide?.axis ?? null)
+
+        let measured = NO_SNAP_GUIDES
+        const selection = e.altKey ? getSelectionBox(objects.filter((obj) => selectedIds.includes(obj.id))) : null
+        if (selection) {
+          const leaf = searchSpatialIndexAt(spatialIndex, pos)
+            .reverse()
+            .find((obj) => {
+              if (obj.type === "group" || obj.visible === false) return false
+              const box = getObjectBox(obj)
+              return pos.x >= box.x && pos.x <= box.x + box.width && pos.y >= box.y && pos.y <= box.y + box.height
+            })
+          const hovered = leaf && getSelectableObject(leaf, objectsById, enteredGroupId)
+          if (hovered && !selectedIds.includes(hovered.id)) {
+            measured = measureBoxes(selection, getObjectBox(hovered))
+          }
+        }
+        setMeasureGuides(measured)
+      } else {
+        setHoveredGuideAxis(null)
+        setMeasureGuides(NO_SNAP_GUIDES)
+      }
+
       if (isPanning) {
         const dx = e.clientX - dragStart.x
         const dy = e.clientY - dragStart.y
@@ -859,6 +1722,14 @@ export function useCanvas({
         return
       }
 
+      if (nodeDrag) {
+        const vector = objects.find((o) => o.id === editingVectorId)
+        if (vector) {
+          updateEditingVector((contours) => moveVectorHandle(contours, nodeDrag, toVectorLocal(vector, pos)))
+        }
+        return
+      }
+
       if (isSelecting && selectionBox) {
         setSelectionBox({
           ...selectionBox,
@@ -877,14 +1748,18 @@ export function useCanvas({
 
           newRotation = ((newRotation % 360) + 360) % 360
 
-          const updatedObjects = objects.map((o) =>
-            o.id === selectedIds[0]
-              ? {
-                  ...o,
-                  rotation: newRotation,
-                }
-              : o,
-          )
+          // Groups turn their whole subtree about the group centre
+          const updatedObjects =
+            obj.type === "group"
+              ? transformGroup(obj, { ...obj, rotation: newRotation }, objects)
+              : objects.map((o) =>
+                  o.id === selectedIds[0]
+                    ? {
+                        ...o,
+                        rotation: newRotation,
+                      }
+                    : o,
+                )
           onObjectsChange(updatedObjects)
         }
         return
@@ -938,6 +1813,20 @@ export function useCanvas({
               break
           }
 
+          // Images and sticky notes keep the aspect ratio they had when the resize started
+          if (obj.type === "image" || obj.type === "sticky") {
+            const locked = lockAspectRatio(
+              resizeHandle,
+              { x: resizeStart.objX, y: resizeStart.objY, width: resizeStart.width, height: resizeStart.height },
+              newWidth,
+              newHeight,
+            )
+            newX = locked.x
+            newY = locked.y
+            newWidth = locked.width
+            newHeight = locked.height
+          }
+
           if (newWidth < 10) {
             newWidth = 10
             newX = resizeStart.objX
@@ -947,23 +1836,83 @@ export function useCanvas({
             newY = resizeStart.objY
           }
 
-          const updatedObjects = objects.map((o) =>
-            o.id === selectedIds[0]
-              ? {
-                  ...o,
-                  x: newX,
-                  y: newY,
-                  width: newWidth,
-                  height: newHeight,
-                }
-              : o,
-          )
+          if (obj.type === "text") {
+            newHeight = getTextBoxHeight(layoutText(obj, undefined, newWidth))
+          }
+
+          const resized = { ...obj, x: newX, y: newY, width: newWidth, height: newHeight }
+          // Resizing a group scales everything inside it proportionally
+          const updatedObjects =
+            obj.type === "group"
+              ? transformGroup(obj, resized, objects)
+              : objects.map((o) => (o.id === selectedIds[0] ? resized : o))
           onObjectsChange(updatedObjects)
         }
         return
       }
 
       if (isDragging && selectedIds.length > 0) {
+        // Everything inside a dragged group, at any depth, moves with it
+        const groupOwners = new Map<string, string>()
+        selectedIds.forEach((id) => {
+          getAllChildrenIds(id, objects).forEach((childId) => groupOwners.set(childId, id))
+        })
+
+        // Dragged connectors let go of shapes that are not moving with them
+        const movingIds = new Set(
+          objects
+            .filter(
+              (o) =>
+                selectedIds.includes(o.id) ||
+                groupOwners.has(o.id) ||
+                (o.frame_id && selectedIds.includes(o.frame_id)),
+            )
+            .map((o) => o.id),
+        )
+
+        // Smart guides: the selection snaps to objects that were on screen when the drag started, unless
+        // Cmd (Mac) or Ctrl is held
+        const isMac = navigator.platform.toUpperCase().indexOf("MAC") >= 0
+        const anchor = objects.find((o) => selectedIds.includes(o.id) && dragOffsets.has(o.id))
+        const selectionBounds = getSelectionBox(objects.filter((o) => selectedIds.includes(o.id)))
+        if (anchor && selectionBounds && !(isMac ? e.metaKey : e.ctrlKey)) {
+          if (!snapTargetsRef.current) {
+            // Groups around the selection are refitted as it moves, so they are not targets either
+            const ancestorIds = new Set<string>()
+            selectedIds.forEach((id) => {
+              let parentId = objectsById.get(id)?.parent_group
+              while (parentId && !ancestorIds.has(parentId)) {
+                ancestorIds.add(parentId)
+                parentId = objectsById.get(parentId)?.parent_group
+              }
+            })
+            const canvas = canvasRef.current
+            const nearby = canvas ? searchSpatialIndex(spatialIndex, getVisibleArea(canvas, viewport, 0)) : objects
+            snapTargetsRef.current = createSnapTargets(
+              nearby.filter(
+                (o) =>
+                  !movingIds.has(o.id) && !ancestorIds.has(o.id) && o.type !== "connector" && o.visible !== false,
+              ),
+              guides,
+            )
+          }
+
+          const anchorOffset = dragOffsets.get(anchor.id)!
+          const { dx, dy, guides: matched } = snapBox(
+            {
+              ...selectionBounds,
+              x: selectionBounds.x + pos.x - anchorOffset.x - anchor.x,
+              y: selectionBounds.y + pos.y - anchorOffset.y - anchor.y,
+            },
+            snapTargetsRef.current,
+            SNAP_DISTANCE / viewport.zoom,
+          )
+          pos = { x: pos.x + dx, y: pos.y + dy }
+          setSnapGuides(matched.length > 0 ? matched : NO_SNAP_GUIDES)
+        } else {
+          setSnapGuides(NO_SNAP_GUIDES)
+        }
+
         const updatedObjects = objects.map((o) => {
           if (selectedIds.includes(o.id)) {
             const offset = dragOffsets.get(o.id)
@@ -981,26 +1930,42 @@ export function useCanvas({
                 return updatedGroup
               }
 
-              return {
+              const moved = {
                 ...o,
                 x: pos.x - offset.x,
                 y: pos.y - offset.y,
               }
+              return o.type === "connector" ? detachConnector(moved, movingIds) : moved
             }
           }
 
-          if (o.parent_group && selectedIds.includes(o.parent_group)) {
-            const parentGroup = objects.find((obj) => obj.id === o.parent_group)
-            const parentOffset = dragOffsets.get(o.parent_group)
+          const ownerId = groupOwners.get(o.id)
+          if (ownerId) {
+            const parentGroup = objects.find((obj) => obj.id === ownerId)
+            const parentOffset = dragOffsets.get(ownerId)
             if (parentGroup && parentOffset) {
               const deltaX = pos.x - parentOffset.x - parentGroup.x
               const deltaY = pos.y - parentOffset.y - parentGroup.y
 
-              return {
+              const moved = {
                 ...o,
                 x: o.x + deltaX,
                 y: o.y + deltaY,
               }
+              return o.type === "connector" ? detachConnector(moved, movingIds) : moved
+            }
+          }
+
+          // Frame children travel with their frame
+          if (o.frame_id && selectedIds.includes(o.frame_id)) {
+            const frame = objects.find((obj) => obj.id === o.frame_id)
+            const frameOffset = dragOffsets.get(o.frame_id)
+            if (frame && frameOffset) {
+              return {
+                ...o,
+                x: o.x + pos.x - frameOffset.x - frame.x,
+                y: o.y + pos.y - frameOffset.y - frame.y,
+              }
             }
           }
 
@@ -1028,16 +1993,70 @@ export function useCanvas({
       onCursorMove,
       tool,
       lineStart,
+      connectorStart,
       editingTextId,
       snapEnabled,
       gridSize,
       isLassoSelecting,
+      penPoints,
+      viewport,
+      vectorDraft,
+      nodeDrag,
+      editingVectorId,
+      updateEditingVector,
+      objectsById,
+      spatialIndex,
+      guideDrag,
+      canEditGuides,
+      guides,
+      enteredGroupId,
     ],
   )
 
+  const finishPenStroke = useCallback(
+    (points: PathPoint[]) => {
+      const simplified = simplifyPath(points, PATH_SIMPLIFY_TOLERANCE / viewport.zoom)
+      const newObj: CanvasObject = {
+        id: crypto.randomUUID(),
+        canvas_id: canvasId,
+        type: "path",
+        ...createPathGeometry(simplified),
+        rotation: 0,
+        fill_color: "transparent",
+        stroke_color: PEN_STROKE_COLOR,
+        stroke_width: PEN_STROKE_WIDTH,
+      }
+
+      console.log(`[v0] Finished pen stroke: ${points.length} samples simplified to ${simplified.length} points`)
+      // The pen stays active so several strokes can be drawn in a row
+      onObjectsChange([...objects, newObj])
+    },
+    [canvasId, objects, onObjectsChange, viewport.zoom],
+  )
+
   const handleMouseUp = useCallback(() => {
+    if (vectorDraft?.dragging) {
+      setVectorDraft({ ...vectorDraft, dragging: false })
+      return
+    }
+
+    if (nodeDrag) {
+      setNodeDrag(null)
+      return
+    }
+
+    if (penPoints) {
+      setPenPoints(null)
+      if (!readOnly) {
+        finishPenStroke(penPoints)
+      }
+      return
+    }
+
     if (isLassoSelecting && lassoPath.length > 2) {
-      const selectedObjects = objects.filter((obj) => isObjectInLasso(obj, lassoPath))
+      const selectedObjects = searchSpatialIndex(spatialIndex, getPathBounds(lassoPath)).filter((obj) =>
+        isObjectInLasso(obj, lassoPath),
+      )
       setSelectedIds(selectedObjects.map((obj) => obj.id))
       setLassoPath([])
       setIsLassoSelecting(false)
@@ -1045,7 +2064,9 @@ export function useCanvas({
     }
 
     if (isSelecting && selectionBox) {
-      const selectedObjects = objects.filter((obj) => isObjectInSelectionBox(obj, selectionBox))
+      const selectedObjects = searchSpatialIndex(spatialIndex, selectionBox).filter((obj) =>
+        isObjectInSelectionBox(obj, selectionBox),
+      )
       setSelectedIds(selectedObjects.map((obj) => obj.id))
       setSelectionBox(null)
     }
@@ -1062,7 +2083,23 @@ export function useCanvas({
     setResizeHandle(null)
     setIsLassoSelecting(false)
     setLassoPath([])
-  }, [isSelecting, selectionBox, objects, isObjectInSelectionBox, isLassoSelecting, lassoPath, isRotating])
+    setSnapGuides(NO_SNAP_GUIDES)
+    snapTargetsRef.current = null
+  }, [
+    isSelecting,
+    selectionBox,
+    objects,
+    isObjectInSelectionBox,
+    isLassoSelecting,
+    lassoPath,
+    isRotating,
+    penPoints,
+    readOnly,
+    finishPenStroke,
+    vectorDraft,
+    nodeDrag,
+    spatialIndex,
+  ])
 
   const MIN_ZOOM = 0.1 // Changed from 0 to 0.1 to set minimum zoom to 10%
   const MAX_ZOOM = 3
@@ -1083,6 +2120,10 @@ export function useCanvas({
     setSelectedIds,
     tool,
     setTool,
+    framePreset,
+    setFramePreset,
+    enteredGroupId,
+    editingVectorId,
     handleMouseDown,
     handleMouseMove,
     handleMouseUp,
@@ -1091,7 +2132,9 @@ export function useCanvas({
     editingTextId,
     saveTextEdit,
     cancelTextEdit,
-    measureText,
     isNewTextObject,
+    startGuideDrag,
+    // Axis of the guide being dragged or hovered, for the resize cursor
+    guideCursorAxis: guideDrag?.axis ?? hoveredGuideAxis,
   }
 }
@@ -1,86 +1,208 @@
 "use client"
 
-import { useState, useCallback } from "react"
+import { useState, useCallback, useEffect, useRef } from "react"
 import type { CanvasObject, HistoryCommand } from "@/lib/types"
-
+import {
+  applyHistoryOperations,
+  buildHistoryOperations,
+  getCommandType,
+  getOperationObjectId,
+  mergeHistoryCommands,
+} from "@/lib/undo-utils"
+import { loadPersistedHistory, savePersistedHistory, PERSISTED_HISTORY_SIZE } from "@/lib/offline-store"
+
+// Commands held in memory; older undo steps are paged out to IndexedDB
 const MAX_HISTORY_SIZE = 50
 
-export function useHistory() {
-  const [undoStack, setUndoStack] = useState<HistoryCommand[]>([])
-  const [redoStack, setRedoStack] = useState<HistoryCommand[]>([])
+interface UseHistoryProps {
+  // Scope of the history, e.g. one user on one canvas (see getHistoryKey)
+  storageKey: string
+}
+
+export interface HistoryStepResult {
+  objects: CanvasObject[]
+  applied: number
+  skipped: number
+}
+
+interface HistoryStacks {
+  undo: HistoryCommand[]
+  redo: HistoryCommand[]
+}
 
-  const addCommand = useCallback((command: HistoryCommand) => {
-    setUndoStack((prev) => {
-      const newStack = [...prev, command]
-      // Keep only last MAX_HISTORY_SIZE commands
-      if (newStack.length > MAX_HISTORY_SIZE) {
-        return newStack.slice(-MAX_HISTORY_SIZE)
+export function useHistory({ storageKey }: UseHistoryProps) {
+  const [stacks, setStacks] = useState<HistoryStacks>({ undo: [], redo: [] })
+  const stacksRef = useRef<HistoryStacks>(stacks)
+  // Older undo commands that live only in IndexedDB
+  const archivedCountRef = useRef(0)
+  const isPagingRef = useRef(false)
+
+  const commitStacks = useCallback(
+    (next: HistoryStacks) => {
+      let undo = next.undo
+      if (undo.length > MAX_HISTORY_SIZE) {
+        archivedCountRef.current += undo.length - MAX_HISTORY_SIZE
+        undo = undo.slice(-MAX_HISTORY_SIZE)
       }
-      return newStack
+      archivedCountRef.current = Math.min(archivedCountRef.current, PERSISTED_HISTORY_SIZE - undo.length)
+
+      const committed = { undo, redo: next.redo.slice(-MAX_HISTORY_SIZE) }
+      stacksRef.current = committed
+      setStacks(committed)
+      savePersistedHistory(storageKey, archivedCountRef.current, committed.undo, committed.redo)
+    },
+    [storageKey],
+  )
+
+  useEffect(() => {
+    let cancelled = false
+    stacksRef.current = { undo: [], redo: [] }
+    archivedCountRef.current = 0
+    setStacks(stacksRef.current)
+
+    loadPersistedHistory(storageKey).then((persisted) => {
+      if (cancelled || !persisted) return
+
+      archivedCountRef.current = Math.max(0, persisted.undo.length - MAX_HISTORY_SIZE)
+      const restored = {
+        undo: persisted.undo.slice(-MAX_HISTORY_SIZE),
+        redo: persisted.redo.slice(-MAX_HISTORY_SIZE),
+      }
+      stacksRef.current = restored
+      setStacks(restored)
+      console.log("[v0] [HISTORY] Restored", persisted.undo.length, "undo step(s) from previous sessions")
     })
-    // Clear redo stack when new command is added
-    setRedoStack([])
 
-    console.log("[v0] [HISTORY] Added command:", command.type, "affecting", command.objectIds.length, "object(s)")
-  }, [])
+    return () => {
+      cancelled = true
+    }
+  }, [storageKey])
+
+  // Page older commands back in once the in-memory undo stack runs dry
+  const pageInArchived = useCallback(async () => {
+    if (isPagingRef.current || archivedCountRef.current === 0) return
+    isPagingRef.current = true
+
+    const persisted = await loadPersistedHistory(storageKey)
+    isPagingRef.current = false
+    if (!persisted) return
+
+    const end = Math.min(archivedCountRef.current, persisted.undo.length)
+    const start = Math.max(0, end - MAX_HISTORY_SIZE)
+    archivedCountRef.current = start
+
+    const current = stacksRef.current
+    const paged = { undo: [...persisted.undo.slice(start, end), ...current.undo], redo: current.redo }
+    stacksRef.current = paged
+    setStacks(paged)
+    console.log("[v0] [HISTORY] Paged in", end - start, "older command(s)")
+  }, [storageKey])
+
+  /**
+   * Record a local change. Only the difference between `before` and `after`
+   * is stored, so remote edits that arrive in between are never part of it.
+   */
+  const recordChange = useCallback(
+    (before: CanvasObject[], after: CanvasObject[], type?: HistoryCommand["type"]) => {
+      const operations = buildHistoryOperations(before, after)
+      if (operations.length === 0) return
+
+      const command: HistoryCommand = {
+        type: type ?? getCommandType(operations),
+        objectIds: Array.from(new Set(operations.map(getOperationObjectId))),
+        operations,
+        timestamp: Date.now(),
+      }
+
+      const { undo } = stacksRef.current
+      const previous = undo[undo.length - 1]
+      const merged = previous ? mergeHistoryCommands(previous, command) : null
+
+      // Clear redo stack when new command is added
+      commitStacks({ undo: merged ? [...undo.slice(0, -1), merged] : [...undo, command], redo: [] })
+
+      if (!merged) {
+        console.log("[v0] [HISTORY] Added command:", command.type, "affecting", command.objectIds.length, "object(s)")
+      }
+    },
+    [commitStacks],
+  )
 
   const undo = useCallback(
-    (currentObjects: CanvasObject[]): CanvasObject[] | null => {
+    (currentObjects: CanvasObject[]): HistoryStepResult | null => {
+      const { undo: undoStack, redo: redoStack } = stacksRef.current
       if (undoStack.length === 0) {
         console.log("[v0] [HISTORY] Nothing to undo")
         return null
       }
 
       const command = undoStack[undoStack.length - 1]
-      setUndoStack((prev) => prev.slice(0, -1))
-
-      setRedoStack((prev) => [...prev, command])
-
-      console.log("[v0] [HISTORY] Undo:", command.type, "affecting", command.objectIds.length, "object(s)")
-
-      if (command.beforeState) {
-        return command.beforeState
+      const result = applyHistoryOperations(currentObjects, command.operations, "undo")
+
+      const remaining = undoStack.slice(0, -1)
+      commitStacks({
+        undo: remaining,
+        redo: result.operations.length > 0 ? [...redoStack, { ...command, operations: result.operations }] : redoStack,
+      })
+      if (remaining.length === 0) {
+        void pageInArchived()
       }
 
-      return currentObjects
+      console.log(
+        "[v0] [HISTORY] Undo:",
+        command.type,
+        "affecting",
+        command.objectIds.length,
+        "object(s)",
+        result.skipped > 0 ? `(${result.skipped} change(s) kept, edited by others since)` : "",
+      )
+
+      return { objects: result.objects, applied: result.applied, skipped: result.skipped }
     },
-    [undoStack],
+    [commitStacks, pageInArchived],
   )
 
   const redo = useCallback(
-    (currentObjects: CanvasObject[]): CanvasObject[] | null => {
+    (currentObjects: CanvasObject[]): HistoryStepResult | null => {
+      const { undo: undoStack, redo: redoStack } = stacksRef.current
       if (redoStack.length === 0) {
         console.log("[v0] [HISTORY] Nothing to redo")
         return null
       }
 
       const command = redoStack[redoStack.length - 1]
-      setRedoStack((prev) => prev.slice(0, -1))
-
-      setUndoStack((prev) => [...prev, command])
-
-      console.log("[v0] [HISTORY] Redo:", command.type, "affecting", command.objectIds.length, "object(s)")
-
-      if (command.afterState) {
-        return command.afterState
-      }
-
-      return currentObjects
+      const result = applyHistoryOperations(currentObjects, command.operations, "redo")
+
+      commitStacks({
+        undo: result.operations.length > 0 ? [...undoStack, { ...command, operations: result.operations }] : undoStack,
+        redo: redoStack.slice(0, -1),
+      })
+
+      console.log(
+        "[v0] [HISTORY] Redo:",
+        command.type,
+        "affecting",
+        command.objectIds.length,
+        "object(s)",
+        result.skipped > 0 ? `(${result.skipped} change(s) kept, edited by others since)` : "",
+      )
+
+      return { objects: result.objects, applied: result.applied, skipped: result.skipped }
     },
-    [redoStack],
+    [commitStacks],
   )
 
-  const canUndo = undoStack.length > 0
-  const canRedo = redoStack.length > 0
+  const canUndo = stacks.undo.length > 0
+  const canRedo = stacks.redo.length > 0
 
   const clearHistory = useCallback(() => {
-    setUndoStack([])
-    setRedoStack([])
+    archivedCountRef.current = 0
+    commitStacks({ undo: [], redo: [] })
     console.log("[v0] [HISTORY] Cleared history")
-  }, [])
+  }, [commitStacks])
 
   return {
-    addCommand,
+    recordChange,
     undo,
     redo,
     canUndo,
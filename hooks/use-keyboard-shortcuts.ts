@@ -2,6 +2,8 @@
 
 import { useEffect } from "react"
 
+const CANVAS_CLIPBOARD_MARKER = "CollabCanvas objects"
+
 interface KeyboardShortcutsProps {
   onUndo?: () => void
   onRedo?: () => void
@@ -10,7 +12,8 @@ interface KeyboardShortcutsProps {
   onSelectAll?: () => void
   onSelectAllOfType?: () => void // New prop for select all of type
   onCopy?: () => void
-  onPaste?: () => void
+  // Receives any files on the system clipboard, e.g. a copied screenshot
+  onPaste?: (files: File[]) => void
   onGroup?: () => void
   onUngroup?: () => void
   canUndo?: boolean
@@ -73,22 +76,6 @@ export function useKeyboardShortcuts({
         return
       }
 
-      // Copy: Ctrl+C (Windows/Linux) or Cmd+C (Mac)
-      if (modifier && e.key === "c" && hasSelection && onCopy) {
-        e.preventDefault()
-        onCopy()
-        console.log("[v0] Keyboard shortcut: Copy")
-        return
-      }
-
-      // Paste: Ctrl+V (Windows/Linux) or Cmd+V (Mac)
-      if (modifier && e.key === "v" && onPaste) {
-        e.preventDefault()
-        onPaste()
-        console.log("[v0] Keyboard shortcut: Paste")
-        return
-      }
-
       // Undo: Ctrl+Z (Windows/Linux) or Cmd+Z (Mac)
       if (modifier && e.key === "z" && !e.shiftKey && canUndo && onUndo) {
         e.preventDefault()
@@ -122,8 +109,39 @@ export function useKeyboardShortcuts({
       }
     }
 
+    // Copy and paste listen to the clipboard events rather than keydown so
+    // pasting sees what is on the system clipboard. Copying puts a marker there,
+    // so whichever was copied last, canvas objects or an outside image, wins.
+    const isEditingText = (e: Event) => {
+      const target = e.target as HTMLElement
+      return target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable
+    }
+
+    // Copy: Ctrl+C (Windows/Linux) or Cmd+C (Mac)
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isEditingText(e) || !hasSelection || !onCopy) return
+      e.preventDefault()
+      e.clipboardData?.setData("text/plain", CANVAS_CLIPBOARD_MARKER)
+      onCopy()
+      console.log("[v0] Keyboard shortcut: Copy")
+    }
+
+    // Paste: Ctrl+V (Windows/Linux) or Cmd+V (Mac)
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isEditingText(e) || !onPaste) return
+      e.preventDefault()
+      onPaste(Array.from(e.clipboardData?.files ?? []))
+      console.log("[v0] Keyboard shortcut: Paste")
+    }
+
     window.addEventListener("keydown", handleKeyDown)
-    return () => window.removeEventListener("keydown", handleKeyDown)
+    window.addEventListener("copy", handleCopy)
+    window.addEventListener("paste", handlePaste)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("copy", handleCopy)
+      window.removeEventListener("paste", handlePaste)
+    }
   }, [
     onUndo,
     onRedo,
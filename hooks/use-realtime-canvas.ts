@@ -4,178 +4,454 @@ import { useEffect, useState, useCallback, useRef } from "react"
 import { createClient } from "@/lib/supabase/client"
 import type { CanvasObject } from "@/lib/types"
 import type { RealtimeChannel } from "@supabase/supabase-js"
+import {
+  INITIAL_STAMP,
+  createObjectClock,
+  diffFields,
+  markDeleted,
+  mergeCreate,
+  mergeFields,
+  observeStamp,
+  stampFields,
+  tickClock,
+  valuesEqual,
+  type LamportStamp,
+  type ObjectClock,
+  type ObjectFields,
+} from "@/lib/crdt-utils"
+import {
+  applyQueuedOperations,
+  enqueueOperation,
+  loadCachedObjects,
+  loadQueuedOperations,
+  saveCachedObjects,
+  saveQueuedOperations,
+  type QueuedOperation,
+  type ReconcileSummary,
+} from "@/lib/offline-store"
+import { diffObjects, mergePatches, type ObjectPatch } from "@/lib/object-patches"
+import { appendOperation, applyOperations, catchUpObjects, loadOperationsSince } from "@/lib/operation-log"
 
 interface UseRealtimeCanvasProps {
   canvasId: string
   userId: string
   onConnectionChange?: (connected: boolean, queuedOps: number) => void
+  onReconcile?: (summary: ReconcileSummary) => void
 }
 
-interface QueuedOperation {
-  type: "create" | "update" | "delete"
-  object?: CanvasObject
-  objectId?: string
-  timestamp: number
+// Broadcast metadata: `_clock` orders writes (see lib/crdt-utils.ts);
+// `_timestamp` is wall-clock time used only for latency logging
+interface BroadcastMeta {
+  _clock?: LamportStamp
+  _timestamp?: number
+  _source?: string
 }
 
-export function useRealtimeCanvas({ canvasId, userId, onConnectionChange }: UseRealtimeCanvasProps) {
+// Writes broadcast by clients that predate Lamport clocks carry no stamp;
+// treat them as newer than anything loaded from the database
+const LEGACY_STAMP: LamportStamp = { counter: 1, replica: "" }
+
+// Database columns are nullable, so JSON-safe nulls stand in for cleared fields
+function toPersistedFields(changes: ObjectFields): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(changes).map(([field, value]) => [field, value ?? null]))
+}
+
+const PERSISTED_FIELDS = [
+  "x",
+  "y",
+  "width",
+  "height",
+  "rotation",
+  "fill_color",
+  "stroke_color",
+  "stroke_width",
+  "text_content",
+  "font_size",
+  "font_family",
+  "points",
+  "start_binding",
+  "end_binding",
+  "route",
+  "start_arrowhead",
+  "end_arrowhead",
+  "image_url",
+  "text_runs",
+  "text_align",
+  "line_height",
+  "name",
+  "frame_id",
+  "parent_group",
+  "children",
+  "contours",
+  "opacity",
+  "fill_gradient",
+  "stroke_dash",
+  "corner_radius",
+  "shadows",
+  "fill_token",
+  "stroke_token",
+  "text_token",
+] as const
+
+const OBJECT_CACHE_DELAY_MS = 500
+
+// Local edits are broadcast at most this often, as one message per batch; a drag of many objects
+// sends each object's latest position once per batch instead of a message per object per frame
+const BROADCAST_BATCH_MS = 40
+// Patches per broadcast message, keeping large pastes under the realtime payload limit
+const BROADCAST_CHUNK_SIZE = 200
+
+const DATABASE_SYNC_DELAY_MS = 300
+
+// Remote writes that survived merging, applied to state in one pass
+interface RemoteChanges {
+  created: Map<string, CanvasObject>
+  updated: Map<string, ObjectFields>
+  deleted: Set<string>
+}
+
+function applyRemoteChanges(objects: CanvasObject[], changes: RemoteChanges): CanvasObject[] {
+  const next = objects.flatMap((object) => {
+    if (changes.deleted.has(object.id)) return []
+    const created = changes.created.get(object.id)
+    if (created) return [created]
+    const updated = changes.updated.get(object.id)
+    return updated ? [{ ...object, ...updated }] : [object]
+  })
+  const present = new Set(next.map((object) => object.id))
+  changes.created.forEach((object, id) => {
+    if (!present.has(id)) next.push(object)
+  })
+  return next
+}
+
+function pickBaseFields(object: CanvasObject, changes: ObjectFields): ObjectFields {
+  return Object.fromEntries(
+    Object.keys(changes).map((field) => [field, (object as unknown as Record<string, unknown>)[field] ?? null]),
+  ) as ObjectFields
+}
+
+// Keep the local stacking order after reconciling; objects new to this client go on top
+function orderLike(reference: CanvasObject[], objects: CanvasObject[]): CanvasObject[] {
+  const order = new Map(reference.map((object, index) => [object.id, index]))
+  return [...objects].sort(
+    (a, b) => (order.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (order.get(b.id) ?? Number.MAX_SAFE_INTEGER),
+  )
+}
+
+// The changes whose winning write is still this replica's. Properties a teammate overwrote since the
+// local edit are theirs; broadcasting or persisting the local value would make replicas disagree.
+function pickOwnedChanges(clock: ObjectClock | undefined, changes: ObjectFields, replicaId: string): ObjectFields {
+  if (clock?.deleted) return {} as ObjectFields
+  return Object.fromEntries(
+    Object.entries(changes).filter(([field]) => clock?.fields[field]?.replica === replicaId),
+  ) as ObjectFields
+}
+
+function pickPersistedFields(changes: ObjectFields): ObjectFields {
+  const picked: Record<string, unknown> = {}
+  PERSISTED_FIELDS.forEach((field) => {
+    if (field in changes) {
+      picked[field] = changes[field]
+    }
+  })
+  return picked as ObjectFields
+}
+
+export function useRealtimeCanvas({ canvasId, userId, onConnectionChange, onReconcile }: UseRealtimeCanvasProps) {
   const [objects, setObjects] = useState<CanvasObject[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [isConnected, setIsConnected] = useState(true)
   const supabase = createClient()
 
-  const syncTimeoutRef = useRef<NodeJS.Timeout>()
-  const pendingObjectsRef = useRef<CanvasObject[]>([])
+  const syncTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined)
+  // Local patches waiting for the database write, and for the next broadcast batch
+  const pendingPatchesRef = useRef<ObjectPatch[]>([])
+  const broadcastTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined)
+  const broadcastPatchesRef = useRef<ObjectPatch[]>([])
   const channelRef = useRef<RealtimeChannel>()
   const operationQueueRef = useRef<QueuedOperation[]>([])
   const reconnectAttemptRef = useRef(0)
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>()
   const onConnectionChangeRef = useRef(onConnectionChange)
+  const onReconcileRef = useRef(onReconcile)
+  // Resolves once the cached queue is restored, so replay never runs without it
+  const restoredRef = useRef<Promise<void>>(Promise.resolve())
+  // Set after a disconnect or a cached load: the server may have changed meanwhile
+  const needsReconcileRef = useRef(false)
   const lastStatusRef = useRef<string>("")
   const objectsRef = useRef<CanvasObject[]>([])
   const persistedObjectsRef = useRef<Map<string, CanvasObject>>(new Map())
-  const lastUpdateTimestampRef = useRef<Map<string, number>>(new Map())
+  // Operation log position persistedObjectsRef is current to; null until the server has been reached
+  const lastSeqRef = useRef<number | null>(null)
+  // Database writes run one after another so operations reach the log in edit order
+  const writeChainRef = useRef<Promise<void>>(Promise.resolve())
+  const objectClocksRef = useRef<Map<string, ObjectClock>>(new Map())
+  const lamportCounterRef = useRef(0)
+  // One replica per hook instance, so two tabs of the same user still get distinct tie-breakers
+  const replicaIdRef = useRef(`${userId}:${Math.random().toString(36).slice(2, 10)}`)
+
+  const nextStamp = useCallback(() => {
+    const stamp = tickClock(lamportCounterRef.current, replicaIdRef.current)
+    lamportCounterRef.current = stamp.counter
+    return stamp
+  }, [])
 
   useEffect(() => {
     onConnectionChangeRef.current = onConnectionChange
   }, [onConnectionChange])
 
+  useEffect(() => {
+    onReconcileRef.current = onReconcile
+  }, [onReconcile])
+
+  // Every queue change is mirrored to IndexedDB so a refresh while offline keeps pending edits
+  const queueOperation = useCallback(
+    (operation: QueuedOperation) => {
+      operationQueueRef.current = enqueueOperation(operationQueueRef.current, operation)
+      saveQueuedOperations(canvasId, operationQueueRef.current)
+    },
+    [canvasId],
+  )
+
+  const setQueue = useCallback(
+    (queue: QueuedOperation[]) => {
+      operationQueueRef.current = queue
+      saveQueuedOperations(canvasId, queue)
+    },
+    [canvasId],
+  )
+
   useEffect(() => {
     objectsRef.current = objects
   }, [objects])
 
-  // Load initial objects from database
+  // Load initial objects. A cached copy with a log position only needs the operations appended since;
+  // without one the whole canvas is loaded. Offline, the cached copy is used as it is.
   useEffect(() => {
     async function loadObjects() {
-      const { data, error } = await supabase.from("canvas_objects").select("*").eq("canvas_id", canvasId)
+      const [cachedQueue, cached] = await Promise.all([loadQueuedOperations(canvasId), loadCachedObjects(canvasId)])
+      const queue = cachedQueue.reduce(enqueueOperation, operationQueueRef.current)
+      operationQueueRef.current = queue
 
-      if (error) {
-        console.error("[v0] Error loading canvas objects:", error)
-        return
+      const cachedSeq = cached?.seq ?? null
+      const caughtUp = await catchUpObjects(supabase, canvasId, cached?.objects ?? null, cachedSeq)
+
+      let serverObjects: CanvasObject[]
+      if (!caughtUp) {
+        if (!cached) {
+          console.error("[v0] Error loading canvas objects")
+          return
+        }
+
+        console.log(`[v0] [OFFLINE] Loaded ${cached.objects.length} cached object(s) from ${cached.saved_at}`)
+        serverObjects = cached.objects
+        lastSeqRef.current = cachedSeq
+        needsReconcileRef.current = true
+      } else {
+        if (caughtUp.replayed !== null) {
+          console.log(`[v0] [SYNC] Caught up from cache: ${caughtUp.replayed} operation(s) to #${caughtUp.seq}`)
+        }
+        serverObjects = caughtUp.objects
+        lastSeqRef.current = caughtUp.seq
       }
 
-      const initialObjects = data || []
+      const initialObjects = applyQueuedOperations(serverObjects, queue)
+      persistedObjectsRef.current = new Map(serverObjects.map((object) => [object.id, object]))
+
       setObjects(initialObjects)
-      persistedObjectsRef.current = new Map(initialObjects.map((object) => [object.id, object]))
-      lastUpdateTimestampRef.current = new Map(
-        initialObjects.map((object) => {
-          const parsed = Date.parse(object.updated_at ?? object.created_at ?? "")
-          return [object.id, Number.isNaN(parsed) ? Date.now() : parsed]
-        }),
+      objectClocksRef.current = new Map(
+        initialObjects.map((object) => [object.id, createObjectClock(object, INITIAL_STAMP)]),
       )
       setIsLoading(false)
+
+      if (queue.length > 0) {
+        console.log(`[v0] [OFFLINE] Restored ${queue.length} pending operation(s)`)
+        onConnectionChangeRef.current?.(caughtUp !== null, queue.length)
+      }
     }
 
-    loadObjects()
+    restoredRef.current = loadObjects()
   }, [canvasId, supabase])
 
-  const processQueuedOperations = useCallback(async () => {
-    if (operationQueueRef.current.length === 0) return
+  useEffect(() => {
+    if (isLoading) return
+
+    // The cache holds server state and its log position; queued edits are stored separately
+    const timeout = setTimeout(() => {
+      const persisted = orderLike(objects, Array.from(persistedObjectsRef.current.values()))
+      saveCachedObjects(canvasId, persisted, lastSeqRef.current ?? undefined)
+    }, OBJECT_CACHE_DELAY_MS)
+
+    return () => clearTimeout(timeout)
+  }, [objects, isLoading, canvasId])
+
+  /**
+   * Advance the log position past an operation this client appended. If
+   * teammates appended operations in between, they are read back and applied
+   * in order, so the persisted state matches the server at the new position.
+   */
+  const recordOperation = useCallback(
+    async (seq: number) => {
+      const last = lastSeqRef.current
+      if (last === null || seq <= last) return
+
+      if (seq > last + 1) {
+        const operations = await loadOperationsSince(supabase, canvasId, last, seq)
+        if (!operations || lastSeqRef.current !== last) return
+
+        const persisted = applyOperations(Array.from(persistedObjectsRef.current.values()), operations)
+        persistedObjectsRef.current.clear()
+        persisted.forEach((object) => persistedObjectsRef.current.set(object.id, object))
+      }
 
-    console.log(`[v0] [RECONNECT] Processing ${operationQueueRef.current.length} queued operations`)
+      lastSeqRef.current = seq
+    },
+    [supabase, canvasId],
+  )
+
+  /**
+   * Replays queued operations against the current server state and rebuilds
+   * local state from the result. Edits to properties a teammate also changed
+   * while this client was offline still apply (they are the newest writes) but
+   * are counted as conflicts; edits to objects deleted remotely are dropped.
+   */
+  const processQueuedOperations = useCallback(async () => {
+    await restoredRef.current
 
     const queue = [...operationQueueRef.current]
-    operationQueueRef.current = []
+    if (queue.length === 0 && !needsReconcileRef.current) return
+
+    console.log(`[v0] [RECONNECT] Reconciling ${queue.length} queued operations with the server`)
+
+    // Server state is the last known one plus the operations missed while offline
+    const caughtUp = await catchUpObjects(
+      supabase,
+      canvasId,
+      Array.from(persistedObjectsRef.current.values()),
+      lastSeqRef.current,
+    )
+
+    if (!caughtUp) {
+      console.error("[v0] [RECONNECT] Could not load server state for reconcile")
+      onConnectionChangeRef.current?.(false, queue.length)
+      return
+    }
+
+    if (caughtUp.replayed !== null) {
+      console.log(`[v0] [SYNC] Caught up with ${caughtUp.replayed} missed operation(s) to #${caughtUp.seq}`)
+    }
+    // Replayed operations are applied to this map as they are appended
+    const serverObjects = new Map<string, CanvasObject>(caughtUp.objects.map((object) => [object.id, object]))
+    persistedObjectsRef.current = serverObjects
+    lastSeqRef.current = caughtUp.seq
+
+    const summary: ReconcileSummary = { replayed: 0, conflicts: 0, dropped: 0 }
+    setQueue([])
 
     for (let i = 0; i < queue.length; i++) {
       const op = queue[i]
       try {
-        if (op.type === "create" && op.object) {
-          const { data: inserted, error: insertError } = await supabase
-            .from("canvas_objects")
-            .insert({
-              id: op.object.id,
-              canvas_id: op.object.canvas_id,
-              type: op.object.type,
-              x: op.object.x,
-              y: op.object.y,
-              width: op.object.width,
-              height: op.object.height,
-              rotation: op.object.rotation ?? 0,
-              fill_color: op.object.fill_color,
-              stroke_color: op.object.stroke_color,
-              stroke_width: op.object.stroke_width ?? 1,
-              text_content: op.object.text_content,
-              font_size: op.object.font_size,
-              font_family: op.object.font_family,
-              created_by: userId,
-            })
-            .select()
-
-          if (insertError) {
-            throw insertError
-          }
+        if (op.type === "create" && op.object && !serverObjects.has(op.object.id)) {
+          await recordOperation(await appendOperation(supabase, canvasId, [{ op: "create", object: op.object }]))
 
-          const createdObject = inserted?.[0] ?? op.object
-          persistedObjectsRef.current.set(createdObject.id, createdObject)
-          lastUpdateTimestampRef.current.set(createdObject.id, Date.now())
+          const stamp = nextStamp()
+          serverObjects.set(op.object.id, op.object)
+          objectClocksRef.current.set(op.object.id, createObjectClock(op.object, stamp))
           channelRef.current?.send({
             type: "broadcast",
             event: "object_created",
-            payload: { ...createdObject, _timestamp: Date.now(), _source: userId },
+            payload: { ...op.object, _clock: stamp, _timestamp: Date.now(), _source: userId },
           })
-        } else if (op.type === "update" && op.object) {
-          const updates = {
-            x: op.object.x,
-            y: op.object.y,
-            width: op.object.width,
-            height: op.object.height,
-            rotation: op.object.rotation,
-            fill_color: op.object.fill_color,
-            stroke_color: op.object.stroke_color,
-            stroke_width: op.object.stroke_width,
-            text_content: op.object.text_content,
-            font_size: op.object.font_size,
-            font_family: op.object.font_family,
-            updated_at: new Date().toISOString(),
+        } else if ((op.type === "update" || op.type === "create") && op.object) {
+          const current = serverObjects.get(op.object.id)
+          if (!current) {
+            console.log("[v0] [RECONNECT] Dropping offline edit to object deleted remotely:", op.object.id)
+            summary.dropped++
+            continue
           }
 
-          const { data: updated, error: updateError } = await supabase
-            .from("canvas_objects")
-            .update(updates)
-            .eq("id", op.object.id)
-            .select()
-
-          if (updateError) {
-            throw updateError
+          // Only the properties this client changed are replayed, so offline
+          // edits don't overwrite properties teammates changed meanwhile.
+          // A create that already reached the server replays as an update.
+          const changes = op.changes ?? diffFields(current, op.object)
+          const base = op.base ?? {}
+          const conflicted = Object.keys(changes).some(
+            (field) =>
+              field in base &&
+              !valuesEqual(
+                (current as unknown as Record<string, unknown>)[field],
+                (base as Record<string, unknown>)[field],
+              ),
+          )
+          if (conflicted) {
+            console.log("[v0] [RECONNECT] Offline edit overrides a teammate's change:", op.object.id)
+            summary.conflicts++
           }
 
-          const persistedObject = { ...op.object, ...(updated?.[0] ?? {}), ...updates }
-          persistedObjectsRef.current.set(op.object.id, persistedObject)
-          lastUpdateTimestampRef.current.set(op.object.id, Date.now())
+          const updates = toPersistedFields(pickPersistedFields(changes)) as ObjectFields
+          await recordOperation(
+            await appendOperation(supabase, canvasId, [{ op: "update", id: op.object.id, changes: updates }]),
+          )
+
+          const stamp = nextStamp()
+          serverObjects.set(op.object.id, { ...current, ...changes })
+          objectClocksRef.current.set(op.object.id, stampFields(objectClocksRef.current.get(op.object.id), changes, stamp))
           channelRef.current?.send({
             type: "broadcast",
             event: "object_updated",
-            payload: { ...persistedObject, _timestamp: Date.now(), _source: userId },
+            payload: { id: op.object.id, changes, _clock: stamp, _timestamp: Date.now(), _source: userId },
           })
         } else if (op.type === "delete" && op.objectId) {
-          const { error: deleteError } = await supabase.from("canvas_objects").delete().eq("id", op.objectId)
-
-          if (deleteError) {
-            throw deleteError
+          if (!serverObjects.has(op.objectId)) {
+            continue
           }
 
-          persistedObjectsRef.current.delete(op.objectId)
-          lastUpdateTimestampRef.current.set(op.objectId, Date.now())
+          await recordOperation(await appendOperation(supabase, canvasId, [{ op: "delete", id: op.objectId }]))
+
+          const stamp = nextStamp()
+          serverObjects.delete(op.objectId)
+          objectClocksRef.current.set(op.objectId, markDeleted(objectClocksRef.current.get(op.objectId), stamp))
           channelRef.current?.send({
             type: "broadcast",
             event: "object_deleted",
-            payload: { id: op.objectId, _timestamp: Date.now(), _source: userId },
+            payload: { id: op.objectId, _clock: stamp, _timestamp: Date.now(), _source: userId },
           })
         }
+        summary.replayed++
       } catch (error) {
         console.error("[v0] [RECONNECT] Error processing queued operation:", error)
-        operationQueueRef.current = [op, ...queue.slice(i + 1)]
-        onConnectionChangeRef.current?.(false, operationQueueRef.current.length)
+        // Operations queued while replaying stay behind the unprocessed ones
+        setQueue(operationQueueRef.current.reduce(enqueueOperation, queue.slice(i)))
         break
       }
     }
 
+    // Server state plus whatever could not be replayed yet
+    const reconciled = orderLike(
+      objectsRef.current,
+      applyQueuedOperations(Array.from(serverObjects.values()), operationQueueRef.current),
+    )
+    reconciled.forEach((object) => {
+      if (!objectClocksRef.current.has(object.id)) {
+        objectClocksRef.current.set(object.id, createObjectClock(object, INITIAL_STAMP))
+      }
+    })
+    objectsRef.current = reconciled
+    setObjects(reconciled)
+
+    if (summary.replayed > 0 || summary.dropped > 0) {
+      onReconcileRef.current?.(summary)
+    }
+
     if (operationQueueRef.current.length === 0) {
       console.log("[v0] [RECONNECT] All queued operations processed")
+      needsReconcileRef.current = false
       onConnectionChangeRef.current?.(true, 0)
+    } else {
+      onConnectionChangeRef.current?.(false, operationQueueRef.current.length)
     }
-  }, [supabase, userId])
+  }, [supabase, canvasId, userId, nextStamp, setQueue, recordOperation])
 
   const attemptReconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
@@ -197,90 +473,130 @@ export function useRealtimeCanvas({ canvasId, userId, onConnectionChange }: UseR
   }, [supabase])
 
   const setupChannel = useCallback(() => {
-    function shouldApplyUpdate(objectId: string, timestamp?: number) {
-      if (!timestamp) return true
-      const lastTimestamp = lastUpdateTimestampRef.current.get(objectId)
-      if (!lastTimestamp || timestamp > lastTimestamp) {
-        lastUpdateTimestampRef.current.set(objectId, timestamp)
-        return true
+    function logLatency(timestamp: number | undefined, kind: string) {
+      if (timestamp) {
+        const latency = Date.now() - timestamp
+        console.log(`[v0] [PERF] Object sync latency: ${latency}ms (${kind})`)
       }
-      return false
     }
 
-    const channel: RealtimeChannel = supabase
-      .channel(`canvas:${canvasId}`)
-      .on("broadcast", { event: "object_created" }, ({ payload }) => {
-        const { _timestamp, _source, ...object } = payload as CanvasObject & { _timestamp?: number; _source?: string }
-        const timestamp = _timestamp
-        if (timestamp) {
-          const latency = Date.now() - timestamp
-          console.log(`[v0] [PERF] Object sync latency: ${latency}ms (created)`)
-        }
+    function receiveStamp(stamp: LamportStamp | undefined) {
+      const resolved = stamp ?? LEGACY_STAMP
+      lamportCounterRef.current = observeStamp(lamportCounterRef.current, resolved)
+      return resolved
+    }
 
-        if (_source === userId) {
-          if (object.id && timestamp) {
-            lastUpdateTimestampRef.current.set(object.id, timestamp)
+    /**
+     * Merge remote patches into the local registers and apply what survives to
+     * state in one update. A create loses to a newer local delete; an update
+     * keeps only the properties with no newer local write.
+     */
+    function receivePatches(patches: ObjectPatch[], stamp: LamportStamp) {
+      const changes: RemoteChanges = { created: new Map(), updated: new Map(), deleted: new Set() }
+      let objectsById: Map<string, CanvasObject> | null = null
+      const findObject = (id: string) =>
+        (objectsById ??= new Map(objectsRef.current.map((object) => [object.id, object]))).get(id)
+
+      patches.forEach((patch) => {
+        if (patch.op === "create") {
+          const { object } = patch
+          if (!object?.id) return
+
+          const merged = mergeCreate(findObject(object.id), objectClocksRef.current.get(object.id), object, stamp)
+          if (!merged) {
+            console.log("[v0] [CRDT] Ignoring create for object deleted later:", object.id)
+            return
           }
-          return
-        }
 
-        if (!object.id || !shouldApplyUpdate(object.id, timestamp)) {
-          return
-        }
+          objectClocksRef.current.set(object.id, merged.clock)
+          persistedObjectsRef.current.set(object.id, merged.object)
+          changes.created.set(object.id, merged.object)
+        } else if (patch.op === "update") {
+          const { id, changes: fields } = patch
+          const existing = findObject(id)
+          if (!existing) {
+            console.log("[v0] [CRDT] Ignoring update for unknown or deleted object:", id)
+            return
+          }
 
-        persistedObjectsRef.current.set(object.id, object)
+          const merged = mergeFields(existing, objectClocksRef.current.get(id), fields, stamp)
+          objectClocksRef.current.set(id, merged.clock)
 
-        setObjects((prev) => {
-          if (prev.some((obj) => obj.id === object.id)) {
-            return prev.map((obj) => (obj.id === object.id ? object : obj))
+          if (merged.applied.length === 0) {
+            console.log("[v0] [CRDT] Update superseded by newer local writes:", id)
+            return
           }
-          return [...prev, object]
-        })
-      })
-      .on("broadcast", { event: "object_updated" }, ({ payload }) => {
-        const { _timestamp, _source, ...object } = payload as CanvasObject & { _timestamp?: number; _source?: string }
-        const timestamp = _timestamp
-        if (timestamp) {
-          const latency = Date.now() - timestamp
-          console.log(`[v0] [PERF] Object sync latency: ${latency}ms (updated)`)
-        }
 
-        if (_source === userId) {
-          if (object.id && timestamp) {
-            lastUpdateTimestampRef.current.set(object.id, timestamp)
+          const appliedChanges = Object.fromEntries(
+            merged.applied.map((field) => [field, (fields as Record<string, unknown>)[field]]),
+          ) as ObjectFields
+
+          // The sender persists its own writes, so they count as persisted here
+          const persisted = persistedObjectsRef.current.get(id)
+          if (persisted) {
+            persistedObjectsRef.current.set(id, { ...persisted, ...appliedChanges })
           }
-          return
+          changes.updated.set(id, { ...changes.updated.get(id), ...appliedChanges })
+        } else if (patch.op === "delete" && patch.id) {
+          objectClocksRef.current.set(patch.id, markDeleted(objectClocksRef.current.get(patch.id), stamp))
+          persistedObjectsRef.current.delete(patch.id)
+          changes.deleted.add(patch.id)
         }
+      })
+
+      if (changes.created.size > 0 || changes.updated.size > 0 || changes.deleted.size > 0) {
+        setObjects((prev) => applyRemoteChanges(prev, changes))
+      }
+    }
+
+    const channel: RealtimeChannel = supabase
+      .channel(`canvas:${canvasId}`)
+      .on("broadcast", { event: "objects_patched" }, ({ payload }) => {
+        const { patches, _clock, _timestamp, _source } = payload as BroadcastMeta & { patches?: ObjectPatch[] }
+        logLatency(_timestamp, `${patches?.length ?? 0} patches`)
 
-        if (!object.id || !shouldApplyUpdate(object.id, timestamp)) {
+        if (_source === userId || !patches) {
           return
         }
 
-        persistedObjectsRef.current.set(object.id, object)
-
-        setObjects((prev) => prev.map((obj) => (obj.id === object.id ? object : obj)))
+        receivePatches(patches, receiveStamp(_clock))
       })
-      .on("broadcast", { event: "object_deleted" }, ({ payload }) => {
-        const { id, _timestamp, _source } = payload as { id: string; _timestamp?: number; _source?: string }
-        const timestamp = _timestamp
-        if (timestamp) {
-          const latency = Date.now() - timestamp
-          console.log(`[v0] [PERF] Object sync latency: ${latency}ms (deleted)`)
+      // Single-object events are still sent by offline replay, and by clients that predate patch batches
+      .on("broadcast", { event: "object_created" }, ({ payload }) => {
+        const { _clock, _timestamp, _source, ...object } = payload as CanvasObject & BroadcastMeta
+        logLatency(_timestamp, "created")
+
+        if (_source === userId || !object.id) {
+          return
         }
 
-        if (_source === userId) {
-          if (id && timestamp) {
-            lastUpdateTimestampRef.current.set(id, timestamp)
-          }
+        receivePatches([{ op: "create", object }], receiveStamp(_clock))
+      })
+      .on("broadcast", { event: "object_updated" }, ({ payload }) => {
+        const { _clock, _timestamp, _source, ...rest } = payload as BroadcastMeta & {
+          id: string
+          changes?: ObjectFields
+        } & ObjectFields
+        logLatency(_timestamp, "updated")
+
+        if (_source === userId || !rest.id) {
           return
         }
 
-        if (!id || !shouldApplyUpdate(id, timestamp)) {
+        // Older clients broadcast the whole object instead of a `changes` patch
+        const { id, changes: patch, ...legacyFields } = rest
+        const changes = patch ?? (legacyFields as ObjectFields)
+        receivePatches([{ op: "update", id, changes }], receiveStamp(_clock))
+      })
+      .on("broadcast", { event: "object_deleted" }, ({ payload }) => {
+        const { id, _clock, _timestamp, _source } = payload as BroadcastMeta & { id: string }
+        logLatency(_timestamp, "deleted")
+
+        if (_source === userId || !id) {
           return
         }
 
-        persistedObjectsRef.current.delete(id)
-        setObjects((prev) => prev.filter((obj) => obj.id !== id))
+        receivePatches([{ op: "delete", id }], receiveStamp(_clock))
       })
       .subscribe((status) => {
         if (status !== lastStatusRef.current) {
@@ -295,6 +611,7 @@ export function useRealtimeCanvas({ canvasId, userId, onConnectionChange }: UseR
           processQueuedOperations()
         } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
           console.log("[v0] [RECONNECT] Connection lost, will retry")
+          needsReconcileRef.current = true
           setIsConnected(false)
           onConnectionChangeRef.current?.(false, operationQueueRef.current.length)
           attemptReconnect()
@@ -314,272 +631,240 @@ export function useRealtimeCanvas({ canvasId, userId, onConnectionChange }: UseR
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current)
       }
+      if (broadcastTimeoutRef.current) {
+        clearTimeout(broadcastTimeoutRef.current)
+        broadcastTimeoutRef.current = undefined
+      }
     }
   }, [setupChannel, supabase])
 
+  // Appends the patches made since the last write to the operation log as one operation. Updates carry
+  // only the properties that changed locally; properties merged in from teammates were already written
+  // by them, and rewriting them here would undo their concurrent edits.
   const debouncedDatabaseSync = useCallback(
-    async (updatedObjects: CanvasObject[]) => {
-      if (!isConnected) {
-        console.log("[v0] [RECONNECT] Offline - operations will be queued")
-        return
-      }
-
-      const dbWriteStart = performance.now()
+    (patches: ObjectPatch[]) => {
+      async function write() {
+        if (!isConnected) {
+          console.log("[v0] [RECONNECT] Offline - operations will be queued")
+          return
+        }
 
-      const persistedMap = persistedObjectsRef.current
-      const updatedMap = new Map(updatedObjects.map((object) => [object.id, object]))
+        const dbWriteStart = performance.now()
+        const persistedMap = persistedObjectsRef.current
+        // Only properties this replica still owns are written, as in flushBroadcast, so the log and
+        // canvas_objects keep the same winner of a concurrent edit as connected teammates
+        const ownedChanges = (id: string, changes: ObjectFields) =>
+          toPersistedFields(
+            pickPersistedFields(pickOwnedChanges(objectClocksRef.current.get(id), changes, replicaIdRef.current)),
+          ) as ObjectFields
+        const written: ObjectPatch[] = []
+        patches.forEach((patch) => {
+          if (patch.op === "create") {
+            const persisted = persistedMap.get(patch.object.id)
+            if (!persisted) {
+              written.push(patch)
+              return
+            }
+            const changes = ownedChanges(patch.object.id, diffFields(persisted, patch.object))
+            if (Object.keys(changes).length > 0) written.push({ op: "update", id: patch.object.id, changes })
+          } else if (patch.op === "update") {
+            const changes = ownedChanges(patch.id, patch.changes)
+            if (Object.keys(changes).length === 0) return
+
+            if (persistedMap.has(patch.id)) {
+              written.push({ op: "update", id: patch.id, changes })
+              return
+            }
 
-      const newObjects = updatedObjects.filter((object) => !persistedMap.has(object.id))
-      if (newObjects.length > 0) {
-        try {
-          const { data: inserted, error } = await supabase
-            .from("canvas_objects")
-            .insert(
-              newObjects.map((object) => ({
-                id: object.id,
-                canvas_id: object.canvas_id,
-                type: object.type,
-                x: object.x,
-                y: object.y,
-                width: object.width,
-                height: object.height,
-                rotation: object.rotation ?? 0,
-                fill_color: object.fill_color,
-                stroke_color: object.stroke_color,
-                stroke_width: object.stroke_width ?? 1,
-                text_content: object.text_content,
-                font_size: object.font_size,
-                font_family: object.font_family,
-                created_by: userId,
-              })),
-            )
-            .select()
-
-          if (error) {
-            console.error("[v0] [DB] Insert error:", error.message)
-            throw error
+            // Its create failed and is queued; the edit is folded into it
+            const object = objectsRef.current.find((obj) => obj.id === patch.id)
+            if (object) {
+              queueOperation({ type: "update", object, changes, base: {}, timestamp: Date.now() })
+            }
+          } else if (persistedMap.has(patch.id)) {
+            written.push(patch)
           }
+        })
 
-          console.log(`[v0] [DB] Successfully inserted ${newObjects.length} object(s)`)
+        if (written.length === 0) return
 
-          newObjects.forEach((object) => {
-            const rawPersisted = inserted?.find((item) => item.id === object.id)
-            const persistedRecord = { ...object, ...(rawPersisted ?? {}) } as CanvasObject
-            if (persistedRecord.id) {
-              persistedMap.set(persistedRecord.id, persistedRecord)
-              lastUpdateTimestampRef.current.set(persistedRecord.id, Date.now())
+        try {
+          const seq = await appendOperation(supabase, canvasId, written)
+
+          written.forEach((patch) => {
+            if (patch.op === "create") {
+              persistedMap.set(patch.object.id, patch.object)
+            } else if (patch.op === "update") {
+              persistedMap.set(patch.id, { ...persistedMap.get(patch.id)!, ...patch.changes })
+            } else {
+              persistedMap.delete(patch.id)
             }
           })
+          await recordOperation(seq)
+
+          const dbWriteTime = performance.now() - dbWriteStart
+          console.log(
+            `[v0] [PERF] Database write completed in ${dbWriteTime.toFixed(2)}ms ` +
+              `(operation #${seq}, ${written.length} patches)`,
+          )
         } catch (error) {
           console.error("[v0] [RECONNECT] Database write failed, queueing operations", error)
-          newObjects.forEach((obj) => {
-            operationQueueRef.current.push({
-              type: "create",
-              object: obj,
-              timestamp: Date.now(),
-            })
+          written.forEach((patch) => {
+            if (patch.op === "create") {
+              queueOperation({ type: "create", object: patch.object, timestamp: Date.now() })
+            } else if (patch.op === "update") {
+              const persisted = persistedMap.get(patch.id)
+              if (persisted) {
+                queueOperation({
+                  type: "update",
+                  object: { ...persisted, ...patch.changes },
+                  changes: patch.changes,
+                  base: pickBaseFields(persisted, patch.changes),
+                  timestamp: Date.now(),
+                })
+              }
+            } else {
+              queueOperation({ type: "delete", objectId: patch.id, timestamp: Date.now() })
+            }
           })
           onConnectionChangeRef.current?.(false, operationQueueRef.current.length)
-          return
         }
       }
 
-      const toUpdate = updatedObjects.filter((object) => {
-        const persisted = persistedMap.get(object.id)
-        if (!persisted) return false
-
-        const fieldsToCompare: (keyof CanvasObject)[] = [
-          "x",
-          "y",
-          "width",
-          "height",
-          "rotation",
-          "fill_color",
-          "stroke_color",
-          "stroke_width",
-          "text_content",
-          "font_size",
-          "font_family",
-        ]
-
-        return fieldsToCompare.some((field) => {
-          const persistedValue = persisted[field]
-          const updatedValue = object[field]
-          return persistedValue !== updatedValue
-        })
-      })
-
-      for (const obj of toUpdate) {
-        try {
-          const updates = {
-            x: obj.x,
-            y: obj.y,
-            width: obj.width,
-            height: obj.height,
-            rotation: obj.rotation,
-            fill_color: obj.fill_color,
-            stroke_color: obj.stroke_color,
-            stroke_width: obj.stroke_width,
-            text_content: obj.text_content,
-            font_size: obj.font_size,
-            font_family: obj.font_family,
-            updated_at: new Date().toISOString(),
-          }
-
-          const { error } = await supabase.from("canvas_objects").update(updates).eq("id", obj.id)
-
-          if (error) {
-            throw error
-          }
+      writeChainRef.current = writeChainRef.current.then(write)
+      return writeChainRef.current
+    },
+    [supabase, canvasId, isConnected, queueOperation, recordOperation],
+  )
 
-          const persisted = { ...persistedMap.get(obj.id), ...obj, ...updates }
-          persistedMap.set(obj.id, persisted)
-          lastUpdateTimestampRef.current.set(obj.id, Date.now())
-        } catch (error) {
-          console.error("[v0] [RECONNECT] Database update failed, queueing operation")
-          operationQueueRef.current.push({
-            type: "update",
-            object: obj,
-            timestamp: Date.now(),
-          })
-          onConnectionChangeRef.current?.(false, operationQueueRef.current.length)
-        }
+  // Sends the batched patches as one message per chunk, all under one Lamport stamp
+  const flushBroadcast = useCallback(() => {
+    broadcastTimeoutRef.current = undefined
+    const patches = broadcastPatchesRef.current
+    broadcastPatchesRef.current = []
+    const channel = channelRef.current
+    if (!channel || patches.length === 0) return
+
+    const broadcastStart = performance.now()
+    const stamp = nextStamp()
+
+    // Each patch is re-stamped as a write made now. Properties a teammate overwrote since
+    // the edit are theirs now and are left out, so every replica keeps the same winner.
+    const sent = patches.flatMap((patch): ObjectPatch[] => {
+      if (patch.op === "create") {
+        objectClocksRef.current.set(patch.object.id, createObjectClock(patch.object, stamp))
+        return [patch]
       }
-
-      const deletedIds = Array.from(persistedMap.keys()).filter((id) => !updatedMap.has(id))
-      if (deletedIds.length > 0) {
-        try {
-          const { error } = await supabase.from("canvas_objects").delete().in("id", deletedIds)
-
-          if (error) {
-            throw error
-          }
-
-          deletedIds.forEach((id) => {
-            persistedMap.delete(id)
-            lastUpdateTimestampRef.current.set(id, Date.now())
-          })
-        } catch (error) {
-          console.error("[v0] [RECONNECT] Database delete failed, queueing operation")
-          deletedIds.forEach((id) => {
-            operationQueueRef.current.push({
-              type: "delete",
-              objectId: id,
-              timestamp: Date.now(),
-            })
-          })
-          onConnectionChangeRef.current?.(false, operationQueueRef.current.length)
-        }
+      if (patch.op === "delete") {
+        objectClocksRef.current.set(patch.id, markDeleted(objectClocksRef.current.get(patch.id), stamp))
+        return [patch]
       }
 
-      const dbWriteTime = performance.now() - dbWriteStart
-      console.log(
-        `[v0] [PERF] Database write completed in ${dbWriteTime.toFixed(2)}ms (${newObjects.length} new, ${toUpdate.length} updated, ${deletedIds.length} deleted)`,
-      )
-    },
-    [supabase, userId, isConnected],
-  )
+      const clock = objectClocksRef.current.get(patch.id)
+      const changes = pickOwnedChanges(clock, patch.changes, replicaIdRef.current)
+      if (Object.keys(changes).length === 0) return []
+
+      objectClocksRef.current.set(patch.id, stampFields(clock, changes, stamp))
+      return [{ op: "update", id: patch.id, changes }]
+    })
+
+    const timestamp = Date.now()
+    let bytes = 0
+    for (let i = 0; i < sent.length; i += BROADCAST_CHUNK_SIZE) {
+      const payload = {
+        patches: sent.slice(i, i + BROADCAST_CHUNK_SIZE),
+        _clock: stamp,
+        _timestamp: timestamp,
+        _source: userId,
+      }
+      bytes += JSON.stringify(payload).length
+      channel.send({ type: "broadcast", event: "objects_patched", payload })
+    }
 
+    const broadcastTime = performance.now() - broadcastStart
+    console.log(
+      `[v0] [PERF] Broadcast completed in ${broadcastTime.toFixed(2)}ms ` +
+        `(${sent.length} patches, ${(bytes / 1024).toFixed(1)}KB)`,
+    )
+  }, [userId, nextStamp])
+
+  /**
+   * Apply a local edit and sync it. `patches` describe what changed; callers
+   * that do not pass them get them from diffing against the current objects,
+   * which only compares objects the edit replaced.
+   */
   const syncObjects = useCallback(
-    async (updatedObjects: CanvasObject[]) => {
-      const broadcastStart = performance.now()
-
+    async (updatedObjects: CanvasObject[], patches?: ObjectPatch[]) => {
       const previousObjects = objectsRef.current
-      const previousIds = new Set(previousObjects.map((object) => object.id))
-      const updatedIds = new Set(updatedObjects.map((object) => object.id))
+      const changes = patches ?? diffObjects(previousObjects, updatedObjects)
 
       objectsRef.current = updatedObjects
       setObjects(updatedObjects)
 
-      pendingObjectsRef.current = updatedObjects
+      if (changes.length === 0) return
 
       const channel = channelRef.current
       if (!channel || !isConnected) {
         console.log("[v0] [RECONNECT] Offline - queueing operations")
 
-        const newObjects = updatedObjects.filter((object) => !previousIds.has(object.id))
-        newObjects.forEach((obj) => {
-          operationQueueRef.current.push({
-            type: "create",
-            object: obj,
-            timestamp: Date.now(),
-          })
-        })
-
-        const toUpdate = updatedObjects.filter((object) => previousIds.has(object.id))
-        toUpdate.forEach((obj) => {
-          const existing = previousObjects.find((prev) => prev.id === obj.id)
-          if (existing && JSON.stringify(existing) !== JSON.stringify(obj)) {
-            operationQueueRef.current.push({
-              type: "update",
-              object: obj,
-              timestamp: Date.now(),
-            })
+        let previousById: Map<string, CanvasObject> | null = null
+        let updatedById: Map<string, CanvasObject> | null = null
+        changes.forEach((patch) => {
+          if (patch.op === "create") {
+            queueOperation({ type: "create", object: patch.object, timestamp: Date.now() })
+          } else if (patch.op === "update") {
+            const existing = (previousById ??= new Map(previousObjects.map((obj) => [obj.id, obj]))).get(patch.id)
+            const object = (updatedById ??= new Map(updatedObjects.map((obj) => [obj.id, obj]))).get(patch.id)
+            if (existing && object) {
+              queueOperation({
+                type: "update",
+                object,
+                changes: patch.changes,
+                base: pickBaseFields(existing, patch.changes),
+                timestamp: Date.now(),
+              })
+            }
+          } else {
+            queueOperation({ type: "delete", objectId: patch.id, timestamp: Date.now() })
           }
         })
 
-        const deletedIds = Array.from(previousIds).filter((id) => !updatedIds.has(id))
-        deletedIds.forEach((id) => {
-          operationQueueRef.current.push({
-            type: "delete",
-            objectId: id,
-            timestamp: Date.now(),
-          })
-        })
-
         onConnectionChangeRef.current?.(false, operationQueueRef.current.length)
         return
       }
 
-      const timestamp = Date.now()
-
-      const newObjects = updatedObjects.filter((object) => !previousIds.has(object.id))
-      for (const obj of newObjects) {
-        lastUpdateTimestampRef.current.set(obj.id, timestamp)
-        channel.send({
-          type: "broadcast",
-          event: "object_created",
-          payload: { ...obj, _timestamp: timestamp, _source: userId },
-        })
-      }
-
-      const toUpdate = updatedObjects.filter((object) => previousIds.has(object.id))
-      for (const obj of toUpdate) {
-        const existing = previousObjects.find((o) => o.id === obj.id)
-        if (existing && JSON.stringify(existing) !== JSON.stringify(obj)) {
-          lastUpdateTimestampRef.current.set(obj.id, timestamp)
-          channel.send({
-            type: "broadcast",
-            event: "object_updated",
-            payload: { ...obj, _timestamp: timestamp, _source: userId },
-          })
+      // Local registers take the edit now, so remote writes arriving before the batch
+      // is sent are merged against it
+      const stamp = nextStamp()
+      changes.forEach((patch) => {
+        if (patch.op === "create") {
+          objectClocksRef.current.set(patch.object.id, createObjectClock(patch.object, stamp))
+        } else if (patch.op === "update") {
+          const clock = objectClocksRef.current.get(patch.id)
+          objectClocksRef.current.set(patch.id, stampFields(clock, patch.changes, stamp))
+        } else {
+          objectClocksRef.current.set(patch.id, markDeleted(objectClocksRef.current.get(patch.id), stamp))
         }
-      }
+      })
 
-      const deletedIds = Array.from(previousIds).filter((id) => !updatedIds.has(id))
-      for (const id of deletedIds) {
-        lastUpdateTimestampRef.current.set(id, timestamp)
-        channel.send({
-          type: "broadcast",
-          event: "object_deleted",
-          payload: { id, _timestamp: timestamp, _source: userId },
-        })
+      broadcastPatchesRef.current = mergePatches(broadcastPatchesRef.current, changes)
+      if (!broadcastTimeoutRef.current) {
+        broadcastTimeoutRef.current = setTimeout(flushBroadcast, BROADCAST_BATCH_MS)
       }
 
-      const broadcastTime = performance.now() - broadcastStart
-      console.log(
-        `[v0] [PERF] Broadcast completed in ${broadcastTime.toFixed(2)}ms (${newObjects.length + toUpdate.length + deletedIds.length} operations)`,
-      )
-
+      pendingPatchesRef.current = mergePatches(pendingPatchesRef.current, changes)
       if (syncTimeoutRef.current) {
         clearTimeout(syncTimeoutRef.current)
       }
 
       syncTimeoutRef.current = setTimeout(() => {
-        debouncedDatabaseSync(pendingObjectsRef.current)
-      }, 300)
+        syncTimeoutRef.current = undefined
+        const pending = pendingPatchesRef.current
+        pendingPatchesRef.current = []
+        debouncedDatabaseSync(pending)
+      }, DATABASE_SYNC_DELAY_MS)
     },
-    [debouncedDatabaseSync, isConnected, userId],
+    [debouncedDatabaseSync, flushBroadcast, isConnected, nextStamp, queueOperation],
   )
 
   return {
@@ -0,0 +1,243 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CanvasObject, ConnectorBinding } from "./types"
+import { appendOperation } from "./operation-log"
+
+export interface CanvasRecord {
+  id: string
+  name: string
+  owner_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+export const DEFAULT_CANVAS_NAME = "Untitled canvas"
+
+export async function loadCanvases(supabase: SupabaseClient): Promise<CanvasRecord[]> {
+  const { data, error } = await supabase.from("canvases").select("*").order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("[v0] [CANVASES] Error loading canvases:", error)
+    return []
+  }
+
+  return data || []
+}
+
+export async function loadCanvas(supabase: SupabaseClient, canvasId: string): Promise<CanvasRecord | null> {
+  const { data, error } = await supabase.from("canvases").select("*").eq("id", canvasId).maybeSingle()
+
+  if (error) {
+    console.error("[v0] [CANVASES] Error loading canvas:", error)
+    return null
+  }
+
+  return data
+}
+
+export async function createCanvas(
+  supabase: SupabaseClient,
+  name: string,
+  ownerId: string,
+): Promise<CanvasRecord | null> {
+  const { data, error } = await supabase
+    .from("canvases")
+    .insert({
+      name: name.trim() || DEFAULT_CANVAS_NAME,
+      owner_id: ownerId,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("[v0] [CANVASES] Error creating canvas:", error)
+    return null
+  }
+
+  console.log("[v0] [CANVASES] Created canvas:", data.id)
+  return data
+}
+
+// Copies of `objects` for another canvas, with new IDs and references between them remapped
+function copyObjects(objects: CanvasObject[], canvasId: string): CanvasObject[] {
+  const ids = new Map(objects.map((object) => [object.id, crypto.randomUUID()]))
+  const remap = (id: string | null | undefined) => (id ? (ids.get(id) ?? null) : id)
+  const remapBinding = (binding: ConnectorBinding | null | undefined) => {
+    const id = binding && ids.get(binding.object_id)
+    return binding && id ? { ...binding, object_id: id } : null
+  }
+
+  return objects.map((object) => ({
+    ...object,
+    id: ids.get(object.id)!,
+    canvas_id: canvasId,
+    frame_id: remap(object.frame_id),
+    parent_group: remap(object.parent_group),
+    children: object.children?.map((id) => ids.get(id)).filter((id): id is string => Boolean(id)),
+    start_binding: remapBinding(object.start_binding),
+    end_binding: remapBinding(object.end_binding),
+  }))
+}
+
+// New canvas owned by `ownerId` holding copies of `objects`, e.g. a past version of another canvas
+export async function forkCanvas(
+  supabase: SupabaseClient,
+  name: string,
+  ownerId: string,
+  objects: CanvasObject[],
+): Promise<CanvasRecord | null> {
+  const canvas = await createCanvas(supabase, name, ownerId)
+  if (!canvas || objects.length === 0) return canvas
+
+  try {
+    await appendOperation(
+      supabase,
+      canvas.id,
+      copyObjects(objects, canvas.id).map((object) => ({ op: "create", object })),
+    )
+  } catch (error) {
+    console.error("[v0] [CANVASES] Error copying objects to fork:", error)
+    await deleteCanvas(supabase, canvas.id)
+    return null
+  }
+
+  console.log("[v0] [CANVASES] Forked", objects.length, "object(s) into canvas:", canvas.id)
+  return canvas
+}
+
+export async function renameCanvas(
+  supabase: SupabaseClient,
+  canvasId: string,
+  name: string,
+): Promise<CanvasRecord | null> {
+  const { data, error } = await supabase
+    .from("canvases")
+    .update({ name: name.trim() || DEFAULT_CANVAS_NAME, updated_at: new Date().toISOString() })
+    .eq("id", canvasId)
+    .select()
+    .single()
+
+  if (error) {
+    console.error("[v0] [CANVASES] Error renaming canvas:", error)
+    return null
+  }
+
+  return data
+}
+
+export async function deleteCanvas(supabase: SupabaseClient, canvasId: string): Promise<boolean> {
+  const { error, count } = await supabase.from("canvases").delete({ count: "exact" }).eq("id", canvasId)
+
+  if (error) {
+    console.error("[v0] [CANVASES] Error deleting canvas:", error)
+    return false
+  }
+
+  // RLS skips rows the user may not delete without raising an error
+  if (!count) {
+    console.warn("[v0] [CANVASES] Canvas not deleted (missing or not owned):", canvasId)
+    return false
+  }
+
+  console.log("[v0] [CANVASES] Deleted canvas:", canvasId)
+  return true
+}
+
+export type CanvasRole = "owner" | "editor" | "commenter" | "viewer"
+
+export const SHAREABLE_ROLES: Exclude<CanvasRole, "owner">[] = ["editor", "commenter", "viewer"]
+
+export interface CanvasMember {
+  canvas_id: string
+  user_id: string
+  role: CanvasRole
+  user_email: string | null
+  created_at: string
+}
+
+export function canEditCanvas(role: CanvasRole | null): boolean {
+  return role === "owner" || role === "editor"
+}
+
+export function canCommentOnCanvas(role: CanvasRole | null): boolean {
+  return canEditCanvas(role) || role === "commenter"
+}
+
+// Mirrors the canvas_role() SQL function used by the RLS policies, so the
+// client and the database always agree on what the current user may do.
+export async function loadCanvasRole(supabase: SupabaseClient, canvasId: string): Promise<CanvasRole | null> {
+  const { data, error } = await supabase.rpc("canvas_role", { p_canvas_id: canvasId })
+
+  if (error) {
+    console.error("[v0] [CANVASES] Error loading canvas role:", error)
+    return null
+  }
+
+  return (data as CanvasRole | null) ?? null
+}
+
+export async function loadCanvasMembers(supabase: SupabaseClient, canvasId: string): Promise<CanvasMember[]> {
+  const { data, error } = await supabase
+    .from("canvas_members")
+    .select("*")
+    .eq("canvas_id", canvasId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("[v0] [CANVASES] Error loading canvas members:", error)
+    return []
+  }
+
+  return data || []
+}
+
+export async function shareCanvas(
+  supabase: SupabaseClient,
+  canvasId: string,
+  email: string,
+  role: CanvasRole,
+): Promise<{ member: CanvasMember | null; error?: string }> {
+  const { data, error } = await supabase.rpc("share_canvas", {
+    p_canvas_id: canvasId,
+    p_email: email,
+    p_role: role,
+  })
+
+  if (error) {
+    console.error("[v0] [CANVASES] Error sharing canvas:", error)
+    return { member: null, error: error.message }
+  }
+
+  console.log("[v0] [CANVASES] Shared canvas", canvasId, "with", email, "as", role)
+  return { member: data as CanvasMember }
+}
+
+export async function updateCanvasMemberRole(
+  supabase: SupabaseClient,
+  canvasId: string,
+  userId: string,
+  role: CanvasRole,
+): Promise<boolean> {
+  const { error } = await supabase
+    .from("canvas_members")
+    .update({ role })
+    .eq("canvas_id", canvasId)
+    .eq("user_id", userId)
+
+  if (error) {
+    console.error("[v0] [CANVASES] Error updating member role:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function removeCanvasMember(supabase: SupabaseClient, canvasId: string, userId: string): Promise<boolean> {
+  const { error } = await supabase.from("canvas_members").delete().eq("canvas_id", canvasId).eq("user_id", userId)
+
+  if (error) {
+    console.error("[v0] [CANVASES] Error removing member:", error)
+    return false
+  }
+
+  return true
+}
@@ -0,0 +1,286 @@
+import type { ArrowheadStyle, CanvasObject, ConnectorBinding, PathPoint } from "./types"
+import { distanceToSegment } from "./path-utils"
+
+/**
+ * Connectors are arrows whose ends can be bound to other objects. A bound end
+ * stores the target id and an anchor normalised to the target's box; the
+ * connector's own x/y/width/height are kept in sync with the resolved ends (the
+ * same start/delta layout a line uses), so unbound ends, selection and export
+ * work from the stored geometry while rendering always follows the targets.
+ */
+
+// Anchors offered when binding: the centre and the midpoint of each side
+export const CONNECTOR_ANCHORS: PathPoint[] = [
+  { x: 0.5, y: 0.5 },
+  { x: 0.5, y: 0 },
+  { x: 1, y: 0.5 },
+  { x: 0.5, y: 1 },
+  { x: 0, y: 0.5 },
+]
+
+// Distance, in screen pixels, within which a connector end binds to a shape
+export const CONNECTOR_BIND_DISTANCE = 12
+
+export const CONNECTOR_STYLE_FIELDS = ["route", "start_arrowhead", "end_arrowhead"] as const
+
+export function isBindable(obj: CanvasObject): boolean {
+  return obj.type !== "connector" && obj.type !== "line" && obj.type !== "group"
+}
+
+function rotateAround(point: PathPoint, center: PathPoint, degrees: number): PathPoint {
+  if (!degrees) return point
+  const rad = (degrees * Math.PI) / 180
+  const dx = point.x - center.x
+  const dy = point.y - center.y
+  return {
+    x: center.x + dx * Math.cos(rad) - dy * Math.sin(rad),
+    y: center.y + dx * Math.sin(rad) + dy * Math.cos(rad),
+  }
+}
+
+// Canvas-space position of an anchor on a (possibly rotated) object
+export function getAnchorPoint(target: CanvasObject, anchor: PathPoint): PathPoint {
+  const center = { x: target.x + target.width / 2, y: target.y + target.height / 2 }
+  const point = { x: target.x + anchor.x * target.width, y: target.y + anchor.y * target.height }
+  return rotateAround(point, center, target.rotation)
+}
+
+/**
+ * Resolve both ends of a connector. Bound ends follow their targets; ends whose
+ * target is missing fall back to the stored geometry.
+ */
+export function getConnectorEndpoints(
+  connector: CanvasObject,
+  objectsById: Map<string, CanvasObject>,
+): { start: PathPoint; end: PathPoint } {
+  const resolve = (binding: ConnectorBinding | null | undefined, fallback: PathPoint) => {
+    const target = binding ? objectsById.get(binding.object_id) : undefined
+    return target && binding ? getAnchorPoint(target, binding.anchor) : fallback
+  }
+
+  return {
+    start: resolve(connector.start_binding, { x: connector.x, y: connector.y }),
+    end: resolve(connector.end_binding, { x: connector.x + connector.width, y: connector.y + connector.height }),
+  }
+}
+
+/**
+ * Polyline a connector is drawn along. Elbow routes leave along the dominant
+ * axis, turn once at the midpoint and arrive along the same axis.
+ */
+export function getConnectorRoute(connector: CanvasObject, objectsById: Map<string, CanvasObject>): PathPoint[] {
+  const { start, end } = getConnectorEndpoints(connector, objectsById)
+  if (connector.route !== "elbow" || start.x === end.x || start.y === end.y) {
+    return [start, end]
+  }
+
+  if (Math.abs(end.x - start.x) >= Math.abs(end.y - start.y)) {
+    const midX = (start.x + end.x) / 2
+    return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end]
+  }
+
+  const midY = (start.y + end.y) / 2
+  return [start, { x: start.x, y: midY }, { x: end.x, y: midY }, end]
+}
+
+export function isPointOnConnector(route: PathPoint[], pos: PathPoint, threshold: number): boolean {
+  for (let i = 0; i < route.length - 1; i++) {
+    if (distanceToSegment(pos, route[i], route[i + 1]) <= threshold) {
+      return true
+    }
+  }
+  return false
+}
+
+function isPointInObject(obj: CanvasObject, pos: PathPoint, margin: number): boolean {
+  const center = { x: obj.x + obj.width / 2, y: obj.y + obj.height / 2 }
+  const local = rotateAround(pos, center, -obj.rotation)
+  return (
+    local.x >= obj.x - margin &&
+    local.x <= obj.x + obj.width + margin &&
+    local.y >= obj.y - margin &&
+    local.y <= obj.y + obj.height + margin
+  )
+}
+
+/**
+ * Find what a connector end dropped at `pos` should bind to: the topmost
+ * bindable object under (or within `threshold` of) the point, at its nearest
+ * anchor.
+ */
+export function findBindingTarget(
+  objects: CanvasObject[],
+  pos: PathPoint,
+  threshold: number,
+  excludeIds: string[] = [],
+): ConnectorBinding | null {
+  for (let i = objects.length - 1; i >= 0; i--) {
+    const obj = objects[i]
+    if (!isBindable(obj) || excludeIds.includes(obj.id) || !isPointInObject(obj, pos, threshold)) continue
+
+    let anchor = CONNECTOR_ANCHORS[0]
+    let closest = Number.POSITIVE_INFINITY
+    CONNECTOR_ANCHORS.forEach((candidate) => {
+      const point = getAnchorPoint(obj, candidate)
+      const distance = Math.hypot(point.x - pos.x, point.y - pos.y)
+      if (distance < closest) {
+        closest = distance
+        anchor = candidate
+      }
+    })
+
+    return { object_id: obj.id, anchor }
+  }
+
+  return null
+}
+
+/**
+ * Connectors that should travel with a set of moved objects: every bound end
+ * is attached to something in the set, so moving them whole keeps them intact.
+ */
+export function getAttachedConnectorIds(objectIds: string[], allObjects: CanvasObject[]): string[] {
+  const moving = new Set(objectIds)
+  return allObjects
+    .filter((obj) => {
+      if (obj.type !== "connector" || moving.has(obj.id)) return false
+      const bindings = [obj.start_binding, obj.end_binding].filter((binding): binding is ConnectorBinding => !!binding)
+      return bindings.length > 0 && bindings.every((binding) => moving.has(binding.object_id))
+    })
+    .map((obj) => obj.id)
+}
+
+/**
+ * Bring connectors in line with the objects they are bound to. Connectors
+ * whose bound target no longer exists are removed rather than left dangling,
+ * and bound connectors get their stored geometry refreshed. Returns the input
+ * array untouched when nothing changed.
+ */
+export function resolveConnectors(objects: CanvasObject[]): CanvasObject[] {
+  if (!objects.some((obj) => obj.type === "connector")) return objects
+
+  const objectsById = new Map(objects.map((obj) => [obj.id, obj]))
+  let changed = false
+  const resolved: CanvasObject[] = []
+
+  objects.forEach((obj) => {
+    if (obj.type !== "connector") {
+      resolved.push(obj)
+      return
+    }
+
+    const dangling = [obj.start_binding, obj.end_binding].some(
+      (binding) => binding && !objectsById.has(binding.object_id),
+    )
+    if (dangling) {
+      changed = true
+      return
+    }
+
+    const { start, end } = getConnectorEndpoints(obj, objectsById)
+    const width = end.x - start.x
+    const height = end.y - start.y
+    if (obj.x === start.x && obj.y === start.y && obj.width === width && obj.height === height) {
+      resolved.push(obj)
+      return
+    }
+
+    changed = true
+    resolved.push({ ...obj, x: start.x, y: start.y, width, height })
+  })
+
+  return changed ? resolved : objects
+}
+
+/**
+ * Release bindings to objects that are not moving with a dragged connector, so
+ * dragging a connector away from its shapes detaches it instead of snapping back.
+ */
+export function detachConnector(connector: CanvasObject, movingIds: Set<string>): CanvasObject {
+  const keep = (binding: ConnectorBinding | null | undefined) =>
+    binding && movingIds.has(binding.object_id) ? binding : null
+
+  const start_binding = keep(connector.start_binding)
+  const end_binding = keep(connector.end_binding)
+  if (start_binding === (connector.start_binding ?? null) && end_binding === (connector.end_binding ?? null)) {
+    return connector
+  }
+  return { ...connector, start_binding, end_binding }
+}
+
+function getArrowheadSize(strokeWidth: number): number {
+  return Math.max(8, strokeWidth * 3)
+}
+
+/**
+ * Outline of an arrowhead pointing from `from` towards `tip`, in canvas space.
+ * "arrow" is an open chevron, "triangle" a filled head and "circle" a dot
+ * centred on the tip.
+ */
+function getArrowheadPoints(from: PathPoint, tip: PathPoint, size: number): PathPoint[] {
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x)
+  const spread = Math.PI / 7
+  return [
+    { x: tip.x - size * Math.cos(angle - spread), y: tip.y - size * Math.sin(angle - spread) },
+    tip,
+    { x: tip.x - size * Math.cos(angle + spread), y: tip.y - size * Math.sin(angle + spread) },
+  ]
+}
+
+export function drawArrowhead(
+  ctx: CanvasRenderingContext2D,
+  from: PathPoint,
+  tip: PathPoint,
+  style: ArrowheadStyle | undefined,
+  color: string,
+  strokeWidth: number,
+) {
+  if (!style || style === "none") return
+
+  const size = getArrowheadSize(strokeWidth)
+  ctx.save()
+  ctx.strokeStyle = color
+  ctx.fillStyle = color
+  ctx.lineWidth = strokeWidth
+  ctx.setLineDash([])
+  ctx.beginPath()
+
+  if (style === "circle") {
+    ctx.arc(tip.x, tip.y, size / 2.5, 0, Math.PI * 2)
+    ctx.fill()
+  } else {
+    const [left, point, right] = getArrowheadPoints(from, tip, size)
+    ctx.moveTo(left.x, left.y)
+    ctx.lineTo(point.x, point.y)
+    ctx.lineTo(right.x, right.y)
+    if (style === "triangle") {
+      ctx.closePath()
+      ctx.fill()
+    }
+    ctx.stroke()
+  }
+
+  ctx.restore()
+}
+
+export function getArrowheadSVG(
+  from: PathPoint,
+  tip: PathPoint,
+  style: ArrowheadStyle | undefined,
+  color: string,
+  strokeWidth: number,
+): string {
+  if (!style || style === "none") return ""
+
+  const size = getArrowheadSize(strokeWidth)
+  if (style === "circle") {
+    return `<circle cx="${tip.x}" cy="${tip.y}" r="${size / 2.5}" fill="${color}"/>`
+  }
+
+  const points = getArrowheadPoints(from, tip, size)
+    .map((point) => `${point.x},${point.y}`)
+    .join(" ")
+  return style === "triangle"
+    ? `<polygon points="${points}" fill="${color}" stroke="${color}" stroke-width="${strokeWidth}"/>`
+    : `<polyline points="${points}" fill="none" stroke="${color}" stroke-width="${strokeWidth}"/>`
+}
@@ -0,0 +1,163 @@
+import type { CanvasObject } from "./types"
+
+/**
+ * Per-property last-writer-wins registers ordered by Lamport clocks.
+ *
+ * Every property of every object is its own register. A write carries a
+ * Lamport stamp; a replica keeps, per property, the stamp of the write it
+ * currently shows and only accepts writes with a higher stamp. Ties on the
+ * counter are broken by replica id, so every replica picks the same winner
+ * regardless of wall-clock skew or delivery order. Concurrent edits to
+ * different properties (e.g. colour and position) therefore both survive.
+ */
+
+export interface LamportStamp {
+  counter: number
+  replica: string
+}
+
+export type FieldClocks = Record<string, LamportStamp>
+
+export interface ObjectClock {
+  fields: FieldClocks
+  // Set when the object is deleted. Property writes to a deleted object are
+  // ignored; a create with a newer stamp (e.g. undoing the delete) revives it.
+  deleted?: LamportStamp
+}
+
+export type ObjectFields = Partial<CanvasObject>
+
+// Stamp used for state loaded from the database, older than any live write
+export const INITIAL_STAMP: LamportStamp = { counter: 0, replica: "" }
+
+const NON_REPLICATED_FIELDS = new Set<string>(["id"])
+
+export function compareStamps(a: LamportStamp, b: LamportStamp): number {
+  if (a.counter !== b.counter) return a.counter - b.counter
+  if (a.replica === b.replica) return 0
+  return a.replica < b.replica ? -1 : 1
+}
+
+export function isNewer(candidate: LamportStamp, current: LamportStamp | undefined): boolean {
+  return !current || compareStamps(candidate, current) > 0
+}
+
+// Advance the local counter for a local write
+export function tickClock(counter: number, replica: string): LamportStamp {
+  return { counter: counter + 1, replica }
+}
+
+// Lamport receive rule: local counter jumps past anything we have seen
+export function observeStamp(counter: number, stamp: LamportStamp): number {
+  return Math.max(counter, stamp.counter)
+}
+
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (a == null && b == null) return true
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+export function replicatedFields(object: CanvasObject): string[] {
+  return Object.keys(object).filter((field) => !NON_REPLICATED_FIELDS.has(field))
+}
+
+// Properties that differ between two versions of the same object
+export function diffFields(previous: CanvasObject, next: CanvasObject): ObjectFields {
+  const changes: Record<string, unknown> = {}
+  const fields = new Set([...replicatedFields(previous), ...replicatedFields(next)])
+
+  fields.forEach((field) => {
+    const before = (previous as unknown as Record<string, unknown>)[field]
+    const after = (next as unknown as Record<string, unknown>)[field]
+    if (!valuesEqual(before, after)) {
+      // Cleared properties travel as null: JSON drops undefined values
+      changes[field] = after === undefined ? null : after
+    }
+  })
+
+  return changes as ObjectFields
+}
+
+export function createObjectClock(object: CanvasObject, stamp: LamportStamp): ObjectClock {
+  const fields: FieldClocks = {}
+  replicatedFields(object).forEach((field) => {
+    fields[field] = stamp
+  })
+  return { fields }
+}
+
+export function stampFields(clock: ObjectClock | undefined, changes: ObjectFields, stamp: LamportStamp): ObjectClock {
+  const fields: FieldClocks = { ...(clock?.fields ?? {}) }
+  Object.keys(changes).forEach((field) => {
+    fields[field] = stamp
+  })
+  return { fields, deleted: clock?.deleted }
+}
+
+/**
+ * Merge a remote property write into the local object. Returns the merged
+ * object, its updated clock, and which properties actually changed. Fields
+ * whose local register already holds a newer stamp are left untouched.
+ */
+export function mergeFields(
+  object: CanvasObject,
+  clock: ObjectClock | undefined,
+  changes: ObjectFields,
+  stamp: LamportStamp,
+): { object: CanvasObject; clock: ObjectClock; applied: string[] } {
+  const nextFields: FieldClocks = { ...(clock?.fields ?? {}) }
+  const merged: Record<string, unknown> = { ...object }
+  const applied: string[] = []
+
+  Object.entries(changes).forEach(([field, value]) => {
+    if (NON_REPLICATED_FIELDS.has(field)) return
+    if (!isNewer(stamp, nextFields[field])) return
+
+    nextFields[field] = stamp
+    merged[field] = value
+    applied.push(field)
+  })
+
+  return {
+    object: merged as unknown as CanvasObject,
+    clock: { fields: nextFields, deleted: clock?.deleted },
+    applied,
+  }
+}
+
+/**
+ * Merge a remote create. Creates lose to a newer tombstone; otherwise the
+ * incoming properties are merged register by register, so a create that
+ * races with a local edit keeps whichever write is newer per property.
+ */
+export function mergeCreate(
+  existing: CanvasObject | undefined,
+  clock: ObjectClock | undefined,
+  object: CanvasObject,
+  stamp: LamportStamp,
+): { object: CanvasObject; clock: ObjectClock } | null {
+  if (clock?.deleted && !isNewer(stamp, clock.deleted)) {
+    return null
+  }
+
+  if (!existing) {
+    return { object, clock: createObjectClock(object, stamp) }
+  }
+
+  const { id: _id, ...fields } = object
+  const merged = mergeFields(existing, { fields: clock?.fields ?? {} }, fields, stamp)
+  return { object: merged.object, clock: merged.clock }
+}
+
+/**
+ * Record a delete. Deletes win over every property write (remove-wins), which
+ * keeps replicas convergent whatever order a delete and a concurrent edit
+ * arrive in. Only a later create, such as undoing the delete, brings the
+ * object back.
+ */
+export function markDeleted(clock: ObjectClock | undefined, stamp: LamportStamp): ObjectClock {
+  const deleted = clock?.deleted && !isNewer(stamp, clock.deleted) ? clock.deleted : stamp
+  return { fields: clock?.fields ?? {}, deleted }
+}
@@ -1,4 +1,34 @@
 import type { CanvasObject } from "@/lib/types"
+import { getPathPoints, getSmoothPathData, traceSmoothPath } from "@/lib/path-utils"
+import { drawArrowhead, getArrowheadSVG, getConnectorRoute } from "@/lib/connector-utils"
+import { getImageDataUrl, loadImageBitmap } from "@/lib/image-utils"
+import { drawTextLayout, getTextSVG } from "@/lib/text-layout"
+import { drawStickyNote, getStickyNoteSVG } from "@/lib/sticky-utils"
+import {
+  drawDropShadows,
+  drawInnerShadows,
+  getDashArray,
+  getDashArraySVG,
+  getOpacity,
+  getPaintDefsSVG,
+  getShadowFilterSVG,
+  getShapeSVG,
+  isShape,
+  paintShape,
+} from "@/lib/paint-utils"
+import {
+  clipToFrame,
+  getClipFrame,
+  getFrameClipId,
+  getFrameChildren,
+  getFrameName,
+  getFrameSVG,
+  getRenderOrder,
+} from "@/lib/frame-utils"
+
+// Connector geometry is kept in sync with bound shapes on every edit, so export
+// routes from the stored ends even when a bound shape is outside the viewport
+const NO_BINDINGS = new Map<string, CanvasObject>()
 
 interface ExportOptions {
   format: "png" | "svg"
@@ -8,9 +38,15 @@ interface ExportOptions {
   viewport?: { x: number; y: number; zoom: number }
   canvasWidth?: number
   canvasHeight?: number
+  // Export just this frame and its children, cropped to the frame
+  frameId?: string
+  // Output width of a frame export, e.g. a device preset; the height keeps the frame's proportions
+  frameWidth?: number
 }
 
-export function exportCanvas({
+type Bounds = { x: number; y: number; width: number; height: number }
+
+export async function exportCanvas({
   format,
   objects,
   backgroundColor = "#ffffff",
@@ -18,7 +54,27 @@ export function exportCanvas({
   viewport,
   canvasWidth = 1920,
   canvasHeight = 1080,
+  frameId,
+  frameWidth,
 }: ExportOptions) {
+  if (frameId) {
+    const frame = objects.find((obj) => obj.id === frameId && obj.type === "frame")
+    if (!frame) {
+      console.warn("[v0] Frame to export not found:", frameId)
+      return
+    }
+
+    const frameObjects = getRenderOrder([frame, ...getFrameChildren(frame.id, objects)])
+    const outputScale = frameWidth ? frameWidth / frame.width : 1
+    const fileName = `${getFrameName(frame).replace(/[^\w-]+/g, "-")}-${Date.now()}`
+    if (format === "png") {
+      await exportPNG(frameObjects, backgroundColor, frameWidth ? outputScale : scale, frame, 0, fileName)
+    } else {
+      await exportSVG(frameObjects, backgroundColor, frame, 0, fileName, outputScale)
+    }
+    return
+  }
+
   const visibleBounds = viewport
     ? {
         x: -viewport.x / viewport.zoom,
@@ -45,20 +101,31 @@ export function exportCanvas({
   }
 
   if (format === "png") {
-    exportPNG(visibleObjects, backgroundColor, scale, visibleBounds)
+    await exportPNG(getRenderOrder(visibleObjects), backgroundColor, scale, visibleBounds)
   } else {
-    exportSVG(visibleObjects, backgroundColor, visibleBounds)
+    await exportSVG(getRenderOrder(visibleObjects), backgroundColor, visibleBounds)
   }
 }
 
-function exportPNG(
+async function exportPNG(
   objects: CanvasObject[],
   backgroundColor: string,
   scale: number,
-  visibleBounds: { x: number; y: number; width: number; height: number } | null,
+  visibleBounds: Bounds | null,
+  padding = 20,
+  fileName = `canvas-export-${Date.now()}`,
 ) {
+  // Images must be decoded before drawing; ones that fail are left out
+  const bitmaps = new Map<string, ImageBitmap>()
+  await Promise.all(
+    objects.map(async (obj) => {
+      if (obj.type !== "image" || !obj.image_url) return
+      const bitmap = await loadImageBitmap(obj.image_url)
+      if (bitmap) bitmaps.set(obj.id, bitmap)
+    }),
+  )
+
   const bounds = visibleBounds || calculateBounds(objects)
-  const padding = 20
 
   const canvas = document.createElement("canvas")
   canvas.width = (bounds.width + padding * 2) * scale
@@ -75,10 +142,13 @@ function exportPNG(
 
   ctx.translate(padding - bounds.x, padding - bounds.y)
 
-  // Render objects
+  // Render objects, with frame children clipped to their frame
+  const objectsById = new Map(objects.map((obj) => [obj.id, obj]))
   objects.forEach((obj) => {
     ctx.save()
-    renderObject(ctx, obj)
+    const clipFrame = getClipFrame(obj, objectsById)
+    if (clipFrame) clipToFrame(ctx, clipFrame)
+    renderObject(ctx, obj, bitmaps.get(obj.id))
     ctx.restore()
   })
 
@@ -88,30 +158,49 @@ function exportPNG(
       const url = URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
-      a.download = `canvas-export-${Date.now()}.png`
+      a.download = `${fileName}.png`
       a.click()
       URL.revokeObjectURL(url)
     }
   })
 }
 
-function exportSVG(
+async function exportSVG(
   objects: CanvasObject[],
   backgroundColor: string,
-  visibleBounds: { x: number; y: number; width: number; height: number } | null,
+  visibleBounds: Bounds | null,
+  padding = 20,
+  fileName = `canvas-export-${Date.now()}`,
+  outputScale = 1,
 ) {
+  // Inline images so the exported file does not depend on storage URLs
+  const imageData = new Map<string, string>()
+  await Promise.all(
+    objects.map(async (obj) => {
+      if (obj.type === "image" && obj.image_url) {
+        imageData.set(obj.id, await getImageDataUrl(obj.image_url))
+      }
+    }),
+  )
+
   const bounds = visibleBounds || calculateBounds(objects)
-  const padding = 20
 
   const width = bounds.width + padding * 2
   const height = bounds.height + padding * 2
+  const size = `width="${width * outputScale}" height="${height * outputScale}"`
 
-  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n`
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" ${size} viewBox="0 0 ${width} ${height}">\n`
   svg += `  <rect width="${width}" height="${height}" fill="${backgroundColor}"/>\n`
   svg += `  <g transform="translate(${padding - bounds.x}, ${padding - bounds.y})">\n`
 
+  const objectsById = new Map(objects.map((obj) => [obj.id, obj]))
   objects.forEach((obj) => {
-    svg += renderObjectSVG(obj)
+    const clipFrame = getClipFrame(obj, objectsById)
+    let markup = renderObjectSVG(obj, imageData.get(obj.id))
+    if (markup && getOpacity(obj) < 1) {
+      markup = `    <g opacity="${getOpacity(obj)}">\n${markup}    </g>\n`
+    }
+    svg += clipFrame && markup ? `    <g clip-path="url(#${getFrameClipId(clipFrame)})">\n${markup}    </g>\n` : markup
   })
 
   svg += `  </g>\n`
@@ -121,7 +210,7 @@ function exportSVG(
   const url = URL.createObjectURL(blob)
   const a = document.createElement("a")
   a.href = url
-  a.download = `canvas-export-${Date.now()}.svg`
+  a.download = `${fileName}.svg`
   a.click()
   URL.revokeObjectURL(url)
 }
@@ -151,69 +240,85 @@ function calculateBounds(objects: CanvasObject[]) {
   }
 }
 
-function renderObject(ctx: CanvasRenderingContext2D, obj: CanvasObject) {
-  if (obj.type === "rectangle") {
-    ctx.fillStyle = obj.fill_color
-    ctx.strokeStyle = obj.stroke_color
-    ctx.lineWidth = obj.stroke_width
-    ctx.fillRect(obj.x, obj.y, obj.width, obj.height)
-    ctx.strokeRect(obj.x, obj.y, obj.width, obj.height)
-  } else if (obj.type === "circle") {
-    ctx.fillStyle = obj.fill_color
+function renderObject(ctx: CanvasRenderingContext2D, obj: CanvasObject, bitmap?: ImageBitmap) {
+  ctx.globalAlpha = getOpacity(obj)
+  ctx.setLineDash(getDashArray(obj))
+
+  if (isShape(obj)) {
+    paintShape(ctx, obj)
+  } else if (obj.type === "line") {
     ctx.strokeStyle = obj.stroke_color
     ctx.lineWidth = obj.stroke_width
-    const radius = Math.min(obj.width, obj.height) / 2
     ctx.beginPath()
-    ctx.arc(obj.x + obj.width / 2, obj.y + obj.height / 2, radius, 0, Math.PI * 2)
-    ctx.fill()
+    ctx.moveTo(obj.x, obj.y)
+    ctx.lineTo(obj.x + obj.width, obj.y + obj.height)
     ctx.stroke()
-  } else if (obj.type === "triangle") {
-    ctx.fillStyle = obj.fill_color
+  } else if (obj.type === "path") {
     ctx.strokeStyle = obj.stroke_color
     ctx.lineWidth = obj.stroke_width
+    ctx.lineCap = "round"
+    ctx.lineJoin = "round"
     ctx.beginPath()
-    ctx.moveTo(obj.x + obj.width / 2, obj.y)
-    ctx.lineTo(obj.x, obj.y + obj.height)
-    ctx.lineTo(obj.x + obj.width, obj.y + obj.height)
-    ctx.closePath()
-    ctx.fill()
+    traceSmoothPath(ctx, getPathPoints(obj))
     ctx.stroke()
-  } else if (obj.type === "line") {
+  } else if (obj.type === "connector") {
+    const route = getConnectorRoute(obj, NO_BINDINGS)
+    const last = route.length - 1
     ctx.strokeStyle = obj.stroke_color
     ctx.lineWidth = obj.stroke_width
+    ctx.lineJoin = "round"
     ctx.beginPath()
-    ctx.moveTo(obj.x, obj.y)
-    ctx.lineTo(obj.x + obj.width, obj.y + obj.height)
+    ctx.moveTo(route[0].x, route[0].y)
+    route.slice(1).forEach((point) => ctx.lineTo(point.x, point.y))
     ctx.stroke()
+    ctx.setLineDash([])
+    drawArrowhead(ctx, route[1], route[0], obj.start_arrowhead, obj.stroke_color, obj.stroke_width)
+    drawArrowhead(ctx, route[last - 1], route[last], obj.end_arrowhead, obj.stroke_color, obj.stroke_width)
+  } else if (obj.type === "image") {
+    if (bitmap) {
+      drawDropShadows(ctx, obj)
+      ctx.drawImage(bitmap, obj.x, obj.y, obj.width, obj.height)
+      drawInnerShadows(ctx, obj)
+    }
   } else if (obj.type === "text") {
-    ctx.font = `${obj.font_size || 16}px ${obj.font_family || "Arial"}`
+    drawTextLayout(ctx, obj)
+  } else if (obj.type === "sticky") {
+    drawStickyNote(ctx, obj)
+  } else if (obj.type === "frame") {
     ctx.fillStyle = obj.fill_color
-    ctx.textBaseline = "middle"
-    ctx.textAlign = "center"
-    ctx.fillText(obj.text_content || "", obj.x + obj.width / 2, obj.y + obj.height / 2)
+    ctx.fillRect(obj.x, obj.y, obj.width, obj.height)
   }
 }
 
-function renderObjectSVG(obj: CanvasObject): string {
-  if (obj.type === "rectangle") {
-    return `    <rect x="${obj.x}" y="${obj.y}" width="${obj.width}" height="${obj.height}" fill="${obj.fill_color}" stroke="${obj.stroke_color}" stroke-width="${obj.stroke_width}"/>\n`
-  } else if (obj.type === "circle") {
-    const radius = Math.min(obj.width, obj.height) / 2
-    const cx = obj.x + obj.width / 2
-    const cy = obj.y + obj.height / 2
-    return `    <circle cx="${cx}" cy="${cy}" r="${radius}" fill="${obj.fill_color}" stroke="${obj.stroke_color}" stroke-width="${obj.stroke_width}"/>\n`
-  } else if (obj.type === "triangle") {
-    const x1 = obj.x + obj.width / 2
-    const y1 = obj.y
-    const x2 = obj.x
-    const y2 = obj.y + obj.height
-    const x3 = obj.x + obj.width
-    const y3 = obj.y + obj.height
-    return `    <polygon points="${x1},${y1} ${x2},${y2} ${x3},${y3}" fill="${obj.fill_color}" stroke="${obj.stroke_color}" stroke-width="${obj.stroke_width}"/>\n`
+function renderObjectSVG(obj: CanvasObject, imageHref?: string): string {
+  if (isShape(obj)) {
+    return `    ${getShapeSVG(obj)}\n`
   } else if (obj.type === "line") {
-    return `    <line x1="${obj.x}" y1="${obj.y}" x2="${obj.x + obj.width}" y2="${obj.y + obj.height}" stroke="${obj.stroke_color}" stroke-width="${obj.stroke_width}"/>\n`
+    return `    <line x1="${obj.x}" y1="${obj.y}" x2="${obj.x + obj.width}" y2="${obj.y + obj.height}" stroke="${obj.stroke_color}" stroke-width="${obj.stroke_width}"${getDashArraySVG(obj)}/>\n`
+  } else if (obj.type === "path") {
+    return `    <path d="${getSmoothPathData(getPathPoints(obj))}" fill="none" stroke="${obj.stroke_color}" stroke-width="${obj.stroke_width}"${getDashArraySVG(obj)} stroke-linecap="round" stroke-linejoin="round"/>\n`
+  } else if (obj.type === "connector") {
+    const route = getConnectorRoute(obj, NO_BINDINGS)
+    const last = route.length - 1
+    const points = route.map((point) => `${point.x},${point.y}`).join(" ")
+    const heads = [
+      getArrowheadSVG(route[1], route[0], obj.start_arrowhead, obj.stroke_color, obj.stroke_width),
+      getArrowheadSVG(route[last - 1], route[last], obj.end_arrowhead, obj.stroke_color, obj.stroke_width),
+    ]
+      .filter(Boolean)
+      .map((head) => `    ${head}\n`)
+      .join("")
+    return `    <polyline points="${points}" fill="none" stroke="${obj.stroke_color}" stroke-width="${obj.stroke_width}"${getDashArraySVG(obj)} stroke-linejoin="round"/>\n${heads}`
+  } else if (obj.type === "image") {
+    return imageHref
+      ? `    ${getPaintDefsSVG(obj)}<image href="${imageHref}" x="${obj.x}" y="${obj.y}" width="${obj.width}" height="${obj.height}" preserveAspectRatio="none"${getShadowFilterSVG(obj)}/>\n`
+      : ""
   } else if (obj.type === "text") {
-    return `    <text x="${obj.x + obj.width / 2}" y="${obj.y + obj.height / 2}" font-size="${obj.font_size || 16}" font-family="${obj.font_family || "Arial"}" fill="${obj.fill_color}" text-anchor="middle" dominant-baseline="middle">${obj.text_content || ""}</text>\n`
+    return `    ${getTextSVG(obj)}\n`
+  } else if (obj.type === "sticky") {
+    return `    ${getStickyNoteSVG(obj)}\n`
+  } else if (obj.type === "frame") {
+    return `    ${getFrameSVG(obj)}\n`
   }
   return ""
 }
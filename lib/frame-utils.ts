@@ -0,0 +1,245 @@
+import type { CanvasObject, PathPoint } from "./types"
+
+/**
+ * Frames are named, unrotated containers (artboards). Objects belong to a frame
+ * through their `frame_id`: membership is worked out from where an object ends
+ * up after it is created or moved, children travel with the frame, are drawn
+ * right after it and clipped to its bounds, and are deleted along with it.
+ * Frames do not nest.
+ */
+
+export interface FramePreset {
+  name: string
+  width: number
+  height: number
+}
+
+export const FRAME_PRESETS: FramePreset[] = [
+  { name: "Desktop", width: 1440, height: 1024 },
+  { name: "Laptop", width: 1280, height: 800 },
+  { name: "Tablet", width: 768, height: 1024 },
+  { name: "Mobile", width: 390, height: 844 },
+]
+
+export const DEFAULT_FRAME_NAME = "Frame"
+
+const FRAME_FILL = "#ffffff"
+const FRAME_STROKE = "#d1d5db"
+
+// Height of the name label above a frame, in screen pixels
+export const FRAME_LABEL_HEIGHT = 20
+
+export function isFrame(obj: CanvasObject | undefined): obj is CanvasObject {
+  return obj?.type === "frame"
+}
+
+// Connectors follow their targets and groups are containers themselves, so neither joins a frame
+function canJoinFrame(obj: CanvasObject): boolean {
+  return obj.type !== "frame" && obj.type !== "connector" && obj.type !== "group"
+}
+
+export function getFrameName(frame: CanvasObject): string {
+  return frame.name?.trim() || DEFAULT_FRAME_NAME
+}
+
+export function createFrame(
+  canvasId: string,
+  center: PathPoint,
+  preset: FramePreset,
+  options: { name?: string; createdBy?: string } = {},
+): CanvasObject {
+  return {
+    id: crypto.randomUUID(),
+    canvas_id: canvasId,
+    type: "frame",
+    x: center.x - preset.width / 2,
+    y: center.y - preset.height / 2,
+    width: preset.width,
+    height: preset.height,
+    rotation: 0,
+    fill_color: FRAME_FILL,
+    stroke_color: FRAME_STROKE,
+    stroke_width: 1,
+    name: options.name ?? preset.name,
+    created_by: options.createdBy,
+  }
+}
+
+function containsPoint(frame: CanvasObject, point: PathPoint): boolean {
+  return (
+    point.x >= frame.x && point.x <= frame.x + frame.width && point.y >= frame.y && point.y <= frame.y + frame.height
+  )
+}
+
+function getCenter(obj: CanvasObject): PathPoint {
+  return { x: obj.x + obj.width / 2, y: obj.y + obj.height / 2 }
+}
+
+// Topmost frame containing a point
+export function findFrameAt(objects: CanvasObject[], point: PathPoint): CanvasObject | null {
+  for (let i = objects.length - 1; i >= 0; i--) {
+    if (isFrame(objects[i]) && containsPoint(objects[i], point)) return objects[i]
+  }
+  return null
+}
+
+export function getFrameChildren(frameId: string, objects: CanvasObject[]): CanvasObject[] {
+  return objects.filter((obj) => obj.frame_id === frameId)
+}
+
+// The frame an object is clipped to, if it belongs to one that exists
+export function getClipFrame(obj: CanvasObject, objectsById: Map<string, CanvasObject>): CanvasObject | null {
+  if (!obj.frame_id) return null
+  const frame = objectsById.get(obj.frame_id)
+  return isFrame(frame) ? frame : null
+}
+
+/**
+ * Make a newly placed frame the parent of the free objects lying entirely
+ * inside it, so drawing a frame around existing content adopts it.
+ */
+export function adoptObjects(frame: CanvasObject, objects: CanvasObject[]): CanvasObject[] {
+  return objects.map((obj) => {
+    if (!canJoinFrame(obj) || obj.frame_id) return obj
+    const inside =
+      obj.x >= frame.x &&
+      obj.y >= frame.y &&
+      obj.x + obj.width <= frame.x + frame.width &&
+      obj.y + obj.height <= frame.y + frame.height
+    return inside ? { ...obj, frame_id: frame.id } : obj
+  })
+}
+
+function geometryChanged(before: CanvasObject | undefined, after: CanvasObject): boolean {
+  return (
+    !before ||
+    before.x !== after.x ||
+    before.y !== after.y ||
+    before.width !== after.width ||
+    before.height !== after.height
+  )
+}
+
+/**
+ * Bring frame membership in line with a change from `previous` to `next`.
+ * Objects that were added or moved join the topmost frame under their centre
+ * (or leave their frame) unless their frame moved with them; children of
+ * frames removed by the change are removed too. Returns `next` untouched when
+ * nothing changed.
+ */
+export function resolveFrames(previous: CanvasObject[], next: CanvasObject[]): CanvasObject[] {
+  const frames = next.filter(isFrame)
+  const removedFrameIds = new Set(
+    previous.filter((obj) => isFrame(obj) && !frames.some((frame) => frame.id === obj.id)).map((obj) => obj.id),
+  )
+  if (frames.length === 0 && removedFrameIds.size === 0 && !next.some((obj) => obj.frame_id)) return next
+
+  const previousById = new Map(previous.map((obj) => [obj.id, obj]))
+  const framesById = new Map(frames.map((frame) => [frame.id, frame]))
+  let changed = false
+  const resolved: CanvasObject[] = []
+
+  next.forEach((obj) => {
+    if (obj.frame_id && removedFrameIds.has(obj.frame_id)) {
+      changed = true
+      return
+    }
+    if (!canJoinFrame(obj)) {
+      resolved.push(obj)
+      return
+    }
+
+    const current = obj.frame_id ?? null
+    let frameId = current && framesById.has(current) ? current : null
+    if (geometryChanged(previousById.get(obj.id), obj)) {
+      const owner = frameId ? framesById.get(frameId) : undefined
+      const movedWithOwner = owner && geometryChanged(previousById.get(owner.id), owner)
+      if (!movedWithOwner) frameId = findFrameAt(frames, getCenter(obj))?.id ?? null
+    }
+
+    if (frameId === current) {
+      resolved.push(obj)
+      return
+    }
+    changed = true
+    resolved.push({ ...obj, frame_id: frameId })
+  })
+
+  return changed ? resolved : next
+}
+
+let lastRenderInput: CanvasObject[] | null = null
+let lastRenderOrder: CanvasObject[] = []
+
+/**
+ * Paint order: objects keep their stacking order, except that each frame's
+ * children are drawn immediately after it, so they sit on the frame and are
+ * covered by whatever is stacked above the frame.
+ */
+export function getRenderOrder(objects: CanvasObject[]): CanvasObject[] {
+  if (objects === lastRenderInput) return lastRenderOrder
+
+  const frameIds = new Set(objects.filter(isFrame).map((frame) => frame.id))
+  let order = objects
+  if (frameIds.size > 0) {
+    const children = new Map<string, CanvasObject[]>()
+    objects.forEach((obj) => {
+      if (obj.frame_id && frameIds.has(obj.frame_id)) {
+        children.set(obj.frame_id, [...(children.get(obj.frame_id) ?? []), obj])
+      }
+    })
+    order = []
+    objects.forEach((obj) => {
+      if (obj.frame_id && frameIds.has(obj.frame_id)) return
+      order.push(obj)
+      if (isFrame(obj)) order.push(...(children.get(obj.id) ?? []))
+    })
+  }
+
+  lastRenderInput = objects
+  lastRenderOrder = order
+  return order
+}
+
+// Whether a canvas point is on the frame's name label, which selects the frame like Figma's
+export function isPointOnFrameLabel(frame: CanvasObject, pos: PathPoint, zoom: number): boolean {
+  return (
+    pos.x >= frame.x &&
+    pos.x <= frame.x + frame.width &&
+    pos.y >= frame.y - FRAME_LABEL_HEIGHT / zoom &&
+    pos.y < frame.y
+  )
+}
+
+export function drawFrame(ctx: CanvasRenderingContext2D, frame: CanvasObject, zoom: number, isSelected: boolean) {
+  ctx.fillStyle = frame.fill_color
+  ctx.fillRect(frame.x, frame.y, frame.width, frame.height)
+  ctx.strokeStyle = frame.stroke_color || FRAME_STROKE
+  ctx.lineWidth = 1 / zoom
+  ctx.strokeRect(frame.x, frame.y, frame.width, frame.height)
+  drawFrameLabel(ctx, frame, zoom, isSelected)
+}
+
+// The label keeps a constant screen size
+export function drawFrameLabel(ctx: CanvasRenderingContext2D, frame: CanvasObject, zoom: number, isSelected: boolean) {
+  ctx.font = `${12 / zoom}px Arial`
+  ctx.fillStyle = isSelected ? "#3b82f6" : "#6b7280"
+  ctx.textAlign = "left"
+  ctx.textBaseline = "bottom"
+  ctx.fillText(getFrameName(frame), frame.x, frame.y - 4 / zoom, frame.width)
+}
+
+export function clipToFrame(ctx: CanvasRenderingContext2D, frame: CanvasObject) {
+  ctx.beginPath()
+  ctx.rect(frame.x, frame.y, frame.width, frame.height)
+  ctx.clip()
+}
+
+export function getFrameClipId(frame: CanvasObject): string {
+  return `frame-clip-${frame.id}`
+}
+
+export function getFrameSVG(frame: CanvasObject): string {
+  const box = `x="${frame.x}" y="${frame.y}" width="${frame.width}" height="${frame.height}"`
+  return `<clipPath id="${getFrameClipId(frame)}"><rect ${box}/></clipPath><rect ${box} fill="${frame.fill_color}"/>`
+}
@@ -1,64 +1,108 @@
-import type { CanvasObject } from "./types"
+import type { CanvasObject, PathPoint } from "./types"
+import { getAttachedConnectorIds } from "./connector-utils"
 
-export function getGroupBounds(
-  group: CanvasObject,
-  allObjects: CanvasObject[],
-): {
-  x: number
-  y: number
-  width: number
-  height: number
-} {
-  if (group.type !== "group" || !group.children_ids || group.children_ids.length === 0) {
-    return { x: group.x, y: group.y, width: group.width, height: group.height }
-  }
+/**
+ * Groups form a tree: a group lists its direct `children` and each child points
+ * back through `parent_group`, so groups can contain groups. A group's box and
+ * rotation are its own frame of reference: transforming the group maps every
+ * descendant through that frame, and the box is refitted around the children
+ * whenever they are edited on their own (see `resolveGroups`).
+ */
 
-  const children = allObjects.filter((obj) => group.children_ids!.includes(obj.id))
-  if (children.length === 0) {
-    return { x: group.x, y: group.y, width: group.width, height: group.height }
+type Box = { x: number; y: number; width: number; height: number }
+
+function rotateAround(point: PathPoint, center: PathPoint, degrees: number): PathPoint {
+  if (!degrees) return point
+  const rad = (degrees * Math.PI) / 180
+  const dx = point.x - center.x
+  const dy = point.y - center.y
+  return {
+    x: center.x + dx * Math.cos(rad) - dy * Math.sin(rad),
+    y: center.y + dx * Math.sin(rad) + dy * Math.cos(rad),
   }
+}
 
-  let minX = Number.POSITIVE_INFINITY
-  let minY = Number.POSITIVE_INFINITY
-  let maxX = Number.NEGATIVE_INFINITY
-  let maxY = Number.NEGATIVE_INFINITY
+function getCenter(box: Box): PathPoint {
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 }
+}
 
-  children.forEach((child) => {
-    minX = Math.min(minX, child.x)
-    minY = Math.min(minY, child.y)
-    maxX = Math.max(maxX, child.x + child.width)
-    maxY = Math.max(maxY, child.y + child.height)
-  })
+export function getGroupChildIds(group: CanvasObject): string[] {
+  return group.type === "group" ? (group.children ?? []) : []
+}
 
-  return {
-    x: minX,
-    y: minY,
-    width: maxX - minX,
-    height: maxY - minY,
+// The group's box; kept fitted to its children by resolveGroups
+export function getGroupBounds(group: CanvasObject, allObjects: CanvasObject[]): Box {
+  const childIds = getGroupChildIds(group)
+  if (childIds.length === 0 || group.width > 0 || group.height > 0) {
+    return { x: group.x, y: group.y, width: group.width, height: group.height }
   }
+
+  // Boxless groups (e.g. created by older clients) fall back to their children's extent
+  const children = allObjects.filter((obj) => childIds.includes(obj.id))
+  return children.length > 0 ? getOuterBounds(children) : { x: group.x, y: group.y, width: 0, height: 0 }
 }
 
 export function getAllChildrenIds(groupId: string, allObjects: CanvasObject[]): string[] {
   const group = allObjects.find((obj) => obj.id === groupId)
-  if (!group || group.type !== "group" || !group.children_ids) {
+  if (!group || group.type !== "group") {
     return []
   }
 
   const childIds: string[] = []
-
-  group.children_ids.forEach((childId) => {
-    childIds.push(childId)
-    const child = allObjects.find((obj) => obj.id === childId)
-    if (child && child.type === "group") {
-      childIds.push(...getAllChildrenIds(childId, allObjects))
-    }
-  })
+  const visit = (id: string, seen: Set<string>) => {
+    const node = allObjects.find((obj) => obj.id === id)
+    if (!node) return
+    getGroupChildIds(node).forEach((childId) => {
+      // Guard against cycles from conflicting concurrent edits
+      if (seen.has(childId)) return
+      seen.add(childId)
+      childIds.push(childId)
+      visit(childId, seen)
+    })
+  }
+  visit(groupId, new Set([groupId]))
 
   return childIds
 }
 
 export function isObjectInGroup(objectId: string, allObjects: CanvasObject[]): boolean {
-  return allObjects.some((obj) => obj.type === "group" && obj.children_ids && obj.children_ids.includes(objectId))
+  return allObjects.some((obj) => getGroupChildIds(obj).includes(objectId))
+}
+
+// The outermost group an object belongs to, or the object itself
+export function getRootObject(obj: CanvasObject, objectsById: Map<string, CanvasObject>): CanvasObject {
+  return getSelectableObject(obj, objectsById, null)
+}
+
+/**
+ * What clicking an object selects: its ancestor that sits directly inside
+ * `enteredGroupId` (or at the top level when no group is entered).
+ */
+export function getSelectableObject(
+  obj: CanvasObject,
+  objectsById: Map<string, CanvasObject>,
+  enteredGroupId: string | null,
+): CanvasObject {
+  let current = obj
+  const seen = new Set([obj.id])
+  while (current.parent_group && current.parent_group !== enteredGroupId) {
+    const parent = objectsById.get(current.parent_group)
+    if (!parent || seen.has(parent.id)) break
+    seen.add(parent.id)
+    current = parent
+  }
+  return current
+}
+
+export function isDescendantOf(obj: CanvasObject, groupId: string, objectsById: Map<string, CanvasObject>): boolean {
+  let parentId = obj.parent_group
+  const seen = new Set<string>()
+  while (parentId && !seen.has(parentId)) {
+    if (parentId === groupId) return true
+    seen.add(parentId)
+    parentId = objectsById.get(parentId)?.parent_group
+  }
+  return false
 }
 
 export function updateGroupChildrenPositions(
@@ -68,7 +112,7 @@ export function updateGroupChildrenPositions(
   allObjects: CanvasObject[],
 ): CanvasObject[] {
   const group = allObjects.find((obj) => obj.id === groupId)
-  if (!group || group.type !== "group" || !group.children_ids) {
+  if (!group || group.type !== "group") {
     return allObjects
   }
 
@@ -92,19 +136,294 @@ export function getObjectsToMove(objectId: string, allObjects: CanvasObject[]):
   const obj = allObjects.find((o) => o.id === objectId)
   if (!obj) return [objectId]
 
-  // If it's a group, return the group and all its children
-  if (obj.type === "group" && obj.children_ids) {
-    return [objectId, ...getAllChildrenIds(objectId, allObjects)]
+  // Connectors bound only to moving objects travel with them
+  const withConnectors = (ids: string[]) => [...ids, ...getAttachedConnectorIds(ids, allObjects)]
+
+  // An object inside groups moves with its outermost group and everything in it
+  const root = getRootObject(obj, new Map(allObjects.map((o) => [o.id, o])))
+  if (root.type === "group") {
+    return withConnectors([root.id, ...getAllChildrenIds(root.id, allObjects)])
+  }
+
+  return withConnectors([objectId])
+}
+
+// Canvas-space points that outline an object, taking its rotation into account
+function getOutlinePoints(obj: CanvasObject): PathPoint[] {
+  if (obj.type === "connector") {
+    return [
+      { x: obj.x, y: obj.y },
+      { x: obj.x + obj.width, y: obj.y + obj.height },
+    ]
+  }
+
+  const center = getCenter(obj)
+  const corners =
+    obj.type === "line"
+      ? [
+          { x: obj.x, y: obj.y },
+          { x: obj.x + obj.width, y: obj.y + obj.height },
+        ]
+      : [
+          { x: obj.x, y: obj.y },
+          { x: obj.x + obj.width, y: obj.y },
+          { x: obj.x + obj.width, y: obj.y + obj.height },
+          { x: obj.x, y: obj.y + obj.height },
+        ]
+  return corners.map((corner) => rotateAround(corner, center, obj.rotation))
+}
+
+function getOuterBounds(objects: CanvasObject[]): Box {
+  const points = objects.flatMap(getOutlinePoints)
+  const minX = Math.min(...points.map((point) => point.x))
+  const minY = Math.min(...points.map((point) => point.y))
+  const maxX = Math.max(...points.map((point) => point.x))
+  const maxY = Math.max(...points.map((point) => point.y))
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+/**
+ * Create a group around objects. Objects that shared a parent group stay
+ * inside it (the new group takes their place); otherwise they leave their old
+ * groups and the new group sits at the top level.
+ */
+export function createGroup(
+  childIds: string[],
+  objects: CanvasObject[],
+  canvasId: string,
+): { objects: CanvasObject[]; group: CanvasObject } | null {
+  const children = objects.filter((obj) => childIds.includes(obj.id))
+  if (children.length < 2) return null
+
+  const groupId = crypto.randomUUID()
+  const parents = new Set(children.map((child) => child.parent_group ?? null))
+  const parentId = parents.size === 1 ? [...parents][0] : null
+  const group: CanvasObject = {
+    id: groupId,
+    canvas_id: canvasId,
+    type: "group",
+    ...getOuterBounds(children),
+    rotation: 0,
+    fill_color: "transparent",
+    stroke_color: "#9ca3af",
+    stroke_width: 2,
+    children: children.map((child) => child.id),
+    parent_group: parentId ?? undefined,
+  }
+
+  const updated = objects.map((obj) => {
+    if (childIds.includes(obj.id)) {
+      return { ...obj, parent_group: groupId }
+    }
+    const ownChildren = getGroupChildIds(obj)
+    if (!ownChildren.some((id) => childIds.includes(id))) return obj
+
+    // Former parents drop the grouped objects; the shared parent lists the new group in their place
+    const remaining = ownChildren.filter((id) => !childIds.includes(id))
+    return { ...obj, children: obj.id === parentId ? [...remaining, groupId] : remaining }
+  })
+
+  return { objects: [...updated, group], group }
+}
+
+/**
+ * Dissolve groups, handing their children to each group's own parent (or the
+ * top level). Returns the updated objects and the ids of the released children.
+ */
+export function ungroupObjects(
+  groupIds: string[],
+  objects: CanvasObject[],
+): { objects: CanvasObject[]; releasedIds: string[] } {
+  const groups = objects.filter((obj) => obj.type === "group" && groupIds.includes(obj.id))
+  const newParent = new Map<string, string | undefined>()
+  groups.forEach((group) => {
+    getGroupChildIds(group).forEach((childId) => newParent.set(childId, group.parent_group ?? undefined))
+  })
+
+  const updated = objects
+    .filter((obj) => !groups.includes(obj))
+    .map((obj) => {
+      if (newParent.has(obj.id)) {
+        return { ...obj, parent_group: newParent.get(obj.id) }
+      }
+      const ownChildren = getGroupChildIds(obj)
+      if (!ownChildren.some((id) => groupIds.includes(id))) return obj
+
+      return {
+        ...obj,
+        children: ownChildren.flatMap((id) => {
+          const group = groups.find((candidate) => candidate.id === id)
+          return group ? getGroupChildIds(group) : [id]
+        }),
+      }
+    })
+
+  return { objects: updated, releasedIds: [...newParent.keys()] }
+}
+
+/**
+ * Move, resize and/or rotate a group to `next` (its new box and rotation),
+ * carrying every descendant along: positions are mapped through the group's
+ * frame, sizes scale with the box and rotations add the group's turn. Children
+ * turned against the group's axes are scaled along their own axes, so a
+ * non-uniform resize only approximates a skew.
+ */
+export function transformGroup(group: CanvasObject, next: CanvasObject, objects: CanvasObject[]): CanvasObject[] {
+  const scaleX = group.width > 0 ? next.width / group.width : 1
+  const scaleY = group.height > 0 ? next.height / group.height : 1
+  const turn = next.rotation - group.rotation
+  const fromCenter = getCenter(group)
+  const toCenter = getCenter(next)
+
+  const mapPoint = (point: PathPoint): PathPoint => {
+    const local = rotateAround(point, fromCenter, -group.rotation)
+    const scaled = {
+      x: toCenter.x + (local.x - fromCenter.x) * scaleX,
+      y: toCenter.y + (local.y - fromCenter.y) * scaleY,
+    }
+    return rotateAround(scaled, toCenter, next.rotation)
+  }
+
+  const descendants = new Set(getAllChildrenIds(group.id, objects))
+  return objects.map((obj) => {
+    if (obj.id === group.id) return next
+    if (!descendants.has(obj.id)) return obj
+
+    // Connectors are stored by their end points and never rotated
+    if (obj.type === "connector") {
+      const start = mapPoint({ x: obj.x, y: obj.y })
+      const end = mapPoint({ x: obj.x + obj.width, y: obj.y + obj.height })
+      return { ...obj, x: start.x, y: start.y, width: end.x - start.x, height: end.y - start.y }
+    }
+
+    // A child turned a quarter against the group stretches along its other axis
+    const relative = (((obj.rotation - group.rotation) % 180) + 180) % 180
+    const swapped = relative > 45 && relative < 135
+    const width = obj.width * (swapped ? scaleY : scaleX)
+    const height = obj.height * (swapped ? scaleX : scaleY)
+    const center = mapPoint(getCenter(obj))
+
+    const transformed: CanvasObject = {
+      ...obj,
+      x: center.x - width / 2,
+      y: center.y - height / 2,
+      width,
+      height,
+      rotation: (((obj.rotation + turn) % 360) + 360) % 360,
+    }
+    if (obj.type === "text" && obj.font_size) {
+      transformed.font_size = Math.max(1, Math.round(obj.font_size * Math.sqrt(scaleX * scaleY) * 10) / 10)
+    }
+    return transformed
+  })
+}
+
+function getGroupDepth(group: CanvasObject, objectsById: Map<string, CanvasObject>): number {
+  let depth = 0
+  let parentId = group.parent_group
+  const seen = new Set<string>()
+  while (parentId && !seen.has(parentId) && objectsById.has(parentId)) {
+    seen.add(parentId)
+    depth++
+    parentId = objectsById.get(parentId)?.parent_group
   }
+  return depth
+}
+
+// Refit a group's box around its children in the group's own (rotated) frame
+function fitGroupBox(group: CanvasObject, children: CanvasObject[]): CanvasObject {
+  const center = getCenter(group)
+  const local = children.flatMap(getOutlinePoints).map((point) => rotateAround(point, center, -group.rotation))
+  const minX = Math.min(...local.map((point) => point.x))
+  const minY = Math.min(...local.map((point) => point.y))
+  const maxX = Math.max(...local.map((point) => point.x))
+  const maxY = Math.max(...local.map((point) => point.y))
+  const fittedCenter = rotateAround({ x: (minX + maxX) / 2, y: (minY + maxY) / 2 }, center, group.rotation)
+
+  const box = {
+    x: fittedCenter.x - (maxX - minX) / 2,
+    y: fittedCenter.y - (maxY - minY) / 2,
+    width: maxX - minX,
+    height: maxY - minY,
+  }
+  const unchanged = (["x", "y", "width", "height"] as const).every((key) => Math.abs(box[key] - group[key]) < 1e-6)
+  return unchanged ? group : { ...group, ...box }
+}
 
-  // If it's a child of a group, return the parent group and all its children
-  if (obj.parent_group) {
-    const parentGroup = allObjects.find((o) => o.id === obj.parent_group)
-    if (parentGroup && parentGroup.type === "group") {
-      return [obj.parent_group, ...getAllChildrenIds(obj.parent_group, allObjects)]
+/**
+ * Bring the group tree in line with a change from `previous` to `next`.
+ * Descendants of groups removed by the change are removed with them, child
+ * lists follow the children's `parent_group`, groups left with no children
+ * disappear, and every group's box is refitted around its children, innermost
+ * first. Returns `next` untouched when nothing changed.
+ */
+export function resolveGroups(previous: CanvasObject[], next: CanvasObject[]): CanvasObject[] {
+  if (!next.some((obj) => obj.type === "group" || obj.parent_group)) return next
+
+  const nextIds = new Set(next.map((obj) => obj.id))
+  const removed = new Set(previous.filter((obj) => obj.type === "group" && !nextIds.has(obj.id)).map((obj) => obj.id))
+  let changed = false
+  let objects = next
+
+  // Deleting a group deletes everything inside it
+  if (removed.size > 0) {
+    let grew = true
+    while (grew) {
+      grew = false
+      objects.forEach((obj) => {
+        if (obj.parent_group && removed.has(obj.parent_group) && !removed.has(obj.id)) {
+          removed.add(obj.id)
+          grew = true
+        }
+      })
     }
+    const kept = objects.filter((obj) => !removed.has(obj.id))
+    changed = kept.length !== objects.length
+    objects = kept
   }
 
-  // Otherwise, just return the object itself
-  return [objectId]
+  const byId = new Map(objects.map((obj) => [obj.id, obj]))
+  const groups = objects
+    .filter((obj) => obj.type === "group")
+    .sort((a, b) => getGroupDepth(b, byId) - getGroupDepth(a, byId))
+
+  groups.forEach((group) => {
+    const current = byId.get(group.id)!
+    const listed = getGroupChildIds(current)
+    const position = (id: string) => (listed.includes(id) ? listed.indexOf(id) : listed.length)
+    const childIds = objects
+      .filter((obj) => obj.parent_group === group.id && byId.has(obj.id))
+      .map((obj) => obj.id)
+      .sort((a, b) => position(a) - position(b))
+
+    if (childIds.length === 0) {
+      byId.delete(group.id)
+      changed = true
+      return
+    }
+
+    let updated = current
+    if (childIds.join() !== listed.join()) {
+      updated = { ...updated, children: childIds }
+    }
+    updated = fitGroupBox(
+      updated,
+      childIds.map((id) => byId.get(id)!),
+    )
+    if (updated !== current) {
+      byId.set(group.id, updated)
+      changed = true
+    }
+  })
+
+  // Children of groups that vanished (here or elsewhere) move up to the top level
+  const orphaned = objects.some((obj) => obj.parent_group && !byId.has(obj.parent_group))
+  if (!changed && !orphaned) return next
+
+  return objects
+    .filter((obj) => byId.has(obj.id))
+    .map((obj) => {
+      const resolved = byId.get(obj.id)!
+      return resolved.parent_group && !byId.has(resolved.parent_group) ? { ...resolved, parent_group: undefined } : resolved
+    })
 }
@@ -0,0 +1,248 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { PathPoint } from "./types"
+import type { SnapAxis } from "./snap-utils"
+import type { SpatialRect } from "./spatial-index"
+
+/**
+ * Ruler guides: lines dragged out of the rulers that everyone on the canvas
+ * sees and that dragged objects snap to (`canvas_guides`, see
+ * 19-create-canvas-guides.sql). An `x` guide is the vertical line at x =
+ * position, dragged from the left ruler; a `y` guide is horizontal, from the
+ * top ruler.
+ */
+
+export interface CanvasGuide {
+  id: string
+  canvas_id: string
+  axis: SnapAxis
+  position: number
+  created_by: string | null
+  created_at: string
+}
+
+export type GuideBroadcast = { type: "guide_upserted"; guide: CanvasGuide } | { type: "guide_deleted"; guideId: string }
+
+// Thickness of the rulers along the top and left of the canvas, in screen pixels
+export const RULER_SIZE = 20
+
+// How close, in screen pixels, the pointer has to be to grab a guide
+export const GUIDE_GRAB_DISTANCE = 4
+
+const GUIDE_COLOR = "#06b6d4"
+
+// Labelled ruler ticks are at least this far apart on screen
+const RULER_LABEL_SPACING = 60
+
+export async function loadGuides(supabase: SupabaseClient, canvasId: string): Promise<CanvasGuide[]> {
+  const { data, error } = await supabase
+    .from("canvas_guides")
+    .select("*")
+    .eq("canvas_id", canvasId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("[v0] [GUIDES] Error loading guides:", error)
+    return []
+  }
+
+  return data || []
+}
+
+// The guide is created with its client-side ID, so it can be shown before the insert completes
+export async function createGuide(supabase: SupabaseClient, guide: CanvasGuide): Promise<boolean> {
+  const { error } = await supabase.from("canvas_guides").insert({
+    id: guide.id,
+    canvas_id: guide.canvas_id,
+    axis: guide.axis,
+    position: guide.position,
+    created_by: guide.created_by,
+  })
+
+  if (error) {
+    console.error("[v0] [GUIDES] Error creating guide:", error)
+    return false
+  }
+
+  console.log("[v0] [GUIDES] Created guide:", guide.id)
+  return true
+}
+
+export async function moveGuide(supabase: SupabaseClient, guideId: string, position: number): Promise<boolean> {
+  const { error } = await supabase.from("canvas_guides").update({ position }).eq("id", guideId)
+
+  if (error) {
+    console.error("[v0] [GUIDES] Error moving guide:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function deleteGuide(supabase: SupabaseClient, guideId: string): Promise<boolean> {
+  const { error } = await supabase.from("canvas_guides").delete().eq("id", guideId)
+
+  if (error) {
+    console.error("[v0] [GUIDES] Error deleting guide:", error)
+    return false
+  }
+
+  console.log("[v0] [GUIDES] Deleted guide:", guideId)
+  return true
+}
+
+export function applyGuideBroadcast(guides: CanvasGuide[], broadcast: GuideBroadcast): CanvasGuide[] {
+  switch (broadcast.type) {
+    case "guide_upserted": {
+      const index = guides.findIndex((guide) => guide.id === broadcast.guide.id)
+      if (index === -1) return [...guides, broadcast.guide]
+      const updated = [...guides]
+      updated[index] = broadcast.guide
+      return updated
+    }
+    case "guide_deleted":
+      return guides.filter((guide) => guide.id !== broadcast.guideId)
+    default:
+      return guides
+  }
+}
+
+// The guide under a canvas point, if any; `tolerance` is in canvas units
+export function findGuideAt(guides: CanvasGuide[], point: PathPoint, tolerance: number): CanvasGuide | null {
+  let closest: CanvasGuide | null = null
+  let closestDistance = tolerance
+  for (const guide of guides) {
+    const distance = Math.abs((guide.axis === "x" ? point.x : point.y) - guide.position)
+    if (distance <= closestDistance) {
+      closest = guide
+      closestDistance = distance
+    }
+  }
+  return closest
+}
+
+// Guides span the visible area; `dragged` is the guide being placed, drawn with its position
+export function drawGuides(
+  ctx: CanvasRenderingContext2D,
+  guides: CanvasGuide[],
+  visibleArea: SpatialRect,
+  zoom: number,
+  dragged: { axis: SnapAxis; position: number } | null,
+) {
+  ctx.save()
+  ctx.strokeStyle = GUIDE_COLOR
+  ctx.lineWidth = 1 / zoom
+  ctx.beginPath()
+  ;[...guides, ...(dragged ? [dragged] : [])].forEach(({ axis, position }) => {
+    if (axis === "x") {
+      ctx.moveTo(position, visibleArea.y)
+      ctx.lineTo(position, visibleArea.y + visibleArea.height)
+    } else {
+      ctx.moveTo(visibleArea.x, position)
+      ctx.lineTo(visibleArea.x + visibleArea.width, position)
+    }
+  })
+  ctx.stroke()
+
+  if (dragged) {
+    const text = `${dragged.axis.toUpperCase()} ${Math.round(dragged.position)}`
+    const inset = (RULER_SIZE + 6) / zoom
+    ctx.font = `${11 / zoom}px Arial`
+    ctx.fillStyle = GUIDE_COLOR
+    ctx.textBaseline = "top"
+    if (dragged.axis === "x") {
+      ctx.fillText(text, dragged.position + 4 / zoom, visibleArea.y + inset)
+    } else {
+      ctx.fillText(text, visibleArea.x + inset, dragged.position + 4 / zoom)
+    }
+  }
+
+  ctx.restore()
+}
+
+// Canvas distance between labelled ticks: the smallest 1, 2 or 5 times a power of ten that is far enough apart
+export function getRulerStep(zoom: number): number {
+  const minimum = RULER_LABEL_SPACING / zoom
+  const magnitude = 10 ** Math.floor(Math.log10(minimum))
+  return [1, 2, 5, 10].map((factor) => factor * magnitude).find((step) => step >= minimum) ?? magnitude * 10
+}
+
+/**
+ * Draws one ruler. `origin` is the screen offset of canvas coordinate 0 from
+ * the ruler's start; `highlight` marks the selection's extent.
+ */
+export function drawRuler(
+  ctx: CanvasRenderingContext2D,
+  axis: SnapAxis,
+  length: number,
+  origin: number,
+  zoom: number,
+  highlight: { from: number; to: number } | null,
+) {
+  const isTop = axis === "x"
+  const step = getRulerStep(zoom)
+  const minorStep = step / 5
+
+  ctx.save()
+  ctx.fillStyle = "#f8fafc"
+  ctx.fillRect(0, 0, isTop ? length : RULER_SIZE, isTop ? RULER_SIZE : length)
+
+  if (highlight) {
+    const from = origin + highlight.from * zoom
+    const to = origin + highlight.to * zoom
+    ctx.fillStyle = "rgba(59, 130, 246, 0.15)"
+    if (isTop) {
+      ctx.fillRect(from, 0, to - from, RULER_SIZE)
+    } else {
+      ctx.fillRect(0, from, RULER_SIZE, to - from)
+    }
+  }
+
+  ctx.strokeStyle = "#94a3b8"
+  ctx.fillStyle = "#64748b"
+  ctx.lineWidth = 1
+  ctx.font = "10px Arial"
+  ctx.textBaseline = "top"
+
+  const firstIndex = Math.floor(-origin / zoom / minorStep)
+  const lastIndex = Math.ceil((length - origin) / zoom / minorStep)
+  ctx.beginPath()
+  for (let index = firstIndex; index <= lastIndex; index++) {
+    // Snap to whole pixels so ticks stay crisp
+    const screen = Math.round(origin + index * minorStep * zoom) + 0.5
+    const isMajor = index % 5 === 0
+    const tick = isMajor ? RULER_SIZE : RULER_SIZE / 4
+    if (isTop) {
+      ctx.moveTo(screen, RULER_SIZE - tick)
+      ctx.lineTo(screen, RULER_SIZE)
+    } else {
+      ctx.moveTo(RULER_SIZE - tick, screen)
+      ctx.lineTo(RULER_SIZE, screen)
+    }
+
+    if (isMajor) {
+      const label = String(Math.round(index * minorStep))
+      if (isTop) {
+        ctx.fillText(label, screen + 3, 2)
+      } else {
+        ctx.save()
+        ctx.translate(2, screen - 3)
+        ctx.rotate(-Math.PI / 2)
+        ctx.fillText(label, 0, 0)
+        ctx.restore()
+      }
+    }
+  }
+  ctx.stroke()
+
+  // Edge against the canvas
+  ctx.beginPath()
+  if (isTop) {
+    ctx.moveTo(0, RULER_SIZE - 0.5)
+    ctx.lineTo(length, RULER_SIZE - 0.5)
+  } else {
+    ctx.moveTo(RULER_SIZE - 0.5, 0)
+    ctx.lineTo(RULER_SIZE - 0.5, length)
+  }
+  ctx.stroke()
+  ctx.restore()
+}
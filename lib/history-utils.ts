@@ -1,5 +1,23 @@
 import type { CanvasObject } from "./types"
 import { createClient } from "./supabase/client"
+import { diffFields } from "./crdt-utils"
+
+// Why a snapshot was taken. Only automatic snapshots are pruned (see 18-add-history-retention.sql).
+export type SnapshotReason = "manual" | "interval" | "ai" | "bulk_delete" | "restore"
+
+export const SNAPSHOT_REASON_LABELS: Record<SnapshotReason, string> = {
+  manual: "Saved",
+  interval: "Auto-save",
+  ai: "Before AI changes",
+  bulk_delete: "Before delete",
+  restore: "Before restore",
+}
+
+// While a canvas is being edited, an automatic snapshot is taken at most this often
+export const AUTO_SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000
+
+// Deleting at least this many objects at once snapshots the canvas first
+export const BULK_DELETE_SNAPSHOT_THRESHOLD = 10
 
 export interface HistorySnapshot {
   id: string
@@ -10,6 +28,20 @@ export interface HistorySnapshot {
   created_at: string
   description?: string
   object_count: number
+  reason?: SnapshotReason
+}
+
+export interface ChangedObject {
+  before: CanvasObject
+  after: CanvasObject
+  fields: string[]
+}
+
+export interface SnapshotDiff {
+  added: CanvasObject[]
+  removed: CanvasObject[]
+  changed: ChangedObject[]
+  unchanged: CanvasObject[]
 }
 
 export async function saveHistorySnapshot(
@@ -18,6 +50,7 @@ export async function saveHistorySnapshot(
   userId: string,
   userName: string,
   description?: string,
+  reason: SnapshotReason = "manual",
 ): Promise<void> {
   const supabase = createClient()
 
@@ -28,6 +61,7 @@ export async function saveHistorySnapshot(
     created_by_name: userName,
     description,
     object_count: objects.length,
+    reason,
   })
 
   if (error) {
@@ -35,10 +69,51 @@ export async function saveHistorySnapshot(
     throw error
   }
 
-  console.log("[v0] History snapshot saved:", { canvasId, objectCount: objects.length, description })
+  console.log("[v0] History snapshot saved:", { canvasId, objectCount: objects.length, description, reason })
+}
+
+/**
+ * Snapshot taken without the user asking. Failures are logged rather than
+ * thrown so they never hold up the edit that triggered them. Every editor
+ * runs the activity timer, so an interval snapshot is skipped when anyone
+ * saved a snapshot within the interval.
+ */
+export async function saveAutoSnapshot(
+  canvasId: string,
+  objects: CanvasObject[],
+  userId: string,
+  userName: string,
+  reason: Exclude<SnapshotReason, "manual">,
+): Promise<boolean> {
+  if (objects.length === 0) return false
+
+  try {
+    if (reason === "interval") {
+      const supabase = createClient()
+      const { data, error } = await supabase
+        .from("canvas_history")
+        .select("created_at")
+        .eq("canvas_id", canvasId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      if (error) throw error
+      const newest = data as { created_at: string } | null
+      if (newest && Date.now() - new Date(newest.created_at).getTime() < AUTO_SNAPSHOT_INTERVAL_MS) {
+        return false
+      }
+    }
+
+    await saveHistorySnapshot(canvasId, objects, userId, userName, undefined, reason)
+    return true
+  } catch (error) {
+    console.error("[v0] Failed to save automatic snapshot:", error)
+    return false
+  }
 }
 
-export async function loadHistorySnapshots(canvasId: string, limit = 20): Promise<HistorySnapshot[]> {
+export async function loadHistorySnapshots(canvasId: string, limit = 50): Promise<HistorySnapshot[]> {
   const supabase = createClient()
 
   const { data, error } = await supabase
@@ -70,6 +145,34 @@ export async function restoreHistorySnapshot(snapshotId: string): Promise<Canvas
   return data.snapshot as CanvasObject[]
 }
 
+// Row bookkeeping that changes without the object looking any different
+const DIFF_IGNORED_FIELDS = new Set(["canvas_id", "created_by", "created_at", "updated_at"])
+
+// What changed going from the `before` objects to the `after` objects, matched by ID
+export function diffSnapshots(before: CanvasObject[], after: CanvasObject[]): SnapshotDiff {
+  const beforeById = new Map(before.map((object) => [object.id, object]))
+  const afterIds = new Set(after.map((object) => object.id))
+  const diff: SnapshotDiff = { added: [], removed: [], changed: [], unchanged: [] }
+
+  after.forEach((object) => {
+    const previous = beforeById.get(object.id)
+    if (!previous) {
+      diff.added.push(object)
+      return
+    }
+
+    const fields = Object.keys(diffFields(previous, object)).filter((field) => !DIFF_IGNORED_FIELDS.has(field))
+    if (fields.length > 0) {
+      diff.changed.push({ before: previous, after: object, fields })
+    } else {
+      diff.unchanged.push(object)
+    }
+  })
+  diff.removed = before.filter((object) => !afterIds.has(object.id))
+
+  return diff
+}
+
 export function formatTimeAgo(dateString: string): string {
   const date = new Date(dateString)
   const now = new Date()
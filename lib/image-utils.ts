@@ -0,0 +1,244 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+
+/**
+ * Image objects. Files are uploaded to the public `canvas-images` bucket under
+ * `<canvas_id>/<uuid>.<ext>` and the object stores only the resulting URL.
+ * With NEXT_PUBLIC_IMAGE_STORAGE=local (development only) uploads go to the
+ * /api/images route instead, which keeps them on the local disk.
+ *
+ * Decoded bitmaps are cached per URL so the render loop can draw images
+ * synchronously; callers subscribe to hear when a pending image arrives.
+ */
+
+export const IMAGE_BUCKET = "canvas-images"
+
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+
+// Longest side, in canvas units, of a newly placed image
+export const MAX_IMAGE_PLACEMENT_SIZE = 480
+
+// SVG is left out on purpose: it can carry scripts and would be served from our origin in local mode
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+}
+
+// Bitmaps kept decoded at once; the least recently used are closed beyond this
+const MAX_CACHED_BITMAPS = 100
+
+const bitmapCache = new Map<string, ImageBitmap>()
+const pendingLoads = new Map<string, Promise<ImageBitmap | null>>()
+const failedSources = new Set<string>()
+const loadListeners = new Set<() => void>()
+
+export function usesLocalImageStorage(): boolean {
+  return process.env.NEXT_PUBLIC_IMAGE_STORAGE === "local"
+}
+
+export function isSupportedImage(file: File): boolean {
+  return file.type in IMAGE_EXTENSIONS
+}
+
+/**
+ * Upload an image for a canvas. Returns the URL to store on the image object,
+ * or null when the upload failed.
+ */
+export async function uploadCanvasImage(
+  supabase: SupabaseClient,
+  canvasId: string,
+  file: File,
+): Promise<string | null> {
+  const extension = IMAGE_EXTENSIONS[file.type]
+  if (!extension) {
+    console.warn("[v0] [IMAGES] Unsupported image type:", file.type)
+    return null
+  }
+
+  if (usesLocalImageStorage()) {
+    const {
+      data: { session },
+    } = await supabase.auth.getSession()
+
+    const body = new FormData()
+    body.append("canvasId", canvasId)
+    body.append("file", file)
+
+    try {
+      const response = await fetch("/api/images", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${session?.access_token ?? ""}` },
+        body,
+      })
+      if (!response.ok) {
+        console.error("[v0] [IMAGES] Local upload failed:", response.status)
+        return null
+      }
+      const { url } = (await response.json()) as { url: string }
+      return url
+    } catch (error) {
+      console.error("[v0] [IMAGES] Local upload failed:", error)
+      return null
+    }
+  }
+
+  const path = `${canvasId}/${crypto.randomUUID()}.${extension}`
+  const { error } = await supabase.storage.from(IMAGE_BUCKET).upload(path, file, {
+    contentType: file.type,
+    cacheControl: "31536000",
+    upsert: false,
+  })
+
+  if (error) {
+    console.error("[v0] [IMAGES] Error uploading image:", error)
+    return null
+  }
+
+  return supabase.storage.from(IMAGE_BUCKET).getPublicUrl(path).data.publicUrl
+}
+
+// Decode a local file, e.g. to size the image object before the upload finishes
+export async function decodeImageFile(file: File): Promise<ImageBitmap | null> {
+  try {
+    return await createImageBitmap(file)
+  } catch (error) {
+    console.error("[v0] [IMAGES] Could not decode image:", error)
+    return null
+  }
+}
+
+// Scale natural dimensions down so the longest side fits the placement size
+export function getImagePlacementSize(width: number, height: number): { width: number; height: number } {
+  const scale = Math.min(1, MAX_IMAGE_PLACEMENT_SIZE / Math.max(width, height))
+  return { width: Math.round(width * scale), height: Math.round(height * scale) }
+}
+
+function storeBitmap(src: string, bitmap: ImageBitmap) {
+  bitmapCache.delete(src)
+  bitmapCache.set(src, bitmap)
+
+  while (bitmapCache.size > MAX_CACHED_BITMAPS) {
+    const [oldestSrc, oldest] = bitmapCache.entries().next().value as [string, ImageBitmap]
+    bitmapCache.delete(oldestSrc)
+    oldest.close()
+  }
+}
+
+// Seed the cache with a bitmap already decoded from the uploaded file
+export function cacheImageBitmap(src: string, bitmap: ImageBitmap) {
+  storeBitmap(src, bitmap)
+  loadListeners.forEach((listener) => listener())
+}
+
+export function loadImageBitmap(src: string): Promise<ImageBitmap | null> {
+  const cached = bitmapCache.get(src)
+  if (cached) return Promise.resolve(cached)
+  if (failedSources.has(src)) return Promise.resolve(null)
+
+  let pending = pendingLoads.get(src)
+  if (!pending) {
+    pending = fetch(src)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`)
+        return response.blob()
+      })
+      .then((blob) => createImageBitmap(blob))
+      .then((bitmap) => {
+        storeBitmap(src, bitmap)
+        loadListeners.forEach((listener) => listener())
+        return bitmap
+      })
+      .catch((error) => {
+        console.error("[v0] [IMAGES] Could not load image:", src, error)
+        failedSources.add(src)
+        return null
+      })
+      .finally(() => {
+        pendingLoads.delete(src)
+      })
+    pendingLoads.set(src, pending)
+  }
+
+  return pending
+}
+
+/**
+ * Bitmap for a URL if it is already decoded. Otherwise starts loading it and
+ * returns null; subscribers are notified once it is ready.
+ */
+export function getImageBitmap(src: string): ImageBitmap | null {
+  const cached = bitmapCache.get(src)
+  if (cached) {
+    // Refresh recency so images on screen are not evicted
+    bitmapCache.delete(src)
+    bitmapCache.set(src, cached)
+    return cached
+  }
+
+  void loadImageBitmap(src)
+  return null
+}
+
+export function hasImageFailed(src: string): boolean {
+  return failedSources.has(src)
+}
+
+export function subscribeToImageLoads(listener: () => void): () => void {
+  loadListeners.add(listener)
+  return () => {
+    loadListeners.delete(listener)
+  }
+}
+
+// Inline an image for self-contained SVG export; falls back to the URL itself
+export async function getImageDataUrl(src: string): Promise<string> {
+  try {
+    const response = await fetch(src)
+    if (!response.ok) return src
+    const blob = await response.blob()
+    return await new Promise((resolve) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(typeof reader.result === "string" ? reader.result : src)
+      reader.onerror = () => resolve(src)
+      reader.readAsDataURL(blob)
+    })
+  } catch (error) {
+    console.error("[v0] [IMAGES] Could not inline image for export:", error)
+    return src
+  }
+}
+
+type Box = { x: number; y: number; width: number; height: number }
+
+/**
+ * Constrain a resize to the aspect ratio the image had when the drag started.
+ * Corner handles follow whichever axis moved further; edge handles scale the
+ * other axis around the centre. The opposite edge or corner stays put.
+ */
+export function lockAspectRatio(handle: string, start: Box, width: number, height: number): Box {
+  const scaleX = width / start.width
+  const scaleY = height / start.height
+  let scale: number
+  if (handle === "left" || handle === "right") {
+    scale = scaleX
+  } else if (handle === "top" || handle === "bottom") {
+    scale = scaleY
+  } else {
+    scale = Math.abs(scaleX - 1) >= Math.abs(scaleY - 1) ? scaleX : scaleY
+  }
+  scale = Math.max(scale, 10 / start.width, 10 / start.height)
+
+  const nextWidth = start.width * scale
+  const nextHeight = start.height * scale
+
+  let x = start.x
+  if (handle.includes("left")) x = start.x + start.width - nextWidth
+  else if (!handle.includes("right")) x = start.x + (start.width - nextWidth) / 2
+
+  let y = start.y
+  if (handle.includes("top")) y = start.y + start.height - nextHeight
+  else if (!handle.includes("bottom")) y = start.y + (start.height - nextHeight) / 2
+
+  return { x, y, width: nextWidth, height: nextHeight }
+}
@@ -0,0 +1,14 @@
+import path from "node:path"
+import { usesLocalImageStorage } from "./image-utils"
+
+/**
+ * Server-only helpers for the local-disk stand-in of the canvas-images bucket
+ * (see app/api/images). Uploads land in .local-uploads/<canvas_id>/<file>.
+ */
+
+export const LOCAL_IMAGE_DIR = path.join(process.cwd(), ".local-uploads")
+
+// The stand-in is for development only, whatever the environment variable says
+export function isLocalImageStoreEnabled(): boolean {
+  return usesLocalImageStorage() && process.env.NODE_ENV !== "production"
+}
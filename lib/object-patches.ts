@@ -0,0 +1,119 @@
+import type { CanvasObject } from "./types"
+import { diffFields, type ObjectFields } from "./crdt-utils"
+
+/**
+ * Per-object patch operations: what an edit changed, rather than the whole
+ * objects array after it. Broadcasts and database writes both work from
+ * patches, so the cost of syncing follows the size of the edit instead of the
+ * size of the board. Updates carry only the properties that changed.
+ */
+
+export type ObjectPatch =
+  | { op: "create"; object: CanvasObject }
+  | { op: "update"; id: string; changes: ObjectFields }
+  | { op: "delete"; id: string }
+
+export function getPatchObjectId(patch: ObjectPatch): string {
+  return patch.op === "create" ? patch.object.id : patch.id
+}
+
+/**
+ * Patches that turn `previous` into `next`. Edits replace only the objects
+ * they touch and keep everything else in place, so unchanged objects are
+ * skipped by reference and only replaced ones have their properties compared.
+ */
+export function diffObjects(previous: CanvasObject[], next: CanvasObject[]): ObjectPatch[] {
+  const patches: ObjectPatch[] = []
+  let previousById: Map<string, CanvasObject> | null = null
+  let matched = 0
+
+  next.forEach((object, index) => {
+    const inPlace = previous[index]
+    if (inPlace === object) {
+      matched++
+      return
+    }
+
+    const before =
+      inPlace?.id === object.id
+        ? inPlace
+        : (previousById ??= new Map(previous.map((obj) => [obj.id, obj]))).get(object.id)
+    if (!before) {
+      patches.push({ op: "create", object })
+      return
+    }
+
+    matched++
+    if (before === object) return
+    const changes = diffFields(before, object)
+    if (Object.keys(changes).length > 0) {
+      patches.push({ op: "update", id: object.id, changes })
+    }
+  })
+
+  // Every previous object was found again unless something was deleted
+  if (matched < previous.length) {
+    const nextIds = new Set(next.map((object) => object.id))
+    previous.forEach((object) => {
+      if (!nextIds.has(object.id)) patches.push({ op: "delete", id: object.id })
+    })
+  }
+
+  return patches
+}
+
+/**
+ * Fold `patches` into patches still waiting to be sent, keeping one patch per
+ * object. Dragging a shape produces an update per frame; a batch only needs
+ * the latest value of each property.
+ */
+export function mergePatches(pending: ObjectPatch[], patches: ObjectPatch[]): ObjectPatch[] {
+  if (pending.length === 0) return patches
+
+  const merged = new Map(pending.map((patch) => [getPatchObjectId(patch), patch]))
+  patches.forEach((patch) => {
+    const id = getPatchObjectId(patch)
+    const earlier = merged.get(id)
+
+    if (!earlier) {
+      merged.set(id, patch)
+    } else if (patch.op === "delete") {
+      // Created and deleted within one batch: nobody needs to hear about it
+      if (earlier.op === "create") {
+        merged.delete(id)
+      } else {
+        merged.set(id, patch)
+      }
+    } else if (patch.op === "create") {
+      // Deleted and restored (e.g. undo) within one batch: the object still exists
+      // elsewhere, so it is rewritten in place rather than created again
+      const { id: _id, ...changes } = patch.object
+      merged.set(id, earlier.op === "delete" ? { op: "update", id, changes } : patch)
+    } else if (earlier.op === "create") {
+      merged.set(id, { op: "create", object: { ...earlier.object, ...patch.changes } })
+    } else if (earlier.op === "update") {
+      merged.set(id, { op: "update", id, changes: { ...earlier.changes, ...patch.changes } })
+    } else {
+      merged.set(id, patch)
+    }
+  })
+
+  return Array.from(merged.values())
+}
+
+// State after applying `patches` in order; updates and deletes of missing objects are skipped
+export function applyPatches(objects: CanvasObject[], patches: ObjectPatch[]): CanvasObject[] {
+  const byId = new Map(objects.map((object) => [object.id, object]))
+  patches.forEach((patch) => {
+    if (patch.op === "create") {
+      const existing = byId.get(patch.object.id)
+      byId.set(patch.object.id, existing ? { ...existing, ...patch.object } : patch.object)
+    } else if (patch.op === "update") {
+      const existing = byId.get(patch.id)
+      if (existing) byId.set(patch.id, { ...existing, ...patch.changes })
+    } else {
+      byId.delete(patch.id)
+    }
+  })
+  return Array.from(byId.values())
+}
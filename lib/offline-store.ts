@@ -0,0 +1,269 @@
+import type { CanvasObject, HistoryCommand } from "./types"
+import type { CanvasRecord, CanvasRole } from "./canvas-utils"
+import type { ObjectFields } from "./crdt-utils"
+
+/**
+ * IndexedDB cache that lets a canvas survive a refresh while offline: the
+ * canvas record and role, the last known objects, and the queue of edits that
+ * have not reached the server yet. It also keeps each user's undo history
+ * beyond what useHistory holds in memory. Helpers never throw; they resolve to
+ * null/[]/false when IndexedDB is unavailable (SSR, some private modes).
+ */
+
+const DB_NAME = "collabcanvas-offline"
+const DB_VERSION = 2
+const CANVAS_STORE = "canvases"
+const OBJECT_STORE = "objects"
+const OPERATION_STORE = "operations"
+const HISTORY_STORE = "history"
+
+// Undo steps kept per user and canvas, including those paged out of memory
+export const PERSISTED_HISTORY_SIZE = 500
+
+export interface QueuedOperation {
+  type: "create" | "update" | "delete"
+  object?: CanvasObject
+  changes?: ObjectFields
+  // Values of the changed properties before the offline edit. Replay compares
+  // them with the server to detect teammates' edits to the same properties.
+  base?: ObjectFields
+  objectId?: string
+  timestamp: number
+}
+
+export interface CachedCanvas {
+  canvas: CanvasRecord
+  role: CanvasRole
+  saved_at: string
+}
+
+export interface CachedObjects {
+  objects: CanvasObject[]
+  saved_at: string
+  // Operation log position the objects are current to (see lib/operation-log.ts). Caches that
+  // have it hold server state, which queued operations are applied on top of.
+  seq?: number
+}
+
+export interface PersistedHistory {
+  undo: HistoryCommand[]
+  redo: HistoryCommand[]
+}
+
+export interface ReconcileSummary {
+  replayed: number
+  conflicts: number
+  dropped: number
+}
+
+let databasePromise: Promise<IDBDatabase | null> | null = null
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") {
+    return Promise.resolve(null)
+  }
+
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        ;[CANVAS_STORE, OBJECT_STORE, OPERATION_STORE, HISTORY_STORE].forEach((store) => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store)
+          }
+        })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.error("[v0] [OFFLINE] Could not open IndexedDB:", request.error)
+        databasePromise = null
+        resolve(null)
+      }
+    })
+  }
+
+  return databasePromise
+}
+
+async function readValue<T>(store: string, key: string): Promise<T | null> {
+  const db = await openDatabase()
+  if (!db) return null
+
+  return new Promise((resolve) => {
+    const request = db.transaction(store, "readonly").objectStore(store).get(key)
+    request.onsuccess = () => resolve((request.result as T | undefined) ?? null)
+    request.onerror = () => {
+      console.error(`[v0] [OFFLINE] Error reading ${store}:`, request.error)
+      resolve(null)
+    }
+  })
+}
+
+async function writeValue(store: string, key: string | IDBKeyRange, value: unknown | null): Promise<boolean> {
+  const db = await openDatabase()
+  if (!db) return false
+
+  return new Promise((resolve) => {
+    const transaction = db.transaction(store, "readwrite")
+    const objectStore = transaction.objectStore(store)
+    if (value === null) {
+      objectStore.delete(key)
+    } else {
+      objectStore.put(value, key as string)
+    }
+    transaction.oncomplete = () => resolve(true)
+    transaction.onerror = () => {
+      console.error(`[v0] [OFFLINE] Error writing ${store}:`, transaction.error)
+      resolve(false)
+    }
+  })
+}
+
+export function loadCachedCanvas(canvasId: string): Promise<CachedCanvas | null> {
+  return readValue<CachedCanvas>(CANVAS_STORE, canvasId)
+}
+
+export function saveCachedCanvas(canvasId: string, canvas: CanvasRecord, role: CanvasRole): Promise<boolean> {
+  return writeValue(CANVAS_STORE, canvasId, { canvas, role, saved_at: new Date().toISOString() })
+}
+
+export function loadCachedObjects(canvasId: string): Promise<CachedObjects | null> {
+  return readValue<CachedObjects>(OBJECT_STORE, canvasId)
+}
+
+export function saveCachedObjects(canvasId: string, objects: CanvasObject[], seq?: number): Promise<boolean> {
+  return writeValue(OBJECT_STORE, canvasId, { objects, seq, saved_at: new Date().toISOString() })
+}
+
+export async function loadQueuedOperations(canvasId: string): Promise<QueuedOperation[]> {
+  return (await readValue<QueuedOperation[]>(OPERATION_STORE, canvasId)) ?? []
+}
+
+export function saveQueuedOperations(canvasId: string, operations: QueuedOperation[]): Promise<boolean> {
+  return writeValue(OPERATION_STORE, canvasId, operations.length > 0 ? operations : null)
+}
+
+export function getHistoryKey(canvasId: string, userId: string): string {
+  return `${canvasId}:${userId}`
+}
+
+export function loadPersistedHistory(key: string): Promise<PersistedHistory | null> {
+  return readValue<PersistedHistory>(HISTORY_STORE, key)
+}
+
+/**
+ * Save the in-memory undo window on top of the `archivedCount` older commands
+ * already stored, in one transaction so concurrent saves can't interleave.
+ */
+export async function savePersistedHistory(
+  key: string,
+  archivedCount: number,
+  undo: HistoryCommand[],
+  redo: HistoryCommand[],
+): Promise<boolean> {
+  const db = await openDatabase()
+  if (!db) return false
+
+  return new Promise((resolve) => {
+    const transaction = db.transaction(HISTORY_STORE, "readwrite")
+    const store = transaction.objectStore(HISTORY_STORE)
+    const request = store.get(key)
+
+    request.onsuccess = () => {
+      const stored = (request.result as PersistedHistory | undefined)?.undo ?? []
+      const history: PersistedHistory = {
+        undo: [...stored.slice(0, archivedCount), ...undo].slice(-PERSISTED_HISTORY_SIZE),
+        redo,
+      }
+      store.put(history, key)
+    }
+    transaction.oncomplete = () => resolve(true)
+    transaction.onerror = () => {
+      console.error("[v0] [OFFLINE] Error saving history:", transaction.error)
+      resolve(false)
+    }
+  })
+}
+
+export async function clearOfflineCanvas(canvasId: string): Promise<void> {
+  await Promise.all([
+    writeValue(CANVAS_STORE, canvasId, null),
+    writeValue(OBJECT_STORE, canvasId, null),
+    writeValue(OPERATION_STORE, canvasId, null),
+    writeValue(HISTORY_STORE, IDBKeyRange.bound(`${canvasId}:`, `${canvasId}:\uffff`), null),
+  ])
+}
+
+export function getOperationObjectId(operation: QueuedOperation): string | undefined {
+  return operation.type === "delete" ? operation.objectId : operation.object?.id
+}
+
+/**
+ * Append an operation, folding it into earlier queued operations for the same
+ * object. Dragging a shape offline would otherwise queue one update per frame.
+ */
+export function enqueueOperation(queue: QueuedOperation[], operation: QueuedOperation): QueuedOperation[] {
+  const objectId = getOperationObjectId(operation)
+  if (!objectId) return queue
+
+  const pending = queue.filter((queued) => getOperationObjectId(queued) === objectId)
+  const pendingCreate = pending.find((queued) => queued.type === "create")
+  const pendingUpdate = pending.find((queued) => queued.type === "update")
+
+  if (operation.type === "update" && operation.object) {
+    if (pendingCreate) {
+      // The object never reached the server: send its latest version instead
+      return queue.map((queued) =>
+        queued === pendingCreate ? { ...queued, object: operation.object, timestamp: operation.timestamp } : queued,
+      )
+    }
+
+    if (pendingUpdate) {
+      return queue.map((queued) =>
+        queued === pendingUpdate
+          ? {
+              ...queued,
+              object: operation.object,
+              changes: { ...queued.changes, ...operation.changes },
+              // Keep the oldest base value per property
+              base: { ...operation.base, ...queued.base },
+              timestamp: operation.timestamp,
+            }
+          : queued,
+      )
+    }
+  }
+
+  if (operation.type === "delete") {
+    const withoutObject = queue.filter((queued) => getOperationObjectId(queued) !== objectId)
+    // Created and deleted while offline: the server never needs to hear about it
+    return pendingCreate ? withoutObject : [...withoutObject, operation]
+  }
+
+  return [...queue, operation]
+}
+
+// Show queued edits on top of server state, e.g. after a refresh while offline
+export function applyQueuedOperations(objects: CanvasObject[], queue: QueuedOperation[]): CanvasObject[] {
+  return queue.reduce((current, operation) => {
+    if (operation.type === "create" && operation.object) {
+      const created = operation.object
+      return current.some((obj) => obj.id === created.id)
+        ? current.map((obj) => (obj.id === created.id ? created : obj))
+        : [...current, created]
+    }
+
+    if (operation.type === "update" && operation.object) {
+      const updated = operation.object
+      return current.map((obj) => (obj.id === updated.id ? { ...obj, ...(operation.changes ?? updated) } : obj))
+    }
+
+    if (operation.type === "delete" && operation.objectId) {
+      return current.filter((obj) => obj.id !== operation.objectId)
+    }
+
+    return current
+  }, objects)
+}
@@ -0,0 +1,172 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CanvasObject } from "./types"
+import { applyPatches, type ObjectPatch } from "./object-patches"
+
+/**
+ * Client side of the `canvas_operations` log (scripts/16-create-canvas-operations.sql).
+ * Edits are appended as batches of object patches; the server numbers them
+ * per canvas and applies them to `canvas_objects` in that order. A client that
+ * knows the objects as of sequence number N catches up by replaying the
+ * operations after N instead of reloading the whole canvas.
+ */
+
+export interface CanvasOperation {
+  canvas_id: string
+  seq: number
+  patches: ObjectPatch[]
+  created_by: string | null
+  created_at: string
+}
+
+export interface CanvasSnapshot {
+  canvas_id: string
+  seq: number
+  objects: CanvasObject[]
+  object_count: number
+  created_at: string
+}
+
+// Further behind than this, reloading the objects is cheaper than replaying the log
+export const MAX_CATCH_UP_OPERATIONS = 1000
+
+// Rows per request when reading the whole log; PostgREST returns at most 1,000 by default
+const HISTORY_PAGE_SIZE = 1000
+
+// Append patches as the canvas's next operation. Returns its sequence number; throws if the write fails
+export async function appendOperation(
+  supabase: SupabaseClient,
+  canvasId: string,
+  patches: ObjectPatch[],
+): Promise<number> {
+  const { data, error } = await supabase.rpc("append_canvas_operation", {
+    p_canvas_id: canvasId,
+    p_patches: patches,
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return Number(data)
+}
+
+// Sequence number of the latest operation on the canvas, or null if it could not be read
+export async function loadOperationHead(supabase: SupabaseClient, canvasId: string): Promise<number | null> {
+  const { data, error } = await supabase.from("canvases").select("last_seq").eq("id", canvasId).maybeSingle()
+
+  if (error) {
+    console.error("[v0] [SYNC] Error loading operation head:", error)
+    return null
+  }
+
+  return Number(data?.last_seq ?? 0)
+}
+
+/**
+ * Operations after `seq` up to `head`, in order. Returns null when they cannot
+ * all be replayed: the read failed, or compaction already dropped some of them.
+ */
+export async function loadOperationsSince(
+  supabase: SupabaseClient,
+  canvasId: string,
+  seq: number,
+  head: number,
+): Promise<CanvasOperation[] | null> {
+  if (head <= seq) return []
+
+  const { data, error } = await supabase
+    .from("canvas_operations")
+    .select("*")
+    .eq("canvas_id", canvasId)
+    .gt("seq", seq)
+    .lte("seq", head)
+    .order("seq", { ascending: true })
+
+  if (error) {
+    console.error("[v0] [SYNC] Error loading operations:", error)
+    return null
+  }
+
+  const operations = (data || []).map((operation) => ({ ...operation, seq: Number(operation.seq) }))
+  const isComplete =
+    operations.length === head - seq && operations.every((operation, i) => operation.seq === seq + i + 1)
+  return isComplete ? operations : null
+}
+
+export function applyOperations(objects: CanvasObject[], operations: CanvasOperation[]): CanvasObject[] {
+  return operations.reduce((current, operation) => applyPatches(current, operation.patches), objects)
+}
+
+/**
+ * Objects as of the latest operation, starting from `objects` as of `seq`:
+ * replays the operations in between, or reloads the canvas when that is not
+ * possible. Returns null if the server could not be reached.
+ */
+export async function catchUpObjects(
+  supabase: SupabaseClient,
+  canvasId: string,
+  objects: CanvasObject[] | null,
+  seq: number | null,
+): Promise<{ objects: CanvasObject[]; seq: number; replayed: number | null } | null> {
+  const head = await loadOperationHead(supabase, canvasId)
+  if (head === null) return null
+
+  if (objects && seq !== null && head - seq <= MAX_CATCH_UP_OPERATIONS) {
+    const operations = await loadOperationsSince(supabase, canvasId, seq, head)
+    if (operations) {
+      return { objects: applyOperations(objects, operations), seq: head, replayed: operations.length }
+    }
+  }
+
+  // The head is read first, so the reload is at least as new as it; operations after it replay harmlessly
+  const { data, error } = await supabase.from("canvas_objects").select("*").eq("canvas_id", canvasId)
+  if (error) {
+    console.error("[v0] [SYNC] Error loading canvas objects:", error)
+    return null
+  }
+
+  return { objects: data || [], seq: head, replayed: null }
+}
+
+/**
+ * Everything recorded about how the canvas reached its current state: its
+ * snapshots and the operations kept after compaction, both oldest first.
+ */
+export async function loadOperationHistory(
+  supabase: SupabaseClient,
+  canvasId: string,
+): Promise<{ snapshots: CanvasSnapshot[]; operations: CanvasOperation[] } | null> {
+  const { data: snapshots, error: snapshotError } = await supabase
+    .from("canvas_snapshots")
+    .select("*")
+    .eq("canvas_id", canvasId)
+    .order("seq", { ascending: true })
+
+  if (snapshotError) {
+    console.error("[v0] [SYNC] Error loading snapshots:", snapshotError)
+    return null
+  }
+
+  const operations: CanvasOperation[] = []
+  for (let from = 0; ; from += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("canvas_operations")
+      .select("*")
+      .eq("canvas_id", canvasId)
+      .order("seq", { ascending: true })
+      .range(from, from + HISTORY_PAGE_SIZE - 1)
+
+    if (error) {
+      console.error("[v0] [SYNC] Error loading operations:", error)
+      return null
+    }
+
+    operations.push(...(data || []).map((operation) => ({ ...operation, seq: Number(operation.seq) })))
+    if (!data || data.length < HISTORY_PAGE_SIZE) break
+  }
+
+  return {
+    snapshots: (snapshots || []).map((snapshot) => ({ ...snapshot, seq: Number(snapshot.seq) })),
+    operations,
+  }
+}
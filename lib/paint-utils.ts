@@ -0,0 +1,345 @@
+import type { CanvasObject, Gradient, GradientStop, Shadow } from "./types"
+import { getVectorContours, getVectorPathData, traceVector } from "./vector-utils"
+
+/**
+ * How shapes are painted beyond a solid fill and stroke: opacity, gradient
+ * fills, dashed strokes, rounded rectangle corners and drop/inner shadows.
+ * The canvas and SVG versions of each are kept side by side so the board and
+ * its exports match. Shadows are cast by the fill, so a translucent fill casts
+ * a fainter one; drop shadows only show outside its outline and inner shadows
+ * only inside it.
+ */
+
+type ObjectType = CanvasObject["type"]
+
+// Filled shapes, painted by paintShape / getShapeSVG
+const SHAPE_TYPES: ObjectType[] = ["rectangle", "circle", "triangle", "vector"]
+
+// Object types each paint field applies to, so styling a mixed selection skips the rest
+const PAINT_FIELD_TYPES: Record<"fill_gradient" | "stroke_dash" | "corner_radius" | "shadows", ObjectType[]> = {
+  fill_gradient: SHAPE_TYPES,
+  stroke_dash: [...SHAPE_TYPES, "line", "path", "connector"],
+  corner_radius: ["rectangle"],
+  shadows: [...SHAPE_TYPES, "image"],
+}
+
+export const PAINT_STYLE_FIELDS = Object.keys(PAINT_FIELD_TYPES) as (keyof typeof PAINT_FIELD_TYPES)[]
+
+export function isShape(obj: CanvasObject): boolean {
+  return SHAPE_TYPES.includes(obj.type)
+}
+
+export function supportsPaintField(obj: CanvasObject, field: keyof typeof PAINT_FIELD_TYPES): boolean {
+  return PAINT_FIELD_TYPES[field].includes(obj.type)
+}
+
+export function getOpacity(obj: CanvasObject): number {
+  return Math.min(1, Math.max(0, obj.opacity ?? 1))
+}
+
+// A two-stop gradient starting from the object's current fill
+export function createGradient(type: Gradient["type"], color: string): Gradient {
+  const start = color === "transparent" ? "#3b82f6" : color
+  return {
+    type,
+    angle: 90,
+    stops: [
+      { offset: 0, color: start },
+      { offset: 1, color: "#ffffff" },
+    ],
+  }
+}
+
+function getSortedStops(gradient: Gradient): GradientStop[] {
+  return [...gradient.stops]
+    .map((stop) => ({ ...stop, offset: Math.min(1, Math.max(0, stop.offset)) }))
+    .sort((a, b) => a.offset - b.offset)
+}
+
+function getGradient(obj: CanvasObject): Gradient | null {
+  return obj.fill_gradient && supportsPaintField(obj, "fill_gradient") && obj.fill_gradient.stops.length > 0
+    ? obj.fill_gradient
+    : null
+}
+
+// Linear gradients span the box along their angle, corner to corner; radial ones reach its longer side
+function getGradientGeometry(obj: CanvasObject, gradient: Gradient) {
+  const cx = obj.x + obj.width / 2
+  const cy = obj.y + obj.height / 2
+  const angle = (gradient.angle * Math.PI) / 180
+  const dx = Math.cos(angle)
+  const dy = Math.sin(angle)
+  const half = (Math.abs(obj.width * dx) + Math.abs(obj.height * dy)) / 2
+  return {
+    cx,
+    cy,
+    r: Math.max(Math.abs(obj.width), Math.abs(obj.height)) / 2,
+    x1: cx - dx * half,
+    y1: cy - dy * half,
+    x2: cx + dx * half,
+    y2: cy + dy * half,
+  }
+}
+
+export function getFillStyle(ctx: CanvasRenderingContext2D, obj: CanvasObject): string | CanvasGradient {
+  const gradient = getGradient(obj)
+  if (!gradient) return obj.fill_color
+
+  const { cx, cy, r, x1, y1, x2, y2 } = getGradientGeometry(obj, gradient)
+  const fill =
+    gradient.type === "radial"
+      ? ctx.createRadialGradient(cx, cy, 0, cx, cy, r)
+      : ctx.createLinearGradient(x1, y1, x2, y2)
+  getSortedStops(gradient).forEach((stop) => fill.addColorStop(stop.offset, stop.color))
+  return fill
+}
+
+// CSS for a swatch showing the gradient, e.g. in the style panel
+export function getGradientCSS(gradient: Gradient): string {
+  const stops = getSortedStops(gradient)
+    .map((stop) => `${stop.color} ${Math.round(stop.offset * 100)}%`)
+    .join(", ")
+  // CSS measures angles clockwise from "to top"; ours start at "to right"
+  return gradient.type === "radial"
+    ? `radial-gradient(circle, ${stops})`
+    : `linear-gradient(${gradient.angle + 90}deg, ${stops})`
+}
+
+export function getCornerRadius(obj: CanvasObject): number {
+  if (obj.type !== "rectangle" || !obj.corner_radius) return 0
+  return Math.min(Math.max(0, obj.corner_radius), Math.abs(obj.width) / 2, Math.abs(obj.height) / 2)
+}
+
+// Dash pattern scaled by the stroke width. Round caps grow each dash by the width, so dots are zero-length dashes
+export function getDashArray(obj: CanvasObject): number[] {
+  if (!obj.stroke_dash || !supportsPaintField(obj, "stroke_dash")) return []
+  const width = Math.max(obj.stroke_width, 1)
+  const roundCaps = obj.type === "path" || obj.type === "vector"
+  if (obj.stroke_dash === "dashed") return roundCaps ? [width * 3, width * 3] : [width * 4, width * 2]
+  if (obj.stroke_dash === "dotted") return roundCaps ? [0, width * 2] : [width, width]
+  return []
+}
+
+function getShadows(obj: CanvasObject, type: Shadow["type"]): Shadow[] {
+  if (!obj.shadows || !supportsPaintField(obj, "shadows")) return []
+  return obj.shadows.filter((shadow) => shadow.type === type && shadow.opacity > 0)
+}
+
+function getShadowColor(shadow: Shadow): string {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(shadow.color)
+  if (!match) return shadow.color
+  const [r, g, b] = match.slice(1).map((channel) => Number.parseInt(channel, 16))
+  return `rgba(${r}, ${g}, ${b}, ${shadow.opacity})`
+}
+
+// How far past the object's box its shadows can reach
+function getShadowMargin(obj: CanvasObject): number {
+  const reach = (obj.shadows ?? []).map((shadow) => Math.abs(shadow.x) + Math.abs(shadow.y) + shadow.blur * 2)
+  return Math.max(0, ...reach) + obj.stroke_width + 1
+}
+
+// The outline the fill and shadows follow
+export function traceShape(ctx: CanvasPath, obj: CanvasObject) {
+  if (obj.type === "circle") {
+    const radius = Math.min(obj.width, obj.height) / 2
+    ctx.moveTo(obj.x + obj.width / 2 + radius, obj.y + obj.height / 2)
+    ctx.arc(obj.x + obj.width / 2, obj.y + obj.height / 2, radius, 0, Math.PI * 2)
+  } else if (obj.type === "triangle") {
+    ctx.moveTo(obj.x + obj.width / 2, obj.y)
+    ctx.lineTo(obj.x, obj.y + obj.height)
+    ctx.lineTo(obj.x + obj.width, obj.y + obj.height)
+    ctx.closePath()
+  } else if (obj.type === "vector") {
+    traceVector(ctx, getVectorContours(obj))
+  } else if (getCornerRadius(obj) > 0) {
+    ctx.roundRect(obj.x, obj.y, obj.width, obj.height, getCornerRadius(obj))
+  } else {
+    ctx.rect(obj.x, obj.y, obj.width, obj.height)
+  }
+}
+
+function getFillRule(obj: CanvasObject): CanvasFillRule {
+  return obj.type === "vector" ? "evenodd" : "nonzero"
+}
+
+// Canvas shadows ignore the transform, so offsets and blur are mapped to device pixels here
+function applyShadow(ctx: CanvasRenderingContext2D, shadow: Shadow) {
+  const { a, b, c, d } = ctx.getTransform()
+  ctx.shadowColor = getShadowColor(shadow)
+  ctx.shadowBlur = shadow.blur * Math.sqrt(Math.abs(a * d - b * c))
+  ctx.shadowOffsetX = a * shadow.x + c * shadow.y
+  ctx.shadowOffsetY = b * shadow.x + d * shadow.y
+}
+
+// Adds a rectangle around the object and its shadows, so an even-odd fill or clip selects one side of its outline
+function traceSurround(ctx: CanvasPath, obj: CanvasObject) {
+  const margin = getShadowMargin(obj) + Math.max(Math.abs(obj.width), Math.abs(obj.height))
+  ctx.rect(obj.x - margin, obj.y - margin, obj.width + margin * 2, obj.height + margin * 2)
+}
+
+export function drawDropShadows(ctx: CanvasRenderingContext2D, obj: CanvasObject) {
+  const shadows = getShadows(obj, "drop")
+  if (shadows.length === 0) return
+
+  ctx.save()
+  ctx.beginPath()
+  traceSurround(ctx, obj)
+  traceShape(ctx, obj)
+  ctx.clip("evenodd")
+  ctx.fillStyle = obj.type === "image" ? "#000000" : getFillStyle(ctx, obj)
+  shadows.forEach((shadow) => {
+    applyShadow(ctx, shadow)
+    ctx.beginPath()
+    traceShape(ctx, obj)
+    ctx.fill(getFillRule(obj))
+  })
+  ctx.restore()
+}
+
+export function drawInnerShadows(ctx: CanvasRenderingContext2D, obj: CanvasObject) {
+  const shadows = getShadows(obj, "inner")
+  if (shadows.length === 0) return
+
+  ctx.save()
+  ctx.beginPath()
+  traceShape(ctx, obj)
+  ctx.clip(getFillRule(obj))
+  ctx.fillStyle = "#000000"
+  shadows.forEach((shadow) => {
+    applyShadow(ctx, shadow)
+    ctx.beginPath()
+    traceSurround(ctx, obj)
+    traceShape(ctx, obj)
+    ctx.fill("evenodd")
+  })
+  ctx.restore()
+}
+
+export function paintShape(ctx: CanvasRenderingContext2D, obj: CanvasObject) {
+  drawDropShadows(ctx, obj)
+
+  ctx.fillStyle = getFillStyle(ctx, obj)
+  ctx.beginPath()
+  traceShape(ctx, obj)
+  ctx.fill(getFillRule(obj))
+
+  drawInnerShadows(ctx, obj)
+
+  if (obj.stroke_width > 0) {
+    ctx.strokeStyle = obj.stroke_color
+    ctx.lineWidth = obj.stroke_width
+    if (obj.type === "vector") {
+      ctx.lineCap = "round"
+      ctx.lineJoin = "round"
+    }
+    ctx.setLineDash(getDashArray(obj))
+    ctx.beginPath()
+    traceShape(ctx, obj)
+    ctx.stroke()
+    ctx.setLineDash([])
+  }
+}
+
+function getPaintId(obj: CanvasObject, kind: "fill" | "shadow"): string {
+  return `${kind}-${obj.id}`
+}
+
+export function getDashArraySVG(obj: CanvasObject): string {
+  const dash = getDashArray(obj)
+  return dash.length > 0 ? ` stroke-dasharray="${dash.join(" ")}"` : ""
+}
+
+export function getShadowFilterSVG(obj: CanvasObject): string {
+  return getShadows(obj, "drop").length > 0 || getShadows(obj, "inner").length > 0
+    ? ` filter="url(#${getPaintId(obj, "shadow")})"`
+    : ""
+}
+
+function getShadowPrimitivesSVG(shadow: Shadow, index: number): string {
+  const flood = `<feFlood flood-color="${shadow.color}" flood-opacity="${shadow.opacity}"/>`
+  if (shadow.type === "drop") {
+    return (
+      `<feGaussianBlur in="SourceAlpha" stdDeviation="${shadow.blur / 2}"/>` +
+      `<feOffset dx="${shadow.x}" dy="${shadow.y}" result="drop-offset-${index}"/>${flood}` +
+      `<feComposite in2="drop-offset-${index}" operator="in"/>` +
+      `<feComposite in2="SourceAlpha" operator="out" result="drop-${index}"/>`
+    )
+  }
+  // Blurred inverse of the outline, kept where it falls inside it
+  return (
+    `<feComponentTransfer in="SourceAlpha"><feFuncA type="table" tableValues="1 0"/></feComponentTransfer>` +
+    `<feGaussianBlur stdDeviation="${shadow.blur / 2}"/><feOffset dx="${shadow.x}" dy="${shadow.y}"/>` +
+    `<feComposite in2="SourceAlpha" operator="in" result="inner-offset-${index}"/>${flood}` +
+    `<feComposite in2="inner-offset-${index}" operator="in" result="inner-${index}"/>`
+  )
+}
+
+// Gradient and shadow definitions an object's markup refers to, or "" when it has neither
+export function getPaintDefsSVG(obj: CanvasObject): string {
+  let defs = ""
+
+  const gradient = getGradient(obj)
+  if (gradient) {
+    const { cx, cy, r, x1, y1, x2, y2 } = getGradientGeometry(obj, gradient)
+    const stops = getSortedStops(gradient)
+      .map((stop) => `<stop offset="${stop.offset}" stop-color="${stop.color}"/>`)
+      .join("")
+    const id = `id="${getPaintId(obj, "fill")}" gradientUnits="userSpaceOnUse"`
+    defs +=
+      gradient.type === "radial"
+        ? `<radialGradient ${id} cx="${cx}" cy="${cy}" r="${r}">${stops}</radialGradient>`
+        : `<linearGradient ${id} x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">${stops}</linearGradient>`
+  }
+
+  const drops = getShadows(obj, "drop")
+  const inners = getShadows(obj, "inner")
+  if (drops.length > 0 || inners.length > 0) {
+    const margin = getShadowMargin(obj)
+    const region =
+      `x="${Math.min(obj.x, obj.x + obj.width) - margin}" y="${Math.min(obj.y, obj.y + obj.height) - margin}" ` +
+      `width="${Math.abs(obj.width) + margin * 2}" height="${Math.abs(obj.height) + margin * 2}"`
+    const merged = [
+      ...drops.map((_, index) => `drop-${index}`),
+      "SourceGraphic",
+      ...inners.map((_, index) => `inner-${index}`),
+    ]
+      .map((input) => `<feMergeNode in="${input}"/>`)
+      .join("")
+    defs +=
+      `<filter id="${getPaintId(obj, "shadow")}" filterUnits="userSpaceOnUse" ${region} ` +
+      `color-interpolation-filters="sRGB">` +
+      [...drops, ...inners].map((shadow, index) => getShadowPrimitivesSVG(shadow, index)).join("") +
+      `<feMerge>${merged}</feMerge></filter>`
+  }
+
+  return defs ? `<defs>${defs}</defs>` : ""
+}
+
+export function getShapeSVG(obj: CanvasObject): string {
+  const fill = getGradient(obj) ? `url(#${getPaintId(obj, "fill")})` : obj.fill_color
+  const paint =
+    `fill="${fill}" stroke="${obj.stroke_color}" stroke-width="${obj.stroke_width}"` +
+    getDashArraySVG(obj) +
+    getShadowFilterSVG(obj)
+  const defs = getPaintDefsSVG(obj)
+
+  if (obj.type === "circle") {
+    const radius = Math.min(obj.width, obj.height) / 2
+    return `${defs}<circle cx="${obj.x + obj.width / 2}" cy="${obj.y + obj.height / 2}" r="${radius}" ${paint}/>`
+  }
+  if (obj.type === "triangle") {
+    const points = [
+      [obj.x + obj.width / 2, obj.y],
+      [obj.x, obj.y + obj.height],
+      [obj.x + obj.width, obj.y + obj.height],
+    ]
+    return `${defs}<polygon points="${points.map((point) => point.join(",")).join(" ")}" ${paint}/>`
+  }
+  if (obj.type === "vector") {
+    const caps = `fill-rule="evenodd" stroke-linecap="round" stroke-linejoin="round"`
+    return `${defs}<path d="${getVectorPathData(getVectorContours(obj))}" ${paint} ${caps}/>`
+  }
+  const radius = getCornerRadius(obj)
+  const corners = radius > 0 ? ` rx="${radius}" ry="${radius}"` : ""
+  return `${defs}<rect x="${obj.x}" y="${obj.y}" width="${obj.width}" height="${obj.height}"${corners} ${paint}/>`
+}
@@ -0,0 +1,173 @@
+import type { CanvasObject, PathPoint } from "./types"
+
+/**
+ * Freehand strokes. Raw pointer samples are simplified with Ramer-Douglas-Peucker
+ * and drawn as a Catmull-Rom spline, so smoothing only depends on the sampled
+ * positions (pen pressure is ignored). Path objects store their points
+ * normalised to 0..1 within the object's box, which lets the existing move,
+ * resize and rotate code transform strokes like any other shape.
+ */
+
+// Max deviation, in screen pixels, RDP may remove from a stroke
+export const PATH_SIMPLIFY_TOLERANCE = 1.5
+
+// Pointer samples closer than this (screen pixels) to the previous one are dropped
+export const PATH_MIN_SAMPLE_DISTANCE = 2
+
+export function distanceToSegment(point: PathPoint, a: PathPoint, b: PathPoint): number {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  if (lengthSquared === 0) return Math.hypot(point.x - a.x, point.y - a.y)
+
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy))
+}
+
+export function simplifyPath(points: PathPoint[], tolerance: number): PathPoint[] {
+  if (points.length <= 2) return points
+
+  const keep = new Array<boolean>(points.length).fill(false)
+  keep[0] = true
+  keep[points.length - 1] = true
+
+  // Iterative RDP: long strokes would overflow the stack recursively
+  const stack: [number, number][] = [[0, points.length - 1]]
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!
+    let maxDistance = 0
+    let index = -1
+
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end])
+      if (distance > maxDistance) {
+        maxDistance = distance
+        index = i
+      }
+    }
+
+    if (index !== -1 && maxDistance > tolerance) {
+      keep[index] = true
+      stack.push([start, index], [index, end])
+    }
+  }
+
+  return points.filter((_, i) => keep[i])
+}
+
+/**
+ * Build the geometry of a path object from canvas-space points. Strokes that
+ * are perfectly horizontal or vertical still get a 1px box so normalisation
+ * never divides by zero.
+ */
+export function createPathGeometry(points: PathPoint[]): Pick<CanvasObject, "x" | "y" | "width" | "height" | "points"> {
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  const width = Math.max(1, Math.max(...xs) - x)
+  const height = Math.max(1, Math.max(...ys) - y)
+
+  return {
+    x,
+    y,
+    width,
+    height,
+    points: points.map((point) => ({
+      x: Number(((point.x - x) / width).toFixed(4)),
+      y: Number(((point.y - y) / height).toFixed(4)),
+    })),
+  }
+}
+
+// Canvas-space points of a path object, ignoring rotation
+export function getPathPoints(obj: CanvasObject): PathPoint[] {
+  return (obj.points ?? []).map((point) => ({
+    x: obj.x + point.x * obj.width,
+    y: obj.y + point.y * obj.height,
+  }))
+}
+
+/**
+ * Trace a Catmull-Rom spline through the points as cubic beziers. Works on a
+ * 2D context or a Path2D; the caller strokes it.
+ */
+export function traceSmoothPath(ctx: CanvasPath, points: PathPoint[]) {
+  if (points.length === 0) return
+
+  ctx.moveTo(points[0].x, points[0].y)
+  if (points.length === 1) {
+    ctx.lineTo(points[0].x + 0.01, points[0].y)
+    return
+  }
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[i - 1] ?? points[i]
+    const p1 = points[i]
+    const p2 = points[i + 1]
+    const p3 = points[i + 2] ?? p2
+
+    ctx.bezierCurveTo(
+      p1.x + (p2.x - p0.x) / 6,
+      p1.y + (p2.y - p0.y) / 6,
+      p2.x - (p3.x - p1.x) / 6,
+      p2.y - (p3.y - p1.y) / 6,
+      p2.x,
+      p2.y,
+    )
+  }
+}
+
+// SVG `d` attribute for the same spline traceSmoothPath draws
+export function getSmoothPathData(points: PathPoint[]): string {
+  if (points.length === 0) return ""
+
+  const round = (value: number) => Number(value.toFixed(2))
+  let data = `M ${round(points[0].x)} ${round(points[0].y)}`
+  if (points.length === 1) {
+    return `${data} L ${round(points[0].x + 0.01)} ${round(points[0].y)}`
+  }
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[i - 1] ?? points[i]
+    const p1 = points[i]
+    const p2 = points[i + 1]
+    const p3 = points[i + 2] ?? p2
+
+    data += ` C ${round(p1.x + (p2.x - p0.x) / 6)} ${round(p1.y + (p2.y - p0.y) / 6)}, ${round(
+      p2.x - (p3.x - p1.x) / 6,
+    )} ${round(p2.y - (p3.y - p1.y) / 6)}, ${round(p2.x)} ${round(p2.y)}`
+  }
+
+  return data
+}
+
+/**
+ * Whether a canvas-space point is on the stroke. The point is rotated into the
+ * object's frame first, then compared against the simplified polyline, which
+ * stays within the RDP tolerance of the drawn curve.
+ */
+export function isPointOnPath(obj: CanvasObject, pos: PathPoint, threshold: number): boolean {
+  const centerX = obj.x + obj.width / 2
+  const centerY = obj.y + obj.height / 2
+  const rad = (-obj.rotation * Math.PI) / 180
+  const dx = pos.x - centerX
+  const dy = pos.y - centerY
+  const local = {
+    x: centerX + dx * Math.cos(rad) - dy * Math.sin(rad),
+    y: centerY + dx * Math.sin(rad) + dy * Math.cos(rad),
+  }
+
+  const points = getPathPoints(obj)
+  const reach = threshold + obj.stroke_width / 2
+  if (points.length === 1) {
+    return Math.hypot(local.x - points[0].x, local.y - points[0].y) <= reach
+  }
+
+  for (let i = 0; i < points.length - 1; i++) {
+    if (distanceToSegment(local, points[i], points[i + 1]) <= reach) {
+      return true
+    }
+  }
+  return false
+}
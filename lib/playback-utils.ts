@@ -0,0 +1,121 @@
+import type { CanvasObject } from "./types"
+import { applyPatches, getPatchObjectId, type ObjectPatch } from "./object-patches"
+import type { CanvasOperation, CanvasSnapshot } from "./operation-log"
+
+/**
+ * Time-travel playback of a canvas from its operation log (see
+ * lib/operation-log.ts). The timeline is a list of steps, oldest first:
+ * snapshots older than the kept log are coarse steps, then every operation
+ * after the newest snapshot the log still covers is a step of its own.
+ */
+
+export type PlaybackStep =
+  | { kind: "snapshot"; seq: number; created_at: string; objects: CanvasObject[] }
+  | { kind: "operation"; seq: number; created_at: string; created_by: string | null; patches: ObjectPatch[] }
+
+export interface PlaybackTimeline {
+  steps: PlaybackStep[]
+  // Objects at every KEYFRAME_INTERVAL-th step, filled in as steps are visited
+  keyframes: Map<number, CanvasObject[]>
+}
+
+export const PLAYBACK_SPEEDS = [1, 2, 5, 10, 25] as const
+
+// Steps per second at 1x
+export const PLAYBACK_STEPS_PER_SECOND = 4
+
+const KEYFRAME_INTERVAL = 100
+
+export function createPlaybackTimeline(snapshots: CanvasSnapshot[], operations: CanvasOperation[]): PlaybackTimeline {
+  if (snapshots.length === 0 && operations.length === 0) {
+    return { steps: [], keyframes: new Map() }
+  }
+
+  // Replay starts from the newest snapshot before the first kept operation. A log that was never
+  // compacted starts from the empty canvas; one compacted past every kept snapshot starts from the
+  // oldest snapshot that is still covered.
+  const firstSeq = operations[0]?.seq ?? Number.POSITIVE_INFINITY
+  const covering = snapshots.filter((snapshot) => snapshot.seq < firstSeq)
+  const base: PlaybackStep =
+    firstSeq === 1 && covering.length === 0
+      ? { kind: "snapshot", seq: 0, created_at: operations[0].created_at, objects: [] }
+      : toSnapshotStep(
+          covering[covering.length - 1] ?? snapshots.find((snapshot) => snapshot.seq >= firstSeq) ?? snapshots[0],
+        )
+
+  const steps: PlaybackStep[] = [
+    ...snapshots.filter((snapshot) => snapshot.seq < base.seq).map(toSnapshotStep),
+    base,
+    ...operations
+      .filter((operation) => operation.seq > base.seq)
+      .map(
+        (operation): PlaybackStep => ({
+          kind: "operation",
+          seq: operation.seq,
+          created_at: operation.created_at,
+          created_by: operation.created_by,
+          patches: operation.patches,
+        }),
+      ),
+  ]
+
+  return { steps, keyframes: new Map() }
+}
+
+function toSnapshotStep(snapshot: CanvasSnapshot): PlaybackStep {
+  return { kind: "snapshot", seq: snapshot.seq, created_at: snapshot.created_at, objects: snapshot.objects }
+}
+
+// The canvas as it was after step `index`
+export function getObjectsAtStep(timeline: PlaybackTimeline, index: number): CanvasObject[] {
+  const { steps, keyframes } = timeline
+  const target = Math.max(0, Math.min(index, steps.length - 1))
+
+  // The first step is always a snapshot, so this stops
+  let start = target
+  while (!keyframes.has(start) && steps[start].kind !== "snapshot") start--
+
+  const startStep = steps[start]
+  let objects = keyframes.get(start) ?? (startStep.kind === "snapshot" ? startStep.objects : [])
+  let pending: ObjectPatch[] = []
+  for (let i = start + 1; i <= target; i++) {
+    const step = steps[i]
+    if (step.kind === "operation") pending.push(...step.patches)
+
+    if (i % KEYFRAME_INTERVAL === 0) {
+      objects = applyPatches(objects, pending)
+      pending = []
+      keyframes.set(i, objects)
+    }
+  }
+
+  return pending.length > 0 ? applyPatches(objects, pending) : objects
+}
+
+// Objects a step created, changed or deleted; snapshots touch nothing in particular
+export function getStepObjectIds(step: PlaybackStep): string[] {
+  return step.kind === "operation" ? step.patches.map(getPatchObjectId) : []
+}
+
+// Everyone with an operation in the timeline, in order of their first edit
+export function getTimelineAuthors(timeline: PlaybackTimeline): string[] {
+  const authors = new Set<string>()
+  timeline.steps.forEach((step) => {
+    if (step.kind === "operation" && step.created_by) authors.add(step.created_by)
+  })
+  return Array.from(authors)
+}
+
+/**
+ * Indices of the steps playback visits. With no filter that is every step;
+ * filtered by authors it is the first step plus their operations, so playing
+ * jumps from one of their edits to the next while the canvas still shows
+ * everyone's work at that point.
+ */
+export function getVisibleSteps(timeline: PlaybackTimeline, authors: Set<string> | null): number[] {
+  return timeline.steps.flatMap((step, index) =>
+    !authors || index === 0 || (step.kind === "operation" && step.created_by && authors.has(step.created_by))
+      ? [index]
+      : [],
+  )
+}
@@ -0,0 +1,132 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CanvasObject } from "./types"
+
+export interface ShareLink {
+  id: string
+  canvas_id: string
+  token: string
+  created_by: string | null
+  created_at: string
+  expires_at: string | null
+  revoked_at: string | null
+}
+
+export interface SharedCanvas {
+  canvas: { id: string; name: string }
+  objects: CanvasObject[]
+  expiresAt: string | null
+}
+
+export const SHARE_LINK_EXPIRY_OPTIONS: { label: string; hours: number | null }[] = [
+  { label: "Never expires", hours: null },
+  { label: "Expires in 1 day", hours: 24 },
+  { label: "Expires in 7 days", hours: 24 * 7 },
+  { label: "Expires in 30 days", hours: 24 * 30 },
+]
+
+export function isShareLinkActive(link: Pick<ShareLink, "expires_at" | "revoked_at">, now = Date.now()): boolean {
+  if (link.revoked_at) return false
+  if (link.expires_at && new Date(link.expires_at).getTime() <= now) return false
+  return true
+}
+
+export function getShareLinkUrl(token: string): string {
+  const origin = typeof window !== "undefined" ? window.location.origin : ""
+  return `${origin}/share/${token}`
+}
+
+export async function loadShareLinks(supabase: SupabaseClient, canvasId: string): Promise<ShareLink[]> {
+  const { data, error } = await supabase
+    .from("canvas_share_links")
+    .select("*")
+    .eq("canvas_id", canvasId)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: false })
+
+  if (error) {
+    console.error("[v0] [SHARE] Error loading share links:", error)
+    return []
+  }
+
+  return (data || []).filter((link: ShareLink) => isShareLinkActive(link))
+}
+
+export async function createShareLink(
+  supabase: SupabaseClient,
+  canvasId: string,
+  userId: string,
+  expiresInHours: number | null,
+): Promise<ShareLink | null> {
+  const expiresAt = expiresInHours ? new Date(Date.now() + expiresInHours * 60 * 60 * 1000).toISOString() : null
+
+  const { data, error } = await supabase
+    .from("canvas_share_links")
+    .insert({
+      canvas_id: canvasId,
+      created_by: userId,
+      expires_at: expiresAt,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("[v0] [SHARE] Error creating share link:", error)
+    return null
+  }
+
+  console.log("[v0] [SHARE] Created share link for canvas:", canvasId)
+  return data
+}
+
+export async function revokeShareLink(supabase: SupabaseClient, linkId: string): Promise<boolean> {
+  const { error } = await supabase
+    .from("canvas_share_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", linkId)
+
+  if (error) {
+    console.error("[v0] [SHARE] Error revoking share link:", error)
+    return false
+  }
+
+  console.log("[v0] [SHARE] Revoked share link:", linkId)
+  return true
+}
+
+/**
+ * Resolves a public token to the canvas it grants access to.
+ * Must be called with a service role client: anonymous visitors have no RLS
+ * access to the share link, canvas, or object tables.
+ */
+export async function resolveShareToken(supabase: SupabaseClient, token: string): Promise<SharedCanvas | null> {
+  const { data: link, error: linkError } = await supabase
+    .from("canvas_share_links")
+    .select("*")
+    .eq("token", token)
+    .maybeSingle()
+
+  if (linkError) {
+    console.error("[v0] [SHARE] Error resolving share token:", linkError)
+    return null
+  }
+
+  if (!link || !isShareLinkActive(link)) {
+    return null
+  }
+
+  const [{ data: canvas, error: canvasError }, { data: objects, error: objectsError }] = await Promise.all([
+    supabase.from("canvases").select("id, name").eq("id", link.canvas_id).maybeSingle(),
+    supabase.from("canvas_objects").select("*").eq("canvas_id", link.canvas_id),
+  ])
+
+  if (canvasError || objectsError || !canvas) {
+    console.error("[v0] [SHARE] Error loading shared canvas:", canvasError || objectsError)
+    return null
+  }
+
+  return {
+    canvas,
+    objects: objects || [],
+    expiresAt: link.expires_at,
+  }
+}
@@ -0,0 +1,370 @@
+import type { CanvasObject } from "./types"
+import type { CanvasGuide } from "./guide-utils"
+import { getObjectBox, type SpatialRect } from "./spatial-index"
+
+/**
+ * Smart guides for dragging: the dragged selection's edges and centre snap to
+ * those of nearby objects, and to positions that space it evenly between its
+ * neighbours or repeat a gap already used in the same row or column. Ruler
+ * guides (see lib/guide-utils.ts) are snapped to like any other edge.
+ *
+ * Targets are collected once when a drag starts (see `createSnapTargets`), with
+ * their edge and centre lines sorted so each move finds the nearest line by
+ * binary search instead of comparing against every object.
+ */
+
+// How close, in screen pixels, an edge or centre has to come before it snaps
+export const SNAP_DISTANCE = 6
+
+export type SnapAxis = "x" | "y"
+
+export type SnapGuide =
+  // A line through aligned edges or centres, spanning the boxes that share it
+  | { kind: "align"; axis: SnapAxis; position: number; from: number; to: number }
+  // The gap between two boxes along `axis`, measured at `at` on the other axis. `equal` gaps repeat one another.
+  | { kind: "gap"; axis: SnapAxis; from: number; to: number; at: number; equal: boolean }
+  // The object a measurement is taken to
+  | { kind: "outline"; box: SpatialRect }
+
+interface SnapLine {
+  value: number
+  // Index into `boxes`, or null for a ruler guide
+  box: number | null
+}
+
+export interface SnapTargets {
+  boxes: SpatialRect[]
+  // Start, centre and end line of every box, sorted by value
+  lines: Record<SnapAxis, SnapLine[]>
+}
+
+export interface SnapResult {
+  dx: number
+  dy: number
+  guides: SnapGuide[]
+}
+
+// Lines this close (in canvas units) count as the same line once snapped
+const ALIGN_EPSILON = 0.01
+
+// Gaps within half a unit of each other are shown as equal, as their labels round to the same number
+const GAP_EPSILON = 0.5
+
+const GUIDE_COLOR = "#f43f5e"
+const EQUAL_GAP_COLOR = "#d946ef"
+
+function getStart(box: SpatialRect, axis: SnapAxis) {
+  return axis === "x" ? box.x : box.y
+}
+
+function getSize(box: SpatialRect, axis: SnapAxis) {
+  return axis === "x" ? box.width : box.height
+}
+
+function getEnd(box: SpatialRect, axis: SnapAxis) {
+  return getStart(box, axis) + getSize(box, axis)
+}
+
+function getLines(box: SpatialRect, axis: SnapAxis) {
+  const start = getStart(box, axis)
+  const size = getSize(box, axis)
+  return [start, start + size / 2, start + size]
+}
+
+function crossAxis(axis: SnapAxis): SnapAxis {
+  return axis === "x" ? "y" : "x"
+}
+
+function translate(box: SpatialRect, dx: number, dy: number): SpatialRect {
+  return { ...box, x: box.x + dx, y: box.y + dy }
+}
+
+// Index of the first line at or after `value`
+function lowerBound(lines: SnapLine[], value: number) {
+  let low = 0
+  let high = lines.length
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (lines[mid].value < value) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+  return low
+}
+
+// Union of the boxes of the given objects
+export function getSelectionBox(objects: CanvasObject[]): SpatialRect | null {
+  if (objects.length === 0) return null
+  const boxes = objects.map(getObjectBox)
+  const minX = Math.min(...boxes.map((box) => box.x))
+  const minY = Math.min(...boxes.map((box) => box.y))
+  const maxX = Math.max(...boxes.map((box) => box.x + box.width))
+  const maxY = Math.max(...boxes.map((box) => box.y + box.height))
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+}
+
+export function createSnapTargets(objects: CanvasObject[], guides: CanvasGuide[] = []): SnapTargets {
+  const boxes = objects.map(getObjectBox)
+  const lines = { x: [] as SnapLine[], y: [] as SnapLine[] }
+  boxes.forEach((box, index) => {
+    ;(["x", "y"] as const).forEach((axis) => {
+      getLines(box, axis).forEach((value) => lines[axis].push({ value, box: index }))
+    })
+  })
+  guides.forEach((guide) => lines[guide.axis].push({ value: guide.position, box: null }))
+  lines.x.sort((a, b) => a.value - b.value)
+  lines.y.sort((a, b) => a.value - b.value)
+  return { boxes, lines }
+}
+
+/**
+ * Boxes sharing a row (for `axis` x) or column (for y) with `box`: the nearest
+ * one on either side, and every gap between neighbouring boxes in that row.
+ */
+function getNeighbours(box: SpatialRect, targets: SnapTargets, axis: SnapAxis) {
+  const cross = crossAxis(axis)
+  const row = targets.boxes.filter(
+    (other) => getStart(other, cross) < getEnd(box, cross) && getEnd(other, cross) > getStart(box, cross),
+  )
+
+  let before: SpatialRect | null = null
+  let after: SpatialRect | null = null
+  for (const other of row) {
+    if (getEnd(other, axis) <= getStart(box, axis) && (!before || getEnd(other, axis) > getEnd(before, axis))) {
+      before = other
+    }
+    if (getStart(other, axis) >= getEnd(box, axis) && (!after || getStart(other, axis) < getStart(after, axis))) {
+      after = other
+    }
+  }
+
+  const sorted = row.sort((a, b) => getStart(a, axis) - getStart(b, axis))
+  const gaps: { from: SpatialRect; to: SpatialRect; size: number }[] = []
+  for (let i = 1; i < sorted.length; i++) {
+    // The gap the box sits in is not one to repeat
+    if (sorted[i - 1] === before && sorted[i] === after) continue
+    const size = getStart(sorted[i], axis) - getEnd(sorted[i - 1], axis)
+    if (size > 0) gaps.push({ from: sorted[i - 1], to: sorted[i], size })
+  }
+
+  return { before, after, gaps }
+}
+
+// The smallest shift along `axis` that aligns or evenly spaces the box, or 0 when nothing is within `threshold`
+function findSnapOffset(box: SpatialRect, targets: SnapTargets, axis: SnapAxis, threshold: number): number {
+  let best: number | null = null
+  const consider = (offset: number) => {
+    if (Math.abs(offset) <= threshold && (best === null || Math.abs(offset) < Math.abs(best))) best = offset
+  }
+
+  const lines = targets.lines[axis]
+  getLines(box, axis).forEach((value) => {
+    const index = lowerBound(lines, value)
+    if (index < lines.length) consider(lines[index].value - value)
+    if (index > 0) consider(lines[index - 1].value - value)
+  })
+
+  const start = getStart(box, axis)
+  const size = getSize(box, axis)
+  const { before, after, gaps } = getNeighbours(box, targets, axis)
+  if (before && after) {
+    consider((getEnd(before, axis) + getStart(after, axis) - size) / 2 - start)
+  }
+  gaps.forEach((gap) => {
+    if (before) consider(getEnd(before, axis) + gap.size - start)
+    if (after) consider(getStart(after, axis) - gap.size - size - start)
+  })
+
+  return best ?? 0
+}
+
+function getAlignGuides(box: SpatialRect, targets: SnapTargets, axis: SnapAxis): SnapGuide[] {
+  const cross = crossAxis(axis)
+  const lines = targets.lines[axis]
+  const guides: SnapGuide[] = []
+
+  getLines(box, axis).forEach((position) => {
+    let from = getStart(box, cross)
+    let to = getEnd(box, cross)
+    let matched = false
+    for (let i = lowerBound(lines, position - ALIGN_EPSILON); i < lines.length; i++) {
+      if (lines[i].value > position + ALIGN_EPSILON) break
+      const index = lines[i].box
+      // Ruler guides run across the whole canvas, so they add no extent
+      if (index !== null) {
+        from = Math.min(from, getStart(targets.boxes[index], cross))
+        to = Math.max(to, getEnd(targets.boxes[index], cross))
+      }
+      matched = true
+    }
+    if (matched) guides.push({ kind: "align", axis, position, from, to })
+  })
+
+  return guides
+}
+
+// Middle of the stretch two boxes share on the cross axis, where their gap is measured
+function getGapPosition(a: SpatialRect, b: SpatialRect, cross: SnapAxis) {
+  const from = Math.max(getStart(a, cross), getStart(b, cross))
+  const to = Math.min(getEnd(a, cross), getEnd(b, cross))
+  return (from + to) / 2
+}
+
+// Distances to the nearest box on either side; gaps that repeat each other or another gap in the row are marked
+function getGapGuides(box: SpatialRect, targets: SnapTargets, axis: SnapAxis): SnapGuide[] {
+  const cross = crossAxis(axis)
+  const { before, after, gaps } = getNeighbours(box, targets, axis)
+  const sides = [
+    before && { from: before, to: box, size: getStart(box, axis) - getEnd(before, axis) },
+    after && { from: box, to: after, size: getStart(after, axis) - getEnd(box, axis) },
+  ].filter((side): side is { from: SpatialRect; to: SpatialRect; size: number } => !!side)
+
+  const guides: SnapGuide[] = []
+  const toGuide = (gap: { from: SpatialRect; to: SpatialRect }, equal: boolean): SnapGuide => ({
+    kind: "gap",
+    axis,
+    from: getEnd(gap.from, axis),
+    to: getStart(gap.to, axis),
+    at: getGapPosition(gap.from, gap.to, cross),
+    equal,
+  })
+
+  sides.forEach((side) => {
+    const repeats = gaps.filter((gap) => Math.abs(gap.size - side.size) < GAP_EPSILON)
+    const mirrored = sides.some((other) => other !== side && Math.abs(other.size - side.size) < GAP_EPSILON)
+    guides.push(toGuide(side, repeats.length > 0 || mirrored))
+    repeats.forEach((gap) => guides.push(toGuide(gap, true)))
+  })
+
+  return guides
+}
+
+/**
+ * Where the dragged box should go: its offset from the proposed position on
+ * each axis, and the guides to draw there. `threshold` is in canvas units.
+ */
+export function snapBox(box: SpatialRect, targets: SnapTargets, threshold: number): SnapResult {
+  const dx = findSnapOffset(box, targets, "x", threshold)
+  const dy = findSnapOffset(box, targets, "y", threshold)
+  const snapped = translate(box, dx, dy)
+
+  const guides = [
+    ...getAlignGuides(snapped, targets, "x"),
+    ...getAlignGuides(snapped, targets, "y"),
+    ...getGapGuides(snapped, targets, "x"),
+    ...getGapGuides(snapped, targets, "y"),
+  ]
+  return { dx, dy, guides }
+}
+
+/**
+ * Distances from the selection to another object, shown while Alt is held:
+ * the gap on each axis where they are apart, or the inset of each edge where
+ * one overlaps the other.
+ */
+export function measureBoxes(selection: SpatialRect, target: SpatialRect): SnapGuide[] {
+  const guides: SnapGuide[] = [{ kind: "outline", box: target }]
+
+  ;(["x", "y"] as const).forEach((axis) => {
+    const cross = crossAxis(axis)
+    const overlapFrom = Math.max(getStart(selection, cross), getStart(target, cross))
+    const overlapTo = Math.min(getEnd(selection, cross), getEnd(target, cross))
+    // Measured through the shared stretch if there is one, otherwise level with the selection's centre
+    const at =
+      overlapFrom < overlapTo
+        ? (overlapFrom + overlapTo) / 2
+        : getStart(selection, cross) + getSize(selection, cross) / 2
+
+    const addGap = (from: number, to: number, edge: number) => {
+      if (to - from < ALIGN_EPSILON) return
+      guides.push({ kind: "gap", axis, from, to, at, equal: false })
+      // Extend the target's edge to the measurement when it does not reach that far
+      if (at < getStart(target, cross) || at > getEnd(target, cross)) {
+        guides.push({
+          kind: "align",
+          axis,
+          position: edge,
+          from: Math.min(at, getStart(target, cross)),
+          to: Math.max(at, getEnd(target, cross)),
+        })
+      }
+    }
+
+    if (getEnd(selection, axis) <= getStart(target, axis)) {
+      addGap(getEnd(selection, axis), getStart(target, axis), getStart(target, axis))
+    } else if (getEnd(target, axis) <= getStart(selection, axis)) {
+      addGap(getEnd(target, axis), getStart(selection, axis), getEnd(target, axis))
+    } else {
+      const starts = [getStart(selection, axis), getStart(target, axis)]
+      const ends = [getEnd(selection, axis), getEnd(target, axis)]
+      addGap(Math.min(...starts), Math.max(...starts), getStart(target, axis))
+      addGap(Math.min(...ends), Math.max(...ends), getEnd(target, axis))
+    }
+  })
+
+  return guides
+}
+
+function drawGapLabel(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, zoom: number, color: string) {
+  ctx.font = `${11 / zoom}px Arial`
+  const width = ctx.measureText(text).width + 8 / zoom
+  const height = 16 / zoom
+  ctx.fillStyle = color
+  ctx.beginPath()
+  ctx.roundRect(x - width / 2, y - height / 2, width, height, 3 / zoom)
+  ctx.fill()
+  ctx.fillStyle = "#ffffff"
+  ctx.textAlign = "center"
+  ctx.textBaseline = "middle"
+  ctx.fillText(text, x, y)
+}
+
+// Guides are drawn at a constant screen size, in canvas space
+export function drawSnapGuides(ctx: CanvasRenderingContext2D, guides: SnapGuide[], zoom: number) {
+  ctx.save()
+  ctx.lineWidth = 1 / zoom
+
+  guides.forEach((guide) => {
+    if (guide.kind === "outline") {
+      ctx.strokeStyle = GUIDE_COLOR
+      ctx.strokeRect(guide.box.x, guide.box.y, guide.box.width, guide.box.height)
+      return
+    }
+
+    if (guide.kind === "align") {
+      ctx.strokeStyle = GUIDE_COLOR
+      ctx.beginPath()
+      if (guide.axis === "x") {
+        ctx.moveTo(guide.position, guide.from)
+        ctx.lineTo(guide.position, guide.to)
+      } else {
+        ctx.moveTo(guide.from, guide.position)
+        ctx.lineTo(guide.to, guide.position)
+      }
+      ctx.stroke()
+      return
+    }
+
+    const color = guide.equal ? EQUAL_GAP_COLOR : GUIDE_COLOR
+    const tick = 4 / zoom
+    const point = (along: number, across: number): [number, number] =>
+      guide.axis === "x" ? [along, across] : [across, along]
+    ctx.strokeStyle = color
+    ctx.beginPath()
+    ctx.moveTo(...point(guide.from, guide.at))
+    ctx.lineTo(...point(guide.to, guide.at))
+    // End ticks
+    ;[guide.from, guide.to].forEach((end) => {
+      ctx.moveTo(...point(end, guide.at - tick))
+      ctx.lineTo(...point(end, guide.at + tick))
+    })
+    ctx.stroke()
+
+    const [labelX, labelY] = point((guide.from + guide.to) / 2, guide.at)
+    drawGapLabel(ctx, String(Math.round(guide.to - guide.from)), labelX, labelY, zoom, color)
+  })
+
+  ctx.restore()
+}
@@ -0,0 +1,166 @@
+import type { CanvasObject } from "./types"
+import {
+  createSpatialIndex,
+  getObjectBounds,
+  searchSpatialIndex,
+  searchSpatialIndexAt,
+  syncSpatialIndex,
+  type SpatialRect,
+} from "./spatial-index"
+
+/**
+ * Benchmark for the spatial index on large boards, run from the /benchmark
+ * page. Boards are generated from a seed so runs are comparable; each query
+ * is timed against the linear scan over every object it replaces.
+ */
+
+export const BENCHMARK_SIZES = [10_000, 50_000]
+
+const SHAPE_TYPES: CanvasObject["type"][] = ["rectangle", "circle", "triangle", "line", "text"]
+const COLORS = ["#3b82f6", "#10b981", "#f97316", "#a855f7", "#ef4444"]
+
+// Average board area per object, in canvas units squared; roughly a 150px grid
+const AREA_PER_OBJECT = 150 * 150
+
+export interface BenchmarkResult {
+  name: string
+  indexedMs: number
+  linearMs: number | null
+  // Objects returned by the indexed query, to show the two agree
+  matches: number
+}
+
+// Small deterministic PRNG (mulberry32) so every run uses the same board
+function createRandom(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function getBenchmarkBoardSize(count: number): number {
+  return Math.sqrt(count * AREA_PER_OBJECT)
+}
+
+export function generateBenchmarkObjects(count: number, canvasId = "benchmark", seed = 1): CanvasObject[] {
+  const random = createRandom(seed)
+  const boardSize = getBenchmarkBoardSize(count)
+
+  return Array.from({ length: count }, (_, i) => {
+    const type = SHAPE_TYPES[Math.floor(random() * SHAPE_TYPES.length)]
+    const color = COLORS[Math.floor(random() * COLORS.length)]
+    const width = 20 + random() * 100
+    const height = type === "line" ? (random() - 0.5) * 200 : 20 + random() * 100
+    return {
+      id: `benchmark-${i}`,
+      canvas_id: canvasId,
+      type,
+      x: random() * boardSize,
+      y: random() * boardSize,
+      width,
+      height,
+      rotation: type === "line" || random() < 0.7 ? 0 : Math.round(random() * 360),
+      fill_color: type === "text" ? "#000000" : color,
+      stroke_color: color,
+      stroke_width: type === "text" ? 0 : 2,
+      text_content: type === "text" ? `Label ${i}` : undefined,
+      font_size: type === "text" ? 16 : undefined,
+      font_family: type === "text" ? "Arial" : undefined,
+    }
+  })
+}
+
+// Median time of `runs` calls, in milliseconds
+function time(runs: number, run: (iteration: number) => void): number {
+  const samples: number[] = []
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now()
+    run(i)
+    samples.push(performance.now() - start)
+  }
+  samples.sort((a, b) => a - b)
+  return samples[Math.floor(samples.length / 2)]
+}
+
+function overlaps(a: SpatialRect, b: SpatialRect): boolean {
+  return a.x <= b.x + b.width && a.x + a.width >= b.x && a.y <= b.y + b.height && a.y + a.height >= b.y
+}
+
+/**
+ * Time index maintenance and the queries the canvas makes: viewport culling
+ * for a 1920×1080 screen at 100% and 10% zoom, click hit-testing and a
+ * marquee selection. Linear times filter every object by its bounds, which is
+ * the cheapest form of the old full scans.
+ */
+export function runSpatialBenchmark(objects: CanvasObject[]): BenchmarkResult[] {
+  const results: BenchmarkResult[] = []
+  const boardSize = getBenchmarkBoardSize(objects.length)
+  const random = createRandom(7)
+  const bounds = objects.map(getObjectBounds)
+  const linear = (rect: SpatialRect) => objects.filter((_, i) => overlaps(bounds[i], rect)).length
+
+  let index = createSpatialIndex()
+  const buildMs = time(3, () => {
+    index = createSpatialIndex()
+    syncSpatialIndex(index, objects)
+  })
+  results.push({ name: "Build index", indexedMs: buildMs, linearMs: null, matches: index.entries.size })
+
+  // A drag or a realtime broadcast replaces a few objects in a new array; the arrays are
+  // prepared up front so only the sync is timed
+  const moveObjects = (base: CanvasObject[], count: number) => {
+    const moved = new Set(Array.from({ length: count }, () => Math.floor(random() * base.length)))
+    return base.map((obj, i) => (moved.has(i) ? { ...obj, x: obj.x + 10, y: obj.y + 10 } : obj))
+  }
+  ;[1, 100].forEach((count) => {
+    const updates: CanvasObject[][] = []
+    for (let i = 0; i < 10; i++) updates.push(moveObjects(updates[i - 1] ?? objects, count))
+    const indexedMs = time(updates.length, (iteration) => syncSpatialIndex(index, updates[iteration]))
+    const name = `Sync ${count} moved object${count > 1 ? "s" : ""}`
+    results.push({ name, indexedMs, linearMs: null, matches: count })
+  })
+
+  // Queries run against the unmodified board so linear results line up
+  syncSpatialIndex(index, objects)
+
+  const viewports: { name: string; rect: SpatialRect }[] = [
+    { name: "Viewport query (100%)", rect: { x: boardSize / 2, y: boardSize / 2, width: 1920, height: 1080 } },
+    { name: "Viewport query (10%)", rect: { x: 0, y: 0, width: 19200, height: 10800 } },
+  ]
+  viewports.forEach(({ name, rect }) => {
+    let matches = 0
+    const indexedMs = time(20, () => {
+      matches = searchSpatialIndex(index, rect).length
+    })
+    results.push({ name, indexedMs, linearMs: time(20, () => linear(rect)), matches })
+  })
+
+  const points = Array.from({ length: 1000 }, () => ({ x: random() * boardSize, y: random() * boardSize }))
+  let hits = 0
+  const hitMs = time(5, () => {
+    hits = points.reduce((total, point) => total + searchSpatialIndexAt(index, point, 5).length, 0)
+  })
+  const linearHitMs = time(5, () =>
+    points.forEach((point) => linear({ x: point.x - 5, y: point.y - 5, width: 10, height: 10 })),
+  )
+  results.push({ name: "1000 click hit-tests", indexedMs: hitMs, linearMs: linearHitMs, matches: hits })
+
+  const marquee = { x: boardSize / 3, y: boardSize / 3, width: 500, height: 500 }
+  let selected = 0
+  const marqueeMs = time(20, () => {
+    selected = searchSpatialIndex(index, marquee).length
+  })
+  results.push({
+    name: "Marquee selection",
+    indexedMs: marqueeMs,
+    linearMs: time(20, () => linear(marquee)),
+    matches: selected,
+  })
+
+  console.log(`[v0] [PERF] Spatial index benchmark (${objects.length} objects):`, results)
+  return results
+}
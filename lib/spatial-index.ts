@@ -0,0 +1,266 @@
+import type { CanvasObject, PathPoint } from "./types"
+
+/**
+ * Loose quadtree over object bounds, so rendering, hit-testing and marquee or
+ * lasso selection only visit objects near the area in question rather than
+ * the whole board. Each object lives in the deepest cell that contains its
+ * centre and is at least as large as the object; cells are queried with twice
+ * their size, so objects never need to be split across cells.
+ *
+ * The index follows the `objects` array incrementally: state updates (local
+ * edits and realtime broadcasts alike) replace only the objects that changed,
+ * so syncing compares references and re-indexes just those.
+ */
+
+export interface SpatialRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+interface QuadNode {
+  // Square cell the node covers; entries may overhang it by half its size
+  x: number
+  y: number
+  size: number
+  depth: number
+  entries: SpatialEntry[]
+  children: QuadNode[] | null
+}
+
+interface SpatialEntry {
+  object: CanvasObject
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+  // Position in the indexed array, i.e. paint order
+  order: number
+  node: QuadNode
+}
+
+export interface SpatialIndex {
+  root: QuadNode
+  entries: Map<string, SpatialEntry>
+  source: CanvasObject[] | null
+}
+
+// The root cell; objects whose centre falls outside it stay in the root and are always tested
+const WORLD_SIZE = 2 ** 21
+
+// Entries a cell holds before it splits, and how deep cells go
+const NODE_CAPACITY = 16
+const MAX_DEPTH = 16
+
+// Frame names are drawn above the frame at a constant screen size; this covers them down to 10% zoom
+const FRAME_LABEL_REACH = 200
+
+export function createSpatialIndex(): SpatialIndex {
+  return {
+    root: { x: -WORLD_SIZE / 2, y: -WORLD_SIZE / 2, size: WORLD_SIZE, depth: 0, entries: [], children: null },
+    entries: new Map(),
+    source: null,
+  }
+}
+
+// Axis-aligned box around an object's geometry, rotation included
+export function getObjectBox(obj: CanvasObject): SpatialRect {
+  if (obj.rotation && obj.type !== "line" && obj.type !== "connector") {
+    const rad = (obj.rotation * Math.PI) / 180
+    const cos = Math.abs(Math.cos(rad))
+    const sin = Math.abs(Math.sin(rad))
+    const width = Math.abs(obj.width * cos) + Math.abs(obj.height * sin)
+    const height = Math.abs(obj.width * sin) + Math.abs(obj.height * cos)
+    return { x: obj.x + obj.width / 2 - width / 2, y: obj.y + obj.height / 2 - height / 2, width, height }
+  }
+
+  return {
+    x: Math.min(obj.x, obj.x + obj.width),
+    y: Math.min(obj.y, obj.y + obj.height),
+    width: Math.abs(obj.width),
+    height: Math.abs(obj.height),
+  }
+}
+
+/**
+ * Axis-aligned box around everything drawn for an object: its rotated box,
+ * half its stroke, and extras such as arrowheads, sticky note shadows and
+ * frame labels.
+ */
+export function getObjectBounds(obj: CanvasObject): SpatialRect {
+  const box = getObjectBox(obj)
+  const minX = box.x
+  let minY = box.y
+  const maxX = box.x + box.width
+  const maxY = box.y + box.height
+
+  let padding = (obj.stroke_width || 0) / 2 + 1
+  if (obj.type === "connector") padding += Math.max(8, obj.stroke_width * 3)
+  if (obj.type === "sticky") padding += 12
+  if (obj.type === "frame") minY -= FRAME_LABEL_REACH
+
+  return {
+    x: minX - padding,
+    y: minY - padding,
+    width: maxX - minX + padding * 2,
+    height: maxY - minY + padding * 2,
+  }
+}
+
+function getChildFor(node: QuadNode, entry: SpatialEntry): QuadNode | null {
+  if (!node.children) return null
+  const half = node.size / 2
+  if (entry.maxX - entry.minX > half || entry.maxY - entry.minY > half) return null
+
+  const centerX = (entry.minX + entry.maxX) / 2
+  const centerY = (entry.minY + entry.maxY) / 2
+  if (centerX < node.x || centerY < node.y || centerX >= node.x + node.size || centerY >= node.y + node.size) {
+    return null
+  }
+  return node.children[(centerX >= node.x + half ? 1 : 0) + (centerY >= node.y + half ? 2 : 0)]
+}
+
+function split(node: QuadNode) {
+  const half = node.size / 2
+  node.children = [0, 1, 2, 3].map((i) => ({
+    x: node.x + (i % 2) * half,
+    y: node.y + Math.floor(i / 2) * half,
+    size: half,
+    depth: node.depth + 1,
+    entries: [],
+    children: null,
+  }))
+
+  const entries = node.entries
+  node.entries = []
+  entries.forEach((entry) => insertEntry(node, entry))
+}
+
+function insertEntry(root: QuadNode, entry: SpatialEntry) {
+  let node = root
+  let child = getChildFor(node, entry)
+  while (child) {
+    node = child
+    child = getChildFor(node, entry)
+  }
+
+  node.entries.push(entry)
+  entry.node = node
+  if (!node.children && node.entries.length > NODE_CAPACITY && node.depth < MAX_DEPTH) {
+    split(node)
+  }
+}
+
+// Empty cells are kept; boards rarely shrink enough for them to matter
+function removeEntry(entry: SpatialEntry) {
+  const entries = entry.node.entries
+  const index = entries.indexOf(entry)
+  if (index === -1) return
+  entries[index] = entries[entries.length - 1]
+  entries.pop()
+}
+
+/**
+ * Bring the index in line with `objects` (in paint order). Objects that are
+ * the same reference as last time are skipped or just renumbered; changed
+ * ones are re-inserted when their bounds moved, and missing ones are removed.
+ */
+export function syncSpatialIndex(index: SpatialIndex, objects: CanvasObject[]) {
+  if (objects === index.source) return
+  const previous = index.source
+  index.source = objects
+  let inserted = 0
+
+  objects.forEach((object, order) => {
+    // Most of the array is usually untouched and in place
+    if (previous && previous[order] === object) return
+
+    const entry = index.entries.get(object.id)
+    if (entry && entry.object === object) {
+      entry.order = order
+      return
+    }
+
+    const bounds = getObjectBounds(object)
+    const minX = bounds.x
+    const minY = bounds.y
+    const maxX = bounds.x + bounds.width
+    const maxY = bounds.y + bounds.height
+    if (entry && entry.minX === minX && entry.minY === minY && entry.maxX === maxX && entry.maxY === maxY) {
+      entry.object = object
+      entry.order = order
+      return
+    }
+
+    if (entry) {
+      removeEntry(entry)
+    } else {
+      inserted++
+    }
+    const updated: SpatialEntry = { object, minX, minY, maxX, maxY, order, node: index.root }
+    index.entries.set(object.id, updated)
+    insertEntry(index.root, updated)
+  })
+
+  // Objects can only have been removed if the array did not grow by the number inserted
+  if (!previous || objects.length !== previous.length + inserted || index.entries.size !== objects.length) {
+    const ids = new Set(objects.map((object) => object.id))
+    index.entries.forEach((entry, id) => {
+      if (ids.has(id)) return
+      removeEntry(entry)
+      index.entries.delete(id)
+    })
+  }
+}
+
+// Objects whose bounds overlap the rectangle, in paint order
+export function searchSpatialIndex(index: SpatialIndex, rect: SpatialRect): CanvasObject[] {
+  const minX = Math.min(rect.x, rect.x + rect.width)
+  const minY = Math.min(rect.y, rect.y + rect.height)
+  const maxX = Math.max(rect.x, rect.x + rect.width)
+  const maxY = Math.max(rect.y, rect.y + rect.height)
+
+  const found: SpatialEntry[] = []
+  const stack = [index.root]
+  while (stack.length > 0) {
+    const node = stack.pop()!
+    node.entries.forEach((entry) => {
+      if (entry.minX <= maxX && entry.maxX >= minX && entry.minY <= maxY && entry.maxY >= minY) {
+        found.push(entry)
+      }
+    })
+
+    node.children?.forEach((child) => {
+      const reach = child.size / 2
+      if (
+        child.x - reach <= maxX &&
+        child.x + child.size + reach >= minX &&
+        child.y - reach <= maxY &&
+        child.y + child.size + reach >= minY
+      ) {
+        stack.push(child)
+      }
+    })
+  }
+
+  return found.sort((a, b) => a.order - b.order).map((entry) => entry.object)
+}
+
+// Objects whose bounds come within `tolerance` of a point, in paint order
+export function searchSpatialIndexAt(index: SpatialIndex, point: PathPoint, tolerance = 0): CanvasObject[] {
+  return searchSpatialIndex(index, {
+    x: point.x - tolerance,
+    y: point.y - tolerance,
+    width: tolerance * 2,
+    height: tolerance * 2,
+  })
+}
+
+export function getPathBounds(points: PathPoint[]): SpatialRect {
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
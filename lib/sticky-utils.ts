@@ -0,0 +1,217 @@
+import type { CanvasObject } from "./types"
+import { drawTextLayout, getTextSVG, layoutText, TEXT_BOX_PADDING, type TextLayout } from "./text-layout"
+
+/**
+ * Sticky notes: a coloured square whose text shrinks to fit. The text is laid
+ * out in an inner frame (the note minus its padding and author footer) with the
+ * largest font size that fits, so notes never overflow however much is typed.
+ */
+
+export const STICKY_SIZE = 200
+
+export const STICKY_PADDING = 16
+
+// Space kept at the bottom of the note for the author's name
+export const STICKY_FOOTER_HEIGHT = 18
+
+export const STICKY_MAX_FONT_SIZE = 32
+export const STICKY_MIN_FONT_SIZE = 8
+
+export const STICKY_COLORS: { name: string; value: string }[] = [
+  { name: "Yellow", value: "#fef08a" },
+  { name: "Orange", value: "#fed7aa" },
+  { name: "Pink", value: "#fbcfe8" },
+  { name: "Purple", value: "#e9d5ff" },
+  { name: "Blue", value: "#bfdbfe" },
+  { name: "Green", value: "#bbf7d0" },
+]
+
+export const DEFAULT_STICKY_COLOR = STICKY_COLORS[0].value
+
+const STICKY_TEXT_COLOR = "#1f2937"
+
+export function createStickyNote(
+  canvasId: string,
+  center: { x: number; y: number },
+  options: { text?: string; color?: string; createdBy?: string } = {},
+): CanvasObject {
+  return {
+    id: crypto.randomUUID(),
+    canvas_id: canvasId,
+    type: "sticky",
+    x: center.x - STICKY_SIZE / 2,
+    y: center.y - STICKY_SIZE / 2,
+    width: STICKY_SIZE,
+    height: STICKY_SIZE,
+    rotation: 0,
+    fill_color: options.color ?? DEFAULT_STICKY_COLOR,
+    stroke_color: STICKY_TEXT_COLOR,
+    stroke_width: 0,
+    text_content: options.text ?? "",
+    font_family: "Arial",
+    text_align: "center",
+    created_by: options.createdBy,
+  }
+}
+
+const textBoxCache = new WeakMap<CanvasObject, { box: CanvasObject; layout: TextLayout }>()
+
+/**
+ * The text object a note's text is laid out as: the inner frame of the note at
+ * the largest font size (in 2px steps) whose wrapped text still fits.
+ */
+export function getStickyTextBox(sticky: CanvasObject): { box: CanvasObject; layout: TextLayout } {
+  const cached = textBoxCache.get(sticky)
+  if (cached) return cached
+
+  const inset = STICKY_PADDING - TEXT_BOX_PADDING
+  const frame: CanvasObject = {
+    ...sticky,
+    type: "text",
+    x: sticky.x + inset,
+    y: sticky.y + inset,
+    width: Math.max(1, sticky.width - inset * 2),
+    height: Math.max(1, sticky.height - inset * 2 - STICKY_FOOTER_HEIGHT),
+    rotation: 0,
+    fill_color: sticky.stroke_color || STICKY_TEXT_COLOR,
+    text_align: sticky.text_align ?? "center",
+  }
+  const available = frame.height - TEXT_BOX_PADDING * 2
+
+  let box = { ...frame, font_size: STICKY_MIN_FONT_SIZE }
+  let layout = layoutText(box)
+  for (let size = STICKY_MAX_FONT_SIZE; size > STICKY_MIN_FONT_SIZE; size -= 2) {
+    const candidate = { ...frame, font_size: size }
+    const candidateLayout = layoutText(candidate)
+    if (candidateLayout.contentHeight <= available) {
+      box = candidate
+      layout = candidateLayout
+      break
+    }
+  }
+
+  const result = { box, layout }
+  textBoxCache.set(sticky, result)
+  return result
+}
+
+// Short label for an author: the name before any email domain
+export function formatStickyAuthor(name: string | undefined): string | null {
+  if (!name) return null
+  return name.split("@")[0]
+}
+
+/**
+ * Draw a note with its text and, when known, its author. The caller applies
+ * the object's rotation.
+ */
+export function drawStickyNote(
+  ctx: CanvasRenderingContext2D,
+  sticky: CanvasObject,
+  options: { author?: string | null; hideText?: boolean } = {},
+) {
+  ctx.save()
+  ctx.shadowColor = "rgba(15, 23, 42, 0.18)"
+  ctx.shadowBlur = 8
+  ctx.shadowOffsetY = 3
+  ctx.fillStyle = sticky.fill_color
+  ctx.fillRect(sticky.x, sticky.y, sticky.width, sticky.height)
+  ctx.restore()
+
+  if (!options.hideText) {
+    const { box, layout } = getStickyTextBox(sticky)
+    drawTextLayout(ctx, box, layout)
+  }
+
+  if (options.author) {
+    ctx.save()
+    ctx.font = "11px Arial"
+    ctx.fillStyle = "rgba(31, 41, 55, 0.6)"
+    ctx.textAlign = "left"
+    ctx.textBaseline = "bottom"
+    const maxWidth = sticky.width - STICKY_PADDING
+    ctx.fillText(options.author, sticky.x + STICKY_PADDING / 2, sticky.y + sticky.height - 6, maxWidth)
+    ctx.restore()
+  }
+}
+
+export function getStickyNoteSVG(sticky: CanvasObject): string {
+  const { box, layout } = getStickyTextBox(sticky)
+  const note = `<rect x="${sticky.x}" y="${sticky.y}" width="${sticky.width}" height="${sticky.height}"`
+  return `${note} fill="${sticky.fill_color}"/>${getTextSVG(box, layout)}`
+}
+
+export interface StickyCluster {
+  label?: string
+  stickyIds: string[]
+}
+
+const CLUSTER_NOTE_GAP = 20
+const CLUSTER_GAP = 80
+const CLUSTER_LABEL_HEIGHT = 40
+
+/**
+ * Arrange notes into labelled clusters, left to right from `origin` (the top
+ * left of the first cluster). Each cluster is a near-square grid of its notes
+ * with its label as a text object above it. Ids that are not notes are ignored.
+ */
+export function clusterStickyNotes(
+  objects: CanvasObject[],
+  clusters: StickyCluster[],
+  origin: { x: number; y: number },
+  canvasId: string,
+): CanvasObject[] {
+  const positions = new Map<string, { x: number; y: number }>()
+  const labels: CanvasObject[] = []
+  const stickies = new Map(objects.filter((obj) => obj.type === "sticky").map((obj) => [obj.id, obj]))
+  let left = origin.x
+
+  clusters.forEach((cluster) => {
+    const notes = cluster.stickyIds.map((id) => stickies.get(id)).filter((obj): obj is CanvasObject => !!obj)
+    if (notes.length === 0) return
+
+    const columns = Math.ceil(Math.sqrt(notes.length))
+    const cellWidth = Math.max(...notes.map((note) => note.width)) + CLUSTER_NOTE_GAP
+    const cellHeight = Math.max(...notes.map((note) => note.height)) + CLUSTER_NOTE_GAP
+    const top = origin.y + (cluster.label ? CLUSTER_LABEL_HEIGHT : 0)
+
+    notes.forEach((note, index) => {
+      positions.set(note.id, {
+        x: left + (index % columns) * cellWidth,
+        y: top + Math.floor(index / columns) * cellHeight,
+      })
+    })
+
+    const clusterWidth = columns * cellWidth - CLUSTER_NOTE_GAP
+    if (cluster.label) {
+      labels.push({
+        id: crypto.randomUUID(),
+        canvas_id: canvasId,
+        type: "text",
+        x: left,
+        y: origin.y,
+        width: clusterWidth,
+        height: CLUSTER_LABEL_HEIGHT,
+        rotation: 0,
+        fill_color: STICKY_TEXT_COLOR,
+        stroke_color: STICKY_TEXT_COLOR,
+        stroke_width: 0,
+        text_content: cluster.label,
+        text_runs: [{ text: cluster.label, bold: true }],
+        text_align: "left",
+        font_size: 20,
+        font_family: "Arial",
+      })
+    }
+
+    left += clusterWidth + CLUSTER_GAP
+  })
+
+  return [
+    ...objects.map((obj) => {
+      const position = positions.get(obj.id)
+      return position ? { ...obj, x: position.x, y: position.y, rotation: 0 } : obj
+    }),
+    ...labels,
+  ]
+}
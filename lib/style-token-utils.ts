@@ -0,0 +1,198 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { CanvasObject } from "./types"
+import { fitTextBox } from "./text-layout"
+
+/**
+ * Named styles shared by everyone on a canvas (`canvas_styles`, see
+ * 21-create-canvas-styles.sql): colour swatches such as "Primary/500" and text
+ * styles such as "Heading text". Objects bound to a style keep a copy of its
+ * values, so they draw and export like any other object; when the style is
+ * edited, the client making the edit restyles every bound object and the
+ * change reaches collaborators through the normal object sync.
+ */
+
+export type StyleTokenKind = "color" | "text"
+
+export interface StyleToken {
+  id: string
+  canvas_id: string
+  name: string
+  kind: StyleTokenKind
+  color: string | null // colour tokens
+  font_family: string | null // text tokens
+  font_size: number | null
+  line_height: number | null
+  created_by: string | null
+  created_at: string
+}
+
+export type StyleTokenBroadcast =
+  | { type: "style_upserted"; token: StyleToken }
+  | { type: "style_deleted"; tokenId: string }
+
+// Where a colour token is bound on an object
+export type ColorTokenSlot = "fill" | "stroke"
+
+// The fields of a token that can be edited after it is created
+export type StyleTokenUpdates = Partial<
+  Pick<StyleToken, "name" | "color" | "font_family" | "font_size" | "line_height">
+>
+
+const TOKEN_COLUMNS = ["id", "canvas_id", "name", "kind", "color", "font_family", "font_size", "line_height"] as const
+
+export async function loadStyleTokens(supabase: SupabaseClient, canvasId: string): Promise<StyleToken[]> {
+  const { data, error } = await supabase
+    .from("canvas_styles")
+    .select("*")
+    .eq("canvas_id", canvasId)
+    .order("created_at", { ascending: true })
+
+  if (error) {
+    console.error("[v0] [STYLES] Error loading styles:", error)
+    return []
+  }
+
+  return data || []
+}
+
+// The style is created with its client-side ID, so it can be used before the insert completes
+export async function createStyleToken(supabase: SupabaseClient, token: StyleToken): Promise<boolean> {
+  const row: Record<string, unknown> = { created_by: token.created_by }
+  for (const column of TOKEN_COLUMNS) row[column] = token[column]
+  const { error } = await supabase.from("canvas_styles").insert(row)
+
+  if (error) {
+    console.error("[v0] [STYLES] Error creating style:", error)
+    return false
+  }
+
+  console.log("[v0] [STYLES] Created style:", token.name)
+  return true
+}
+
+export async function updateStyleToken(
+  supabase: SupabaseClient,
+  tokenId: string,
+  updates: StyleTokenUpdates,
+): Promise<boolean> {
+  const { error } = await supabase.from("canvas_styles").update(updates).eq("id", tokenId)
+
+  if (error) {
+    console.error("[v0] [STYLES] Error updating style:", error)
+    return false
+  }
+
+  return true
+}
+
+export async function deleteStyleToken(supabase: SupabaseClient, tokenId: string): Promise<boolean> {
+  const { error } = await supabase.from("canvas_styles").delete().eq("id", tokenId)
+
+  if (error) {
+    console.error("[v0] [STYLES] Error deleting style:", error)
+    return false
+  }
+
+  console.log("[v0] [STYLES] Deleted style:", tokenId)
+  return true
+}
+
+export function applyStyleTokenBroadcast(tokens: StyleToken[], broadcast: StyleTokenBroadcast): StyleToken[] {
+  switch (broadcast.type) {
+    case "style_upserted": {
+      const index = tokens.findIndex((token) => token.id === broadcast.token.id)
+      if (index === -1) return [...tokens, broadcast.token]
+      const updated = [...tokens]
+      updated[index] = broadcast.token
+      return updated
+    }
+    case "style_deleted":
+      return tokens.filter((token) => token.id !== broadcast.tokenId)
+    default:
+      return tokens
+  }
+}
+
+// Names match case-insensitively and ignoring surrounding spaces, so "primary/500" finds "Primary/500"
+export function findStyleToken(tokens: StyleToken[], name: string): StyleToken | null {
+  const key = name.trim().toLowerCase()
+  return tokens.find((token) => token.name.trim().toLowerCase() === key) ?? null
+}
+
+/**
+ * The object updates that bind a style: a colour token sets the fill or stroke
+ * colour, a text token the font and line height of text objects. Gradient
+ * fills are cleared so the bound colour shows.
+ */
+function getStyleTokenUpdates(token: StyleToken, slot: ColorTokenSlot = "fill"): Partial<CanvasObject> {
+  if (token.kind === "text") {
+    return {
+      text_token: token.id,
+      ...(token.font_family && { font_family: token.font_family }),
+      ...(token.font_size && { font_size: token.font_size }),
+      ...(token.line_height && { line_height: token.line_height }),
+    }
+  }
+  if (!token.color) return {}
+  return slot === "stroke"
+    ? { stroke_token: token.id, stroke_color: token.color }
+    : { fill_token: token.id, fill_color: token.color, fill_gradient: null }
+}
+
+// Text styles only apply to text and sticky notes; colours apply to anything
+export function canApplyStyleToken(obj: CanvasObject, token: StyleToken): boolean {
+  return token.kind === "color" || obj.type === "text" || obj.type === "sticky"
+}
+
+export function applyStyleToken(obj: CanvasObject, token: StyleToken, slot: ColorTokenSlot = "fill"): CanvasObject {
+  if (!canApplyStyleToken(obj, token)) return obj
+  const updated = { ...obj, ...getStyleTokenUpdates(token, slot) }
+  return token.kind === "text" ? fitTextBox(updated) : updated
+}
+
+/**
+ * Objects after a style was edited: every object bound to it takes its new
+ * values. Returns the same array when nothing is bound.
+ */
+export function restyleBoundObjects(objects: CanvasObject[], token: StyleToken): CanvasObject[] {
+  let changed = false
+  const result = objects.map((obj) => {
+    let updated = obj
+    if (obj.fill_token === token.id) updated = applyStyleToken(updated, token, "fill")
+    if (obj.stroke_token === token.id) updated = applyStyleToken(updated, token, "stroke")
+    if (obj.text_token === token.id) updated = applyStyleToken(updated, token)
+    if (updated !== obj) changed = true
+    return updated
+  })
+  return changed ? result : objects
+}
+
+// Objects after a style was deleted: bound objects keep its last values but no longer follow it
+export function unbindStyleToken(objects: CanvasObject[], tokenId: string): CanvasObject[] {
+  let changed = false
+  const result = objects.map((obj) => {
+    if (obj.fill_token !== tokenId && obj.stroke_token !== tokenId && obj.text_token !== tokenId) return obj
+    changed = true
+    return {
+      ...obj,
+      ...(obj.fill_token === tokenId && { fill_token: null }),
+      ...(obj.stroke_token === tokenId && { stroke_token: null }),
+      ...(obj.text_token === tokenId && { text_token: null }),
+    }
+  })
+  return changed ? result : objects
+}
+
+/**
+ * Style edits that set a value a style provides, without binding a style,
+ * detach the object from that style; otherwise the next edit to the style
+ * would overwrite the change.
+ */
+export function detachStyleTokens(updates: Partial<CanvasObject>): Partial<CanvasObject> {
+  const detached = { ...updates }
+  if (("fill_color" in updates || "fill_gradient" in updates) && !("fill_token" in updates)) detached.fill_token = null
+  if ("stroke_color" in updates && !("stroke_token" in updates)) detached.stroke_token = null
+  const setsText = "font_family" in updates || "font_size" in updates || "line_height" in updates
+  if (setsText && !("text_token" in updates)) detached.text_token = null
+  return detached
+}
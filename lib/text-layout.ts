@@ -0,0 +1,334 @@
+import type { CanvasObject, TextAlign, TextRun } from "./types"
+
+/**
+ * Rich text for text objects. The text is a list of styled runs; boxes have a
+ * fixed width and grow in height to fit, with words wrapped greedily (words
+ * wider than the box are broken by character). Layout is measured on a shared
+ * 2D context so the canvas, the exporters and hit-testing agree on line breaks.
+ */
+
+// Inset of the text from the box edges, in canvas units
+export const TEXT_BOX_PADDING = 8
+
+export const DEFAULT_LINE_HEIGHT = 1.2
+
+// Text created before alignment existed was drawn centred
+export const DEFAULT_TEXT_ALIGN: TextAlign = "center"
+
+// Object-level text settings; like connector fields they only apply to text objects
+export const TEXT_STYLE_FIELDS = ["text_align", "line_height"] as const
+
+export type TextStyleKey = "bold" | "italic" | "underline"
+
+const STYLE_KEYS: TextStyleKey[] = ["bold", "italic", "underline"]
+
+export interface TextSegment {
+  text: string
+  style: TextRun
+  x: number
+  width: number
+}
+
+export interface TextLine {
+  segments: TextSegment[]
+  width: number
+}
+
+export interface TextLayout {
+  lines: TextLine[]
+  lineHeight: number
+  contentHeight: number
+}
+
+export function getTextRuns(obj: CanvasObject): TextRun[] {
+  return obj.text_runs && obj.text_runs.length > 0 ? obj.text_runs : [{ text: obj.text_content ?? "" }]
+}
+
+export function getPlainText(runs: TextRun[]): string {
+  return runs.map((run) => run.text).join("")
+}
+
+function sameStyle(a: TextRun, b: TextRun): boolean {
+  return STYLE_KEYS.every((key) => !!a[key] === !!b[key])
+}
+
+function styleOf(run: TextRun): TextRun {
+  const style: TextRun = { text: "" }
+  STYLE_KEYS.forEach((key) => {
+    if (run[key]) style[key] = true
+  })
+  return style
+}
+
+// Drop empty runs, merge neighbours with the same style and omit false flags
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const normalized: TextRun[] = []
+  runs.forEach((run) => {
+    if (!run.text) return
+    const previous = normalized[normalized.length - 1]
+    if (previous && sameStyle(previous, run)) {
+      previous.text += run.text
+    } else {
+      normalized.push({ ...styleOf(run), text: run.text })
+    }
+  })
+  return normalized
+}
+
+export function hasFormatting(runs: TextRun[]): boolean {
+  return runs.some((run) => STYLE_KEYS.some((key) => run[key]))
+}
+
+// Split runs so that `offset` falls on a run boundary; returns the index of the run starting there
+function splitAt(runs: TextRun[], offset: number): number {
+  let position = 0
+  for (let i = 0; i < runs.length; i++) {
+    const run = runs[i]
+    if (offset === position) return i
+    if (offset < position + run.text.length) {
+      const cut = offset - position
+      runs.splice(i, 1, { ...run, text: run.text.slice(0, cut) }, { ...run, text: run.text.slice(cut) })
+      return i + 1
+    }
+    position += run.text.length
+  }
+  return runs.length
+}
+
+export function isStyleActive(runs: TextRun[], start: number, end: number, key: TextStyleKey): boolean {
+  let position = 0
+  let covered = false
+  for (const run of runs) {
+    const runEnd = position + run.text.length
+    const overlaps = start === end ? start > position && start <= runEnd : runEnd > start && position < end
+    if (overlaps) {
+      if (!run[key]) return false
+      covered = true
+    }
+    position = runEnd
+  }
+  return covered
+}
+
+/**
+ * Toggle a style over [start, end): it is removed if the whole range already
+ * has it and applied everywhere otherwise, like a word processor.
+ */
+export function toggleRunStyle(runs: TextRun[], start: number, end: number, key: TextStyleKey): TextRun[] {
+  if (start >= end) return runs
+
+  const enable = !isStyleActive(runs, start, end, key)
+  const next = runs.map((run) => ({ ...run }))
+  const from = splitAt(next, start)
+  const to = splitAt(next, end)
+  for (let i = from; i < to; i++) {
+    next[i] = { ...next[i], [key]: enable }
+  }
+  return normalizeRuns(next)
+}
+
+// Replace [start, end) with plain `text`, taking the style of the character before the range
+export function insertText(runs: TextRun[], start: number, end: number, text: string): TextRun[] {
+  const next = runs.map((run) => ({ ...run }))
+  const from = splitAt(next, start)
+  const to = splitAt(next, end)
+  const template = next[from - 1] ?? next[to] ?? { text: "" }
+  next.splice(from, to - from, { ...styleOf(template), text })
+  return normalizeRuns(next)
+}
+
+export function getRunFont(style: TextRun, fontSize: number, fontFamily: string): string {
+  return `${style.italic ? "italic " : ""}${style.bold ? "bold " : ""}${fontSize}px ${fontFamily}`
+}
+
+let measureContext: CanvasRenderingContext2D | null = null
+const widthCache = new Map<string, number>()
+const MAX_CACHED_WIDTHS = 5000
+
+function measureWidth(text: string, font: string): number {
+  const key = `${font}|${text}`
+  const cached = widthCache.get(key)
+  if (cached !== undefined) return cached
+
+  if (!measureContext && typeof document !== "undefined") {
+    measureContext = document.createElement("canvas").getContext("2d")
+  }
+  if (!measureContext) {
+    // No DOM (SSR): rough estimate so callers still get a layout
+    return text.length * Number.parseFloat(font.replace(/^.*?(\d+(\.\d+)?)px.*$/, "$1")) * 0.55
+  }
+
+  measureContext.font = font
+  const width = measureContext.measureText(text).width
+  if (widthCache.size >= MAX_CACHED_WIDTHS) widthCache.clear()
+  widthCache.set(key, width)
+  return width
+}
+
+const layoutCache = new WeakMap<CanvasObject, TextLayout>()
+
+/**
+ * Break a text object into lines for its box width. Results are cached per
+ * object version, so unchanged text is not re-measured every frame; pass
+ * `runs`/`width` to lay out a draft instead (e.g. while resizing or editing).
+ */
+export function layoutText(obj: CanvasObject, runs?: TextRun[], width?: number): TextLayout {
+  const useCache = runs === undefined && width === undefined
+  const cached = useCache ? layoutCache.get(obj) : undefined
+  if (cached) return cached
+
+  const fontSize = obj.font_size || 16
+  const fontFamily = obj.font_family || "Arial"
+  const lineHeight = fontSize * (obj.line_height || DEFAULT_LINE_HEIGHT)
+  const maxWidth = Math.max(1, (width ?? obj.width) - TEXT_BOX_PADDING * 2)
+
+  const lines: TextLine[] = []
+  let current: TextLine = { segments: [], width: 0 }
+  let wrapped = false
+
+  const pushLine = (isWrap: boolean) => {
+    // Trailing spaces do not count towards alignment
+    const last = current.segments[current.segments.length - 1]
+    if (last && /\s$/.test(last.text)) {
+      const trimmed = last.text.replace(/\s+$/, "")
+      const trimmedWidth = measureWidth(trimmed, getRunFont(last.style, fontSize, fontFamily))
+      current.width = last.x + trimmedWidth
+    }
+    lines.push(current)
+    current = { segments: [], width: 0 }
+    wrapped = isWrap
+  }
+
+  const append = (text: string, style: TextRun, textWidth: number) => {
+    const last = current.segments[current.segments.length - 1]
+    if (last && sameStyle(last.style, style)) {
+      last.text += text
+      last.width += textWidth
+    } else {
+      current.segments.push({ text, style, x: current.width, width: textWidth })
+    }
+    current.width += textWidth
+  }
+
+  ;(runs ?? getTextRuns(obj)).forEach((run) => {
+    const style = styleOf(run)
+    const font = getRunFont(style, fontSize, fontFamily)
+    const tokens = run.text.match(/\n| +|[^ \n]+/g) ?? []
+
+    tokens.forEach((token) => {
+      if (token === "\n") {
+        pushLine(false)
+        return
+      }
+
+      const tokenWidth = measureWidth(token, font)
+      if (token.startsWith(" ")) {
+        // Spaces where a line wrapped are swallowed
+        if (!(wrapped && current.segments.length === 0)) append(token, style, tokenWidth)
+        return
+      }
+
+      if (current.width + tokenWidth > maxWidth && current.segments.some((segment) => segment.text.trim())) {
+        pushLine(true)
+      }
+
+      if (tokenWidth <= maxWidth) {
+        append(token, style, tokenWidth)
+        return
+      }
+
+      // A single word wider than the box: break it by character
+      let chunk = ""
+      for (const char of token) {
+        const chunkWidth = measureWidth(chunk + char, font)
+        if (chunk && current.width + chunkWidth > maxWidth) {
+          append(chunk, style, measureWidth(chunk, font))
+          pushLine(true)
+          chunk = char
+        } else {
+          chunk += char
+        }
+      }
+      if (chunk) append(chunk, style, measureWidth(chunk, font))
+    })
+  })
+  lines.push(current)
+
+  const layout = { lines, lineHeight, contentHeight: lines.length * lineHeight }
+  if (useCache) layoutCache.set(obj, layout)
+  return layout
+}
+
+// Box height that fits the laid out text
+export function getTextBoxHeight(layout: TextLayout): number {
+  return layout.contentHeight + TEXT_BOX_PADDING * 2
+}
+
+// Re-fit a text box's height after a change that affects wrapping
+export function fitTextBox(obj: CanvasObject): CanvasObject {
+  if (obj.type !== "text") return obj
+  const height = getTextBoxHeight(layoutText(obj))
+  return Math.abs(height - obj.height) < 0.5 ? obj : { ...obj, height }
+}
+
+function getLineX(obj: CanvasObject, line: TextLine): number {
+  const align = obj.text_align ?? DEFAULT_TEXT_ALIGN
+  if (align === "left") return obj.x + TEXT_BOX_PADDING
+  if (align === "right") return obj.x + obj.width - TEXT_BOX_PADDING - line.width
+  return obj.x + (obj.width - line.width) / 2
+}
+
+// Text sits centred vertically when the box is taller than its content (older, measured boxes)
+function getTextTop(obj: CanvasObject, layout: TextLayout): number {
+  return obj.y + Math.max(TEXT_BOX_PADDING, (obj.height - layout.contentHeight) / 2)
+}
+
+export function drawTextLayout(ctx: CanvasRenderingContext2D, obj: CanvasObject, layout: TextLayout = layoutText(obj)) {
+  const fontSize = obj.font_size || 16
+  const fontFamily = obj.font_family || "Arial"
+  const top = getTextTop(obj, layout)
+
+  ctx.fillStyle = obj.fill_color
+  ctx.textBaseline = "middle"
+  ctx.textAlign = "left"
+
+  layout.lines.forEach((line, index) => {
+    const lineX = getLineX(obj, line)
+    const centerY = top + index * layout.lineHeight + layout.lineHeight / 2
+
+    line.segments.forEach((segment) => {
+      ctx.font = getRunFont(segment.style, fontSize, fontFamily)
+      ctx.fillText(segment.text, lineX + segment.x, centerY)
+      if (segment.style.underline) {
+        ctx.fillRect(lineX + segment.x, centerY + fontSize * 0.42, segment.width, Math.max(1, fontSize / 14))
+      }
+    })
+  })
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+export function getTextSVG(obj: CanvasObject, layout: TextLayout = layoutText(obj)): string {
+  const top = getTextTop(obj, layout)
+  const spans = layout.lines.flatMap((line, index) => {
+    const lineX = getLineX(obj, line)
+    const centerY = top + index * layout.lineHeight + layout.lineHeight / 2
+    return line.segments.map((segment) => {
+      const attributes = [
+        `x="${lineX + segment.x}"`,
+        `y="${centerY}"`,
+        segment.style.bold ? `font-weight="bold"` : "",
+        segment.style.italic ? `font-style="italic"` : "",
+        segment.style.underline ? `text-decoration="underline"` : "",
+      ]
+        .filter(Boolean)
+        .join(" ")
+      return `<tspan ${attributes}>${escapeXml(segment.text)}</tspan>`
+    })
+  })
+
+  const font = `font-size="${obj.font_size || 16}" font-family="${obj.font_family || "Arial"}"`
+  return `<text ${font} fill="${obj.fill_color}" dominant-baseline="middle" xml:space="preserve">${spans.join("")}</text>`
+}
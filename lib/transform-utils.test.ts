@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+import type { CanvasObject } from "./types"
+import { evaluateNumericInput, transformObjects } from "./transform-utils"
+
+function createObject(overrides: Partial<CanvasObject>): CanvasObject {
+  return {
+    id: "object",
+    canvas_id: "canvas",
+    type: "rectangle",
+    x: 0,
+    y: 0,
+    width: 100,
+    height: 100,
+    rotation: 0,
+    fill_color: "#3b82f6",
+    stroke_color: "#1e40af",
+    stroke_width: 2,
+    ...overrides,
+  }
+}
+
+function findObject(objects: CanvasObject[] | null, id: string): CanvasObject | undefined {
+  return objects?.find((obj) => obj.id === id)
+}
+
+describe("evaluateNumericInput", () => {
+  it("sets absolute values", () => {
+    expect(evaluateNumericInput("120", 100)).toBe(120)
+    expect(evaluateNumericInput("40*3", 100)).toBe(120)
+    expect(evaluateNumericInput("(1+2)*3", 100)).toBe(9)
+    expect(evaluateNumericInput("(-20)", 100)).toBe(-20)
+    expect(evaluateNumericInput("0-20", 100)).toBe(-20)
+  })
+
+  it("applies an entry starting with an operator to the current value", () => {
+    expect(evaluateNumericInput("+20", 100)).toBe(120)
+    expect(evaluateNumericInput("-20", 100)).toBe(80)
+    expect(evaluateNumericInput("*2", 100)).toBe(200)
+    expect(evaluateNumericInput("/4", 100)).toBe(25)
+    expect(evaluateNumericInput("--20", 100)).toBe(120)
+  })
+
+  it("accepts compound operators as relative entries too", () => {
+    expect(evaluateNumericInput("+=20", 100)).toBe(120)
+    expect(evaluateNumericInput("-=20", 100)).toBe(80)
+    expect(evaluateNumericInput("*=2", 100)).toBe(200)
+  })
+
+  it("works out the rest of a relative entry before applying it", () => {
+    expect(evaluateNumericInput("*2+1", 100)).toBe(300)
+  })
+
+  it("accepts exponents", () => {
+    expect(evaluateNumericInput("2e3", 0)).toBe(2000)
+    expect(evaluateNumericInput("1.5E-1", 0)).toBe(0.15)
+    expect(evaluateNumericInput("+1e2", 5)).toBe(105)
+  })
+
+  it("rejects malformed and non-finite entries", () => {
+    expect(evaluateNumericInput("", 100)).toBeNull()
+    expect(evaluateNumericInput("abc", 100)).toBeNull()
+    expect(evaluateNumericInput("2*", 100)).toBeNull()
+    expect(evaluateNumericInput("+", 100)).toBeNull()
+    expect(evaluateNumericInput("+=", 100)).toBeNull()
+    expect(evaluateNumericInput("1/0", 100)).toBeNull()
+    expect(evaluateNumericInput("/0", 100)).toBeNull()
+  })
+})
+
+describe("transformObjects", () => {
+  it("moves each selected object by a relative entry", () => {
+    const objects = [createObject({ id: "a", x: 0 }), createObject({ id: "b", x: 50 })]
+    const result = transformObjects(objects, ["a", "b"], "x", "+20", false)
+    expect(findObject(result, "a")?.x).toBe(20)
+    expect(findObject(result, "b")?.x).toBe(70)
+  })
+
+  it("returns null for an invalid entry", () => {
+    const objects = [createObject({ id: "a" })]
+    expect(transformObjects(objects, ["a"], "x", "oops", false)).toBeNull()
+  })
+
+  it("moves a selected child of a selected frame only once", () => {
+    const objects = [
+      createObject({ id: "frame", type: "frame", x: 0, width: 400, height: 400 }),
+      createObject({ id: "child", x: 10, frame_id: "frame" }),
+    ]
+    const result = transformObjects(objects, ["frame", "child"], "x", "+20", false)
+    expect(findObject(result, "frame")?.x).toBe(20)
+    expect(findObject(result, "child")?.x).toBe(30)
+  })
+
+  it("still resizes a selected child of a selected frame, which frames do not scale", () => {
+    const objects = [
+      createObject({ id: "frame", type: "frame", width: 400, height: 400 }),
+      createObject({ id: "child", x: 10, frame_id: "frame" }),
+    ]
+    const result = transformObjects(objects, ["frame", "child"], "width", "*2", false)
+    expect(findObject(result, "frame")?.width).toBe(800)
+    expect(findObject(result, "child")?.width).toBe(200)
+  })
+
+  it("moves selected descendants of a selected group only once", () => {
+    const objects = [
+      createObject({ id: "outer", type: "group", x: 0, width: 200, height: 100, children: ["inner"] }),
+      createObject({ id: "inner", type: "group", x: 0, width: 200, height: 100, children: ["leaf"], parent_group: "outer" }),
+      createObject({ id: "leaf", x: 10, parent_group: "inner" }),
+    ]
+    const result = transformObjects(objects, ["outer", "leaf"], "x", "+20", false)
+    expect(findObject(result, "outer")?.x).toBe(20)
+    expect(findObject(result, "inner")?.x).toBe(20)
+    expect(findObject(result, "leaf")?.x).toBe(30)
+  })
+})
@@ -0,0 +1,197 @@
+import type { CanvasObject } from "./types"
+import { transformGroup } from "./group-utils"
+import { fitTextBox } from "./text-layout"
+
+/**
+ * Numeric edits from the transform inspector. Fields take plain numbers or
+ * arithmetic ("120", "40*3", "2e3"), which set the value. An entry starting
+ * with an operator applies to each object's current value instead: "+20"
+ * moves every selected object 20 units, "-20" moves it back, and "*2" doubles
+ * each one's size.
+ */
+
+export type TransformField = "x" | "y" | "width" | "height" | "rotation"
+
+export const TRANSFORM_FIELDS: { field: TransformField; label: string }[] = [
+  { field: "x", label: "X" },
+  { field: "y", label: "Y" },
+  { field: "width", label: "W" },
+  { field: "height", label: "H" },
+  { field: "rotation", label: "R" },
+]
+
+// Smallest width or height the inspector sets on a shape
+const MIN_TRANSFORM_SIZE = 1
+
+type Token = number | "+" | "-" | "*" | "/" | "(" | ")"
+
+function tokenize(input: string): Token[] | null {
+  const pattern = /\s*(?:((?:\d+(?:\.\d*)?|\.\d+)(?:e[-+]?\d+)?)|([-+*/()]))/iy
+  const tokens: Token[] = []
+  let index = 0
+  while (index < input.length) {
+    pattern.lastIndex = index
+    const match = pattern.exec(input)
+    if (!match) return input.slice(index).trim() === "" ? tokens : null
+    tokens.push(match[1] !== undefined ? Number(match[1]) : (match[2] as Token))
+    index = pattern.lastIndex
+  }
+  return tokens
+}
+
+// Recursive descent over sums, products and (signed) factors; NaN marks a malformed expression
+function evaluateTokens(tokens: Token[]): number | null {
+  let position = 0
+
+  const parseFactor = (): number => {
+    const token = tokens[position++]
+    if (typeof token === "number") return token
+    if (token === "-") return -parseFactor()
+    if (token === "+") return parseFactor()
+    if (token === "(") {
+      const value = parseSum()
+      return tokens[position++] === ")" ? value : NaN
+    }
+    return NaN
+  }
+
+  const parseProduct = (): number => {
+    let value = parseFactor()
+    while (tokens[position] === "*" || tokens[position] === "/") {
+      const operator = tokens[position++]
+      const right = parseFactor()
+      value = operator === "*" ? value * right : value / right
+    }
+    return value
+  }
+
+  const parseSum = (): number => {
+    let value = parseProduct()
+    while (tokens[position] === "+" || tokens[position] === "-") {
+      const operator = tokens[position++]
+      const right = parseProduct()
+      value = operator === "+" ? value + right : value - right
+    }
+    return value
+  }
+
+  const value = parseSum()
+  return position === tokens.length && Number.isFinite(value) ? value : null
+}
+
+// Prefix of a relative entry: the operator it applies to the current value, optionally followed by "="
+const RELATIVE_PREFIX = /^\s*([-+*/])=?/
+
+/**
+ * The value an inspector entry resolves to for an object currently at
+ * `current`, or null if it is not a valid expression. An entry starting with
+ * an operator is relative: "+20", "-20", "*2" and "/2" apply the rest of the
+ * entry to the current value, and so do their compound forms "+=20" and so on.
+ * Any other entry is absolute; a negative value is entered as "0-20" or "(-20)".
+ */
+export function evaluateNumericInput(input: string, current: number): number | null {
+  const relative = RELATIVE_PREFIX.exec(input)
+  const tokens = tokenize((relative ? input.slice(relative[0].length) : input).trim())
+  if (!tokens || tokens.length === 0) return null
+
+  // The rest of the entry is worked out first, so "*2+1" triples the current value
+  return evaluateTokens(relative ? [current, relative[1] as Token, "(", ...tokens, ")"] : tokens)
+}
+
+// Connectors follow the shapes they join, so they have no transform of their own
+export function canTransform(obj: CanvasObject): boolean {
+  return obj.type !== "connector"
+}
+
+export function formatTransformValue(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+// The field's shared value across the objects, "mixed" when they differ
+export function getTransformValue(objects: CanvasObject[], field: TransformField): number | "mixed" | null {
+  const values = objects.filter(canTransform).map((obj) => Math.round(obj[field] * 100) / 100)
+  if (values.length === 0) return null
+  return values.every((value) => value === values[0]) ? values[0] : "mixed"
+}
+
+// Images and sticky notes always keep their proportions, as they do when resized by a handle
+export function keepsAspectRatio(obj: CanvasObject, lockAspectRatio: boolean): boolean {
+  return lockAspectRatio || obj.type === "image" || obj.type === "sticky"
+}
+
+function getTransformed(obj: CanvasObject, field: TransformField, value: number, lockAspectRatio: boolean) {
+  if (field === "rotation") return { ...obj, rotation: ((value % 360) + 360) % 360 }
+  if (field === "x" || field === "y") return { ...obj, [field]: value }
+
+  // Lines are stored as a start point and an offset, which may be negative
+  const size = obj.type === "line" ? value : Math.max(MIN_TRANSFORM_SIZE, value)
+  const other = field === "width" ? "height" : "width"
+  const next = { ...obj, [field]: size }
+  if (keepsAspectRatio(obj, lockAspectRatio) && obj[field] !== 0) {
+    next[other] = obj[other] * (size / obj[field])
+  }
+  // Text boxes are as tall as their wrapped text
+  return fitTextBox(next)
+}
+
+// Whether a transform of the selection reaches the object through a selected group it is in or, for
+// moves, the selected frame it belongs to; transforming it again would apply the change twice
+function isCarriedBySelection(
+  obj: CanvasObject,
+  field: TransformField,
+  selected: Set<string>,
+  objectsById: Map<string, CanvasObject>,
+): boolean {
+  if ((field === "x" || field === "y") && obj.frame_id && selected.has(obj.frame_id)) return true
+
+  const seen = new Set<string>()
+  let parentId = obj.parent_group
+  while (parentId && !seen.has(parentId)) {
+    if (selected.has(parentId)) return true
+    seen.add(parentId)
+    parentId = objectsById.get(parentId)?.parent_group
+  }
+  return false
+}
+
+/**
+ * Applies an inspector entry to every selected object, returning the updated
+ * objects or null when the entry is not a number. Groups carry their
+ * descendants along and frames move the objects inside them, as they do when
+ * dragged; selected objects they carry are not transformed a second time.
+ */
+export function transformObjects(
+  objects: CanvasObject[],
+  selectedIds: string[],
+  field: TransformField,
+  input: string,
+  lockAspectRatio: boolean,
+): CanvasObject[] | null {
+  const selected = new Set(selectedIds)
+  const objectsById = new Map(objects.map((obj) => [obj.id, obj]))
+  let result = objects
+  for (const id of selectedIds) {
+    const obj = result.find((candidate) => candidate.id === id)
+    if (!obj || !canTransform(obj) || isCarriedBySelection(obj, field, selected, objectsById)) continue
+
+    const value = evaluateNumericInput(input, obj[field])
+    if (value === null) return null
+
+    const next = getTransformed(obj, field, value, lockAspectRatio)
+    if (obj.type === "group") {
+      result = transformGroup(obj, next, result)
+      continue
+    }
+
+    const dx = next.x - obj.x
+    const dy = next.y - obj.y
+    result = result.map((candidate) => {
+      if (candidate.id === id) return next
+      if (obj.type === "frame" && candidate.frame_id === id && (dx !== 0 || dy !== 0)) {
+        return { ...candidate, x: candidate.x + dx, y: candidate.y + dy }
+      }
+      return candidate
+    })
+  }
+  return result
+}
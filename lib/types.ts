@@ -1,7 +1,86 @@
+export interface PathPoint {
+  x: number
+  y: number
+}
+
+export type ArrowheadStyle = "none" | "arrow" | "triangle" | "circle"
+
+export type ConnectorRoute = "straight" | "elbow"
+
+// Attaches a connector end to another object. The anchor is normalised to
+// 0..1 of the target's box, so it follows the target when it moves or resizes.
+export interface ConnectorBinding {
+  object_id: string
+  anchor: PathPoint
+}
+
+// An anchor of a vector path. Handles are the control points of the curves
+// either side of the node, normalised to 0..1 of the object's box like the node.
+export interface VectorNode {
+  x: number
+  y: number
+  in?: PathPoint | null
+  out?: PathPoint | null
+  smooth?: boolean // handles stay in line when one is dragged
+}
+
+export interface VectorContour {
+  nodes: VectorNode[]
+  closed: boolean
+}
+
+export type TextAlign = "left" | "center" | "right"
+
+// A span of text sharing one style. A text object's runs concatenate to its text_content.
+export interface TextRun {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+}
+
+// A colour at `offset` (0..1) along a gradient
+export interface GradientStop {
+  offset: number
+  color: string
+}
+
+// Linear gradients run across the object's box at `angle` degrees (0 is left to right, 90 top to bottom);
+// radial gradients spread from its centre. See lib/paint-utils.ts
+export interface Gradient {
+  type: "linear" | "radial"
+  angle: number
+  stops: GradientStop[]
+}
+
+export type StrokeDash = "solid" | "dashed" | "dotted"
+
+// Offsets and blur are in canvas units; `opacity` applies to `color`
+export interface Shadow {
+  type: "drop" | "inner"
+  x: number
+  y: number
+  blur: number
+  color: string
+  opacity: number
+}
+
 export interface CanvasObject {
   id: string
   canvas_id: string
-  type: "rectangle" | "circle" | "triangle" | "line" | "text" | "group" // Added "group" type
+  type:
+    | "rectangle"
+    | "circle"
+    | "triangle"
+    | "line"
+    | "text"
+    | "group"
+    | "path"
+    | "connector"
+    | "image"
+    | "sticky"
+    | "frame"
+    | "vector" // Added "group" type
   x: number
   y: number
   width: number
@@ -13,6 +92,9 @@ export interface CanvasObject {
   text_content?: string
   font_size?: number
   font_family?: string
+  text_runs?: TextRun[] | null // styled ranges of text_content; null when the text is unformatted
+  text_align?: TextAlign
+  line_height?: number // multiple of font_size
   created_by?: string
   created_at?: string
   updated_at?: string
@@ -21,8 +103,26 @@ export interface CanvasObject {
   locked?: boolean // lock to prevent editing
   shape?: "rectangle" | "circle" | "triangle" | "line" // shape type for non-text objects
   content?: string // text content for text objects
-  children?: string[] // IDs of child objects in a group
-  parent_group?: string // ID of parent group if this object is in a group
+  children?: string[] // IDs of the direct children of a group, which may be groups themselves
+  parent_group?: string | null // ID of parent group if this object is in a group (see lib/group-utils.ts)
+  contours?: VectorContour[] | null // bezier contours of vector objects (see lib/vector-utils.ts)
+  points?: PathPoint[] // freehand stroke points for path objects, normalised to 0..1 of width/height
+  start_binding?: ConnectorBinding | null // connector start attachment; unbound ends sit at (x, y)
+  end_binding?: ConnectorBinding | null // connector end attachment; unbound ends sit at (x + width, y + height)
+  route?: ConnectorRoute
+  start_arrowhead?: ArrowheadStyle
+  end_arrowhead?: ArrowheadStyle
+  image_url?: string // uploaded file for image objects (see lib/image-utils.ts)
+  name?: string | null // frame title shown above the frame and in the layers panel
+  frame_id?: string | null // ID of the frame this object belongs to (see lib/frame-utils.ts)
+  opacity?: number | null // 0..1 for the whole object; null is fully opaque
+  fill_gradient?: Gradient | null // replaces fill_color when set
+  stroke_dash?: StrokeDash | null // null is solid
+  corner_radius?: number | null // rectangles only
+  shadows?: Shadow[] | null // drawn in order; drop shadows behind the object, inner shadows inside its fill
+  fill_token?: string | null // shared styles the object follows (see lib/style-token-utils.ts)
+  stroke_token?: string | null
+  text_token?: string | null
 }
 
 export interface UserPresence {
@@ -43,10 +143,16 @@ export interface CanvasState {
   zoom: number
 }
 
+// One invertible change to a single object. Creates and deletes keep a
+// snapshot of the object and its stacking index so they can be re-inserted.
+export type HistoryOperation =
+  | { kind: "create"; object: CanvasObject; index: number }
+  | { kind: "delete"; object: CanvasObject; index: number }
+  | { kind: "update"; objectId: string; before: Partial<CanvasObject>; after: Partial<CanvasObject> }
+
 export interface HistoryCommand {
   type: "create" | "update" | "delete" | "restore"
   objectIds: string[]
-  beforeState?: CanvasObject[]
-  afterState?: CanvasObject[]
+  operations: HistoryOperation[]
   timestamp: number
 }
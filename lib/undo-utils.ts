@@ -0,0 +1,215 @@
+import type { CanvasObject, HistoryCommand, HistoryOperation } from "./types"
+import { diffFields, valuesEqual } from "./crdt-utils"
+
+type UpdateOperation = Extract<HistoryOperation, { kind: "update" }>
+
+/**
+ * Operation-based undo. Commands record only what the local user changed, as
+ * per-object operations, and are inverted against the *current* canvas, so
+ * undo never restores a whole-canvas snapshot over teammates' edits.
+ */
+
+// Consecutive updates to the same properties within this window (e.g. the
+// mousemove stream of a drag) collapse into one undo step
+export const HISTORY_MERGE_WINDOW_MS = 500
+
+export type HistoryDirection = "undo" | "redo"
+
+export interface HistoryApplyResult {
+  objects: CanvasObject[]
+  // Rebased operations to push onto the opposite stack
+  operations: HistoryOperation[]
+  applied: number
+  skipped: number
+}
+
+function fieldValue(object: CanvasObject, field: string): unknown {
+  return (object as unknown as Record<string, unknown>)[field]
+}
+
+export function buildHistoryOperations(before: CanvasObject[], after: CanvasObject[]): HistoryOperation[] {
+  const beforeById = new Map(before.map((object) => [object.id, object]))
+  const afterIds = new Set(after.map((object) => object.id))
+  const operations: HistoryOperation[] = []
+
+  after.forEach((object, index) => {
+    const previous = beforeById.get(object.id)
+    if (!previous) {
+      operations.push({ kind: "create", object, index })
+      return
+    }
+
+    const changes = diffFields(previous, object)
+    const fields = Object.keys(changes)
+    if (fields.length > 0) {
+      operations.push({
+        kind: "update",
+        objectId: object.id,
+        before: Object.fromEntries(fields.map((field) => [field, fieldValue(previous, field) ?? null])),
+        after: changes,
+      })
+    }
+  })
+
+  before.forEach((object, index) => {
+    if (!afterIds.has(object.id)) {
+      operations.push({ kind: "delete", object, index })
+    }
+  })
+
+  return operations
+}
+
+export function getCommandType(operations: HistoryOperation[]): HistoryCommand["type"] {
+  if (operations.every((operation) => operation.kind === "create")) return "create"
+  if (operations.every((operation) => operation.kind === "delete")) return "delete"
+  return "update"
+}
+
+export function getOperationObjectId(operation: HistoryOperation): string {
+  return operation.kind === "update" ? operation.objectId : operation.object.id
+}
+
+function insertAt(objects: CanvasObject[], object: CanvasObject, index: number): CanvasObject[] {
+  const next = [...objects]
+  next.splice(Math.min(index, next.length), 0, object)
+  return next
+}
+
+/**
+ * Apply a command's operations in the given direction against the current
+ * objects. Anything a teammate changed since is skipped rather than
+ * overwritten: a property whose value no longer matches what this user left
+ * it at, an object that was deleted remotely, or an id that already exists.
+ */
+export function applyHistoryOperations(
+  objects: CanvasObject[],
+  operations: HistoryOperation[],
+  direction: HistoryDirection,
+): HistoryApplyResult {
+  let current = objects
+  const rebased: HistoryOperation[] = []
+  let applied = 0
+  let skipped = 0
+
+  // Undo walks operations backwards so re-inserted objects land at their old indexes
+  const ordered = direction === "undo" ? [...operations].reverse() : operations
+
+  ordered.forEach((operation) => {
+    const objectId = getOperationObjectId(operation)
+    const index = current.findIndex((object) => object.id === objectId)
+    const existing = index >= 0 ? current[index] : undefined
+
+    const removes =
+      (operation.kind === "create" && direction === "undo") || (operation.kind === "delete" && direction === "redo")
+
+    if (operation.kind !== "update" && removes) {
+      if (!existing) {
+        skipped++
+        return
+      }
+      current = current.filter((object) => object.id !== objectId)
+      // Keep the latest version so the reverse step restores teammates' edits too
+      rebased.push({ ...operation, object: existing, index })
+      applied++
+      return
+    }
+
+    if (operation.kind !== "update") {
+      if (existing) {
+        skipped++
+        return
+      }
+      current = insertAt(current, operation.object, operation.index)
+      rebased.push(operation)
+      applied++
+      return
+    }
+
+    if (!existing) {
+      skipped++
+      return
+    }
+
+    const from = direction === "undo" ? operation.after : operation.before
+    const to = direction === "undo" ? operation.before : operation.after
+    const changes: Record<string, unknown> = {}
+
+    Object.keys(to).forEach((field) => {
+      if (valuesEqual(fieldValue(existing, field), (from as Record<string, unknown>)[field])) {
+        changes[field] = (to as Record<string, unknown>)[field]
+      } else {
+        skipped++
+      }
+    })
+
+    if (Object.keys(changes).length === 0) return
+
+    const fields = Object.keys(changes)
+    const pick = (values: Partial<CanvasObject>) =>
+      Object.fromEntries(fields.map((field) => [field, (values as Record<string, unknown>)[field]]))
+
+    current = current.map((object) => (object.id === objectId ? ({ ...object, ...changes } as CanvasObject) : object))
+    rebased.push({ ...operation, before: pick(operation.before), after: pick(operation.after) })
+    applied++
+  })
+
+  return {
+    objects: current,
+    operations: direction === "undo" ? rebased.reverse() : rebased,
+    applied,
+    skipped,
+  }
+}
+
+function sameKeys(a: Partial<CanvasObject>, b: Partial<CanvasObject>): boolean {
+  const aKeys = Object.keys(a)
+  const bKeys = Object.keys(b)
+  return aKeys.length === bKeys.length && aKeys.every((key) => key in b)
+}
+
+/**
+ * Fold `next` into `previous` when they form one user gesture. Returns null if
+ * they should stay separate undo steps.
+ */
+export function mergeHistoryCommands(previous: HistoryCommand, next: HistoryCommand): HistoryCommand | null {
+  const nextUpdates = next.operations.filter((operation): operation is UpdateOperation => operation.kind === "update")
+  if (next.type !== "update" || nextUpdates.length !== next.operations.length) return null
+
+  // Typing into a freshly created empty text box belongs to its creation
+  if (previous.type === "create") {
+    const created = new Map(
+      previous.operations.flatMap((operation) =>
+        operation.kind === "create" && operation.object.type === "text" && !operation.object.text_content?.trim()
+          ? [[operation.object.id, operation] as const]
+          : [],
+      ),
+    )
+    if (nextUpdates.length === 0 || !nextUpdates.every((operation) => created.has(operation.objectId))) return null
+
+    return {
+      ...previous,
+      operations: previous.operations.map((operation) => {
+        if (operation.kind === "update") return operation
+        const update = nextUpdates.find((candidate) => candidate.objectId === operation.object.id)
+        return update ? { ...operation, object: { ...operation.object, ...update.after } as CanvasObject } : operation
+      }),
+      timestamp: next.timestamp,
+    }
+  }
+
+  if (previous.type !== "update" || next.timestamp - previous.timestamp > HISTORY_MERGE_WINDOW_MS) return null
+  if (previous.operations.length !== next.operations.length) return null
+
+  const merged: HistoryOperation[] = []
+  for (const operation of nextUpdates) {
+    const earlier = previous.operations.find(
+      (candidate): candidate is UpdateOperation =>
+        candidate.kind === "update" && candidate.objectId === operation.objectId,
+    )
+    if (!earlier || !sameKeys(earlier.after, operation.after)) return null
+    merged.push({ ...operation, before: earlier.before })
+  }
+
+  return { ...previous, operations: merged, timestamp: next.timestamp }
+}
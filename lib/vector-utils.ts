@@ -0,0 +1,680 @@
+import type { CanvasObject, PathPoint, VectorContour, VectorNode } from "./types"
+import { distanceToSegment, simplifyPath } from "./path-utils"
+
+/**
+ * Vector paths drawn with the bezier pen. A vector object is a list of
+ * contours, each a run of anchor nodes joined by cubic segments; a node's `in`
+ * and `out` handles are the control points of the segments either side of it,
+ * and a segment with no handles is straight. Like freehand paths, nodes and
+ * handles are normalised to 0..1 of the object's box so the usual move, resize
+ * and rotate code transforms them. Contours are filled with the even-odd rule,
+ * which is how the holes left by boolean operations show through.
+ */
+
+export const VECTOR_STROKE_COLOR = "#111827"
+export const VECTOR_STROKE_WIDTH = 2
+
+// Size of node and handle markers, in screen pixels
+export const VECTOR_HANDLE_SIZE = 8
+
+// Line segments each cubic is flattened into for hit testing, bounds and boolean operations
+const CURVE_STEPS = 16
+
+// Segments circles are approximated with when they take part in a boolean operation
+const CIRCLE_STEPS = 64
+
+export type VectorHandleKind = "anchor" | "in" | "out"
+
+export interface VectorNodeRef {
+  contour: number
+  node: number
+}
+
+export interface VectorHandleRef extends VectorNodeRef {
+  kind: VectorHandleKind
+}
+
+export interface VectorSegmentRef extends VectorNodeRef {
+  // Position along the segment from `node` to the next node
+  t: number
+}
+
+export function createVectorGeometry(
+  contours: VectorContour[],
+): Pick<CanvasObject, "x" | "y" | "width" | "height" | "contours"> {
+  const points = contours.flatMap((contour) => flattenContour(contour))
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  const width = Math.max(1, Math.max(...xs) - x)
+  const height = Math.max(1, Math.max(...ys) - y)
+
+  const normalize = (point: PathPoint) => ({
+    x: Number(((point.x - x) / width).toFixed(4)),
+    y: Number(((point.y - y) / height).toFixed(4)),
+  })
+
+  return {
+    x,
+    y,
+    width,
+    height,
+    contours: contours.map((contour) => ({
+      closed: contour.closed,
+      nodes: contour.nodes.map((node) => ({
+        ...normalize(node),
+        in: node.in ? normalize(node.in) : null,
+        out: node.out ? normalize(node.out) : null,
+        smooth: !!node.smooth,
+      })),
+    })),
+  }
+}
+
+export function createVector(
+  canvasId: string,
+  contours: VectorContour[],
+  options: { createdBy?: string } = {},
+): CanvasObject {
+  return {
+    id: crypto.randomUUID(),
+    canvas_id: canvasId,
+    type: "vector",
+    ...createVectorGeometry(contours),
+    rotation: 0,
+    fill_color: "transparent",
+    stroke_color: VECTOR_STROKE_COLOR,
+    stroke_width: VECTOR_STROKE_WIDTH,
+    created_by: options.createdBy,
+  }
+}
+
+// Canvas-space contours of a vector object, ignoring rotation
+export function getVectorContours(obj: CanvasObject): VectorContour[] {
+  const toCanvas = (point: PathPoint) => ({ x: obj.x + point.x * obj.width, y: obj.y + point.y * obj.height })
+  return (obj.contours ?? []).map((contour) => ({
+    closed: contour.closed,
+    nodes: contour.nodes.map((node) => ({
+      ...toCanvas(node),
+      in: node.in ? toCanvas(node.in) : null,
+      out: node.out ? toCanvas(node.out) : null,
+      smooth: node.smooth,
+    })),
+  }))
+}
+
+/**
+ * Store edited canvas-space contours on a vector, re-fitting its box. The box
+ * of a rotated vector turns about its centre, so when the centre moves the box
+ * is shifted to keep the nodes that were not edited where they are on screen.
+ */
+export function refitVector(obj: CanvasObject, contours: VectorContour[]): CanvasObject {
+  const geometry = createVectorGeometry(contours)
+  if (!obj.rotation) return { ...obj, ...geometry }
+
+  const rad = (obj.rotation * Math.PI) / 180
+  const dx = obj.x + obj.width / 2 - (geometry.x + geometry.width / 2)
+  const dy = obj.y + obj.height / 2 - (geometry.y + geometry.height / 2)
+  return {
+    ...obj,
+    ...geometry,
+    x: geometry.x + dx - (dx * Math.cos(rad) - dy * Math.sin(rad)),
+    y: geometry.y + dy - (dx * Math.sin(rad) + dy * Math.cos(rad)),
+  }
+}
+
+// A canvas point in the vector's unrotated frame, where its contours live
+export function toVectorLocal(obj: CanvasObject, pos: PathPoint): PathPoint {
+  const centerX = obj.x + obj.width / 2
+  const centerY = obj.y + obj.height / 2
+  const rad = (-obj.rotation * Math.PI) / 180
+  const dx = pos.x - centerX
+  const dy = pos.y - centerY
+  return {
+    x: centerX + dx * Math.cos(rad) - dy * Math.sin(rad),
+    y: centerY + dx * Math.sin(rad) + dy * Math.cos(rad),
+  }
+}
+
+function getSegment(contour: VectorContour, index: number): [PathPoint, PathPoint, PathPoint, PathPoint] {
+  const from = contour.nodes[index]
+  const to = contour.nodes[(index + 1) % contour.nodes.length]
+  return [from, from.out ?? from, to.in ?? to, to]
+}
+
+function getSegmentCount(contour: VectorContour): number {
+  if (contour.nodes.length < 2) return 0
+  return contour.closed ? contour.nodes.length : contour.nodes.length - 1
+}
+
+function isStraight(contour: VectorContour, index: number): boolean {
+  const from = contour.nodes[index]
+  const to = contour.nodes[(index + 1) % contour.nodes.length]
+  return !from.out && !to.in
+}
+
+function pointOnCubic(p0: PathPoint, p1: PathPoint, p2: PathPoint, p3: PathPoint, t: number): PathPoint {
+  const u = 1 - t
+  return {
+    x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+    y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+  }
+}
+
+// Polyline through a contour; closed contours do not repeat their first point
+export function flattenContour(contour: VectorContour): PathPoint[] {
+  if (contour.nodes.length === 0) return []
+  const points: PathPoint[] = [{ x: contour.nodes[0].x, y: contour.nodes[0].y }]
+  const count = getSegmentCount(contour)
+  for (let i = 0; i < count; i++) {
+    const [p0, p1, p2, p3] = getSegment(contour, i)
+    const steps = isStraight(contour, i) ? 1 : CURVE_STEPS
+    for (let step = 1; step <= steps; step++) {
+      points.push(pointOnCubic(p0, p1, p2, p3, step / steps))
+    }
+  }
+  if (contour.closed && points.length > 1) points.pop()
+  return points
+}
+
+// Trace canvas-space contours onto a 2D context or Path2D; the caller fills and strokes
+export function traceVector(ctx: CanvasPath, contours: VectorContour[]) {
+  contours.forEach((contour) => {
+    if (contour.nodes.length === 0) return
+    ctx.moveTo(contour.nodes[0].x, contour.nodes[0].y)
+    const count = getSegmentCount(contour)
+    for (let i = 0; i < count; i++) {
+      const [, p1, p2, p3] = getSegment(contour, i)
+      ctx.bezierCurveTo(p1.x, p1.y, p2.x, p2.y, p3.x, p3.y)
+    }
+    if (contour.closed) ctx.closePath()
+  })
+}
+
+export function getVectorPathData(contours: VectorContour[]): string {
+  const round = (value: number) => Number(value.toFixed(2))
+  return contours
+    .filter((contour) => contour.nodes.length > 0)
+    .map((contour) => {
+      let data = `M ${round(contour.nodes[0].x)} ${round(contour.nodes[0].y)}`
+      const count = getSegmentCount(contour)
+      for (let i = 0; i < count; i++) {
+        const [, p1, p2, p3] = getSegment(contour, i)
+        data += isStraight(contour, i)
+          ? ` L ${round(p3.x)} ${round(p3.y)}`
+          : ` C ${round(p1.x)} ${round(p1.y)}, ${round(p2.x)} ${round(p2.y)}, ${round(p3.x)} ${round(p3.y)}`
+      }
+      return contour.closed ? `${data} Z` : data
+    })
+    .join(" ")
+}
+
+// Draw a vector; the caller applies the object's rotation
+function isPointInRings(rings: PathPoint[][], point: PathPoint): boolean {
+  let inside = false
+  rings.forEach((ring) => {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i]
+      const b = ring[j]
+      if (a.y > point.y !== b.y > point.y && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+        inside = !inside
+      }
+    }
+  })
+  return inside
+}
+
+/**
+ * Whether a canvas-space point hits a vector: anywhere inside its fill, or
+ * near its outline when it is unfilled.
+ */
+export function isPointOnVector(obj: CanvasObject, pos: PathPoint, threshold: number): boolean {
+  const local = toVectorLocal(obj, pos)
+  const contours = getVectorContours(obj)
+  const filled = obj.fill_color !== "transparent"
+  if (filled && isPointInRings(contours.map((contour) => flattenContour(contour)), local)) return true
+
+  const reach = threshold + obj.stroke_width / 2
+  return contours.some((contour) => {
+    const points = flattenContour(contour)
+    if (contour.closed && points.length > 1) points.push(points[0])
+    if (points.length === 1) return Math.hypot(local.x - points[0].x, local.y - points[0].y) <= reach
+    return points.slice(1).some((point, i) => distanceToSegment(local, points[i], point) <= reach)
+  })
+}
+
+// The node or handle under a local point; handles win over anchors so they can be pulled out of a node
+export function findVectorHandle(
+  contours: VectorContour[],
+  local: PathPoint,
+  threshold: number,
+): VectorHandleRef | null {
+  const near = (point: PathPoint | null | undefined) =>
+    !!point && Math.abs(point.x - local.x) <= threshold && Math.abs(point.y - local.y) <= threshold
+
+  for (const kind of ["in", "out", "anchor"] as const) {
+    for (let c = 0; c < contours.length; c++) {
+      const index = contours[c].nodes.findIndex((node) => near(kind === "anchor" ? node : node[kind]))
+      if (index !== -1) return { contour: c, node: index, kind }
+    }
+  }
+  return null
+}
+
+// The segment under a local point, with the position along it
+export function findVectorSegment(
+  contours: VectorContour[],
+  local: PathPoint,
+  threshold: number,
+): VectorSegmentRef | null {
+  let best: VectorSegmentRef | null = null
+  let bestDistance = threshold
+
+  contours.forEach((contour, c) => {
+    const count = getSegmentCount(contour)
+    for (let i = 0; i < count; i++) {
+      const [p0, p1, p2, p3] = getSegment(contour, i)
+      let previous = p0
+      for (let step = 1; step <= CURVE_STEPS; step++) {
+        const point = pointOnCubic(p0, p1, p2, p3, step / CURVE_STEPS)
+        const distance = distanceToSegment(local, previous, point)
+        if (distance <= bestDistance) {
+          bestDistance = distance
+          best = { contour: c, node: i, t: (step - 0.5) / CURVE_STEPS }
+        }
+        previous = point
+      }
+    }
+  })
+  return best
+}
+
+function updateNode(
+  contours: VectorContour[],
+  ref: VectorNodeRef,
+  update: (node: VectorNode) => VectorNode,
+): VectorContour[] {
+  return contours.map((contour, c) =>
+    c === ref.contour
+      ? { ...contour, nodes: contour.nodes.map((node, i) => (i === ref.node ? update(node) : node)) }
+      : contour,
+  )
+}
+
+/**
+ * Move a node or one of its handles to a local point. Anchors carry their
+ * handles with them; on a smooth node the opposite handle turns to stay in
+ * line, keeping its own length.
+ */
+export function moveVectorHandle(contours: VectorContour[], ref: VectorHandleRef, point: PathPoint): VectorContour[] {
+  return updateNode(contours, ref, (node) => {
+    if (ref.kind === "anchor") {
+      const dx = point.x - node.x
+      const dy = point.y - node.y
+      const shift = (handle: PathPoint | null | undefined) => (handle ? { x: handle.x + dx, y: handle.y + dy } : null)
+      return { ...node, x: point.x, y: point.y, in: shift(node.in), out: shift(node.out) }
+    }
+
+    const opposite = ref.kind === "in" ? "out" : "in"
+    const moved: VectorNode = { ...node, [ref.kind]: { x: point.x, y: point.y } }
+    const other = node[opposite]
+    const angle = Math.atan2(node.y - point.y, node.x - point.x)
+    if (node.smooth && other) {
+      const length = Math.hypot(other.x - node.x, other.y - node.y)
+      moved[opposite] = { x: node.x + Math.cos(angle) * length, y: node.y + Math.sin(angle) * length }
+    }
+    return moved
+  })
+}
+
+/**
+ * Convert a node between corner and smooth. Smooth nodes get handles along
+ * the line between their neighbours, a third of the way to each; corners lose
+ * their handles, so the segments either side become straight.
+ */
+export function toggleVectorNodeSmooth(contours: VectorContour[], ref: VectorNodeRef): VectorContour[] {
+  const contour = contours[ref.contour]
+  const count = contour.nodes.length
+  const wrap = (index: number) => (contour.closed ? (index + count) % count : Math.max(0, Math.min(count - 1, index)))
+  const previous = contour.nodes[wrap(ref.node - 1)]
+  const next = contour.nodes[wrap(ref.node + 1)]
+
+  return updateNode(contours, ref, (node) => {
+    if (node.smooth || node.in || node.out) return { x: node.x, y: node.y, in: null, out: null, smooth: false }
+
+    const angle = Math.atan2(next.y - previous.y, next.x - previous.x)
+    const inLength = Math.hypot(node.x - previous.x, node.y - previous.y) / 3
+    const outLength = Math.hypot(next.x - node.x, next.y - node.y) / 3
+    return {
+      x: node.x,
+      y: node.y,
+      in: inLength > 0 ? { x: node.x - Math.cos(angle) * inLength, y: node.y - Math.sin(angle) * inLength } : null,
+      out: outLength > 0 ? { x: node.x + Math.cos(angle) * outLength, y: node.y + Math.sin(angle) * outLength } : null,
+      smooth: true,
+    }
+  })
+}
+
+// Remove a node; contours left with fewer than two nodes are dropped
+export function removeVectorNode(contours: VectorContour[], ref: VectorNodeRef): VectorContour[] {
+  return contours
+    .map((contour, c) =>
+      c === ref.contour ? { ...contour, nodes: contour.nodes.filter((_, i) => i !== ref.node) } : contour,
+    )
+    .filter((contour) => contour.nodes.length >= 2)
+    .map((contour) => (contour.nodes.length < 3 ? { ...contour, closed: false } : contour))
+}
+
+/**
+ * Insert a node on a segment without changing its shape, splitting the cubic
+ * at `t` with de Casteljau's construction. Returns the contours and the new
+ * node's position.
+ */
+export function insertVectorNode(
+  contours: VectorContour[],
+  segment: VectorSegmentRef,
+): { contours: VectorContour[]; node: VectorNodeRef } {
+  const contour = contours[segment.contour]
+  const nextIndex = (segment.node + 1) % contour.nodes.length
+  const from = contour.nodes[segment.node]
+  const to = contour.nodes[nextIndex]
+  const { t } = segment
+  const lerp = (a: PathPoint, b: PathPoint) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t })
+
+  let nodes: VectorNode[]
+  if (isStraight(contour, segment.node)) {
+    nodes = [from, { ...lerp(from, to), in: null, out: null, smooth: false }, to]
+  } else {
+    const [p0, p1, p2, p3] = getSegment(contour, segment.node)
+    const a = lerp(p0, p1)
+    const b = lerp(p1, p2)
+    const c = lerp(p2, p3)
+    const d = lerp(a, b)
+    const e = lerp(b, c)
+    const split = lerp(d, e)
+    nodes = [{ ...from, out: a }, { ...split, in: d, out: e, smooth: true }, { ...to, in: c }]
+  }
+
+  const updated = [...contour.nodes]
+  updated[segment.node] = nodes[0]
+  updated[nextIndex] = nodes[2]
+  updated.splice(segment.node + 1, 0, nodes[1])
+  return {
+    contours: contours.map((existing, c) => (c === segment.contour ? { ...contour, nodes: updated } : existing)),
+    node: { contour: segment.contour, node: segment.node + 1 },
+  }
+}
+
+/**
+ * Draw the nodes of a vector being edited, with the handles of smooth and
+ * curved nodes. The caller applies the object's rotation.
+ */
+export function drawVectorNodes(
+  ctx: CanvasRenderingContext2D,
+  contours: VectorContour[],
+  zoom: number,
+  selected: VectorNodeRef | null,
+) {
+  const size = VECTOR_HANDLE_SIZE / zoom
+  ctx.lineWidth = 1 / zoom
+  ctx.strokeStyle = "#3b82f6"
+
+  contours.forEach((contour, c) => {
+    contour.nodes.forEach((node, i) => {
+      ;[node.in, node.out].forEach((handle) => {
+        if (!handle) return
+        ctx.beginPath()
+        ctx.moveTo(node.x, node.y)
+        ctx.lineTo(handle.x, handle.y)
+        ctx.stroke()
+        ctx.fillStyle = "#ffffff"
+        ctx.beginPath()
+        ctx.arc(handle.x, handle.y, size / 2.5, 0, Math.PI * 2)
+        ctx.fill()
+        ctx.stroke()
+      })
+
+      const isSelected = selected?.contour === c && selected.node === i
+      ctx.fillStyle = isSelected ? "#3b82f6" : "#ffffff"
+      ctx.fillRect(node.x - size / 2, node.y - size / 2, size, size)
+      ctx.strokeRect(node.x - size / 2, node.y - size / 2, size, size)
+    })
+  })
+}
+
+export type BooleanOperation = "union" | "subtract" | "intersect" | "exclude"
+
+export const BOOLEAN_OPERATIONS: { value: BooleanOperation; label: string }[] = [
+  { value: "union", label: "Union" },
+  { value: "subtract", label: "Subtract" },
+  { value: "intersect", label: "Intersect" },
+  { value: "exclude", label: "Exclude" },
+]
+
+// Filled shapes that can be combined with boolean operations
+export function canCombine(obj: CanvasObject): boolean {
+  return obj.type === "rectangle" || obj.type === "circle" || obj.type === "triangle" || obj.type === "vector"
+}
+
+// Canvas-space outline of a shape as polygons, with its rotation applied
+function getOutline(obj: CanvasObject): PathPoint[][] {
+  const { x, y, width, height } = obj
+  let rings: PathPoint[][] = []
+  if (obj.type === "rectangle") {
+    rings = [
+      [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ],
+    ]
+  } else if (obj.type === "circle") {
+    // Circles are drawn with the smaller side as their diameter
+    const radius = Math.min(width, height) / 2
+    rings = [
+      Array.from({ length: CIRCLE_STEPS }, (_, i) => ({
+        x: x + width / 2 + Math.cos((i / CIRCLE_STEPS) * Math.PI * 2) * radius,
+        y: y + height / 2 + Math.sin((i / CIRCLE_STEPS) * Math.PI * 2) * radius,
+      })),
+    ]
+  } else if (obj.type === "triangle") {
+    rings = [
+      [
+        { x: x + width / 2, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ],
+    ]
+  } else if (obj.type === "vector") {
+    rings = getVectorContours(obj).map((contour) => flattenContour(contour))
+  }
+
+  const centerX = x + width / 2
+  const centerY = y + height / 2
+  const rad = (obj.rotation * Math.PI) / 180
+  return rings
+    .filter((ring) => ring.length >= 3)
+    .map((ring) =>
+      ring.map((point) => ({
+        x: centerX + (point.x - centerX) * Math.cos(rad) - (point.y - centerY) * Math.sin(rad),
+        y: centerY + (point.x - centerX) * Math.sin(rad) + (point.y - centerY) * Math.cos(rad),
+      })),
+    )
+}
+
+interface Edge {
+  from: PathPoint
+  to: PathPoint
+  // Positions along the edge where other edges cross it
+  splits: { t: number; point: PathPoint }[]
+}
+
+// Distance either side of an edge at which the result region is sampled
+const SAMPLE_OFFSET = 0.01
+
+function addIntersections(a: Edge, b: Edge) {
+  const rx = a.to.x - a.from.x
+  const ry = a.to.y - a.from.y
+  const sx = b.to.x - b.from.x
+  const sy = b.to.y - b.from.y
+  const denominator = rx * sy - ry * sx
+  const qx = b.from.x - a.from.x
+  const qy = b.from.y - a.from.y
+
+  if (Math.abs(denominator) < 1e-9) {
+    // Parallel: overlapping collinear edges are split at each other's ends
+    const length = Math.hypot(rx, ry)
+    if (length === 0 || Math.abs(qx * ry - qy * rx) / length > 1e-6) return
+    const project = (edge: Edge, point: PathPoint) => {
+      const dx = edge.to.x - edge.from.x
+      const dy = edge.to.y - edge.from.y
+      return ((point.x - edge.from.x) * dx + (point.y - edge.from.y) * dy) / (dx * dx + dy * dy || 1)
+    }
+    ;[b.from, b.to].forEach((point) => {
+      const t = project(a, point)
+      if (t > 1e-9 && t < 1 - 1e-9) a.splits.push({ t, point })
+    })
+    ;[a.from, a.to].forEach((point) => {
+      const t = project(b, point)
+      if (t > 1e-9 && t < 1 - 1e-9) b.splits.push({ t, point })
+    })
+    return
+  }
+
+  const t = (qx * sy - qy * sx) / denominator
+  const u = (qx * ry - qy * rx) / denominator
+  if (t < -1e-9 || t > 1 + 1e-9 || u < -1e-9 || u > 1 + 1e-9) return
+
+  const point = { x: a.from.x + rx * t, y: a.from.y + ry * t }
+  if (t > 1e-9 && t < 1 - 1e-9) a.splits.push({ t, point })
+  if (u > 1e-9 && u < 1 - 1e-9) b.splits.push({ t: u, point })
+}
+
+const pointKey = (point: PathPoint) => `${point.x.toFixed(3)},${point.y.toFixed(3)}`
+
+/**
+ * Boolean operation on polygons. Every edge of every operand is split where
+ * it crosses another, then kept only if the result is filled on exactly one
+ * side of it, oriented with the filled side on its left; the kept edges are
+ * chained back into rings. Sampling both sides of each piece sidesteps the
+ * special cases (shared edges, touching corners) that trip up walking-based
+ * clippers.
+ */
+function combineRings(operands: PathPoint[][][], operation: BooleanOperation): PathPoint[][] {
+  const edges: Edge[] = operands.flatMap((rings) =>
+    rings.flatMap((ring) => ring.map((from, i) => ({ from, to: ring[(i + 1) % ring.length], splits: [] }))),
+  )
+
+  for (let i = 0; i < edges.length; i++) {
+    const a = edges[i]
+    for (let j = i + 1; j < edges.length; j++) {
+      const b = edges[j]
+      if (
+        Math.max(a.from.x, a.to.x) < Math.min(b.from.x, b.to.x) ||
+        Math.min(a.from.x, a.to.x) > Math.max(b.from.x, b.to.x) ||
+        Math.max(a.from.y, a.to.y) < Math.min(b.from.y, b.to.y) ||
+        Math.min(a.from.y, a.to.y) > Math.max(b.from.y, b.to.y)
+      ) {
+        continue
+      }
+      addIntersections(a, b)
+    }
+  }
+
+  const isFilled = (point: PathPoint) => {
+    const inside = operands.map((rings) => isPointInRings(rings, point))
+    if (operation === "union") return inside.some(Boolean)
+    if (operation === "intersect") return inside.every(Boolean)
+    if (operation === "subtract") return inside[0] && !inside.slice(1).some(Boolean)
+    return inside.filter(Boolean).length % 2 === 1
+  }
+
+  const outgoing = new Map<string, { from: PathPoint; to: PathPoint }[]>()
+  const kept = new Set<string>()
+  edges.forEach((edge) => {
+    const points = [edge.from, ...edge.splits.sort((a, b) => a.t - b.t).map((split) => split.point), edge.to]
+    for (let i = 0; i < points.length - 1; i++) {
+      const from = points[i]
+      const to = points[i + 1]
+      const length = Math.hypot(to.x - from.x, to.y - from.y)
+      if (length < 1e-6) continue
+
+      const middle = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 }
+      const normal = { x: (-(to.y - from.y) / length) * SAMPLE_OFFSET, y: ((to.x - from.x) / length) * SAMPLE_OFFSET }
+      const left = isFilled({ x: middle.x + normal.x, y: middle.y + normal.y })
+      const right = isFilled({ x: middle.x - normal.x, y: middle.y - normal.y })
+      if (left === right) continue
+
+      const piece = left ? { from, to } : { from: to, to: from }
+      // Edges shared by two operands would otherwise be kept twice
+      const key = `${pointKey(piece.from)}>${pointKey(piece.to)}`
+      if (kept.has(key)) continue
+      kept.add(key)
+      const start = pointKey(piece.from)
+      outgoing.set(start, [...(outgoing.get(start) ?? []), piece])
+    }
+  })
+
+  const rings: PathPoint[][] = []
+  outgoing.forEach((pieces) => {
+    while (pieces.length > 0) {
+      const ring: PathPoint[] = []
+      let piece = pieces.pop()
+      const startKey = piece ? pointKey(piece.from) : ""
+      while (piece) {
+        ring.push(piece.from)
+        const key = pointKey(piece.to)
+        if (key === startKey) break
+        piece = outgoing.get(key)?.pop()
+      }
+      if (ring.length >= 3) rings.push(ring)
+    }
+  })
+  return rings
+}
+
+/**
+ * Combine shapes into a new vector object, replacing them. Operands are taken
+ * in stacking order: subtract cuts everything above from the bottom shape,
+ * whose style the result also takes. Curves are flattened, so the result's
+ * nodes are all corners. Returns null when fewer than two shapes can be
+ * combined or the result is empty (e.g. intersecting shapes that do not
+ * overlap).
+ */
+export function combineShapes(
+  objects: CanvasObject[],
+  selectedIds: string[],
+  operation: BooleanOperation,
+): { objects: CanvasObject[]; result: CanvasObject } | null {
+  const operands = objects.filter((obj) => selectedIds.includes(obj.id) && canCombine(obj))
+  if (operands.length < 2) return null
+
+  const rings = combineRings(operands.map(getOutline), operation)
+    .map((ring) => simplifyPath([...ring, ring[0]], SAMPLE_OFFSET).slice(0, -1))
+    .filter((ring) => ring.length >= 3)
+  if (rings.length === 0) return null
+
+  const bottom = operands[0]
+  const result: CanvasObject = {
+    id: crypto.randomUUID(),
+    canvas_id: bottom.canvas_id,
+    type: "vector",
+    ...createVectorGeometry(rings.map((ring) => ({ closed: true, nodes: ring.map((point) => ({ ...point })) }))),
+    rotation: 0,
+    fill_color: bottom.fill_color,
+    stroke_color: bottom.stroke_color,
+    stroke_width: bottom.stroke_width,
+    parent_group: bottom.parent_group ?? null,
+    frame_id: bottom.frame_id ?? null,
+  }
+
+  // The result takes the place of the topmost operand
+  const operandIds = new Set(operands.map((obj) => obj.id))
+  const top = operands[operands.length - 1]
+  return {
+    objects: objects.flatMap((obj) => (obj.id === top.id ? [result] : operandIds.has(obj.id) ? [] : [obj])),
+    result,
+  }
+}
@@ -1,7 +1,16 @@
 import { createServerClient } from "@supabase/ssr"
 import { NextResponse, type NextRequest } from "next/server"
 
+// Public share links carry their own token and never need a Supabase session.
+// The browser client keeps sessions in localStorage, so the login redirect
+// itself happens client-side in the /canvas pages; share routes never run it.
+const PUBLIC_SHARE_PREFIXES = ["/share/", "/api/share/"]
+
 export async function middleware(request: NextRequest) {
+  if (PUBLIC_SHARE_PREFIXES.some((prefix) => request.nextUrl.pathname.startsWith(prefix))) {
+    return NextResponse.next({ request })
+  }
+
   let supabaseResponse = NextResponse.next({
     request,
   })
@@ -0,0 +1,63 @@
+-- Create canvases table so each board has its own identity, name and owner
+-- canvas_id columns elsewhere are TEXT, so canvases.id is TEXT as well
+CREATE TABLE IF NOT EXISTS canvases (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name TEXT NOT NULL DEFAULT 'Untitled canvas',
+  owner_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for dashboard queries
+CREATE INDEX IF NOT EXISTS idx_canvases_owner_id ON canvases(owner_id);
+CREATE INDEX IF NOT EXISTS idx_canvases_created_at ON canvases(created_at DESC);
+
+-- Register the legacy shared board so existing objects, comments and history keep working
+INSERT INTO canvases (id, name)
+VALUES ('default', 'Team canvas')
+ON CONFLICT (id) DO NOTHING;
+
+-- Enable Row Level Security
+ALTER TABLE canvases ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Authenticated users can list canvases
+CREATE POLICY "Allow authenticated users to read canvases"
+  ON canvases FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Policy: Users can create canvases they own
+CREATE POLICY "Users can create own canvases"
+  ON canvases FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = owner_id);
+
+-- Policy: Owners can rename their canvases
+CREATE POLICY "Owners can update canvases"
+  ON canvases FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = owner_id);
+
+-- Policy: Owners can delete their canvases
+CREATE POLICY "Owners can delete canvases"
+  ON canvases FOR DELETE
+  TO authenticated
+  USING (auth.uid() = owner_id);
+
+-- Remove a canvas's content when the canvas itself is deleted
+CREATE OR REPLACE FUNCTION delete_canvas_content()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM canvas_objects WHERE canvas_id = OLD.id;
+  DELETE FROM canvas_comments WHERE canvas_id = OLD.id;
+  DELETE FROM canvas_history WHERE canvas_id = OLD.id;
+  DELETE FROM user_presence WHERE canvas_id = OLD.id;
+  DELETE FROM ai_operations_queue WHERE canvas_id = OLD.id;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_canvas_deleted ON canvases;
+CREATE TRIGGER on_canvas_deleted
+  AFTER DELETE ON canvases
+  FOR EACH ROW EXECUTE FUNCTION delete_canvas_content();
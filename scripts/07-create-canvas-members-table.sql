@@ -0,0 +1,237 @@
+-- Create canvas_members table so each canvas can be shared with per-user roles
+-- Roles, from most to least privileged: owner, editor, commenter, viewer
+CREATE TABLE IF NOT EXISTS canvas_members (
+  canvas_id TEXT NOT NULL REFERENCES canvases(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'commenter', 'viewer')),
+  user_email TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (canvas_id, user_id)
+);
+
+-- Create index for "canvases shared with me" lookups
+CREATE INDEX IF NOT EXISTS idx_canvas_members_user_id ON canvas_members(user_id);
+
+-- Backfill owners for canvases created before this migration
+INSERT INTO canvas_members (canvas_id, user_id, role, user_email)
+SELECT c.id, c.owner_id, 'owner', u.email
+FROM canvases c
+JOIN auth.users u ON u.id = c.owner_id
+WHERE c.owner_id IS NOT NULL
+ON CONFLICT (canvas_id, user_id) DO NOTHING;
+
+-- Resolve the caller's role on a canvas. The legacy "default" board stays open to
+-- every authenticated user as editors. Other canvases lose their owner when the
+-- owner's account is deleted, and stay closed to everyone but their members.
+-- SECURITY DEFINER so policies on canvas_members can call it without recursion.
+CREATE OR REPLACE FUNCTION canvas_role(p_canvas_id TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  member_role TEXT;
+BEGIN
+  SELECT role INTO member_role
+  FROM canvas_members
+  WHERE canvas_id = p_canvas_id AND user_id = auth.uid();
+
+  IF member_role IS NOT NULL THEN
+    RETURN member_role;
+  END IF;
+
+  IF p_canvas_id = 'default' AND EXISTS (SELECT 1 FROM canvases WHERE id = 'default' AND owner_id IS NULL) THEN
+    RETURN 'editor';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_view_canvas(p_canvas_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT canvas_role(p_canvas_id) IS NOT NULL;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION can_comment_canvas(p_canvas_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT canvas_role(p_canvas_id) IN ('owner', 'editor', 'commenter');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION can_edit_canvas(p_canvas_id TEXT)
+RETURNS BOOLEAN AS $$
+  SELECT canvas_role(p_canvas_id) IN ('owner', 'editor');
+$$ LANGUAGE sql STABLE;
+
+-- Add the creator as owner whenever a canvas is created
+CREATE OR REPLACE FUNCTION add_canvas_owner_membership()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.owner_id IS NOT NULL THEN
+    INSERT INTO canvas_members (canvas_id, user_id, role, user_email)
+    SELECT NEW.id, NEW.owner_id, 'owner', u.email
+    FROM auth.users u
+    WHERE u.id = NEW.owner_id
+    ON CONFLICT (canvas_id, user_id) DO UPDATE SET role = 'owner';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS on_canvas_created ON canvases;
+CREATE TRIGGER on_canvas_created
+  AFTER INSERT ON canvases
+  FOR EACH ROW EXECUTE FUNCTION add_canvas_owner_membership();
+
+-- Share a canvas by email. Only owners may call this; auth.users is not
+-- readable from the browser, so the lookup happens here.
+CREATE OR REPLACE FUNCTION share_canvas(p_canvas_id TEXT, p_email TEXT, p_role TEXT)
+RETURNS canvas_members AS $$
+DECLARE
+  target_user_id UUID;
+  result canvas_members;
+BEGIN
+  IF canvas_role(p_canvas_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the canvas owner can share it';
+  END IF;
+
+  IF p_role NOT IN ('editor', 'commenter', 'viewer') THEN
+    RAISE EXCEPTION 'Invalid role: %', p_role;
+  END IF;
+
+  SELECT id INTO target_user_id FROM auth.users WHERE lower(email) = lower(trim(p_email));
+
+  IF target_user_id IS NULL THEN
+    RAISE EXCEPTION 'No user found with email %', p_email;
+  END IF;
+
+  INSERT INTO canvas_members (canvas_id, user_id, role, user_email)
+  VALUES (p_canvas_id, target_user_id, p_role, lower(trim(p_email)))
+  ON CONFLICT (canvas_id, user_id) DO UPDATE SET role = EXCLUDED.role
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Enable Row Level Security
+ALTER TABLE canvas_members ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Members can see who else has access
+CREATE POLICY "Members can read canvas members"
+  ON canvas_members FOR SELECT
+  TO authenticated
+  USING (can_view_canvas(canvas_id));
+
+-- Policy: Owners can change roles (but not demote the owner row). The check runs on the updated row too,
+-- so a member row cannot be moved to a canvas the caller does not own.
+CREATE POLICY "Owners can update canvas members"
+  ON canvas_members FOR UPDATE
+  TO authenticated
+  USING (canvas_role(canvas_id) = 'owner' AND role <> 'owner')
+  WITH CHECK (canvas_role(canvas_id) = 'owner' AND role IN ('editor', 'commenter', 'viewer'));
+
+-- Policy: Owners can remove members; anyone can leave a canvas they don't own
+CREATE POLICY "Owners can remove canvas members"
+  ON canvas_members FOR DELETE
+  TO authenticated
+  USING (role <> 'owner' AND (canvas_role(canvas_id) = 'owner' OR user_id = auth.uid()));
+
+-- Canvases are only listed for their members
+DROP POLICY IF EXISTS "Allow authenticated users to read canvases" ON canvases;
+CREATE POLICY "Members can read canvases"
+  ON canvases FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid() OR can_view_canvas(id));
+
+-- canvas_objects: viewers and commenters read, editors and owners write
+DROP POLICY IF EXISTS "Allow authenticated users to read canvas objects" ON canvas_objects;
+DROP POLICY IF EXISTS "Allow authenticated users to insert canvas objects" ON canvas_objects;
+DROP POLICY IF EXISTS "Allow authenticated users to update canvas objects" ON canvas_objects;
+DROP POLICY IF EXISTS "Allow authenticated users to delete canvas objects" ON canvas_objects;
+
+CREATE POLICY "Members can read canvas objects"
+  ON canvas_objects FOR SELECT
+  TO authenticated
+  USING (can_view_canvas(canvas_id));
+
+CREATE POLICY "Editors can insert canvas objects"
+  ON canvas_objects FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_canvas(canvas_id));
+
+CREATE POLICY "Editors can update canvas objects"
+  ON canvas_objects FOR UPDATE
+  TO authenticated
+  USING (can_edit_canvas(canvas_id));
+
+CREATE POLICY "Editors can delete canvas objects"
+  ON canvas_objects FOR DELETE
+  TO authenticated
+  USING (can_edit_canvas(canvas_id));
+
+-- canvas_comments: members read, commenters and above write
+DROP POLICY IF EXISTS "Users can view comments" ON canvas_comments;
+DROP POLICY IF EXISTS "Users can create comments" ON canvas_comments;
+DROP POLICY IF EXISTS "Users can delete resolved comments" ON canvas_comments;
+DROP POLICY IF EXISTS "Users can delete own comments" ON canvas_comments;
+DROP POLICY IF EXISTS "Users can update own comment content" ON canvas_comments;
+DROP POLICY IF EXISTS "Anyone can resolve comments" ON canvas_comments;
+
+CREATE POLICY "Members can view comments" ON canvas_comments
+  FOR SELECT USING (can_view_canvas(canvas_id));
+
+CREATE POLICY "Commenters can create comments" ON canvas_comments
+  FOR INSERT WITH CHECK (auth.uid() = created_by AND can_comment_canvas(canvas_id));
+
+CREATE POLICY "Commenters can delete resolved comments" ON canvas_comments
+  FOR DELETE USING (resolved = true AND can_comment_canvas(canvas_id));
+
+CREATE POLICY "Commenters can delete own comments" ON canvas_comments
+  FOR DELETE USING (auth.uid() = created_by AND can_comment_canvas(canvas_id));
+
+CREATE POLICY "Commenters can update own comment content" ON canvas_comments
+  FOR UPDATE
+  USING (auth.uid() = created_by AND can_comment_canvas(canvas_id))
+  WITH CHECK (auth.uid() = created_by AND can_comment_canvas(canvas_id));
+
+CREATE POLICY "Commenters can resolve comments" ON canvas_comments
+  FOR UPDATE
+  USING (can_comment_canvas(canvas_id))
+  WITH CHECK (can_comment_canvas(canvas_id));
+
+-- canvas_history: members read, editors snapshot
+DROP POLICY IF EXISTS "Users can read canvas history" ON canvas_history;
+DROP POLICY IF EXISTS "Authenticated users can insert history" ON canvas_history;
+
+CREATE POLICY "Members can read canvas history"
+  ON canvas_history FOR SELECT
+  USING (can_view_canvas(canvas_id));
+
+CREATE POLICY "Editors can insert history"
+  ON canvas_history FOR INSERT
+  WITH CHECK (auth.uid() = created_by AND can_edit_canvas(canvas_id));
+
+-- ai_operations_queue: only editors may enqueue or change AI work
+DROP POLICY IF EXISTS "Allow authenticated users to read AI queue" ON ai_operations_queue;
+DROP POLICY IF EXISTS "Allow authenticated users to insert AI queue" ON ai_operations_queue;
+DROP POLICY IF EXISTS "Allow authenticated users to update AI queue" ON ai_operations_queue;
+DROP POLICY IF EXISTS "Allow authenticated users to delete AI queue" ON ai_operations_queue;
+
+CREATE POLICY "Members can read AI queue"
+  ON ai_operations_queue FOR SELECT
+  TO authenticated
+  USING (can_view_canvas(canvas_id));
+
+CREATE POLICY "Editors can insert AI queue"
+  ON ai_operations_queue FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_canvas(canvas_id));
+
+CREATE POLICY "Editors can update AI queue"
+  ON ai_operations_queue FOR UPDATE
+  TO authenticated
+  USING (can_edit_canvas(canvas_id))
+  WITH CHECK (can_edit_canvas(canvas_id));
+
+CREATE POLICY "Editors can delete AI queue"
+  ON ai_operations_queue FOR DELETE
+  TO authenticated
+  USING (can_edit_canvas(canvas_id));
@@ -0,0 +1,38 @@
+-- Create canvas_share_links table for read-only public links
+-- Anyone holding an active token can view the canvas without signing in
+CREATE TABLE IF NOT EXISTS canvas_share_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canvas_id TEXT NOT NULL REFERENCES canvases(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(gen_random_bytes(24), 'hex'),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- Create indexes for token lookups and the share panel
+CREATE INDEX IF NOT EXISTS idx_canvas_share_links_canvas_id ON canvas_share_links(canvas_id);
+CREATE INDEX IF NOT EXISTS idx_canvas_share_links_token ON canvas_share_links(token);
+
+-- Enable Row Level Security
+-- Tokens are resolved by the /api/share route with the service role, so the
+-- anon role never needs direct access to this table.
+ALTER TABLE canvas_share_links ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Owners can list links for their canvases
+CREATE POLICY "Owners can read share links"
+  ON canvas_share_links FOR SELECT
+  TO authenticated
+  USING (canvas_role(canvas_id) = 'owner');
+
+-- Policy: Owners can create links
+CREATE POLICY "Owners can create share links"
+  ON canvas_share_links FOR INSERT
+  TO authenticated
+  WITH CHECK (canvas_role(canvas_id) = 'owner' AND auth.uid() = created_by);
+
+-- Policy: Owners can revoke links
+CREATE POLICY "Owners can update share links"
+  ON canvas_share_links FOR UPDATE
+  TO authenticated
+  USING (canvas_role(canvas_id) = 'owner');
@@ -0,0 +1,8 @@
+-- Add freehand path support to canvas_objects
+-- Points are stored normalised to 0..1 within the object's width/height
+
+ALTER TABLE canvas_objects
+ADD COLUMN IF NOT EXISTS points JSONB;
+
+-- Add comment to document the change
+COMMENT ON COLUMN canvas_objects.points IS 'Stroke points for path objects, as [{x, y}] normalised to the object box';
@@ -0,0 +1,16 @@
+-- Add connector support to canvas_objects
+-- Bindings are {object_id, anchor: {x, y}} with the anchor normalised to 0..1 of the target's box
+
+ALTER TABLE canvas_objects
+ADD COLUMN IF NOT EXISTS start_binding JSONB,
+ADD COLUMN IF NOT EXISTS end_binding JSONB,
+ADD COLUMN IF NOT EXISTS route TEXT,
+ADD COLUMN IF NOT EXISTS start_arrowhead TEXT,
+ADD COLUMN IF NOT EXISTS end_arrowhead TEXT;
+
+-- Add comments to document the change
+COMMENT ON COLUMN canvas_objects.start_binding IS 'Object and anchor the connector start is attached to, null when free';
+COMMENT ON COLUMN canvas_objects.end_binding IS 'Object and anchor the connector end is attached to, null when free';
+COMMENT ON COLUMN canvas_objects.route IS 'Connector routing: straight or elbow';
+COMMENT ON COLUMN canvas_objects.start_arrowhead IS 'Connector start arrowhead: none, arrow, triangle or circle';
+COMMENT ON COLUMN canvas_objects.end_arrowhead IS 'Connector end arrowhead: none, arrow, triangle or circle';
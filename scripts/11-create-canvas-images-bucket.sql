@@ -0,0 +1,26 @@
+-- Add image objects to canvas_objects and the storage bucket that holds uploads
+-- Uploads live at canvas-images/<canvas_id>/<uuid>.<ext>
+
+ALTER TABLE canvas_objects
+ADD COLUMN IF NOT EXISTS image_url TEXT;
+
+COMMENT ON COLUMN canvas_objects.image_url IS 'Public URL of the uploaded file for image objects';
+
+-- Public so share links and exports can load images without a session; file
+-- names are random UUIDs, so URLs are not guessable
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'canvas-images',
+  'canvas-images',
+  true,
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/gif', 'image/webp']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Only editors of a canvas may upload into its folder (uses can_edit_canvas from 07)
+DROP POLICY IF EXISTS "Editors can upload canvas images" ON storage.objects;
+CREATE POLICY "Editors can upload canvas images"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'canvas-images' AND can_edit_canvas((storage.foldername(name))[1]));
@@ -0,0 +1,12 @@
+-- Add rich text support to canvas_objects
+-- Runs are [{text, bold?, italic?, underline?}] concatenating to text_content; null for unformatted text
+
+ALTER TABLE canvas_objects
+ADD COLUMN IF NOT EXISTS text_runs JSONB,
+ADD COLUMN IF NOT EXISTS text_align TEXT,
+ADD COLUMN IF NOT EXISTS line_height REAL;
+
+-- Add comments to document the change
+COMMENT ON COLUMN canvas_objects.text_runs IS 'Styled spans of a text object, null when the text has no formatting';
+COMMENT ON COLUMN canvas_objects.text_align IS 'Text alignment: left, center or right (null is centered)';
+COMMENT ON COLUMN canvas_objects.line_height IS 'Line height as a multiple of font_size, null for 1.2';
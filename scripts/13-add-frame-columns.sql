@@ -0,0 +1,13 @@
+-- Add frames (artboards) to canvas_objects
+-- Frames are objects of type 'frame'; their children point at them through frame_id
+
+ALTER TABLE canvas_objects
+ADD COLUMN IF NOT EXISTS name TEXT,
+ADD COLUMN IF NOT EXISTS frame_id UUID;
+
+-- Children are looked up by frame when a frame is moved or deleted
+CREATE INDEX IF NOT EXISTS idx_canvas_objects_frame_id ON canvas_objects(frame_id);
+
+-- Add comments to document the change
+COMMENT ON COLUMN canvas_objects.name IS 'Display name of a frame';
+COMMENT ON COLUMN canvas_objects.frame_id IS 'Frame this object belongs to, null for objects outside any frame';
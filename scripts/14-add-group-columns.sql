@@ -0,0 +1,10 @@
+-- Persist group membership on canvas_objects so nested groups survive a reload
+-- A group lists its direct children; each child points back at its group
+
+ALTER TABLE canvas_objects
+ADD COLUMN IF NOT EXISTS parent_group UUID,
+ADD COLUMN IF NOT EXISTS children JSONB;
+
+-- Add comments to document the change
+COMMENT ON COLUMN canvas_objects.parent_group IS 'Group this object belongs to, null at the top level';
+COMMENT ON COLUMN canvas_objects.children IS 'IDs of the direct children of a group object, which may be groups themselves';
@@ -0,0 +1,8 @@
+-- Persist bezier contours on canvas_objects for vector paths
+-- Each contour is {nodes: [{x, y, in, out, smooth}], closed}, normalised to 0..1 of the object's box
+
+ALTER TABLE canvas_objects
+ADD COLUMN IF NOT EXISTS contours JSONB;
+
+-- Add comments to document the change
+COMMENT ON COLUMN canvas_objects.contours IS 'Bezier contours of vector objects, with nodes and handles normalised to the object box';
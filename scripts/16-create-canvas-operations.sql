@@ -0,0 +1,187 @@
+-- Append-only log of object edits with server-assigned sequence numbers
+-- Every edit goes through append_canvas_operation, which numbers it per canvas and applies it to
+-- canvas_objects in that order. Clients catch up by reading operations after the last number they saw,
+-- and the log is compacted into snapshots as it grows.
+
+ALTER TABLE canvases
+ADD COLUMN IF NOT EXISTS last_seq BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS snapshot_seq BIGINT NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN canvases.last_seq IS 'Sequence number of the latest operation applied to the canvas';
+COMMENT ON COLUMN canvases.snapshot_seq IS 'Sequence number of the latest snapshot in canvas_snapshots';
+
+CREATE TABLE IF NOT EXISTS canvas_operations (
+  canvas_id TEXT NOT NULL REFERENCES canvases(id) ON DELETE CASCADE,
+  seq BIGINT NOT NULL,
+  patches JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (canvas_id, seq)
+);
+
+COMMENT ON COLUMN canvas_operations.patches IS 'Object patches: create with the full object, update with changed columns, or delete';
+
+CREATE TABLE IF NOT EXISTS canvas_snapshots (
+  canvas_id TEXT NOT NULL REFERENCES canvases(id) ON DELETE CASCADE,
+  seq BIGINT NOT NULL,
+  objects JSONB NOT NULL,
+  object_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (canvas_id, seq)
+);
+
+COMMENT ON TABLE canvas_snapshots IS 'canvas_objects rows of a canvas as of operation seq';
+
+-- Apply one patch to canvas_objects. Updates set only the columns named in the patch.
+CREATE OR REPLACE FUNCTION apply_canvas_patch(p_canvas_id TEXT, p_patch JSONB)
+RETURNS VOID AS $$
+DECLARE
+  target_id UUID;
+  assignments TEXT;
+BEGIN
+  CASE p_patch->>'op'
+  WHEN 'create' THEN
+    target_id := (p_patch->'object'->>'id')::UUID;
+
+    -- A create for an object that still exists on this canvas (e.g. an undone delete that never
+    -- reached the server) rewrites it in place. Ids on other canvases are never matched, so a create
+    -- cannot reach into a canvas the caller may not edit; it fails on the primary key instead.
+    IF EXISTS (SELECT 1 FROM canvas_objects WHERE id = target_id AND canvas_id = p_canvas_id) THEN
+      PERFORM apply_canvas_patch(
+        p_canvas_id,
+        jsonb_build_object('op', 'update', 'id', target_id, 'changes', p_patch->'object')
+      );
+      RETURN;
+    END IF;
+
+    INSERT INTO canvas_objects
+    SELECT * FROM jsonb_populate_record(
+      NULL::canvas_objects,
+      '{"rotation": 0, "stroke_width": 1}'::JSONB || (p_patch->'object') || jsonb_build_object(
+        'canvas_id', p_canvas_id,
+        'created_by', auth.uid(),
+        'created_at', NOW(),
+        'updated_at', NOW()
+      )
+    );
+  WHEN 'update' THEN
+    SELECT string_agg(format('%I = r.%I', column_name, column_name), ', ')
+    INTO assignments
+    FROM information_schema.columns
+    WHERE table_schema = 'public'
+      AND table_name = 'canvas_objects'
+      AND (p_patch->'changes') ? column_name::TEXT
+      AND column_name NOT IN ('id', 'canvas_id', 'created_by', 'created_at', 'updated_at');
+
+    IF assignments IS NOT NULL THEN
+      EXECUTE format(
+        'UPDATE canvas_objects o SET %s, updated_at = NOW() '
+        'FROM jsonb_populate_record(NULL::canvas_objects, $1) r WHERE o.id = $2 AND o.canvas_id = $3',
+        assignments
+      ) USING p_patch->'changes', (p_patch->>'id')::UUID, p_canvas_id;
+    END IF;
+  WHEN 'delete' THEN
+    DELETE FROM canvas_objects WHERE id = (p_patch->>'id')::UUID AND canvas_id = p_canvas_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown patch operation: %', p_patch->>'op';
+  END CASE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Snapshot the canvas at its latest sequence number, then drop operations more than p_keep behind it
+-- and all but the newest p_keep_snapshots snapshots
+CREATE OR REPLACE FUNCTION compact_canvas_operations(
+  p_canvas_id TEXT,
+  p_keep BIGINT DEFAULT 2000,
+  p_keep_snapshots INTEGER DEFAULT 20
+)
+RETURNS BIGINT AS $$
+DECLARE
+  head BIGINT;
+BEGIN
+  SELECT last_seq INTO head FROM canvases WHERE id = p_canvas_id FOR UPDATE;
+
+  INSERT INTO canvas_snapshots (canvas_id, seq, objects, object_count)
+  SELECT p_canvas_id, head, COALESCE(jsonb_agg(to_jsonb(o)), '[]'::JSONB), COUNT(o.id)
+  FROM canvas_objects o
+  WHERE o.canvas_id = p_canvas_id
+  ON CONFLICT (canvas_id, seq) DO NOTHING;
+
+  UPDATE canvases SET snapshot_seq = head WHERE id = p_canvas_id;
+
+  DELETE FROM canvas_operations WHERE canvas_id = p_canvas_id AND seq <= head - p_keep;
+
+  DELETE FROM canvas_snapshots
+  WHERE canvas_id = p_canvas_id
+    AND seq < (
+      SELECT seq FROM canvas_snapshots
+      WHERE canvas_id = p_canvas_id
+      ORDER BY seq DESC
+      OFFSET p_keep_snapshots - 1
+      LIMIT 1
+    );
+
+  RETURN head;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Append a batch of patches as the canvas's next operation and apply it. Returns the sequence number.
+-- Taking the canvas row lock serialises appends per canvas until commit, so sequence numbers have no
+-- gaps and operations become visible in sequence order.
+-- SECURITY DEFINER so it can advance canvases.last_seq; editing rights are checked here instead.
+CREATE OR REPLACE FUNCTION append_canvas_operation(p_canvas_id TEXT, p_patches JSONB)
+RETURNS BIGINT AS $$
+DECLARE
+  next_seq BIGINT;
+  last_snapshot BIGINT;
+  patch JSONB;
+BEGIN
+  IF NOT COALESCE(can_edit_canvas(p_canvas_id), FALSE) THEN
+    RAISE EXCEPTION 'Only editors can change canvas %', p_canvas_id;
+  END IF;
+
+  UPDATE canvases SET last_seq = last_seq + 1 WHERE id = p_canvas_id
+  RETURNING last_seq, snapshot_seq INTO next_seq, last_snapshot;
+
+  IF next_seq IS NULL THEN
+    RAISE EXCEPTION 'Canvas % not found', p_canvas_id;
+  END IF;
+
+  INSERT INTO canvas_operations (canvas_id, seq, patches, created_by)
+  VALUES (p_canvas_id, next_seq, p_patches, auth.uid());
+
+  FOR patch IN SELECT * FROM jsonb_array_elements(p_patches) LOOP
+    PERFORM apply_canvas_patch(p_canvas_id, patch);
+  END LOOP;
+
+  -- Compact every 500 operations
+  IF next_seq - last_snapshot >= 500 THEN
+    PERFORM compact_canvas_operations(p_canvas_id);
+  END IF;
+
+  RETURN next_seq;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create index for listing a canvas's snapshots by time; catch-up reads use the primary key
+CREATE INDEX IF NOT EXISTS idx_canvas_snapshots_created_at ON canvas_snapshots(canvas_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE canvas_operations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE canvas_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Members can read the log and snapshots; both are only written by the functions above
+CREATE POLICY "Members can read canvas operations"
+  ON canvas_operations FOR SELECT
+  TO authenticated
+  USING (can_view_canvas(canvas_id));
+
+CREATE POLICY "Members can read canvas snapshots"
+  ON canvas_snapshots FOR SELECT
+  TO authenticated
+  USING (can_view_canvas(canvas_id));
+
+-- canvas_objects is now written only through the log, so every edit is ordered
+DROP POLICY IF EXISTS "Editors can insert canvas objects" ON canvas_objects;
+DROP POLICY IF EXISTS "Editors can update canvas objects" ON canvas_objects;
+DROP POLICY IF EXISTS "Editors can delete canvas objects" ON canvas_objects;
@@ -0,0 +1,13 @@
+-- Starting point for playback of canvases created before the operation log
+-- Objects that existed before 16-create-canvas-operations.sql were never logged, so replaying a canvas from its
+-- first operation would leave them out. Canvases with no logged operations yet get a snapshot at sequence 0
+-- for playback to start from. Canvases already edited through the log cannot get an exact starting point; their
+-- playback leaves out unlogged objects until compaction replaces the first operations with a snapshot.
+
+INSERT INTO canvas_snapshots (canvas_id, seq, objects, object_count)
+SELECT c.id, 0, jsonb_agg(to_jsonb(o)), COUNT(o.id)
+FROM canvases c
+JOIN canvas_objects o ON o.canvas_id = c.id
+WHERE c.last_seq = 0
+GROUP BY c.id
+ON CONFLICT (canvas_id, seq) DO NOTHING;
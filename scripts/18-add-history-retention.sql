@@ -0,0 +1,64 @@
+-- Record why each history snapshot was taken, and prune automatic snapshots as they accumulate
+-- Snapshots saved from the History panel are kept until deleted with the canvas. Automatic ones (activity
+-- interval, before AI runs, before bulk deletes, before restores) are thinned out as they age.
+
+ALTER TABLE canvas_history
+ADD COLUMN IF NOT EXISTS reason TEXT NOT NULL DEFAULT 'manual'
+  CHECK (reason IN ('manual', 'interval', 'ai', 'bulk_delete', 'restore'));
+
+COMMENT ON COLUMN canvas_history.reason IS 'Why the snapshot was taken; only non-manual snapshots are pruned';
+
+-- Snapshots saved by the old two-minute auto-save were labelled rather than typed
+UPDATE canvas_history SET reason = 'interval' WHERE reason = 'manual' AND description = 'Auto-save';
+
+-- Retention for automatic snapshots of the canvas a snapshot was just saved to:
+--   the newest 20 are always kept;
+--   beyond those, one per hour is kept for the last day and one per day after that;
+--   nothing older than 30 days is kept.
+-- Trigger-only: SECURITY DEFINER because members have no delete policy, so no one may call it directly.
+DROP FUNCTION IF EXISTS prune_canvas_history(TEXT, INTEGER, INTERVAL);
+
+CREATE OR REPLACE FUNCTION prune_canvas_history_after_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  keep_recent CONSTANT INTEGER := 20;
+  max_age CONSTANT INTERVAL := '30 days';
+BEGIN
+  WITH automatic AS (
+    SELECT
+      id,
+      created_at,
+      ROW_NUMBER() OVER (ORDER BY created_at DESC) AS recency,
+      date_trunc(
+        CASE WHEN created_at > NOW() - INTERVAL '1 day' THEN 'hour' ELSE 'day' END,
+        created_at
+      ) AS bucket
+    FROM canvas_history
+    WHERE canvas_id = NEW.canvas_id AND reason <> 'manual'
+  ),
+  ranked AS (
+    SELECT id, created_at, recency, ROW_NUMBER() OVER (PARTITION BY bucket ORDER BY created_at DESC) AS bucket_rank
+    FROM automatic
+  )
+  DELETE FROM canvas_history
+  WHERE id IN (
+    SELECT id FROM ranked
+    WHERE recency > keep_recent
+      AND (bucket_rank > 1 OR created_at < NOW() - max_age)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION prune_canvas_history_after_insert() FROM PUBLIC, authenticated, anon;
+
+DROP TRIGGER IF EXISTS on_canvas_history_inserted ON canvas_history;
+CREATE TRIGGER on_canvas_history_inserted
+  AFTER INSERT ON canvas_history
+  FOR EACH ROW
+  WHEN (NEW.reason <> 'manual')
+  EXECUTE FUNCTION prune_canvas_history_after_insert();
+
+-- Create index for finding a canvas's newest snapshot (auto-save checks it before saving)
+CREATE INDEX IF NOT EXISTS idx_canvas_history_canvas_created_at ON canvas_history(canvas_id, created_at DESC);
@@ -0,0 +1,42 @@
+-- Create canvas_guides table for ruler guide lines
+-- Guides are dragged out of the rulers and shared by everyone on the canvas; dragged objects snap to them.
+CREATE TABLE IF NOT EXISTS canvas_guides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canvas_id TEXT NOT NULL REFERENCES canvases(id) ON DELETE CASCADE,
+  axis TEXT NOT NULL CHECK (axis IN ('x', 'y')),
+  position REAL NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN canvas_guides.axis IS 'x: a vertical guide at x = position; y: a horizontal guide at y = position';
+
+-- Create index for loading a canvas's guides
+CREATE INDEX IF NOT EXISTS idx_canvas_guides_canvas_id ON canvas_guides(canvas_id);
+
+-- Enable Row Level Security
+ALTER TABLE canvas_guides ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Members can see the guides of canvases they can view
+CREATE POLICY "Members can read canvas guides"
+  ON canvas_guides FOR SELECT
+  TO authenticated
+  USING (can_view_canvas(canvas_id));
+
+-- Policy: Editors can add guides
+CREATE POLICY "Editors can create canvas guides"
+  ON canvas_guides FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_canvas(canvas_id) AND auth.uid() = created_by);
+
+-- Policy: Editors can move guides
+CREATE POLICY "Editors can update canvas guides"
+  ON canvas_guides FOR UPDATE
+  TO authenticated
+  USING (can_edit_canvas(canvas_id));
+
+-- Policy: Editors can remove guides
+CREATE POLICY "Editors can delete canvas guides"
+  ON canvas_guides FOR DELETE
+  TO authenticated
+  USING (can_edit_canvas(canvas_id));
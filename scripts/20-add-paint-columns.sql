@@ -0,0 +1,16 @@
+-- Add opacity, gradient fills, dashed strokes, corner radius and shadows to canvas_objects
+-- Gradients are {type, angle, stops: [{offset, color}]}; shadows are [{type, x, y, blur, color, opacity}]
+
+ALTER TABLE canvas_objects
+ADD COLUMN IF NOT EXISTS opacity REAL,
+ADD COLUMN IF NOT EXISTS fill_gradient JSONB,
+ADD COLUMN IF NOT EXISTS stroke_dash TEXT,
+ADD COLUMN IF NOT EXISTS corner_radius REAL,
+ADD COLUMN IF NOT EXISTS shadows JSONB;
+
+-- Add comments to document the change
+COMMENT ON COLUMN canvas_objects.opacity IS 'Opacity of the whole object from 0 to 1, null for fully opaque';
+COMMENT ON COLUMN canvas_objects.fill_gradient IS 'Linear or radial gradient replacing fill_color, null for a solid fill';
+COMMENT ON COLUMN canvas_objects.stroke_dash IS 'Stroke style: solid, dashed or dotted (null is solid)';
+COMMENT ON COLUMN canvas_objects.corner_radius IS 'Corner radius of rectangles, null for square corners';
+COMMENT ON COLUMN canvas_objects.shadows IS 'Drop and inner shadows, drawn in order; offsets and blur in canvas units';
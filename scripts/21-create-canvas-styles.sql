@@ -0,0 +1,58 @@
+-- Create canvas_styles table for shared colour swatches and named text styles
+-- Objects bound to a style copy its values; the client editing a style restyles the bound objects.
+CREATE TABLE IF NOT EXISTS canvas_styles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canvas_id TEXT NOT NULL REFERENCES canvases(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('color', 'text')),
+  color TEXT,
+  font_family TEXT,
+  font_size REAL,
+  line_height REAL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON COLUMN canvas_styles.name IS 'Display name, e.g. Primary/500 or Heading text; the AI applies styles by name';
+COMMENT ON COLUMN canvas_styles.kind IS 'color: a swatch using color; text: a text style using font_family, font_size and line_height';
+
+-- Create index for loading a canvas's styles
+CREATE INDEX IF NOT EXISTS idx_canvas_styles_canvas_id ON canvas_styles(canvas_id);
+
+-- Enable Row Level Security
+ALTER TABLE canvas_styles ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Members can see the styles of canvases they can view
+CREATE POLICY "Members can read canvas styles"
+  ON canvas_styles FOR SELECT
+  TO authenticated
+  USING (can_view_canvas(canvas_id));
+
+-- Policy: Editors can add styles
+CREATE POLICY "Editors can create canvas styles"
+  ON canvas_styles FOR INSERT
+  TO authenticated
+  WITH CHECK (can_edit_canvas(canvas_id) AND auth.uid() = created_by);
+
+-- Policy: Editors can edit styles
+CREATE POLICY "Editors can update canvas styles"
+  ON canvas_styles FOR UPDATE
+  TO authenticated
+  USING (can_edit_canvas(canvas_id));
+
+-- Policy: Editors can remove styles
+CREATE POLICY "Editors can delete canvas styles"
+  ON canvas_styles FOR DELETE
+  TO authenticated
+  USING (can_edit_canvas(canvas_id));
+
+-- Bind objects to styles. No foreign key: object saves may reach the server before the style's insert,
+-- and clients unbind objects themselves when a style is deleted.
+ALTER TABLE canvas_objects
+ADD COLUMN IF NOT EXISTS fill_token UUID,
+ADD COLUMN IF NOT EXISTS stroke_token UUID,
+ADD COLUMN IF NOT EXISTS text_token UUID;
+
+COMMENT ON COLUMN canvas_objects.fill_token IS 'canvas_styles swatch the fill colour follows, null when unbound';
+COMMENT ON COLUMN canvas_objects.stroke_token IS 'canvas_styles swatch the stroke colour follows, null when unbound';
+COMMENT ON COLUMN canvas_objects.text_token IS 'canvas_styles text style the font follows, null when unbound';